@@ -348,6 +348,576 @@ describe('CLI Integration Tests', () => {
       expect(svg).toContain('<svg');
       expect(svg).toContain('<rect');
     });
+
+    it('should render hand-drawn strokes deterministically', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      const first = path.join(tempDir, 'first.svg');
+      const second = path.join(tempDir, 'second.svg');
+      
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 0 --y 0 --width 100 --height 50 --roughness 2`);
+      run(`export "${file}" --output "${first}"`);
+      run(`export "${file}" --output "${second}"`);
+      
+      const svg = fs.readFileSync(first, 'utf-8');
+      expect(svg).toMatch(/<path d="M[^"]*C/);
+      expect(svg).toBe(fs.readFileSync(second, 'utf-8'));
+    });
+
+    it('should render hachure fills as line patterns', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      const output = path.join(tempDir, 'output.svg');
+      
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 0 --y 0 --width 100 --height 50 --fill "#ffc9c9" --fill-style hachure`);
+      run(`export "${file}" --output "${output}"`);
+      
+      const svg = fs.readFileSync(output, 'utf-8');
+      expect(svg).toContain('fill="none" stroke="#ffc9c9"');
+      expect(svg).not.toContain('fill="#ffc9c9"');
+    });
+
+    it('should rotate elements around their centre', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      const output = path.join(tempDir, 'output.svg');
+      
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 0 --y 0 --width 100 --height 100 --id rect-1`);
+      run(`modify "${file}" --id rect-1 --rotate 45`);
+      
+      const { stdout } = run(`export "${file}" --output "${output}" --padding 0`);
+      const result = parseOutput(stdout);
+      
+      expect(result.width).toBeCloseTo(100 * Math.SQRT2);
+      expect(fs.readFileSync(output, 'utf-8')).toContain('transform="rotate(45 50 50)"');
+    });
+
+    it('should draw crisp shapes with --no-rough', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      const output = path.join(tempDir, 'output.svg');
+      
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 0 --y 0 --width 100 --height 50`);
+      run(`export "${file}" --output "${output}" --no-rough`);
+      
+      const svg = fs.readFileSync(output, 'utf-8');
+      expect(svg).toContain('<path d="M12.5 0 L87.5 0 C');
+    });
+
+    it('should use each text element\'s font family and alignment', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      const output = path.join(tempDir, 'output.svg');
+      
+      run(`create "${file}"`);
+      run(`add "${file}" --type text --x 0 --y 0 --text "Code" --font-family 3 --text-align right`);
+      run(`export "${file}" --output "${output}"`);
+      
+      const svg = fs.readFileSync(output, 'utf-8');
+      expect(svg).toContain('font-family="Cascadia, &apos;Cascadia Code&apos;, Consolas, monospace"');
+      expect(svg).toContain('text-anchor="end"');
+      expect(svg).not.toContain('Virgil');
+    });
+
+    it('should convert every colour in dark mode', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      const output = path.join(tempDir, 'output.svg');
+      
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 0 --y 0 --width 100 --height 50 --stroke "#e03131" --fill "#ffc9c9"`);
+      run(`add "${file}" --type text --x 0 --y 60 --text "Dark"`);
+      run(`export "${file}" --output "${output}" --dark`);
+      
+      const svg = fs.readFileSync(output, 'utf-8');
+      expect(svg).toContain('fill="#121212"');
+      expect(svg).toContain('stroke="#ff8383"');
+      expect(svg).toContain('#5b2d2d');
+      expect(svg).toContain('fill="#d3d3d3"');
+      expect(svg).not.toMatch(/#e03131|#ffc9c9|#1e1e1e/);
+    });
+
+    it('should export only the selected elements', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      const output = path.join(tempDir, 'output.svg');
+      
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 0 --y 0 --width 100 --height 50 --id box-1`);
+      run(`add "${file}" --type rectangle --x 500 --y 500 --width 40 --height 20 --id box-2`);
+      
+      const { stdout } = run(`export "${file}" --output "${output}" --id box-2 --padding 5`);
+      const result = parseOutput(stdout);
+      
+      expect(result.selected).toBe(1);
+      expect(result.width).toBe(50);
+      expect(result.height).toBe(30);
+      
+      const missing = run(`export "${file}" --output "${output}" --group nope`);
+      expect(missing.stderr).toContain('No elements match the selection');
+    });
+
+    it('should export PNG without a browser', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      const output = path.join(tempDir, 'output.png');
+      
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 0 --y 0 --width 100 --height 50 --fill "#a5d8ff"`);
+      
+      const { stdout } = run(`export "${file}" --output "${output}" --scale 2`);
+      const result = parseOutput(stdout);
+      
+      expect(result.success).toBe(true);
+      expect(result.format).toBe('png');
+      expect(result.renderer).toBe('builtin');
+      expect(result.width).toBe(240);
+      
+      const png = fs.readFileSync(output);
+      expect(png.subarray(1, 4).toString('latin1')).toBe('PNG');
+      expect(png.readUInt32BE(16)).toBe(240);
+      expect(png.readUInt32BE(20)).toBe(140);
+    });
+
+    it('should reject PNG scales and renderers it cannot use', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      const output = path.join(tempDir, 'output.png');
+
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 0 --y 0 --width 100 --height 50`);
+
+      for (const scale of ['abc', '0', '-1']) {
+        expect(run(`export "${file}" --output "${output}" --scale ${scale}`).stderr).toContain(`Invalid scale: ${scale} (expected a positive number)`);
+      }
+      expect(run(`export "${file}" --output "${output}" --scale 1e9`).stderr).toContain('Image too large');
+      expect(run(`export "${file}" --output "${output}" --renderer bogus`).stderr).toContain('Invalid renderer: bogus (expected builtin or playwright)');
+      expect(fs.existsSync(output)).toBe(false);
+    });
+
+    it('should export PDF detected from the extension', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      const output = path.join(tempDir, 'output.pdf');
+      
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 0 --y 0 --width 100 --height 50`);
+      
+      const { stdout } = run(`export "${file}" --output "${output}" --page-size letter`);
+      const result = parseOutput(stdout);
+      
+      expect(result.success).toBe(true);
+      expect(result.format).toBe('pdf');
+      expect(result.width).toBe(792);
+      expect(result.height).toBe(612);
+      expect(fs.readFileSync(output, 'latin1')).toMatch(/^%PDF-1\.4[\s\S]*%%EOF\n$/);
+    });
+
+    it('should reject unknown formats', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      const output = path.join(tempDir, 'output.xyz');
+
+      run(`create "${file}"`);
+
+      const { stderr } = run(`export "${file}" --output "${output}" --format xyz`);
+      expect(stderr).toContain('Unknown export format: xyz (expected png, svg, pdf, html, drawio, mermaid, dot)');
+      expect(fs.existsSync(output)).toBe(false);
+    });
+
+    it('should embed the scene so exported images can be edited', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      const png = path.join(tempDir, 'test.excalidraw.png');
+      const svg = path.join(tempDir, 'test.excalidraw.svg');
+      
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 0 --y 0 --width 100 --height 50`);
+      run(`export "${file}" --output "${png}" --embed-scene`);
+      run(`export "${file}" --output "${svg}" --embed-scene`);
+      
+      expect(fs.readFileSync(svg, 'utf-8')).toContain('<!-- payload-type:application/vnd.excalidraw+json -->');
+      expect(parseOutput(run(`info "${svg}"`).stdout).elementCount).toBe(1);
+      
+      run(`add "${png}" --type ellipse --x 0 --y 100 --width 50 --height 50`);
+      expect(parseOutput(run(`info "${png}"`).stdout).elementCount).toBe(2);
+      expect(fs.readFileSync(png).subarray(1, 4).toString()).toBe('PNG');
+    });
+
+    it('should edit and export Obsidian Excalidraw notes', () => {
+      const note = path.join(tempDir, 'Plan.excalidraw.md');
+      const output = path.join(tempDir, 'plan.svg');
+
+      run(`create "${note}"`);
+      fs.writeFileSync(note, fs.readFileSync(note, 'utf-8').replace('---\n==', '---\nSee [[Roadmap]].\n=='));
+      run(`add "${note}" --type rectangle --x 0 --y 0 --width 100 --height 50 --id a`);
+      run(`add "${note}" --type rectangle --x 200 --y 0 --width 100 --height 50 --id b`);
+      run(`connect "${note}" --from a --to b --label Next`);
+
+      const content = fs.readFileSync(note, 'utf-8');
+      expect(content).toContain('See [[Roadmap]].');
+      expect(content).toMatch(/## Text Elements\nNext \^[\w-]+\n/);
+      expect(parseOutput(run(`info "${note}"`).stdout).elementTypes).toEqual({ rectangle: 2, arrow: 1, text: 1 });
+
+      const exported = parseOutput(run(`export "${note}" --output "${output}"`).stdout);
+      expect(exported.success).toBe(true);
+      expect(fs.readFileSync(output, 'utf-8')).toContain('>Next</tspan>');
+    });
+
+    it('should export frames, images and embeds', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      const output = path.join(tempDir, 'output.svg');
+      const pixel = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+      
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 20 --y 20 --width 300 --height 50 --id child`);
+      const drawing = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      const base = drawing.elements[0];
+      drawing.elements[0].frameId = 'frame-1';
+      drawing.elements.push(
+        { ...base, id: 'frame-1', type: 'frame', name: 'Checkout', x: 0, y: 0, width: 200, height: 100, frameId: null },
+        { ...base, id: 'image-1', type: 'image', fileId: 'file-1', status: 'saved', scale: [1, 1], x: 0, y: 120, width: 40, height: 40, frameId: null },
+        { ...base, id: 'embed-1', type: 'embeddable', link: 'https://example.com/video', x: 0, y: 200, width: 300, height: 100, frameId: null }
+      );
+      drawing.files = { 'file-1': { id: 'file-1', mimeType: 'image/png', dataURL: `data:image/png;base64,${pixel}`, created: 1 } };
+      fs.writeFileSync(file, JSON.stringify(drawing));
+      
+      run(`export "${file}" --output "${output}" --dark`);
+      const svg = fs.readFileSync(output, 'utf-8');
+      
+      expect(svg).toMatch(/<clipPath id="clip-0">\s*<path d="M0 0 L200 0 L200 100 L0 100 L0 0"\/>/);
+      expect(svg).toContain('clip-path="url(#clip-0)"');
+      expect(svg).toContain('>Checkout</tspan>');
+      expect(svg).toContain(`href="data:image/png;base64,${pixel}"`);
+      expect(svg).toContain('>example.com</tspan>');
+      expect(svg).toContain('>https://example.com/video</tspan>');
+    });
+
+    it('should export one page per frame', () => {
+      const file = path.join(tempDir, 'deck.excalidraw');
+      
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 20 --y 20 --width 100 --height 50`);
+      const drawing = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      const base = drawing.elements[0];
+      drawing.elements = [
+        { ...base, id: 'f1', type: 'frame', name: 'Intro', x: 0, y: 0, width: 200, height: 100 },
+        { ...base, id: 'r1', frameId: 'f1' },
+        { ...base, id: 'f2', type: 'frame', name: 'Next: API/DB', x: 300, y: 0, width: 200, height: 100 },
+        { ...base, id: 'r2', x: 320, frameId: 'f2' },
+        { ...base, id: 'f3', type: 'frame', name: 'Intro', x: 600, y: 0, width: 200, height: 100 }
+      ];
+      fs.writeFileSync(file, JSON.stringify(drawing));
+      
+      const svgs = parseOutput(run(`export "${file}" --output "${tempDir}/slides" --per-frame`).stdout);
+      expect(svgs.pages.map((p: any) => [p.frame, path.basename(p.output)])).toEqual([
+        ['f1', 'Intro.svg'], ['f2', 'Next- API-DB.svg'], ['f3', 'Intro-2.svg']
+      ]);
+      const intro = fs.readFileSync(path.join(tempDir, 'slides', 'Intro.svg'), 'utf-8');
+      expect(intro).toContain('>Intro</tspan>');
+      expect(intro).not.toContain('API/DB');
+      
+      const pngs = parseOutput(run(`export "${file}" --output "${tempDir}/{frame}.png" --per-frame --frame f2`).stdout);
+      expect(pngs.pages).toHaveLength(1);
+      expect(fs.existsSync(path.join(tempDir, 'Next- API-DB.png'))).toBe(true);
+      
+      const pdf = parseOutput(run(`export "${file}" --output "${tempDir}/deck.pdf" --per-frame`).stdout);
+      expect(pdf.pages.map((p: any) => p.name)).toEqual(['Intro', 'Next: API/DB', 'Intro']);
+      expect(fs.readFileSync(path.join(tempDir, 'deck.pdf'), 'latin1')).toContain('/Count 3');
+      
+      const drawio = parseOutput(run(`export "${file}" --output "${tempDir}/deck.drawio" --per-frame`).stdout);
+      expect(drawio).toMatchObject({ success: true, format: 'drawio', warnings: [] });
+      expect(fs.readFileSync(path.join(tempDir, 'deck.drawio'), 'utf-8').match(/<diagram id="[^"]+" name="[^"]+"/g)).toHaveLength(3);
+    });
+
+    it('should export the connected shapes as Mermaid or DOT source', () => {
+      const file = path.join(tempDir, 'flow.excalidraw');
+
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 0 --y 0 --width 120 --height 60 --id api --label API`);
+      run(`add "${file}" --type ellipse --x 0 --y 200 --width 120 --height 60 --id db --label Database`);
+      run(`add "${file}" --type text --x 300 --y 0 --text "draft" --id note`);
+      run(`add "${file}" --type arrow --x 300 --y 100 --points "[[0,0],[100,0]]" --id stray`);
+      run(`connect "${file}" --from api --to db --label reads`);
+
+      const mermaid = parseOutput(run(`export "${file}" --output "${tempDir}/flow.mmd"`).stdout);
+      expect(mermaid).toMatchObject({ success: true, format: 'mermaid', direction: 'TB', nodeCount: 2, edgeCount: 1, clusterCount: 0 });
+      expect(mermaid.warnings).toEqual([
+        'Text "note": free text "draft" left out',
+        'Arrow "stray": not bound at both ends, left out'
+      ]);
+      expect(fs.readFileSync(path.join(tempDir, 'flow.mmd'), 'utf-8')).toBe(
+        'flowchart TB\n  api("API")\n  db(["Database"])\n  api -->|"reads"| db\n'
+      );
+
+      const dot = parseOutput(run(`export "${file}" --output "${tempDir}/flow.gv"`).stdout);
+      expect(dot).toMatchObject({ success: true, format: 'dot', nodeCount: 2, edgeCount: 1 });
+      expect(fs.readFileSync(path.join(tempDir, 'flow.gv'), 'utf-8')).toContain('api -> db [label=reads];');
+    });
+
+    it('should export links and accessible names in SVG', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      const output = path.join(tempDir, 'output.svg');
+      
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 0 --y 0 --width 120 --height 60 --id api --label API --link "https://docs.example.com/api?v=1&x=2"`);
+      run(`add "${file}" --type rectangle --x 300 --y 0 --width 120 --height 60 --id db --label Database`);
+      run(`add "${file}" --type arrow --x 120 --y 30 --points "[[0,0],[180,0]]" --start-binding api --end-binding db --link "javascript:alert(1)"`);
+      
+      run(`export "${file}" --output "${output}"`);
+      const svg = fs.readFileSync(output, 'utf-8');
+      
+      expect(svg).toContain('role="img" aria-label="Diagram: API, Database"');
+      expect(svg).toMatch(/<a href="https:\/\/docs\.example\.com\/api\?v=1&amp;x=2">\s*<g>\s*<title>API<\/title>\s*<desc>Rectangle<\/desc>/);
+      expect(svg).toContain('<desc>Arrow from API to Database</desc>');
+      expect(svg).not.toContain('javascript:');
+      
+      run(`export "${file}" --output "${output}" --title "Service map"`);
+      expect(fs.readFileSync(output, 'utf-8')).toContain('aria-label="Service map"');
+    });
+
+    it('should export a standalone interactive HTML page', () => {
+      const file = path.join(tempDir, 'notes.excalidraw');
+      const output = path.join(tempDir, 'notes.html');
+      
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 0 --y 0 --width 120 --height 60 --label "</script>" --link "https://example.com"`);
+      
+      const result = parseOutput(run(`export "${file}" --output "${output}" --embed-scene`).stdout);
+      expect(result).toMatchObject({ success: true, format: 'html', embedScene: true, width: 140, height: 80 });
+      
+      const html = fs.readFileSync(output, 'utf-8');
+      expect(html).toMatch(/^<!DOCTYPE html>/);
+      expect(html).toContain('<a href="https://example.com">');
+      expect(html).not.toMatch(/(src|href)="https?:\/\/(?!example\.com)/);
+      
+      const json = /<script type="application\/vnd\.excalidraw\+json" id="excalidraw-scene">(.*?)<\/script>/.exec(html)![1];
+      expect(JSON.parse(json).elements.some((el: any) => el.text === '</script>')).toBe(true);
+      expect(html).toContain('data-file-name="notes.excalidraw"');
+    });
+
+    it('should export every drawing in a directory and skip up-to-date outputs', () => {
+      const src = path.join(tempDir, 'drawings');
+      const out = path.join(tempDir, 'out');
+      fs.mkdirSync(path.join(src, 'nested'), { recursive: true });
+      
+      for (const name of ['a', 'b', 'nested/c']) {
+        const file = path.join(src, `${name}.excalidraw`);
+        run(`create "${file}"`);
+        run(`add "${file}" --type rectangle --x 0 --y 0 --width 100 --height 50`);
+      }
+      fs.writeFileSync(path.join(src, 'broken.excalidraw'), '{');
+      
+      const first = parseOutput(run(`export "${src}" --output "${out}" --format png --concurrency 2`).stdout);
+      expect(first.success).toBe(false);
+      expect(first).toMatchObject({ total: 4, exported: 3, skipped: 0, failed: 1 });
+      expect(first.files.find((f: any) => f.status === 'failed').input).toContain('broken');
+      expect(fs.existsSync(path.join(out, 'nested', 'c.png'))).toBe(true);
+      
+      fs.rmSync(path.join(src, 'broken.excalidraw'));
+      const second = parseOutput(run(`export "${src}" --output "${out}" --format png`).stdout);
+      expect(second).toMatchObject({ success: true, total: 3, exported: 0, skipped: 3 });
+      
+      const forced = parseOutput(run(`export "${src}" --output "${out}" --format png --force`).stdout);
+      expect(forced.exported).toBe(3);
+    });
+
+    it('should export drawings matching a glob to an output pattern', () => {
+      for (const name of ['one', 'two']) {
+        const file = path.join(tempDir, `${name}.excalidraw`);
+        run(`create "${file}"`);
+        run(`add "${file}" --type ellipse --x 0 --y 0 --width 40 --height 40`);
+      }
+      
+      const { stdout } = run(`export "${tempDir}/*.excalidraw" --output "${tempDir}/svg/{name}-light.svg"`);
+      const result = parseOutput(stdout);
+      
+      expect(result.exported).toBe(2);
+      expect(result.files.map((f: any) => path.basename(f.output))).toEqual(['one-light.svg', 'two-light.svg']);
+      expect(result.files[0]).toMatchObject({ status: 'exported', format: 'svg', width: 60, height: 60 });
+    });
+  });
+
+  describe('preview command', () => {
+    it('should draw the drawing as text', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      
+      run(`create "${file}"`);
+      run(`add "${file}" --type rectangle --x 0 --y 0 --width 120 --height 60 --label API`);
+      run(`add "${file}" --type ellipse --x 300 --y 0 --width 120 --height 60 --label Cache`);
+      
+      const { stdout } = run(`preview "${file}" --width 60`);
+      const lines = stdout.trimEnd().split('\n');
+      
+      expect(lines[0]).toMatch(/^╭─+╮\s+╭─+╮$/);
+      expect(stdout).toContain('API');
+      expect(stdout).toContain('Cache');
+      
+      const json = parseOutput(run(`preview "${file}" --width 60 --ascii --format json`).stdout);
+      expect(json).toMatchObject({ columns: 43, rows: 4 });
+      expect(json.lines[0]).toMatch(/^\+-+\+/);
+    });
+
+    it('should reject an invalid width', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      run(`create "${file}"`);
+      
+      const { stderr } = run(`preview "${file}" --width none`);
+      expect(stderr).toContain('Invalid width');
+    });
+  });
+
+  describe('import command', () => {
+    it('should import a Mermaid flowchart', () => {
+      const source = path.join(tempDir, 'flow.mmd');
+      const file = path.join(tempDir, 'flow.excalidraw');
+      fs.writeFileSync(source, [
+        'flowchart LR',
+        '  A[Client] -->|HTTP| B(API)',
+        '  subgraph Backend',
+        '    B -.-> C[(DB)]',
+        '  end',
+        '  sequence of words'
+      ].join('\n'));
+
+      const result = parseOutput(run(`import "${source}" -o "${file}"`).stdout);
+      expect(result).toMatchObject({ success: true, format: 'mermaid', direction: 'LR', nodeCount: 3, edgeCount: 2, frameCount: 1 });
+      expect(result.warnings).toEqual(['Line 6: skipped "sequence of words"']);
+
+      const drawing = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      const arrows = drawing.elements.filter((el: any) => el.type === 'arrow');
+      expect(arrows).toHaveLength(2);
+      for (const arrow of arrows) {
+        expect(drawing.elements.find((el: any) => el.id === arrow.startBinding.elementId).boundElements).toContainEqual({ id: arrow.id, type: 'arrow' });
+      }
+      expect(drawing.elements.find((el: any) => el.type === 'frame').name).toBe('Backend');
+    });
+
+    it('should import a Graphviz DOT graph detected from the extension', () => {
+      const source = path.join(tempDir, 'deps.gv');
+      const file = path.join(tempDir, 'deps.excalidraw');
+      fs.writeFileSync(source, 'digraph {\n  subgraph cluster_lib { label="Lib"; core [shape=box] }\n  app -> core [style=dashed];\n}\n');
+
+      const result = parseOutput(run(`import "${source}" -o "${file}"`).stdout);
+      expect(result).toMatchObject({ success: true, format: 'dot', nodeCount: 2, edgeCount: 1, frameCount: 1, warnings: [] });
+
+      const drawing = JSON.parse(fs.readFileSync(file, 'utf-8'));
+      const arrow = drawing.elements.find((el: any) => el.type === 'arrow');
+      expect(arrow.strokeStyle).toBe('dashed');
+      expect(drawing.elements.find((el: any) => el.id === arrow.endBinding.elementId).type).toBe('rectangle');
+    });
+
+    it('should import the first diagram block of a markdown file', () => {
+      const source = path.join(tempDir, 'doc.md');
+      const file = path.join(tempDir, 'doc.excalidraw');
+      fs.writeFileSync(source, '# Shop\n\n```js\nconst a = 1;\n```\n\n```d2\nUser -> Cart\n```\n\n```mermaid\nflowchart LR\n  A --> B --> C\n```\n');
+
+      const result = parseOutput(run(`import "${source}" -o "${file}"`).stdout);
+      expect(result).toMatchObject({ success: true, format: 'd2', nodeCount: 2, edgeCount: 1 });
+
+      fs.writeFileSync(source, '# Shop\n\nNo diagrams here.\n');
+      expect(run(`import "${source}" -o "${file}" --force`).stderr).toContain('No mermaid, plantuml or d2 block found in');
+    });
+
+    it('should import PlantUML and D2 diagrams detected from the extension', () => {
+      const puml = path.join(tempDir, 'shop.puml');
+      const d2 = path.join(tempDir, 'shop.d2');
+      const file = path.join(tempDir, 'shop.excalidraw');
+      fs.writeFileSync(puml, '@startuml\nactor User\npackage Shop {\n  [Cart]\n}\nUser --> [Cart] : adds\nnote left of User : hi\n@enduml\n');
+      fs.writeFileSync(d2, 'User: { shape: person }\nShop: { Cart }\nUser -> Shop.Cart: adds\n');
+
+      for (const [source, format, warnings] of [[puml, 'plantuml', ['Line 7: skipped note']], [d2, 'd2', []]] as const) {
+        const result = parseOutput(run(`import "${source}" -o "${file}" --force`).stdout);
+        expect(result).toMatchObject({ success: true, format, nodeCount: 2, edgeCount: 1, frameCount: 1, warnings });
+
+        const drawing = JSON.parse(fs.readFileSync(file, 'utf-8'));
+        const arrow = drawing.elements.find((el: any) => el.type === 'arrow');
+        expect(drawing.elements.find((el: any) => el.id === arrow.startBinding.elementId).type).toBe('ellipse');
+        const cart = drawing.elements.find((el: any) => el.id === arrow.endBinding.elementId);
+        expect(cart.boundElements).toContainEqual({ id: arrow.id, type: 'arrow' });
+        expect(drawing.elements.find((el: any) => el.id === cart.frameId).name).toBe('Shop');
+      }
+    });
+
+    it('should import a draw.io document and export it back', () => {
+      const source = path.join(tempDir, 'arch.drawio');
+      const file = path.join(tempDir, 'arch.excalidraw');
+      const output = path.join(tempDir, 'back.drawio');
+      fs.writeFileSync(source, [
+        '<mxfile><diagram name="Arch"><mxGraphModel><root>',
+        '<mxCell id="0"/><mxCell id="1" parent="0"/>',
+        '<mxCell id="a" value="Client" style="ellipse;" vertex="1" parent="1"><mxGeometry x="0" y="0" width="120" height="60" as="geometry"/></mxCell>',
+        '<mxCell id="b" value="API" style="rounded=1;" vertex="1" parent="1"><mxGeometry x="240" y="0" width="120" height="60" as="geometry"/></mxCell>',
+        '<mxCell id="ab" value="HTTP" edge="1" parent="1" source="a" target="b"><mxGeometry relative="1" as="geometry"/></mxCell>',
+        '</root></mxGraphModel></diagram></mxfile>'
+      ].join('\n'));
+
+      const result = parseOutput(run(`import "${source}" -o "${file}"`).stdout);
+      expect(result).toMatchObject({ success: true, format: 'drawio', nodeCount: 2, edgeCount: 1, frameCount: 0, warnings: [] });
+      const arrow = JSON.parse(fs.readFileSync(file, 'utf-8')).elements.find((el: any) => el.type === 'arrow');
+      expect(arrow).toMatchObject({ id: 'ab', startBinding: { elementId: 'a' }, endBinding: { elementId: 'b' } });
+
+      const exported = parseOutput(run(`export "${file}" --output "${output}"`).stdout);
+      expect(exported).toMatchObject({ success: true, format: 'drawio', warnings: [] });
+      expect(fs.readFileSync(output, 'utf-8')).toContain('<mxCell id="ab" value="HTTP" style="');
+      expect(parseOutput(run(`info "${output}"`).stdout).elementTypes).toEqual({ ellipse: 1, rectangle: 1, text: 3, arrow: 1 });
+    });
+
+    it('should warn about draw.io content it cannot keep and leave the file unchanged', () => {
+      const source = path.join(tempDir, 'two.drawio');
+      const page = (name: string) => `<diagram name="${name}"><mxGraphModel><root><mxCell id="0"/><mxCell id="1" parent="0"/></root></mxGraphModel></diagram>`;
+      fs.writeFileSync(source, `<mxfile>${page('One')}${page('Two')}</mxfile>`);
+
+      const { stdout, stderr } = run(`add "${source}" --type rectangle --x 0 --y 0`);
+      expect(stdout).toBe('');
+      expect(stderr).toContain(`Warning: ${source}: Only the first of 2 pages was read ("One")`);
+      expect(stderr).toContain(`Cannot save ${source} in place`);
+      expect(fs.readFileSync(source, 'utf-8')).toContain('<diagram name="Two">');
+    });
+
+    it('should reject other Mermaid diagrams', () => {
+      const source = path.join(tempDir, 'seq.mmd');
+      fs.writeFileSync(source, 'sequenceDiagram\n  A->>B: hi\n');
+
+      const { stderr } = run(`import "${source}" -o "${path.join(tempDir, 'seq.excalidraw')}"`);
+      expect(stderr).toContain('Unsupported Mermaid diagram "sequenceDiagram"');
+    });
+  });
+
+  describe('library command', () => {
+    it('should save elements as library items and insert them into drawings', () => {
+      const file = path.join(tempDir, 'parts.excalidraw');
+      const library = path.join(tempDir, 'company.excalidrawlib');
+      const target = path.join(tempDir, 'target.excalidraw');
+      run(`create "${file}"`);
+      run(`create "${target}"`);
+      run(`add "${file}" --stdin`, { input: JSON.stringify([
+        { type: 'rectangle', id: 'db', x: 40, y: 40, width: 100, height: 60, groupIds: ['db-group'] },
+        { type: 'text', id: 'db-text', x: 70, y: 60, text: 'DB', groupIds: ['db-group'] }
+      ]) });
+
+      const saved = parseOutput(run(`library save "${file}" "${library}" --group db-group --name Database`).stdout);
+      expect(saved).toMatchObject({ success: true, name: 'Database', elementCount: 2, itemCount: 1 });
+      expect(parseOutput(run(`library save "${file}" "${library}" --id "db"`).stdout)).toMatchObject({ elementCount: 1, itemCount: 2 });
+
+      const items = parseOutput(run(`library list "${library}"`).stdout);
+      expect(items).toHaveLength(2);
+      expect(items[0]).toMatchObject({ id: saved.item, name: 'Database', elementCount: 2, elementTypes: { rectangle: 1, text: 1 }, width: 100, height: 60 });
+
+      const first = parseOutput(run(`library insert "${library}" "${target}" --item Database --x 0 --y 0`).stdout);
+      run(`library insert "${library}" "${target}" --item ${saved.item} --x 200 --y 0`);
+      expect(first.inserted[0]).toMatchObject({ type: 'rectangle', x: 0, y: 0 });
+
+      const elements = JSON.parse(fs.readFileSync(target, 'utf-8')).elements;
+      expect(elements).toHaveLength(4);
+      expect(new Set(elements.map((el: any) => el.id)).size).toBe(4);
+      expect(new Set(elements.map((el: any) => el.groupIds[0])).size).toBe(2);
+      expect(elements.map((el: any) => el.groupIds[0])).not.toContain('db-group');
+    });
+
+    it('should fail for unknown items and empty selections', () => {
+      const file = path.join(tempDir, 'test.excalidraw');
+      const library = path.join(tempDir, 'empty.excalidrawlib');
+      run(`create "${file}"`);
+      fs.writeFileSync(library, JSON.stringify({ type: 'excalidrawlib', version: 2, libraryItems: [] }));
+
+      expect(run(`library insert "${library}" "${file}" --item Cache --x 0 --y 0`).stderr).toContain('Library item not found: Cache');
+      expect(run(`library save "${file}" "${library}" --id "missing-*"`).stderr).toContain('No elements match the selection');
+      expect(run(`library insert "${library}" "${file}" --item Cache --x abc --y 0`).stderr).toContain('Invalid x: abc (expected a number)');
+      expect(JSON.parse(fs.readFileSync(file, 'utf-8')).elements).toEqual([]);
+    });
   });
 
   describe('batch command', () => {
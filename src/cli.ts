@@ -13,7 +13,10 @@ import {
   batchCommand,
   validateCommand,
   connectCommand,
-  quickCommand
+  quickCommand,
+  previewCommand,
+  importCommand,
+  libraryCommand
 } from './commands/index.js';
 import {
   FileNotFoundError,
@@ -22,6 +25,7 @@ import {
   InvalidFileError
 } from './utils/file.js';
 import { InvalidElementError } from './utils/element.js';
+import { ImportError } from './import/graph.js';
 
 const program = new Command();
 
@@ -54,6 +58,9 @@ program.addCommand(batchCommand());
 program.addCommand(validateCommand());
 program.addCommand(connectCommand());
 program.addCommand(quickCommand());
+program.addCommand(previewCommand());
+program.addCommand(importCommand());
+program.addCommand(libraryCommand());
 
 // Global error handler
 process.on('uncaughtException', (err) => {
@@ -75,7 +82,7 @@ function handleError(err: Error): void {
     process.exit(3);
   }
   
-  if (err instanceof InvalidFileError || err instanceof InvalidElementError) {
+  if (err instanceof InvalidFileError || err instanceof InvalidElementError || err instanceof ImportError) {
     console.error(`Error: ${err.message}`);
     process.exit(4);
   }
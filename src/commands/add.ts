@@ -21,6 +21,7 @@ export interface AddOptions {
   fillStyle?: FillStyle;
   roughness?: string;
   opacity?: string;
+  link?: string;
   text?: string;
   fontSize?: string;
   fontFamily?: string;
@@ -85,6 +86,7 @@ async function parseElementInputs(options: AddOptions): Promise<ElementInput[]>
   if (options.fillStyle) input.fillStyle = options.fillStyle;
   if (options.roughness) input.roughness = parseInt(options.roughness, 10);
   if (options.opacity) input.opacity = parseInt(options.opacity, 10);
+  if (options.link) input.link = options.link;
   
   // Text options
   if (options.text) input.text = options.text;
@@ -143,18 +145,19 @@ export function addCommand(): Command {
     .option('--fill <color>', 'Fill/background color')
     .option('--stroke-width <n>', 'Stroke width')
     .option('--stroke-style <style>', 'Stroke style (solid, dashed, dotted)')
-    .option('--fill-style <style>', 'Fill style (solid, hachure, cross-hatch)')
+    .option('--fill-style <style>', 'Fill style (solid, hachure, cross-hatch, zigzag)')
     .option('--roughness <n>', 'Roughness (0=architect, 1=artist, 2=cartoonist)')
     .option('--opacity <n>', 'Opacity (0-100)')
+    .option('--link <url>', 'Link opened when the element is clicked')
     .option('--text <string>', 'Text content (for text elements)')
     .option('--font-size <n>', 'Font size')
-    .option('--font-family <n>', 'Font family (1=Virgil, 2=Helvetica, 3=Cascadia)')
+    .option('--font-family <n>', 'Font family (1=Virgil, 2=Helvetica, 3=Cascadia, 4=Assistant, 5=Excalifont)')
     .option('--text-align <align>', 'Text alignment (left, center, right)')
     .option('--points <json>', 'Points array for line/arrow [[x,y],...]')
     .option('--start-binding <id>', 'Bind start to element ID')
     .option('--end-binding <id>', 'Bind end to element ID')
-    .option('--start-arrow <type>', 'Start arrowhead (arrow, bar, dot, triangle)')
-    .option('--end-arrow <type>', 'End arrowhead (arrow, bar, dot, triangle)')
+    .option('--start-arrow <type>', 'Start arrowhead (arrow, bar, dot, circle, triangle, diamond, crowfoot_many, ...)')
+    .option('--end-arrow <type>', 'End arrowhead (arrow, bar, dot, circle, triangle, diamond, crowfoot_many, ...)')
     .option('--label <text>', 'Add centered label text within the shape')
     .option('--label-size <n>', 'Label font size (default: 16)')
     .option('--center-in <id>', 'Center this text element within another element')
@@ -1,6 +1,7 @@
 import { Command } from 'commander';
 import { readFile, writeFile } from '../utils/file.js';
 import { createElement, mergeElement, validateElementInput } from '../utils/element.js';
+import { matchId } from '../utils/selection.js';
 import { outputJson, verbose } from '../utils/output.js';
 import type { ExcalidrawElement, ElementInput } from '../types/excalidraw.js';
 
@@ -45,23 +46,6 @@ function readStdin(): Promise<string> {
   });
 }
 
-/**
- * Match element ID with glob-like pattern
- */
-function matchId(id: string, pattern: string): boolean {
-  if (pattern === '*') return true;
-  if (pattern.startsWith('*') && pattern.endsWith('*')) {
-    return id.includes(pattern.slice(1, -1));
-  }
-  if (pattern.startsWith('*')) {
-    return id.endsWith(pattern.slice(1));
-  }
-  if (pattern.endsWith('*')) {
-    return id.startsWith(pattern.slice(0, -1));
-  }
-  return id === pattern;
-}
-
 export function batchCommand(): Command {
   return new Command('batch')
     .description('Execute multiple operations in batch')
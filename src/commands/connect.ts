@@ -1,9 +1,9 @@
 import { Command } from 'commander';
 import { readFile, writeFile } from '../utils/file.js';
 import { createElement } from '../utils/element.js';
-import { generateVersionNonce } from '../utils/id.js';
+import { addBoundElement, getConnectionData } from '../utils/binding.js';
 import { outputJson, verbose } from '../utils/output.js';
-import type { ExcalidrawElement, Binding } from '../types/excalidraw.js';
+import type { ExcalidrawElement } from '../types/excalidraw.js';
 
 export interface ConnectOptions {
   from: string;
@@ -13,118 +13,6 @@ export interface ConnectOptions {
   color?: string;
 }
 
-/**
- * Determine which edge of an element faces another element
- */
-function getClosestEdge(
-  element: ExcalidrawElement,
-  targetX: number,
-  targetY: number
-): 'left' | 'right' | 'top' | 'bottom' {
-  const centerX = element.x + element.width / 2;
-  const centerY = element.y + element.height / 2;
-  
-  const dx = targetX - centerX;
-  const dy = targetY - centerY;
-  
-  if (Math.abs(dx) > Math.abs(dy)) {
-    return dx > 0 ? 'right' : 'left';
-  } else {
-    return dy > 0 ? 'bottom' : 'top';
-  }
-}
-
-/**
- * Get the connection point on an element's edge
- */
-function getEdgePoint(
-  element: ExcalidrawElement,
-  edge: 'left' | 'right' | 'top' | 'bottom'
-): { x: number; y: number } {
-  const centerX = element.x + element.width / 2;
-  const centerY = element.y + element.height / 2;
-  
-  switch (edge) {
-    case 'left':
-      return { x: element.x, y: centerY };
-    case 'right':
-      return { x: element.x + element.width, y: centerY };
-    case 'top':
-      return { x: centerX, y: element.y };
-    case 'bottom':
-      return { x: centerX, y: element.y + element.height };
-  }
-}
-
-/**
- * Calculate connection points and bindings between two elements
- */
-function getConnectionData(
-  from: ExcalidrawElement,
-  to: ExcalidrawElement
-): {
-  startX: number;
-  startY: number;
-  endX: number;
-  endY: number;
-  startBinding: Binding;
-  endBinding: Binding;
-} {
-  const fromCenterX = from.x + from.width / 2;
-  const fromCenterY = from.y + from.height / 2;
-  const toCenterX = to.x + to.width / 2;
-  const toCenterY = to.y + to.height / 2;
-
-  // Determine which edges to connect
-  const fromEdge = getClosestEdge(from, toCenterX, toCenterY);
-  const toEdge = getClosestEdge(to, fromCenterX, fromCenterY);
-
-  // Get edge points
-  const startPoint = getEdgePoint(from, fromEdge);
-  const endPoint = getEdgePoint(to, toEdge);
-
-  return {
-    startX: startPoint.x,
-    startY: startPoint.y,
-    endX: endPoint.x,
-    endY: endPoint.y,
-    startBinding: {
-      elementId: from.id,
-      focus: 0,
-      gap: 1
-    },
-    endBinding: {
-      elementId: to.id,
-      focus: 0,
-      gap: 1
-    }
-  };
-}
-
-/**
- * Add a bound element reference to an element
- */
-function addBoundElement(
-  element: ExcalidrawElement,
-  boundId: string,
-  boundType: string
-): ExcalidrawElement {
-  const currentBoundElements = element.boundElements ?? [];
-  
-  // Check if already bound
-  if (currentBoundElements.some(b => b.id === boundId)) {
-    return element;
-  }
-  
-  return {
-    ...element,
-    boundElements: [...currentBoundElements, { id: boundId, type: boundType }],
-    version: element.version + 1,
-    versionNonce: generateVersionNonce(),
-    updated: Date.now()
-  };
-}
-
 export function connectCommand(): Command {
   return new Command('connect')
     .description('Connect two elements with a bound arrow or line')
@@ -1,5 +1,6 @@
 import { Command } from 'commander';
 import { readFile, writeFile } from '../utils/file.js';
+import { matchId } from '../utils/selection.js';
 import { outputJson, verbose, info } from '../utils/output.js';
 import type { ExcalidrawElement, ElementType } from '../types/excalidraw.js';
 
@@ -10,23 +11,6 @@ export interface DeleteOptions {
   dryRun?: boolean;
 }
 
-/**
- * Match element ID with glob-like pattern
- */
-function matchId(id: string, pattern: string): boolean {
-  if (pattern === '*') return true;
-  if (pattern.startsWith('*') && pattern.endsWith('*')) {
-    return id.includes(pattern.slice(1, -1));
-  }
-  if (pattern.startsWith('*')) {
-    return id.endsWith(pattern.slice(1));
-  }
-  if (pattern.endsWith('*')) {
-    return id.startsWith(pattern.slice(0, -1));
-  }
-  return id === pattern;
-}
-
 export function deleteCommand(): Command {
   return new Command('delete')
     .description('Delete elements from an Excalidraw file')
@@ -1,261 +1,596 @@
 import { Command } from 'commander';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import { readFile, calculateBounds } from '../utils/file.js';
+import { readFile } from '../utils/file.js';
 import { outputJson, verbose, info } from '../utils/output.js';
-import type { ExcalidrawFile } from '../types/excalidraw.js';
+import { buildScene, frameName } from '../render/scene.js';
+import type { Scene } from '../render/scene.js';
+import { sceneToSvg } from '../render/svg.js';
+import { sceneToHtml } from '../render/html.js';
+import { embedFonts, textByTypeface } from '../render/typeface.js';
+import { renderPng } from '../render/png.js';
+import { canvasSize } from '../render/raster.js';
+import { pageLayout, renderPdf, renderPdfPages } from '../render/pdf.js';
+import type { PageSize } from '../render/pdf.js';
+import { embedSceneInPng, embedSceneInSvg, serializeScene } from '../utils/embed.js';
+import { excalidrawToDrawio } from '../utils/drawio.js';
+import type { DrawioPage } from '../utils/drawio.js';
+import { excalidrawToGraph } from '../import/graph.js';
+import { graphToMermaid } from '../import/mermaid.js';
+import { graphToDot } from '../import/dot.js';
+import { hasSelectionCriteria, parseRegion, selectElements, InvalidSelectionError } from '../utils/selection.js';
+import type { SelectionCriteria } from '../utils/selection.js';
+import type { ExcalidrawElement, ExcalidrawFile } from '../types/excalidraw.js';
+import { expandGlob, globBase, isGlob } from '../utils/glob.js';
 
 export interface ExportOptions {
   output: string;
-  format?: 'png' | 'svg';
+  format?: 'png' | 'svg' | 'pdf' | 'html' | 'drawio' | 'mermaid' | 'dot';
   scale?: string;
   background?: string;
   dark?: boolean;
   padding?: string;
   embedScene?: boolean;
+  rough?: boolean;
+  renderer?: 'builtin' | 'playwright';
+  embedFonts?: string;
+  pageSize?: PageSize;
+  id?: string;
+  group?: string;
+  frame?: string;
+  region?: string;
+  includeArrows?: boolean;
+  title?: string;
+  concurrency?: string;
+  force?: boolean;
+  perFrame?: boolean;
+}
+
+type ExportResult = Record<string, unknown>;
+
+/**
+ * Headless Chromium shared by every file in an export run, launched on first use
+ */
+class BrowserSession {
+  private browser: Promise<import('playwright').Browser> | null = null;
+
+  private launch(): Promise<import('playwright').Browser> {
+    this.browser ??= (async () => {
+      let playwright: typeof import('playwright');
+      try {
+        playwright = await import('playwright');
+      } catch {
+        throw new PlaywrightUnavailableError();
+      }
+      verbose('Launching headless browser for PNG export...');
+      try {
+        return await playwright.chromium.launch({ headless: true });
+      } catch (err) {
+        // Browsers not downloaded yet
+        if ((err as Error).message?.includes('playwright install')) {
+          throw new PlaywrightUnavailableError();
+        }
+        throw err;
+      }
+    })();
+    return this.browser;
+  }
+
+  async screenshot(svg: string, background: string, width: number, height: number): Promise<Buffer> {
+    const browser = await this.launch();
+    const page = await browser.newPage();
+    try {
+      // Create HTML page with embedded SVG
+      const html = `<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    * { margin: 0; padding: 0; }
+    body { background: ${background}; }
+    svg { display: block; }
+  </style>
+</head>
+<body>${svg}</body>
+</html>`;
+      
+      await page.setContent(html);
+      await page.setViewportSize({ width, height });
+      return await page.screenshot({
+        type: 'png',
+        clip: { x: 0, y: 0, width, height }
+      });
+    } finally {
+      await page.close();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (!this.browser) return;
+    const browser = await this.browser.catch(() => null);
+    this.browser = null;
+    if (browser) {
+      await browser.close();
+      verbose('Browser closed');
+    }
+  }
+}
+
+type ExportFormat = NonNullable<ExportOptions['format']>;
+
+const FORMATS: ExportFormat[] = ['png', 'svg', 'pdf', 'html', 'drawio', 'mermaid', 'dot'];
+
+const EXTENSIONS: Record<string, ExportFormat> = {
+  '.png': 'png',
+  '.pdf': 'pdf',
+  '.html': 'html',
+  '.htm': 'html',
+  '.drawio': 'drawio',
+  '.mmd': 'mermaid',
+  '.mermaid': 'mermaid',
+  '.dot': 'dot',
+  '.gv': 'dot'
+};
+
+/**
+ * Output format from --format, or detected from the output file's extension
+ */
+function exportFormat(outputPath: string, options: ExportOptions): ExportFormat {
+  if (options.format && !FORMATS.includes(options.format)) {
+    throw new Error(`Unknown export format: ${options.format} (expected ${FORMATS.join(', ')})`);
+  }
+  return options.format ?? EXTENSIONS[path.extname(outputPath).toLowerCase()] ?? 'svg';
+}
+
+function selectionCriteria(options: ExportOptions): SelectionCriteria {
+  return {
+    id: options.id,
+    groupId: options.group,
+    frameId: options.frame,
+    region: options.region ? parseRegion(options.region) : undefined,
+    includeBoundArrows: options.includeArrows
+  };
+}
+
+function exportScene(file: ExcalidrawFile, options: ExportOptions): Scene {
+  return buildScene(file, {
+    padding: parseInt(options.padding ?? '10', 10),
+    backgroundColor: options.background ?? file.appState.viewBackgroundColor,
+    dark: options.dark ?? false,
+    rough: options.rough
+  });
+}
+
+function pngScale(options: ExportOptions): number {
+  const scale = Number(options.scale ?? '1');
+  if (!Number.isFinite(scale) || scale <= 0) {
+    throw new Error(`Invalid scale: ${options.scale} (expected a positive number)`);
+  }
+  return scale;
+}
+
+function pngRenderer(options: ExportOptions): 'builtin' | 'playwright' {
+  const renderer = options.renderer ?? 'builtin';
+  if (!['builtin', 'playwright'].includes(renderer)) {
+    throw new Error(`Invalid renderer: ${renderer} (expected builtin or playwright)`);
+  }
+  return renderer;
+}
+
+function pdfPageSize(options: ExportOptions): PageSize {
+  const pageSize = options.pageSize ?? 'fit';
+  if (!['fit', 'a4', 'letter'].includes(pageSize)) {
+    throw new Error(`Invalid page size: ${pageSize} (expected fit, a4 or letter)`);
+  }
+  return pageSize;
+}
+
+/**
+ * PDF page dimensions in points, rounded for output
+ */
+function pageDimensions(scene: Scene, pageSize: PageSize): { width: number; height: number } {
+  const page = pageLayout(scene, pageSize);
+  return {
+    width: Math.round(page.width * 100) / 100,
+    height: Math.round(page.height * 100) / 100
+  };
+}
+
+/**
+ * Write drawings as a draw.io document with a page each
+ */
+function writeDrawio(file: ExcalidrawFile, pages: DrawioPage[], outputPath: string): ExportResult {
+  const { xml, warnings } = excalidrawToDrawio(file, pages);
+  fs.writeFileSync(outputPath, xml, 'utf-8');
+  return { success: true, format: 'drawio', output: outputPath, warnings };
 }
 
 /**
- * Generate SVG from Excalidraw elements (basic implementation)
- * For full fidelity, use Playwright with the actual Excalidraw renderer
+ * Write the graph drawn in a drawing as Mermaid or DOT source
  */
-function generateBasicSvg(file: ExcalidrawFile, options: {
-  padding: number;
-  backgroundColor: string;
-  dark: boolean;
-}): string {
-  const elements = file.elements.filter(el => !el.isDeleted);
-  const bounds = calculateBounds(elements);
+function writeGraph(file: ExcalidrawFile, format: 'mermaid' | 'dot', outputPath: string): ExportResult {
+  const { graph, warnings } = excalidrawToGraph(file.elements);
+  fs.writeFileSync(outputPath, format === 'mermaid' ? graphToMermaid(graph) : graphToDot(graph), 'utf-8');
+  return {
+    success: true,
+    format,
+    output: outputPath,
+    direction: graph.direction,
+    nodeCount: graph.nodes.length,
+    edgeCount: graph.edges.length,
+    clusterCount: graph.clusters.length,
+    warnings
+  };
+}
+
+/**
+ * Write a scene as a PNG, SVG or HTML file and describe it
+ */
+async function writeScene(
+  scene: Scene,
+  file: ExcalidrawFile,
+  outputPath: string,
+  format: Exclude<ExportFormat, 'pdf' | 'drawio' | 'mermaid' | 'dot'>,
+  options: ExportOptions,
+  browser: BrowserSession
+): Promise<ExportResult> {
+  if (format === 'png') {
+    const scale = pngScale(options);
+    const renderer = pngRenderer(options);
+    const { width, height } = canvasSize(scene, scale);
+    
+    let png = renderer === 'builtin'
+      ? renderPng(scene, scale)
+      : await browser.screenshot(sceneToSvg(scene), scene.background, width, height);
+    if (options.embedScene) {
+      png = embedSceneInPng(png, serializeScene(file));
+    }
+    fs.writeFileSync(outputPath, png);
+    
+    return {
+      success: true,
+      format: 'png',
+      renderer,
+      output: outputPath,
+      width,
+      height,
+      scale,
+      embedScene: options.embedScene ?? false
+    };
+  }
+  
+  const fonts = options.embedFonts ? embedFonts(textByTypeface(scene), options.embedFonts) : null;
+  for (const name of fonts?.missing ?? []) {
+    info(`No font file for ${name} in ${options.embedFonts}`);
+  }
   
-  const width = bounds.width + options.padding * 2;
-  const height = bounds.height + options.padding * 2;
-  const offsetX = -bounds.x + options.padding;
-  const offsetY = -bounds.y + options.padding;
+  if (format === 'html') {
+    const sceneJson = options.embedScene ? serializeScene(file) : undefined;
+    const sceneFileName = `${drawingName(path.basename(outputPath, path.extname(outputPath)))}.excalidraw`;
+    fs.writeFileSync(outputPath, sceneToHtml(scene, { css: fonts?.css, title: options.title, sceneJson, sceneFileName }), 'utf-8');
+  } else {
+    let svg = sceneToSvg(scene, { css: fonts?.css, title: options.title });
+    if (options.embedScene) {
+      svg = embedSceneInSvg(svg, serializeScene(file));
+    }
+    fs.writeFileSync(outputPath, svg, 'utf-8');
+  }
   
-  const bg = options.dark ? '#121212' : options.backgroundColor;
-  const defaultStroke = options.dark ? '#ffffff' : '#1e1e1e';
+  return {
+    success: true,
+    format,
+    output: outputPath,
+    width: scene.width,
+    height: scene.height,
+    embedScene: options.embedScene ?? false,
+    ...(fonts && { embeddedFonts: fonts.embedded })
+  };
+}
+
+/**
+ * Export one drawing and describe the written file
+ */
+async function exportDrawing(
+  filePath: string,
+  outputPath: string,
+  options: ExportOptions,
+  browser: BrowserSession
+): Promise<ExportResult> {
+  verbose(`Exporting: ${filePath} -> ${outputPath}`);
   
-  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">\n`;
-  svg += `  <rect width="100%" height="100%" fill="${bg}"/>\n`;
-  svg += `  <g transform="translate(${offsetX}, ${offsetY})">\n`;
+  let file = readFile(filePath);
   
-  for (const el of elements) {
-    const stroke = el.strokeColor === '#1e1e1e' && options.dark ? '#ffffff' : el.strokeColor;
-    const fill = el.backgroundColor === 'transparent' ? 'none' : el.backgroundColor;
-    const strokeWidth = el.strokeWidth;
-    const strokeDash = el.strokeStyle === 'dashed' ? 'stroke-dasharray="8 4"' : 
-                       el.strokeStyle === 'dotted' ? 'stroke-dasharray="2 4"' : '';
-    const opacity = el.opacity / 100;
-    
-    switch (el.type) {
-      case 'rectangle':
-        svg += `    <rect x="${el.x}" y="${el.y}" width="${el.width}" height="${el.height}" `;
-        svg += `stroke="${stroke}" fill="${fill}" stroke-width="${strokeWidth}" ${strokeDash} `;
-        svg += `opacity="${opacity}" rx="3"/>\n`;
-        break;
-        
-      case 'ellipse':
-        const cx = el.x + el.width / 2;
-        const cy = el.y + el.height / 2;
-        svg += `    <ellipse cx="${cx}" cy="${cy}" rx="${el.width / 2}" ry="${el.height / 2}" `;
-        svg += `stroke="${stroke}" fill="${fill}" stroke-width="${strokeWidth}" ${strokeDash} `;
-        svg += `opacity="${opacity}"/>\n`;
-        break;
-        
-      case 'diamond':
-        const dx = el.x + el.width / 2;
-        const dy1 = el.y;
-        const dy2 = el.y + el.height / 2;
-        const dy3 = el.y + el.height;
-        const points = `${dx},${dy1} ${el.x + el.width},${dy2} ${dx},${dy3} ${el.x},${dy2}`;
-        svg += `    <polygon points="${points}" `;
-        svg += `stroke="${stroke}" fill="${fill}" stroke-width="${strokeWidth}" ${strokeDash} `;
-        svg += `opacity="${opacity}"/>\n`;
-        break;
-        
-      case 'text':
-        if ('text' in el) {
-          const fontSize = el.fontSize ?? 20;
-          const textLines = el.text.split('\n');
-          const textFill = stroke;
-          svg += `    <text x="${el.x}" y="${el.y + fontSize}" fill="${textFill}" `;
-          svg += `font-size="${fontSize}" font-family="Virgil, sans-serif" opacity="${opacity}">\n`;
-          for (let i = 0; i < textLines.length; i++) {
-            svg += `      <tspan x="${el.x}" dy="${i === 0 ? 0 : fontSize * 1.2}">${escapeXml(textLines[i])}</tspan>\n`;
-          }
-          svg += `    </text>\n`;
-        }
-        break;
-        
-      case 'line':
-      case 'arrow':
-        if ('points' in el && el.points.length >= 2) {
-          const pathPoints = el.points.map((p, i) => 
-            `${i === 0 ? 'M' : 'L'} ${el.x + p[0]} ${el.y + p[1]}`
-          ).join(' ');
-          
-          const markerId = el.type === 'arrow' ? `url(#arrow-${el.id.slice(0, 8)})` : '';
-          
-          if (el.type === 'arrow') {
-            svg += `    <defs>\n`;
-            svg += `      <marker id="arrow-${el.id.slice(0, 8)}" markerWidth="10" markerHeight="7" refX="10" refY="3.5" orient="auto">\n`;
-            svg += `        <polygon points="0 0, 10 3.5, 0 7" fill="${stroke}"/>\n`;
-            svg += `      </marker>\n`;
-            svg += `    </defs>\n`;
-          }
-          
-          svg += `    <path d="${pathPoints}" stroke="${stroke}" fill="none" `;
-          svg += `stroke-width="${strokeWidth}" ${strokeDash} opacity="${opacity}"`;
-          if (markerId) svg += ` marker-end="${markerId}"`;
-          svg += `/>\n`;
-        }
-        break;
-        
-      case 'freedraw':
-        if ('points' in el && el.points.length >= 2) {
-          const pathPoints = el.points.map((p, i) => 
-            `${i === 0 ? 'M' : 'L'} ${el.x + p[0]} ${el.y + p[1]}`
-          ).join(' ');
-          svg += `    <path d="${pathPoints}" stroke="${stroke}" fill="none" `;
-          svg += `stroke-width="${strokeWidth}" stroke-linecap="round" stroke-linejoin="round" `;
-          svg += `opacity="${opacity}"/>\n`;
-        }
-        break;
+  // Narrow the drawing to the selected elements; bounds follow the selection
+  const criteria = selectionCriteria(options);
+  const selection = hasSelectionCriteria(criteria) ? selectElements(file.elements, criteria) : null;
+  if (selection) {
+    if (selection.length === 0) {
+      throw new InvalidSelectionError('No elements match the selection');
     }
+    verbose(`Selected ${selection.length} element(s)`);
+    file = { ...file, elements: selection };
   }
+  const selected = selection ? { selected: selection.length } : {};
   
-  svg += `  </g>\n`;
-  svg += `</svg>`;
+  const format = exportFormat(outputPath, options);
+  if (format === 'drawio') {
+    return { ...writeDrawio(file, [{ name: drawingName(filePath), elements: file.elements }], outputPath), ...selected };
+  }
+  if (format === 'mermaid' || format === 'dot') {
+    return { ...writeGraph(file, format, outputPath), ...selected };
+  }
+  const scene = exportScene(file, options);
+  
+  if (format === 'pdf') {
+    const pageSize = pdfPageSize(options);
+    fs.writeFileSync(outputPath, renderPdf(scene, { pageSize }));
+    return {
+      success: true,
+      format: 'pdf',
+      output: outputPath,
+      ...selected,
+      pageSize,
+      ...pageDimensions(scene, pageSize)
+    };
+  }
+  
+  return { ...(await writeScene(scene, file, outputPath, format, options, browser)), ...selected };
+}
+
+/**
+ * File-safe names for frames, made unique with a numeric suffix
+ */
+function frameFileNames(frames: ExcalidrawElement[]): string[] {
+  const seen = new Map<string, number>();
+  return frames.map(frame => {
+    const base = frameName(frame).replace(/[\\/:*?"<>|\x00-\x1f]+/g, '-').replace(/^\.+/, '').trim() || 'frame';
+    const count = (seen.get(base.toLowerCase()) ?? 0) + 1;
+    seen.set(base.toLowerCase(), count);
+    return count > 1 ? `${base}-${count}` : base;
+  });
+}
+
+/**
+ * Output path for one frame: {frame} in the pattern is replaced by the
+ * frame's name, and a pattern without it is treated as an output directory
+ */
+function frameOutputPath(pattern: string, name: string, extension: string): string {
+  return pattern.includes('{frame}')
+    ? pattern.replaceAll('{frame}', name)
+    : path.join(pattern, `${name}.${extension}`);
+}
+
+/**
+ * Export each frame of a drawing as its own page: a file per frame, or one
+ * PDF with a page per frame, in drawing order
+ */
+async function exportFrames(
+  filePath: string,
+  outputPath: string,
+  options: ExportOptions,
+  browser: BrowserSession
+): Promise<ExportResult> {
+  verbose(`Exporting frames: ${filePath} -> ${outputPath}`);
+  
+  const file = readFile(filePath);
+  const criteria = selectionCriteria(options);
+  const pages = file.elements
+    .filter(el => !el.isDeleted && (el.type === 'frame' || el.type === 'magicframe'))
+    .filter(frame => !criteria.frameId || frame.id === criteria.frameId)
+    .map(frame => ({ frame, elements: selectElements(file.elements, { ...criteria, frameId: frame.id }) }))
+    .filter(page => page.elements.length > 0);
+  if (pages.length === 0) {
+    throw new InvalidSelectionError('No frames to export');
+  }
+  verbose(`Exporting ${pages.length} frame(s)`);
+  
+  const format = exportFormat(outputPath, options);
+  if (format === 'drawio') {
+    const { warnings, ...details } = writeDrawio(file, pages.map(page => ({ name: frameName(page.frame), elements: page.elements })), outputPath);
+    return { ...details, pages: pages.map(page => ({ frame: page.frame.id, name: frameName(page.frame) })), warnings };
+  }
+  const names = frameFileNames(pages.map(page => page.frame));
+  const describe = (index: number) => ({ frame: pages[index].frame.id, name: frameName(pages[index].frame) });
+  if (format === 'mermaid' || format === 'dot') {
+    return {
+      success: true,
+      format,
+      pages: pages.map((page, i) => {
+        const output = frameOutputPath(outputPath, names[i], format === 'mermaid' ? 'mmd' : format);
+        fs.mkdirSync(path.dirname(output), { recursive: true });
+        const { success, format: _, ...details } = writeGraph({ ...file, elements: page.elements }, format, output);
+        return { ...describe(i), ...details };
+      })
+    };
+  }
+  const scenes = pages.map(page => exportScene({ ...file, elements: page.elements }, options));
+  
+  if (format === 'pdf') {
+    const pageSize = pdfPageSize(options);
+    fs.writeFileSync(outputPath, renderPdfPages(scenes, { pageSize }));
+    return {
+      success: true,
+      format: 'pdf',
+      output: outputPath,
+      pageSize,
+      pages: scenes.map((scene, i) => ({ ...describe(i), ...pageDimensions(scene, pageSize) }))
+    };
+  }
+  
+  const results: ExportResult[] = [];
+  for (const [i, scene] of scenes.entries()) {
+    const output = frameOutputPath(outputPath, names[i], format);
+    fs.mkdirSync(path.dirname(output), { recursive: true });
+    const frameFile = { ...file, elements: pages[i].elements };
+    const { success, format: _, ...details } = await writeScene(scene, frameFile, output, format, options, browser);
+    results.push({ ...describe(i), ...details });
+  }
+  return { success: true, format, pages: results };
+}
+
+/**
+ * Name of a drawing file without its .excalidraw extensions
+ */
+function drawingName(filePath: string): string {
+  const fileName = path.basename(filePath);
+  return fileName.replace(/\.excalidraw(\.(png|svg|md))?$/i, '') || fileName;
+}
+
+/**
+ * Resolve the drawings named by a directory or glob, with the directory that
+ * output paths are made relative to
+ */
+function batchInputs(input: string): { base: string; files: string[] } {
+  if (!isGlob(input)) {
+    return { base: input, files: expandGlob(path.join(input, '**/*.excalidraw')) };
+  }
+  return { base: globBase(input).base, files: expandGlob(input) };
+}
+
+/**
+ * Output path for one drawing in a batch
+ * {name} is the drawing's name and {dir} its directory relative to the input base;
+ * a pattern without {name} is treated as an output directory
+ */
+function batchOutputPath(pattern: string, inputFile: string, base: string, format?: string): string {
+  const name = drawingName(inputFile);
+  const dir = path.relative(base, path.dirname(inputFile));
   
-  return svg;
+  const template = pattern.includes('{name}')
+    ? pattern
+    : path.join(pattern, '{dir}', `{name}.${format ?? 'svg'}`);
+  return path.normalize(template.replaceAll('{dir}', dir).replaceAll('{name}', name));
+}
+
+function isUpToDate(inputFile: string, outputFile: string): boolean {
+  return fs.existsSync(outputFile) && fs.statSync(outputFile).mtimeMs >= fs.statSync(inputFile).mtimeMs;
+}
+
+/**
+ * Run tasks with at most `limit` in flight, keeping results in input order
+ */
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 }
 
-function escapeXml(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
+async function exportBatch(input: string, options: ExportOptions): Promise<void> {
+  const concurrency = parseInt(options.concurrency ?? '4', 10);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid concurrency: ${options.concurrency} (expected a positive integer)`);
+  }
+  
+  const { base, files } = batchInputs(input);
+  verbose(`Found ${files.length} drawing(s) in ${input}`);
+  
+  const browser = new BrowserSession();
+  let results: ExportResult[];
+  try {
+    results = await mapWithConcurrency(files, concurrency, async (inputFile): Promise<ExportResult> => {
+      const output = batchOutputPath(options.output, inputFile, base, options.format);
+      if (!options.force && isUpToDate(inputFile, output)) {
+        verbose(`Up to date: ${output}`);
+        return { input: inputFile, output, status: 'skipped' };
+      }
+      try {
+        fs.mkdirSync(path.dirname(output), { recursive: true });
+        const { success, output: _, ...details } = await exportDrawing(inputFile, output, options, browser);
+        return { input: inputFile, output, status: 'exported', ...details };
+      } catch (err) {
+        return { input: inputFile, output, status: 'failed', error: (err as Error).message };
+      }
+    });
+  } finally {
+    await browser.close();
+  }
+  
+  const count = (status: string) => results.filter(r => r.status === status).length;
+  const failed = count('failed');
+  outputJson({
+    success: failed === 0,
+    total: results.length,
+    exported: count('exported'),
+    skipped: count('skipped'),
+    failed,
+    files: results
+  });
+  if (failed > 0) {
+    process.exitCode = 1;
+  }
 }
 
 export function exportCommand(): Command {
   return new Command('export')
-    .description('Export to PNG or SVG')
-    .argument('<file>', 'Path to the .excalidraw file')
-    .requiredOption('--output <file>', 'Output file path')
-    .option('--format <fmt>', 'Output format (png, svg) - auto-detected from extension')
+    .description('Export to PNG, SVG, PDF, interactive HTML, draw.io, or Mermaid or DOT source')
+    .argument('<file>', 'Path to the .excalidraw file, or a directory or glob to export many')
+    .requiredOption('--output <file>', 'Output file path; for many files a directory or pattern using {name} and {dir}')
+    .option('--format <fmt>', 'Output format (png, svg, pdf, html, drawio, mermaid, dot) - auto-detected from extension')
     .option('--scale <n>', 'Scale factor', '1')
     .option('--background <color>', 'Override background color')
     .option('--dark', 'Dark mode')
     .option('--padding <n>', 'Padding in pixels', '10')
-    .option('--embed-scene', 'Embed scene data in PNG')
+    .option('--embed-scene', 'Embed scene data so the image can be opened and edited again (HTML: downloadable copy)')
+    .option('--no-rough', 'Draw crisp geometric shapes instead of hand-drawn strokes')
+    .option('--renderer <name>', 'PNG renderer (builtin, playwright)', 'builtin')
+    .option('--embed-fonts <dir>', 'Embed subsetted fonts from a directory of font files (SVG, HTML)')
+    .option('--title <text>', 'Accessible name of the drawing (SVG, HTML; default: its text)')
+    .option('--page-size <size>', 'PDF page size (fit, a4, letter)', 'fit')
+    .option('--id <pattern>', 'Only export elements with matching IDs (supports * glob)')
+    .option('--group <id>', 'Only export elements in this group')
+    .option('--frame <id>', 'Only export this frame and its elements')
+    .option('--region <x,y,w,h>', 'Only export elements entirely inside this region')
+    .option('--include-arrows', 'Also export arrows bound to selected elements')
+    .option('--concurrency <n>', 'Files exported at once when exporting many', '4')
+    .option('--force', 'Re-export files whose output is newer than the drawing')
+    .option('--per-frame', 'Export each frame as a page: one file per frame ({frame} in --output), or one PDF or draw.io page per frame')
     .action(async (filePath: string, options: ExportOptions) => {
-      verbose(`Exporting: ${filePath} -> ${options.output}`);
-      
-      const file = readFile(filePath);
-      
-      // Determine format from extension if not specified
-      const ext = path.extname(options.output).toLowerCase();
-      const format = options.format ?? (ext === '.png' ? 'png' : 'svg');
-      
-      const padding = parseInt(options.padding ?? '10', 10);
-      const backgroundColor = options.background ?? file.appState.viewBackgroundColor;
+      if (isGlob(filePath) || (fs.existsSync(filePath) && fs.statSync(filePath).isDirectory())) {
+        if (options.perFrame) {
+          throw new Error('--per-frame exports one drawing at a time');
+        }
+        await exportBatch(filePath, options);
+        return;
+      }
       
-      if (format === 'svg') {
-        const svg = generateBasicSvg(file, {
-          padding,
-          backgroundColor,
-          dark: options.dark ?? false
-        });
-        
-        fs.writeFileSync(options.output, svg, 'utf-8');
+      const exportOne = options.perFrame ? exportFrames : exportDrawing;
+      const browser = new BrowserSession();
+      try {
+        outputJson(await exportOne(filePath, options.output, options, browser));
+      } catch (err) {
+        if (!(err instanceof PlaywrightUnavailableError)) {
+          throw err;
+        }
+        // Fall back to SVG when Playwright is not installed
+        info('The playwright renderer requires Playwright. Install with: npm install playwright');
+        info('Then run: npx playwright install chromium');
         
-        const bounds = calculateBounds(file.elements.filter(el => !el.isDeleted));
+        const svgPath = options.output.replace(/\.png$/, '.svg');
+        await exportOne(filePath, svgPath, { ...options, format: 'svg' }, browser);
         
         outputJson({
-          success: true,
-          format: 'svg',
-          output: options.output,
-          width: bounds.width + padding * 2,
-          height: bounds.height + padding * 2
-        });
-      } else if (format === 'png') {
-        const scale = parseFloat(options.scale ?? '1');
-        
-        // Generate SVG first
-        const svg = generateBasicSvg(file, {
-          padding,
-          backgroundColor,
-          dark: options.dark ?? false
+          success: false,
+          error: 'Playwright not available - SVG exported instead',
+          svgOutput: svgPath,
+          hint: 'Install Playwright: npm install playwright && npx playwright install chromium'
         });
-        
-        const bounds = calculateBounds(file.elements.filter(el => !el.isDeleted));
-        const width = Math.ceil((bounds.width + padding * 2) * scale);
-        const height = Math.ceil((bounds.height + padding * 2) * scale);
-        
-        try {
-          // Use Playwright for PNG export
-          const { chromium } = await import('playwright');
-          
-          verbose('Launching headless browser for PNG export...');
-          const browser = await chromium.launch({ headless: true });
-          const page = await browser.newPage();
-          
-          // Create HTML page with embedded SVG
-          const html = `<!DOCTYPE html>
-<html>
-<head>
-  <style>
-    * { margin: 0; padding: 0; }
-    body { background: ${backgroundColor}; }
-    svg { display: block; }
-  </style>
-</head>
-<body>${svg}</body>
-</html>`;
-          
-          await page.setContent(html);
-          await page.setViewportSize({ width, height });
-          
-          // Take screenshot
-          await page.screenshot({
-            path: options.output,
-            type: 'png',
-            clip: { x: 0, y: 0, width, height }
-          });
-          
-          await browser.close();
-          verbose('Browser closed');
-          
-          outputJson({
-            success: true,
-            format: 'png',
-            output: options.output,
-            width,
-            height,
-            scale
-          });
-        } catch (err: any) {
-          // Fallback if Playwright fails
-          if (err.code === 'ERR_MODULE_NOT_FOUND' || err.message?.includes('playwright')) {
-            info('PNG export requires Playwright. Install with: npm install playwright');
-            info('Then run: npx playwright install chromium');
-            
-            const svgPath = options.output.replace(/\.png$/, '.svg');
-            fs.writeFileSync(svgPath, svg, 'utf-8');
-            
-            outputJson({
-              success: false,
-              error: 'Playwright not available - SVG exported instead',
-              svgOutput: svgPath,
-              hint: 'Install Playwright: npm install playwright && npx playwright install chromium'
-            });
-            process.exit(5);
-          } else {
-            throw err;
-          }
-        }
+        process.exit(5);
+      } finally {
+        await browser.close();
       }
     });
 }
+
+// Error classes
+export class PlaywrightUnavailableError extends Error {
+  constructor() {
+    super('Playwright not available - install with: npm install playwright && npx playwright install chromium');
+    this.name = 'PlaywrightUnavailableError';
+  }
+}
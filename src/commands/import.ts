@@ -0,0 +1,143 @@
+import { Command } from 'commander';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { FileNotFoundError, writeFile } from '../utils/file.js';
+import { outputJson, verbose } from '../utils/output.js';
+import { graphToExcalidraw, ImportError } from '../import/graph.js';
+import { parseMermaid } from '../import/mermaid.js';
+import { parseDot } from '../import/dot.js';
+import { parsePlantUml } from '../import/plantuml.js';
+import { parseD2 } from '../import/d2.js';
+import type { ParsedGraph } from '../import/graph.js';
+import { drawioToExcalidraw } from '../utils/drawio.js';
+import type { ExcalidrawFile } from '../types/excalidraw.js';
+
+export interface ImportOptions {
+  from?: 'mermaid' | 'dot' | 'plantuml' | 'd2' | 'drawio';
+  output: string;
+  force?: boolean;
+}
+
+type ImportFormat = NonNullable<ImportOptions['from']>;
+
+const PARSERS: Record<Exclude<ImportFormat, 'drawio'>, (source: string) => ParsedGraph> = {
+  mermaid: parseMermaid,
+  dot: parseDot,
+  plantuml: parsePlantUml,
+  d2: parseD2
+};
+
+/** Fenced code block languages read from markdown files */
+const MARKDOWN_FENCES: Record<string, ImportFormat> = {
+  mermaid: 'mermaid',
+  plantuml: 'plantuml',
+  puml: 'plantuml',
+  d2: 'd2'
+};
+
+/**
+ * Source format from --from, or detected from the input file's extension;
+ * markdown files use the language of their first diagram block
+ */
+function importFormat(inputPath: string, source: string, options: ImportOptions): ImportFormat {
+  if (options.from) {
+    if (!(options.from in PARSERS) && options.from !== 'drawio') {
+      throw new ImportError(`Unknown import format: ${options.from} (expected ${[...Object.keys(PARSERS), 'drawio'].join(', ')})`);
+    }
+    return options.from;
+  }
+  const ext = path.extname(inputPath).toLowerCase();
+  if (ext === '.mmd' || ext === '.mermaid') {
+    return 'mermaid';
+  }
+  if (ext === '.dot' || ext === '.gv') {
+    return 'dot';
+  }
+  if (ext === '.puml' || ext === '.plantuml' || ext === '.pu') {
+    return 'plantuml';
+  }
+  if (ext === '.d2') {
+    return 'd2';
+  }
+  if (ext === '.drawio') {
+    return 'drawio';
+  }
+  if (ext === '.md' || ext === '.markdown') {
+    const fence = /^```(mermaid|plantuml|puml|d2)\b/m.exec(source);
+    if (!fence) {
+      throw new ImportError(`No mermaid, plantuml or d2 block found in ${inputPath}`);
+    }
+    return MARKDOWN_FENCES[fence[1]];
+  }
+  throw new ImportError(`Cannot tell the format of ${inputPath} from its extension; use --from`);
+}
+
+/**
+ * Lay out a graph source as a drawing
+ */
+function convertGraph(format: Exclude<ImportFormat, 'drawio'>, source: string, inputPath: string): {
+  file: ExcalidrawFile;
+  details: Record<string, unknown>;
+  warnings: string[];
+} {
+  const { graph, warnings } = PARSERS[format](source);
+  if (graph.nodes.length === 0) {
+    throw new ImportError(`No nodes found in ${inputPath}`);
+  }
+  return {
+    file: graphToExcalidraw(graph),
+    details: { direction: graph.direction, nodeCount: graph.nodes.length, edgeCount: graph.edges.length },
+    warnings
+  };
+}
+
+/**
+ * Convert a draw.io document, keeping its positions
+ */
+function convertDrawio(source: string, inputPath: string): {
+  file: ExcalidrawFile;
+  details: Record<string, unknown>;
+  warnings: string[];
+} {
+  const { file, warnings } = drawioToExcalidraw(source);
+  if (file.elements.length === 0) {
+    throw new ImportError(`No shapes found in ${inputPath}`);
+  }
+  const count = (types: string[]) => file.elements.filter(el => types.includes(el.type) && !(el.type === 'text' && el.containerId)).length;
+  return {
+    file,
+    details: { nodeCount: count(['rectangle', 'ellipse', 'diamond', 'text']), edgeCount: count(['arrow']) },
+    warnings
+  };
+}
+
+export function importCommand(): Command {
+  return new Command('import')
+    .description('Convert a diagram from another tool into an Excalidraw drawing')
+    .argument('<input>', 'Diagram source file (a .md file uses its first mermaid, plantuml or d2 block)')
+    .option('--from <format>', 'Source format: mermaid, dot, plantuml, d2 or drawio (default: from the file extension)')
+    .requiredOption('-o, --output <file>', 'Output .excalidraw file')
+    .option('-f, --force', 'Overwrite existing file')
+    .action((inputPath: string, options: ImportOptions) => {
+      if (!fs.existsSync(inputPath)) {
+        throw new FileNotFoundError(inputPath);
+      }
+      const source = fs.readFileSync(inputPath, 'utf-8');
+      const format = importFormat(inputPath, source, options);
+      verbose(`Importing ${format} from: ${inputPath}`);
+      const { file, details, warnings } = format === 'drawio'
+        ? convertDrawio(source, inputPath)
+        : convertGraph(format, source, inputPath);
+      writeFile(options.output, file, { force: options.force });
+
+      outputJson({
+        success: true,
+        file: options.output,
+        format,
+        ...details,
+        frameCount: file.elements.filter(el => el.type === 'frame').length,
+        elementCount: file.elements.length,
+        warnings
+      });
+    });
+}
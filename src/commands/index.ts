@@ -9,3 +9,6 @@ export { batchCommand } from './batch.js';
 export { validateCommand } from './validate.js';
 export { connectCommand } from './connect.js';
 export { quickCommand } from './quick.js';
+export { previewCommand } from './preview.js';
+export { importCommand } from './import.js';
+export { libraryCommand } from './library.js';
@@ -0,0 +1,141 @@
+import { Command } from 'commander';
+import * as fs from 'node:fs';
+import { calculateBounds, countElementsByType, readFile, writeFile } from '../utils/file.js';
+import {
+  createEmptyLibrary,
+  createLibraryItem,
+  findLibraryItem,
+  instantiateLibraryItem,
+  readLibrary,
+  writeLibrary
+} from '../utils/library.js';
+import { selectElements, InvalidSelectionError } from '../utils/selection.js';
+import { outputJson, verbose } from '../utils/output.js';
+
+export interface LibraryInsertOptions {
+  item: string;
+  x: string;
+  y: string;
+}
+
+export interface LibrarySaveOptions {
+  id?: string;
+  group?: string;
+  includeArrows?: boolean;
+  name?: string;
+}
+
+function listCommand(): Command {
+  return new Command('list')
+    .description('List the items in a library')
+    .argument('<library>', 'Path to the .excalidrawlib file')
+    .action((libraryPath: string) => {
+      verbose(`Listing library items from: ${libraryPath}`);
+
+      const library = readLibrary(libraryPath);
+      outputJson(library.libraryItems.map(item => {
+        const elements = item.elements.filter(el => !el.isDeleted);
+        const { width, height } = calculateBounds(elements);
+        return {
+          id: item.id,
+          name: item.name ?? null,
+          status: item.status,
+          elementCount: elements.length,
+          elementTypes: countElementsByType(elements),
+          width,
+          height
+        };
+      }));
+    });
+}
+
+function insertCommand(): Command {
+  return new Command('insert')
+    .description('Insert a library item into a drawing, with fresh element and group IDs')
+    .argument('<library>', 'Path to the .excalidrawlib file')
+    .argument('<file>', 'Path to the .excalidraw file')
+    .requiredOption('--item <ref>', 'ID or name of the library item')
+    .requiredOption('--x <n>', 'X position of the item\'s top-left corner')
+    .requiredOption('--y <n>', 'Y position of the item\'s top-left corner')
+    .action((libraryPath: string, filePath: string, options: LibraryInsertOptions) => {
+      verbose(`Inserting ${options.item} from ${libraryPath} into: ${filePath}`);
+
+      const x = parseFloat(options.x);
+      const y = parseFloat(options.y);
+      if (!Number.isFinite(x)) {
+        throw new Error(`Invalid x: ${options.x} (expected a number)`);
+      }
+      if (!Number.isFinite(y)) {
+        throw new Error(`Invalid y: ${options.y} (expected a number)`);
+      }
+
+      const item = findLibraryItem(readLibrary(libraryPath), options.item);
+      const file = readFile(filePath);
+      const elements = instantiateLibraryItem(item, x, y);
+      file.elements.push(...elements);
+      writeFile(filePath, file, { force: true });
+
+      outputJson({
+        success: true,
+        item: item.id,
+        inserted: elements.map(el => ({
+          id: el.id,
+          type: el.type,
+          x: el.x,
+          y: el.y,
+          width: el.width,
+          height: el.height
+        })),
+        elementCount: file.elements.length
+      });
+    });
+}
+
+function saveCommand(): Command {
+  return new Command('save')
+    .description('Save elements of a drawing as a new library item, creating the library if needed')
+    .argument('<file>', 'Path to the .excalidraw file')
+    .argument('<library>', 'Path to the .excalidrawlib file')
+    .option('--id <pattern>', 'Save elements with matching IDs (supports * glob)')
+    .option('--group <id>', 'Save the elements in this group')
+    .option('--include-arrows', 'Also save arrows bound to selected elements')
+    .option('--name <name>', 'Name of the new item')
+    .action((filePath: string, libraryPath: string, options: LibrarySaveOptions) => {
+      verbose(`Saving elements of ${filePath} to library: ${libraryPath}`);
+
+      if (!options.id && !options.group) {
+        throw new InvalidSelectionError('Select the elements to save with --id or --group');
+      }
+      const file = readFile(filePath);
+      const elements = selectElements(file.elements, {
+        id: options.id,
+        groupId: options.group,
+        includeBoundArrows: options.includeArrows
+      });
+      if (elements.length === 0) {
+        throw new InvalidSelectionError('No elements match the selection');
+      }
+
+      const library = fs.existsSync(libraryPath) ? readLibrary(libraryPath) : createEmptyLibrary();
+      const item = createLibraryItem(elements, options.name);
+      library.libraryItems.push(item);
+      writeLibrary(libraryPath, library);
+
+      outputJson({
+        success: true,
+        library: libraryPath,
+        item: item.id,
+        name: item.name ?? null,
+        elementCount: item.elements.length,
+        itemCount: library.libraryItems.length
+      });
+    });
+}
+
+export function libraryCommand(): Command {
+  return new Command('library')
+    .description('List, insert and save items of an Excalidraw library (.excalidrawlib)')
+    .addCommand(listCommand())
+    .addCommand(insertCommand())
+    .addCommand(saveCommand());
+}
@@ -1,5 +1,6 @@
 import { Command } from 'commander';
 import { readFile } from '../utils/file.js';
+import { matchId } from '../utils/selection.js';
 import { outputJson, outputBriefElements, outputIds, outputTable, verbose } from '../utils/output.js';
 import type { ExcalidrawElement, ElementType } from '../types/excalidraw.js';
 
@@ -10,24 +11,6 @@ export interface ListOptions {
   brief?: boolean;
 }
 
-/**
- * Match element ID with glob-like pattern
- * Supports * wildcard at start or end
- */
-function matchId(id: string, pattern: string): boolean {
-  if (pattern === '*') return true;
-  if (pattern.startsWith('*') && pattern.endsWith('*')) {
-    return id.includes(pattern.slice(1, -1));
-  }
-  if (pattern.startsWith('*')) {
-    return id.endsWith(pattern.slice(1));
-  }
-  if (pattern.endsWith('*')) {
-    return id.startsWith(pattern.slice(0, -1));
-  }
-  return id === pattern;
-}
-
 export function listCommand(): Command {
   return new Command('list')
     .description('List elements in an Excalidraw file')
@@ -1,6 +1,7 @@
 import { Command } from 'commander';
 import { readFile, writeFile } from '../utils/file.js';
 import { mergeElement } from '../utils/element.js';
+import { matchId } from '../utils/selection.js';
 import { outputJson, verbose } from '../utils/output.js';
 import type { ExcalidrawElement } from '../types/excalidraw.js';
 
@@ -15,23 +16,6 @@ export interface ModifyOptions {
   rotate?: string;
 }
 
-/**
- * Match element ID with glob-like pattern
- */
-function matchId(id: string, pattern: string): boolean {
-  if (pattern === '*') return true;
-  if (pattern.startsWith('*') && pattern.endsWith('*')) {
-    return id.includes(pattern.slice(1, -1));
-  }
-  if (pattern.startsWith('*')) {
-    return id.endsWith(pattern.slice(1));
-  }
-  if (pattern.endsWith('*')) {
-    return id.startsWith(pattern.slice(0, -1));
-  }
-  return id === pattern;
-}
-
 /**
  * Parse --set key=value pairs
  */
@@ -0,0 +1,51 @@
+import { Command } from 'commander';
+import { readFile } from '../utils/file.js';
+import { outputJson, verbose } from '../utils/output.js';
+import { renderAscii } from '../render/ascii.js';
+
+export interface PreviewOptions {
+  width?: string;
+  height?: string;
+  color?: boolean;
+  ascii?: boolean;
+  format?: 'text' | 'json';
+}
+
+/** Columns used when stdout is not a terminal */
+const DEFAULT_WIDTH = 80;
+
+export function previewCommand(): Command {
+  return new Command('preview')
+    .description('Draw the drawing as text in the terminal')
+    .argument('<file>', 'Path to the .excalidraw file')
+    .option('--width <n>', 'Most columns (default: terminal width, or 80)')
+    .option('--height <n>', 'Most rows; the drawing is scaled down to fit')
+    .option('--color', 'Colour strokes and text with ANSI escapes')
+    .option('--ascii', 'Plain ASCII instead of Unicode box-drawing characters')
+    .option('--format <fmt>', 'Output format (text, json)', 'text')
+    .action(async (filePath: string, options: PreviewOptions) => {
+      verbose(`Previewing: ${filePath}`);
+      
+      const width = options.width ? parseInt(options.width, 10) : process.stdout.columns || DEFAULT_WIDTH;
+      const height = options.height ? parseInt(options.height, 10) : undefined;
+      if (!Number.isInteger(width) || width < 1) {
+        throw new Error(`Invalid width: ${options.width} (expected a positive integer)`);
+      }
+      if (height !== undefined && (!Number.isInteger(height) || height < 1)) {
+        throw new Error(`Invalid height: ${options.height} (expected a positive integer)`);
+      }
+      
+      const file = readFile(filePath);
+      const json = options.format === 'json';
+      const preview = renderAscii(file, { width, height, ascii: options.ascii, color: options.color && !json });
+      verbose(`Grid ${preview.columns}x${preview.rows} at ${preview.scale.toFixed(2)} units per column`);
+      
+      if (json) {
+        outputJson(preview);
+      } else {
+        for (const line of preview.lines) {
+          console.log(line);
+        }
+      }
+    });
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { parseD2 } from './d2.js';
+import { ImportError } from './graph.js';
+
+describe('parseD2', () => {
+  it('should read shapes, labels and connections', () => {
+    const { graph, warnings } = parseD2(`
+      # services
+      direction: right
+      client: Web client
+      api: "API; v2" { shape: oval }
+      db: {
+        shape: cylinder
+        label: Postgres
+      }
+      client -> api: HTTPS
+      api <-> db -- cache; db <- client
+    `);
+
+    expect(graph.direction).toBe('LR');
+    expect(graph.nodes.map(n => [n.id, n.label, n.shape])).toEqual([
+      ['client', 'Web client', 'rectangle'],
+      ['api', 'API; v2', 'ellipse'],
+      ['db', 'Postgres', 'cylinder'],
+      ['cache', 'cache', 'rectangle']
+    ]);
+    expect(graph.edges.map(e => [e.from, e.to, e.label ?? null, e.startArrowhead, e.endArrowhead])).toEqual([
+      ['client', 'api', 'HTTPS', null, 'arrow'],
+      ['api', 'db', null, 'arrow', 'arrow'],
+      ['db', 'cache', null, null, null],
+      ['db', 'client', null, 'arrow', null]
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('should read containers as nested clusters', () => {
+    const { graph } = parseD2(`
+      aws: AWS {
+        vpc: {
+          api
+          db
+          api -> db
+          api -> _.queue
+        }
+      }
+      aws.vpc.db.shape: cylinder
+      users -> aws.vpc
+    `);
+
+    expect(graph.clusters).toEqual([
+      { id: 'aws', label: 'AWS', parent: null },
+      { id: 'aws.vpc', label: 'vpc', parent: 'aws' }
+    ]);
+    expect(graph.nodes.map(n => [n.id, n.cluster, n.shape])).toEqual([
+      ['aws.vpc.api', 'aws.vpc', 'rectangle'],
+      ['aws.vpc.db', 'aws.vpc', 'cylinder'],
+      ['aws.queue', 'aws', 'rectangle'],
+      ['users', null, 'rectangle']
+    ]);
+    expect(graph.edges.map(e => [e.from, e.to])).toEqual([
+      ['aws.vpc.api', 'aws.vpc.db'],
+      ['aws.vpc.api', 'aws.queue'],
+      ['users', 'aws.vpc']
+    ]);
+  });
+
+  it('should map styles, arrowheads and block strings', () => {
+    const { graph, warnings } = parseD2(`
+      a: {
+        style: { fill: "#ffec99"; stroke: red; stroke-width: 3; border-radius: 8 }
+        link: https://example.com
+      }
+      b.shape: text
+      c.shape: hexagon
+      d: |md
+        # Title
+        Some text
+      |
+      a -> b: {
+        style.stroke-dash: 3
+        source-arrowhead.shape: diamond
+        target-arrowhead: { shape: triangle; style.filled: false }
+      }
+      *.style.fill: red
+      vars: { x: 1 }
+    `);
+
+    const [a, b, c, d] = graph.nodes;
+    expect(a).toMatchObject({ shape: 'rounded', style: { backgroundColor: '#ffec99', strokeColor: 'red', strokeWidth: 3 }, link: 'https://example.com' });
+    expect(b.style.strokeColor).toBe('transparent');
+    expect(c.shape).toBe('rectangle');
+    expect(d.label).toBe('# Title\nSome text');
+    expect(graph.edges[0]).toMatchObject({ startArrowhead: 'diamond_outline', endArrowhead: 'triangle_outline', style: { strokeStyle: 'dashed' } });
+    expect(warnings).toEqual([
+      'Line 17: skipped "*.style.fill"',
+      'Line 18: skipped "vars"',
+      'Shape "c": shape "hexagon" drawn as a rectangle'
+    ]);
+  });
+
+  it('should report syntax errors with their line', () => {
+    expect(() => parseD2('# nothing here\n')).toThrow('Empty D2 source');
+    expect(() => parseD2('a: {\n  b\n')).toThrow('Line 1: "{" is not closed');
+    expect(() => parseD2('a\n}\n')).toThrow('Line 2: unexpected "}"');
+    expect(() => parseD2('a: "open\n')).toThrow(ImportError);
+  });
+});
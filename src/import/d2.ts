@@ -0,0 +1,408 @@
+/**
+ * D2 diagram parser
+ *
+ * Reads shapes declared by key (`a.b.c` nests them), labels, `shape` and
+ * `style.*` properties, links, connections (`->`, `<-`, `<->`, `--`, also
+ * chained) with their labels and arrowheads, and the top-level `direction`.
+ * Shapes that hold other shapes are containers and become clusters.
+ */
+
+import { ImportError } from './graph.js';
+import type { GraphCluster, GraphDirection, GraphEdge, GraphNode, GraphStyle, NodeShape, ParsedGraph } from './graph.js';
+import type { Arrowhead } from '../types/excalidraw.js';
+
+/** A `key: value { ... }` statement, before keys are resolved */
+interface Statement {
+  key: string;
+  value?: string;
+  children?: Statement[];
+  line: number;
+}
+
+interface ScanState {
+  source: string;
+  pos: number;
+  line: number;
+}
+
+interface ShapeEntry {
+  id: string;
+  label: string;
+  parent: string | null;
+  props: Record<string, string>;
+}
+
+interface ParserState {
+  shapes: Map<string, ShapeEntry>;
+  edges: Array<{ edge: GraphEdge; props: Record<string, string> }>;
+  warnings: string[];
+  direction: GraphDirection;
+}
+
+const KEYWORDS = new Set([
+  'shape', 'label', 'style', 'link', 'tooltip', 'icon', 'near', 'width', 'height', 'direction', 'constraint',
+  'class', 'classes', 'vars', 'top', 'left', 'grid-rows', 'grid-columns', 'grid-gap', 'vertical-gap',
+  'horizontal-gap', 'source-arrowhead', 'target-arrowhead', 'filled', 'layers', 'scenarios', 'steps'
+]);
+
+const SHAPES: Record<string, NodeShape> = {
+  rectangle: 'rectangle',
+  square: 'rectangle',
+  text: 'rectangle',
+  code: 'rectangle',
+  oval: 'ellipse',
+  circle: 'circle',
+  person: 'circle',
+  diamond: 'diamond',
+  cylinder: 'cylinder'
+};
+
+const DIRECTIONS: Record<string, GraphDirection> = { down: 'TB', up: 'BT', right: 'LR', left: 'RL' };
+
+const ARROWHEADS: Record<string, [filled: Arrowhead, outline: Arrowhead]> = {
+  triangle: ['triangle', 'triangle_outline'],
+  arrow: ['arrow', 'arrow'],
+  diamond: ['diamond', 'diamond_outline'],
+  circle: ['circle', 'circle_outline'],
+  box: ['bar', 'bar'],
+  cross: ['bar', 'bar'],
+  'cf-one': ['crowfoot_one', 'crowfoot_one'],
+  'cf-one-required': ['crowfoot_one', 'crowfoot_one'],
+  'cf-many': ['crowfoot_many', 'crowfoot_many'],
+  'cf-many-required': ['crowfoot_one_or_many', 'crowfoot_one_or_many']
+};
+
+const ARROW = /<->|->|<-|--/g;
+
+function isSpace(ch: string | undefined): boolean {
+  return ch === ' ' || ch === '\t' || ch === '\r';
+}
+
+function skipSpaces(state: ScanState): void {
+  while (isSpace(state.source[state.pos])) state.pos++;
+}
+
+/**
+ * Skip blank lines, separators and comments between statements
+ */
+function skipSeparators(state: ScanState): void {
+  for (;;) {
+    const ch = state.source[state.pos];
+    if (isSpace(ch) || ch === ';') {
+      state.pos++;
+    } else if (ch === '\n') {
+      state.pos++;
+      state.line++;
+    } else if (state.source.startsWith('"""', state.pos)) {
+      const end = state.source.indexOf('"""', state.pos + 3);
+      const stop = end === -1 ? state.source.length : end + 3;
+      state.line += (state.source.slice(state.pos, stop).match(/\n/g) ?? []).length;
+      state.pos = stop;
+    } else if (ch === '#') {
+      while (state.pos < state.source.length && state.source[state.pos] !== '\n') state.pos++;
+    } else {
+      return;
+    }
+  }
+}
+
+function readQuoted(state: ScanState): string {
+  const quote = state.source[state.pos];
+  let text = '';
+  for (state.pos++; state.pos < state.source.length; state.pos++) {
+    const ch = state.source[state.pos];
+    if (ch === '\\' && state.pos + 1 < state.source.length) {
+      const next = state.source[++state.pos];
+      text += next === 'n' ? '\n' : next;
+    } else if (ch === quote) {
+      state.pos++;
+      return text;
+    } else if (ch === '\n') {
+      break;
+    } else {
+      text += ch;
+    }
+  }
+  throw new ImportError(`Line ${state.line}: unclosed quote`);
+}
+
+/**
+ * A key up to its `:` or `{`, with quoted parts kept quoted
+ */
+function readKey(state: ScanState): string {
+  let key = '';
+  while (state.pos < state.source.length) {
+    const ch = state.source[state.pos];
+    if (ch === '"' || ch === "'") {
+      key += JSON.stringify(readQuoted(state));
+    } else if (':{};\n}#'.includes(ch)) {
+      break;
+    } else {
+      key += ch;
+      state.pos++;
+    }
+  }
+  return key.trim();
+}
+
+/**
+ * A `|md ... |` block string: the text between matching runs of pipes
+ */
+function readBlockString(state: ScanState): string {
+  const pipes = /^\|+/.exec(state.source.slice(state.pos))![0];
+  const start = state.source.indexOf('\n', state.pos);
+  const end = state.source.indexOf(pipes, start === -1 ? state.source.length : start);
+  if (start === -1 || end === -1) {
+    throw new ImportError(`Line ${state.line}: unclosed "${pipes}" block`);
+  }
+  const lines = state.source.slice(start + 1, end).split('\n');
+  state.line += lines.length;
+  state.pos = end + pipes.length;
+  const indent = Math.min(...lines.filter(l => l.trim()).map(l => /^\s*/.exec(l)![0].length));
+  return lines.map(l => l.slice(Number.isFinite(indent) ? indent : 0)).join('\n').trim();
+}
+
+function readValue(state: ScanState): string {
+  const ch = state.source[state.pos];
+  if (ch === '"' || ch === "'") return readQuoted(state);
+  if (ch === '|') return readBlockString(state);
+  let value = '';
+  while (state.pos < state.source.length) {
+    const c = state.source[state.pos];
+    if ('{};\n'.includes(c) || (c === '#' && isSpace(state.source[state.pos - 1]))) break;
+    value += c;
+    state.pos++;
+  }
+  return value.trim();
+}
+
+/**
+ * Read statements up to the closing brace of a block, or the end of the source
+ */
+function readBlock(state: ScanState, nested: boolean, openedAt = 0): Statement[] {
+  const statements: Statement[] = [];
+  for (;;) {
+    skipSeparators(state);
+    if (state.pos >= state.source.length) {
+      if (nested) throw new ImportError(`Line ${openedAt}: "{" is not closed`);
+      return statements;
+    }
+    if (state.source[state.pos] === '}') {
+      if (!nested) throw new ImportError(`Line ${state.line}: unexpected "}"`);
+      state.pos++;
+      return statements;
+    }
+    const line = state.line;
+    const statement: Statement = { key: readKey(state), line };
+    skipSpaces(state);
+    if (state.source[state.pos] === ':') {
+      state.pos++;
+      skipSpaces(state);
+      if (state.source[state.pos] !== '{') statement.value = readValue(state);
+      skipSpaces(state);
+    }
+    if (state.source[state.pos] === '{') {
+      state.pos++;
+      statement.children = readBlock(state, true, line);
+    }
+    if (!statement.key) {
+      throw new ImportError(`Line ${line}: expected a key`);
+    }
+    statements.push(statement);
+  }
+}
+
+/**
+ * Split text at separators found outside quoted parts
+ */
+function splitOutsideQuotes(text: string, separator: RegExp): { parts: string[]; separators: string[] } {
+  const masked = text.replace(/"(?:[^"\\]|\\.)*"/g, m => '_'.repeat(m.length));
+  const parts: string[] = [];
+  const separators: string[] = [];
+  let last = 0;
+  for (const match of masked.matchAll(separator)) {
+    parts.push(text.slice(last, match.index));
+    separators.push(match[0]);
+    last = match.index! + match[0].length;
+  }
+  parts.push(text.slice(last));
+  return { parts: parts.map(p => p.trim()), separators };
+}
+
+function splitPath(key: string): string[] {
+  return splitOutsideQuotes(key, /\./g).parts.map(part => (part.startsWith('"') ? JSON.parse(part) : part));
+}
+
+/**
+ * Full path of a key inside a scope; `_` refers to the enclosing shape
+ */
+function resolve(path: string[], scope: string[]): string[] {
+  const full = [...scope];
+  for (const segment of path) {
+    if (segment === '_') full.pop();
+    else full.push(segment);
+  }
+  return full;
+}
+
+function ensureShape(state: ParserState, path: string[]): string {
+  for (let i = 1; i <= path.length; i++) {
+    const id = path.slice(0, i).join('.');
+    if (!state.shapes.has(id)) {
+      state.shapes.set(id, { id, label: path[i - 1], parent: i > 1 ? path.slice(0, i - 1).join('.') : null, props: {} });
+    }
+  }
+  return path.join('.');
+}
+
+/**
+ * Property assignments of a statement and its block, as dotted names
+ */
+function flatten(property: string[], statement: Statement, into: Record<string, string>): void {
+  if (statement.value !== undefined) {
+    into[property.join('.')] = statement.value;
+  }
+  for (const child of statement.children ?? []) {
+    flatten([...property, ...splitPath(child.key)], child, into);
+  }
+}
+
+function interpret(state: ParserState, statements: Statement[], scope: string[]): void {
+  for (const statement of statements) {
+    const { key, line } = statement;
+    if (key.startsWith('(') || key.startsWith('...') || key.includes('*')) {
+      state.warnings.push(`Line ${line}: skipped "${key}"`);
+      continue;
+    }
+
+    const { parts, separators } = splitOutsideQuotes(key, ARROW);
+    if (separators.length > 0) {
+      const ids = parts.map(part => ensureShape(state, resolve(splitPath(part), scope)));
+      const props: Record<string, string> = {};
+      for (const child of statement.children ?? []) {
+        flatten(splitPath(child.key), child, props);
+      }
+      if (statement.value !== undefined) props.label = statement.value;
+      separators.forEach((arrow, i) => {
+        state.edges.push({
+          edge: {
+            from: ids[i],
+            to: ids[i + 1],
+            startArrowhead: arrow.startsWith('<') ? 'arrow' : null,
+            endArrowhead: arrow.endsWith('>') ? 'arrow' : null,
+            minLength: 1,
+            style: {}
+          },
+          props
+        });
+      });
+      continue;
+    }
+
+    const path = splitPath(key);
+    const keyword = path.findIndex(segment => KEYWORDS.has(segment));
+    if (keyword === -1) {
+      const full = resolve(path, scope);
+      const id = ensureShape(state, full);
+      if (statement.value !== undefined && statement.value !== 'null') {
+        state.shapes.get(id)!.props.label = statement.value;
+      }
+      if (statement.children) {
+        interpret(state, statement.children, full);
+      }
+      continue;
+    }
+
+    const owner = resolve(path.slice(0, keyword), scope);
+    if (owner.length === 0) {
+      // Diagram-wide settings
+      if (path[0] === 'direction' && statement.value && statement.value in DIRECTIONS) {
+        state.direction = DIRECTIONS[statement.value];
+      } else if (['vars', 'classes', 'layers', 'scenarios', 'steps'].includes(path[0])) {
+        state.warnings.push(`Line ${line}: skipped "${key}"`);
+      }
+      continue;
+    }
+    flatten(path.slice(keyword), statement, state.shapes.get(ensureShape(state, owner))!.props);
+  }
+}
+
+function number(value: string | undefined): number | undefined {
+  const n = value === undefined ? NaN : parseFloat(value);
+  return isNaN(n) ? undefined : n;
+}
+
+/**
+ * Stroke, fill and text styling from `style.*` properties
+ */
+function styleOf(props: Record<string, string>): GraphStyle {
+  const dash = number(props['style.stroke-dash']);
+  const style: GraphStyle = {
+    strokeColor: props['style.stroke'],
+    backgroundColor: props['style.fill'],
+    strokeWidth: number(props['style.stroke-width']),
+    strokeStyle: dash === undefined ? undefined : dash > 0 ? 'dashed' : 'solid',
+    textColor: props['style.font-color'],
+    fontSize: number(props['style.font-size'])
+  };
+  return Object.fromEntries(Object.entries(style).filter(([, v]) => v !== undefined)) as GraphStyle;
+}
+
+function arrowhead(props: Record<string, string>, side: 'source' | 'target', fallback: Arrowhead): Arrowhead {
+  const shape = props[`${side}-arrowhead.shape`];
+  if (shape === undefined) return fallback;
+  if (!(shape in ARROWHEADS)) return 'arrow';
+  const [filled, outline] = ARROWHEADS[shape];
+  // D2 fills triangles and arrows unless told otherwise, and leaves the rest open
+  const isFilled = props[`${side}-arrowhead.style.filled`] ?? props[`${side}-arrowhead.filled`];
+  return isFilled === 'true' || (isFilled === undefined && (shape === 'triangle' || shape === 'arrow')) ? filled : outline;
+}
+
+/**
+ * Parse a D2 diagram into a graph
+ */
+export function parseD2(input: string): ParsedGraph {
+  const fence = /^```d2[^\n]*\n([\s\S]*?)^```/m.exec(input);
+  const statements = readBlock({ source: fence ? fence[1] : input, pos: 0, line: 1 }, false);
+  if (statements.length === 0) {
+    throw new ImportError('Empty D2 source');
+  }
+  const state: ParserState = { shapes: new Map(), edges: [], warnings: [], direction: 'TB' };
+  interpret(state, statements, []);
+
+  // Shapes that hold other shapes are containers
+  const containers = new Set([...state.shapes.values()].map(s => s.parent).filter((p): p is string => p !== null));
+  const clusters: GraphCluster[] = [];
+  const nodes: GraphNode[] = [];
+  for (const shape of state.shapes.values()) {
+    const label = shape.props.label ?? shape.label;
+    if (containers.has(shape.id)) {
+      clusters.push({ id: shape.id, label, parent: shape.parent });
+      continue;
+    }
+    const name = shape.props.shape ?? 'rectangle';
+    if (!(name in SHAPES)) {
+      state.warnings.push(`Shape "${shape.id}": shape "${name}" drawn as a rectangle`);
+    }
+    const style = styleOf(shape.props);
+    const rounded = (number(shape.props['style.border-radius']) ?? 0) > 0;
+    nodes.push({
+      id: shape.id,
+      label,
+      shape: SHAPES[name] === 'rectangle' && rounded ? 'rounded' : SHAPES[name] ?? 'rectangle',
+      style: name === 'text' ? { strokeColor: 'transparent', ...style } : style,
+      cluster: shape.parent,
+      ...(shape.props.link && { link: shape.props.link })
+    });
+  }
+
+  const edges = state.edges.map(({ edge, props }): GraphEdge => ({
+    ...edge,
+    label: props.label || undefined,
+    startArrowhead: arrowhead(props, 'source', edge.startArrowhead),
+    endArrowhead: arrowhead(props, 'target', edge.endArrowhead),
+    style: styleOf(props)
+  }));
+
+  return { graph: { direction: state.direction, nodes, edges, clusters }, warnings: state.warnings };
+}
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import { graphToDot, parseDot } from './dot.js';
+import { ImportError } from './graph.js';
+import type { Graph } from './graph.js';
+
+describe('parseDot', () => {
+  it('should read nodes, edges and defaults', () => {
+    const { graph } = parseDot(`
+      // build graph
+      digraph deps {
+        rankdir = LR;
+        node [shape=box];
+        a [label="Core\\nlib"];
+        b; c [shape=ellipse]
+        a -> b -> c;
+        a -> { b c } [label="uses"];
+      }
+    `);
+
+    expect(graph.direction).toBe('LR');
+    expect(graph.nodes.map(n => [n.id, n.label, n.shape])).toEqual([
+      ['a', 'Core\nlib', 'rectangle'],
+      ['b', 'b', 'rectangle'],
+      ['c', 'c', 'ellipse']
+    ]);
+    expect(graph.edges.map(e => [e.from, e.to, e.label ?? null, e.endArrowhead])).toEqual([
+      ['a', 'b', null, 'arrow'],
+      ['b', 'c', null, 'arrow'],
+      ['a', 'b', 'uses', 'arrow'],
+      ['a', 'c', 'uses', 'arrow']
+    ]);
+  });
+
+  it('should map shapes, colours and styles', () => {
+    const { graph, warnings } = parseDot(`
+      graph {
+        db [shape=cylinder, style=filled, fillcolor="#ffec99", color=red, penwidth=3];
+        q [shape=diamond, style="dashed,filled", color=gray40];
+        r [shape=box, style=rounded, fontcolor=blue, URL="https://example.com"];
+        p [shape=plaintext];
+        s [shape=star];
+        db -- q [style=dotted, color="0.000 1.000 1.000"];
+      }
+    `);
+
+    const [db, q, r, p, s] = graph.nodes;
+    expect(db).toMatchObject({ shape: 'cylinder', style: { backgroundColor: '#ffec99', strokeColor: '#ff0000', strokeWidth: 3 } });
+    expect(q).toMatchObject({ shape: 'diamond', style: { backgroundColor: '#666666', strokeColor: '#666666', strokeStyle: 'dashed' } });
+    expect(r).toMatchObject({ shape: 'rounded', style: { textColor: '#0000ff' }, link: 'https://example.com' });
+    expect(p.style.strokeColor).toBe('transparent');
+    expect(s.shape).toBe('rectangle');
+    expect(warnings).toEqual(['Node "s": shape "star" drawn as a rectangle']);
+
+    const named = parseDot('digraph { a [style=filled]; b [style=filled, fillcolor=gold, color=darkgreen]; c [color=skyblue3] }').graph.nodes;
+    expect(named.map(n => n.style)).toEqual([
+      { backgroundColor: '#d3d3d3' },
+      { backgroundColor: '#ffd700', strokeColor: '#006400' },
+      { strokeColor: '#87ceeb' }
+    ]);
+    expect(graph.edges[0]).toMatchObject({ startArrowhead: null, endArrowhead: null, style: { strokeStyle: 'dotted', strokeColor: '#ff0000' } });
+  });
+
+  it('should read clusters as nested frames', () => {
+    const { graph } = parseDot(`
+      digraph {
+        compound=true;
+        subgraph cluster_backend {
+          label="Backend";
+          api;
+          subgraph cluster_data { db }
+        }
+        subgraph helpers { util }
+        web -> api [lhead=cluster_backend];
+        api -> db [minlen=2];
+      }
+    `);
+
+    expect(graph.clusters).toEqual([
+      { id: 'cluster_backend', label: 'Backend', parent: null },
+      { id: 'cluster_data', label: 'data', parent: 'cluster_backend' }
+    ]);
+    expect(Object.fromEntries(graph.nodes.map(n => [n.id, n.cluster]))).toEqual({
+      api: 'cluster_backend',
+      db: 'cluster_data',
+      util: null,
+      web: null
+    });
+    expect(graph.edges[0].to).toBe('cluster_backend');
+    expect(graph.edges[1].minLength).toBe(2);
+  });
+
+  it('should read arrow directions and heads', () => {
+    const { graph } = parseDot(`
+      digraph {
+        a -> b [dir=both, arrowtail=odot, arrowhead=crow];
+        a -> c [dir=back];
+        a -> d [arrowhead=none];
+        a -> e [style=invis];
+        f [style=invis];
+        a -> f;
+      }
+    `);
+
+    expect(graph.edges.map(e => [e.to, e.startArrowhead, e.endArrowhead])).toEqual([
+      ['b', 'circle_outline', 'crowfoot_many'],
+      ['c', 'arrow', null],
+      ['d', null, null]
+    ]);
+    expect(graph.nodes.map(n => n.id)).not.toContain('f');
+  });
+
+  it('should flatten HTML, record and escaped labels', () => {
+    const { graph } = parseDot(`
+      digraph G {
+        html [label=<<b>Bold</b><br/>&amp; more>];
+        rec [shape=record, label="{<in> input|mid\\ dle|<out> output}"];
+        name [label="\\N in \\G"];
+        quoted [label="<<include>>"];
+        joined [label="one" + " two"];
+      }
+    `);
+
+    expect(graph.nodes.map(n => n.label)).toEqual(['Bold\n& more', 'input\nmid dle\noutput', 'name in G', '<<include>>', 'one two']);
+  });
+
+  it('should report syntax errors with their line', () => {
+    expect(() => parseDot('')).toThrow('Empty DOT source');
+    expect(() => parseDot('flowchart TD')).toThrow(ImportError);
+    expect(() => parseDot('digraph {\n  a -> ;\n}')).toThrow('Line 2: expected an identifier but found ";"');
+    expect(() => parseDot('digraph {\n  a [label="x"\n')).toThrow('expected an identifier but found the end of the file');
+  });
+});
+
+describe('graphToDot', () => {
+  const graph: Graph = {
+    direction: 'TB',
+    nodes: [
+      { id: 'api-1', label: 'API "v2"\nserver', shape: 'rounded', style: { backgroundColor: '#ffec99', strokeColor: 'red', strokeWidth: 4 }, cluster: 'b', link: 'https://example.com' },
+      { id: 'db', label: 'db', shape: 'cylinder', style: { strokeStyle: 'dotted' }, cluster: 'inner' },
+      { id: 'note', label: 'Note', shape: 'rectangle', style: { strokeColor: 'transparent', textColor: 'gray' }, cluster: null }
+    ],
+    edges: [
+      { from: 'api-1', to: 'db', label: 'SQL', startArrowhead: null, endArrowhead: 'arrow', minLength: 1, style: {} },
+      { from: 'note', to: 'b', startArrowhead: 'diamond_outline', endArrowhead: null, minLength: 1, style: { strokeStyle: 'dashed' } },
+      { from: 'db', to: 'empty', startArrowhead: 'dot', endArrowhead: 'triangle', minLength: 1, style: {} },
+      { from: 'db', to: 'note', startArrowhead: null, endArrowhead: null, minLength: 1, style: {} }
+    ],
+    clusters: [
+      { id: 'b', label: 'Backend', parent: null },
+      { id: 'inner', label: '', parent: 'b' },
+      { id: 'empty', label: 'Later', parent: null }
+    ]
+  };
+
+  it('should write nodes, clusters and edges with their attributes', () => {
+    expect(graphToDot(graph)).toBe([
+      'digraph {',
+      '  compound=true;',
+      '  node [shape=box];',
+      '  subgraph cluster_b {',
+      '    label=Backend;',
+      '    subgraph cluster_inner {',
+      '      label="";',
+      '      db [shape=cylinder, style=dotted];',
+      '    }',
+      '    "api-1" [label="API \\"v2\\"\\nserver", style="rounded,filled", fillcolor="#ffec99", color=red, penwidth=4, URL="https://example.com"];',
+      '  }',
+      '  subgraph cluster_empty {',
+      '    label=Later;',
+      '    cluster_empty_anchor [shape=point, style=invis];',
+      '  }',
+      '  note [label=Note, shape=plaintext, fontcolor=gray];',
+      '  "api-1" -> db [label=SQL];',
+      '  note -> "api-1" [dir=back, arrowtail=odiamond, style=dashed, lhead=cluster_b];',
+      '  db -> cluster_empty_anchor [dir=both, arrowtail=dot, lhead=cluster_empty];',
+      '  db -> note [dir=none];',
+      '}',
+      ''
+    ].join('\n'));
+  });
+
+  it('should read back what it writes', () => {
+    const { graph: back } = parseDot(graphToDot(graph));
+
+    expect(back.clusters.map(c => [c.id, c.label, c.parent])).toEqual([
+      ['cluster_b', 'Backend', null],
+      ['cluster_inner', '', 'cluster_b'],
+      ['cluster_empty', 'Later', null]
+    ]);
+    expect(back.nodes.find(n => n.id === 'api-1')).toMatchObject({ label: 'API "v2"\nserver', shape: 'rounded', cluster: 'cluster_b', link: 'https://example.com' });
+    expect(back.edges.map(e => [e.from, e.to, e.startArrowhead, e.endArrowhead])).toEqual([
+      ['api-1', 'db', null, 'arrow'],
+      ['note', 'cluster_b', 'diamond_outline', null],
+      ['db', 'note', null, null]
+    ]);
+  });
+});
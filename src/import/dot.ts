@@ -0,0 +1,629 @@
+/**
+ * Graphviz DOT parser
+ *
+ * Reads `graph`/`digraph` sources: node and edge statements with their
+ * attribute lists, `node`/`edge`/`graph` defaults, anonymous subgraphs and
+ * `subgraph cluster_*` blocks. Attributes that have an Excalidraw
+ * counterpart (label, shape, color, fillcolor, style, penwidth, arrowheads,
+ * rankdir, minlen, URL) are mapped; the rest are ignored. graphToDot writes
+ * graphs back as digraph source.
+ */
+
+import { ImportError } from './graph.js';
+import { formatColor, parseColor } from '../render/color.js';
+import type { Graph, GraphCluster, GraphDirection, GraphEdge, GraphNode, GraphStyle, NodeShape, ParsedGraph } from './graph.js';
+import type { Arrowhead } from '../types/excalidraw.js';
+
+type Attrs = Record<string, string>;
+
+interface Token {
+  kind: 'id' | 'html' | 'punct';
+  value: string;
+  line: number;
+}
+
+interface Scope {
+  node: Attrs;
+  edge: Attrs;
+  graph: Attrs;
+  /** Innermost enclosing cluster */
+  cluster: string | null;
+}
+
+interface ParserState {
+  tokens: Token[];
+  pos: number;
+  directed: boolean;
+  name: string;
+  nodes: Map<string, { attrs: Attrs; cluster: string | null }>;
+  edges: Array<{ from: string; to: string; attrs: Attrs }>;
+  clusters: Array<GraphCluster & { attrs: Attrs }>;
+}
+
+const PUNCTUATION = ['->', '--', '{', '}', '[', ']', ';', ',', '=', ':'];
+
+/** Prefix marking attribute values that were written as HTML strings (`<...>`) */
+const HTML_MARK = '\u0000';
+
+const SHAPES: Record<string, NodeShape> = {
+  box: 'rectangle',
+  rect: 'rectangle',
+  rectangle: 'rectangle',
+  square: 'rectangle',
+  record: 'rectangle',
+  mrecord: 'rounded',
+  plaintext: 'rectangle',
+  plain: 'rectangle',
+  none: 'rectangle',
+  underline: 'rectangle',
+  note: 'rectangle',
+  tab: 'rectangle',
+  folder: 'rectangle',
+  box3d: 'rectangle',
+  component: 'rectangle',
+  ellipse: 'ellipse',
+  oval: 'ellipse',
+  egg: 'ellipse',
+  circle: 'circle',
+  doublecircle: 'circle',
+  mcircle: 'circle',
+  point: 'circle',
+  diamond: 'diamond',
+  mdiamond: 'diamond',
+  hexagon: 'diamond',
+  cylinder: 'cylinder'
+};
+
+/** Shapes drawn without an outline */
+const TEXT_SHAPES = ['plaintext', 'plain', 'none'];
+
+const ARROWHEADS: Record<string, Arrowhead> = {
+  normal: 'arrow',
+  vee: 'arrow',
+  inv: 'arrow',
+  open: 'arrow',
+  empty: 'triangle_outline',
+  onormal: 'triangle_outline',
+  dot: 'dot',
+  odot: 'circle_outline',
+  tee: 'bar',
+  box: 'bar',
+  diamond: 'diamond',
+  odiamond: 'diamond_outline',
+  crow: 'crowfoot_many',
+  none: null
+};
+
+/**
+ * Split DOT source into identifiers, HTML strings and punctuation,
+ * dropping comments and `#` preprocessor lines
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+  const fail = (message: string): never => {
+    throw new ImportError(`Line ${line}: ${message}`);
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+    const rest = source.slice(i, i + 2);
+    if (ch === '\n') {
+      line++;
+      i++;
+    } else if (/\s/.test(ch)) {
+      i++;
+    } else if (rest === '//' || (ch === '#' && /(^|\n)[ \t]*$/.test(source.slice(0, i)))) {
+      while (i < source.length && source[i] !== '\n') i++;
+    } else if (rest === '/*') {
+      const end = source.indexOf('*/', i + 2);
+      if (end === -1) fail('unclosed comment');
+      line += (source.slice(i, end).match(/\n/g) ?? []).length;
+      i = end + 2;
+    } else if (ch === '"') {
+      // Quoted strings, joined when written "a" + "b"
+      let value = '';
+      const start = line;
+      for (;;) {
+        let j = i + 1;
+        while (j < source.length && source[j] !== '"') {
+          if (source[j] === '\\' && source[j + 1] === '"') {
+            value += '"';
+            j += 2;
+            continue;
+          }
+          if (source[j] === '\\' && source[j + 1] === '\n') {
+            line++;
+            j += 2;
+            continue;
+          }
+          if (source[j] === '\n') line++;
+          value += source[j++];
+        }
+        if (j >= source.length) fail('unclosed string');
+        i = j + 1;
+        const concat = /^\s*\+\s*"/.exec(source.slice(i));
+        if (!concat) break;
+        line += (concat[0].match(/\n/g) ?? []).length;
+        i += concat[0].length - 1;
+      }
+      tokens.push({ kind: 'id', value, line: start });
+    } else if (ch === '<') {
+      let depth = 0;
+      let j = i;
+      do {
+        if (source[j] === '<') depth++;
+        else if (source[j] === '>') depth--;
+        else if (source[j] === '\n') line++;
+        j++;
+      } while (depth > 0 && j < source.length);
+      if (depth > 0) fail('unclosed HTML label');
+      tokens.push({ kind: 'html', value: source.slice(i + 1, j - 1), line });
+      i = j;
+    } else if (PUNCTUATION.includes(rest)) {
+      tokens.push({ kind: 'punct', value: rest, line });
+      i += 2;
+    } else if (PUNCTUATION.includes(ch)) {
+      tokens.push({ kind: 'punct', value: ch, line });
+      i++;
+    } else {
+      const id = /^(?:-?(?:\.\d+|\d+(?:\.\d*)?)|[\p{L}_][\p{L}\p{N}_]*)/u.exec(source.slice(i));
+      if (!id) fail(`unexpected "${ch}"`);
+      tokens.push({ kind: 'id', value: id![0], line });
+      i += id![0].length;
+    }
+  }
+  return tokens;
+}
+
+function peek(state: ParserState, offset = 0): Token | undefined {
+  return state.tokens[state.pos + offset];
+}
+
+function isPunct(token: Token | undefined, value: string): boolean {
+  return token?.kind === 'punct' && token.value === value;
+}
+
+function isKeyword(token: Token | undefined, keyword: string): boolean {
+  return token?.kind === 'id' && token.value.toLowerCase() === keyword;
+}
+
+function expect(state: ParserState, value: string): void {
+  const token = peek(state);
+  if (!isPunct(token, value)) {
+    const line = token?.line ?? state.tokens[state.tokens.length - 1]?.line ?? 1;
+    throw new ImportError(`Line ${line}: expected "${value}" but found ${token ? `"${token.value}"` : 'the end of the file'}`);
+  }
+  state.pos++;
+}
+
+function readId(state: ParserState): string {
+  const token = peek(state);
+  if (!token || token.kind === 'punct') {
+    const line = token?.line ?? state.tokens[state.tokens.length - 1]?.line ?? 1;
+    throw new ImportError(`Line ${line}: expected an identifier but found ${token ? `"${token.value}"` : 'the end of the file'}`);
+  }
+  state.pos++;
+  return token.kind === 'html' ? HTML_MARK + token.value : token.value;
+}
+
+/**
+ * `[a=1, b=2][c=3]`
+ */
+function readAttrs(state: ParserState): Attrs {
+  const attrs: Attrs = {};
+  while (isPunct(peek(state), '[')) {
+    state.pos++;
+    while (!isPunct(peek(state), ']')) {
+      const key = readId(state);
+      expect(state, '=');
+      attrs[key] = readId(state);
+      if (isPunct(peek(state), ',') || isPunct(peek(state), ';')) state.pos++;
+    }
+    state.pos++;
+  }
+  return attrs;
+}
+
+/**
+ * Record a node mention; a node belongs to the first cluster that mentions it
+ */
+function addNode(state: ParserState, scope: Scope, id: string, attrs: Attrs = {}): void {
+  let node = state.nodes.get(id);
+  if (!node) {
+    node = { attrs: { ...scope.node }, cluster: null };
+    state.nodes.set(id, node);
+  }
+  Object.assign(node.attrs, attrs);
+  if (node.cluster === null) {
+    node.cluster = scope.cluster;
+  }
+}
+
+/**
+ * `a`, `a:port` or `a:port:n`; ports are dropped
+ */
+function readNodeId(state: ParserState): string {
+  const id = readId(state);
+  for (let i = 0; i < 2 && isPunct(peek(state), ':'); i++) {
+    state.pos++;
+    readId(state);
+  }
+  return id;
+}
+
+/**
+ * `subgraph name { ... }`, `subgraph { ... }` or `{ ... }`; returns the nodes mentioned inside
+ */
+function readSubgraph(state: ParserState, scope: Scope): string[] {
+  let name: string | undefined;
+  if (isKeyword(peek(state), 'subgraph')) {
+    state.pos++;
+    if (!isPunct(peek(state), '{')) name = readId(state);
+  }
+  const inner: Scope = { node: { ...scope.node }, edge: { ...scope.edge }, graph: {}, cluster: scope.cluster };
+  let cluster: (GraphCluster & { attrs: Attrs }) | undefined;
+  if (name?.startsWith('cluster')) {
+    cluster = { id: name, label: '', parent: scope.cluster, attrs: inner.graph };
+    state.clusters.push(cluster);
+    inner.cluster = name;
+  }
+  const mentioned: string[] = [];
+  expect(state, '{');
+  readStatements(state, inner, mentioned);
+  expect(state, '}');
+  if (cluster) {
+    const label = inner.graph.label;
+    cluster.label = label !== undefined ? label : name!.replace(/^cluster_?/, '') || name!;
+  }
+  return [...new Set(mentioned)];
+}
+
+/**
+ * A node id or subgraph in an edge statement, with the nodes it stands for
+ */
+function readEndpoint(state: ParserState, scope: Scope, mentioned: string[]): string[] {
+  const token = peek(state);
+  if (isKeyword(token, 'subgraph') || isPunct(token, '{')) {
+    const ids = readSubgraph(state, scope);
+    mentioned.push(...ids);
+    return ids;
+  }
+  const id = readNodeId(state);
+  addNode(state, scope, id);
+  mentioned.push(id);
+  return [id];
+}
+
+function readStatements(state: ParserState, scope: Scope, mentioned: string[]): void {
+  while (peek(state) && !isPunct(peek(state), '}')) {
+    const token = peek(state)!;
+    if (isPunct(token, ';')) {
+      state.pos++;
+      continue;
+    }
+
+    // graph [..], node [..], edge [..]
+    const keyword = token.kind === 'id' ? token.value.toLowerCase() : '';
+    if ((keyword === 'graph' || keyword === 'node' || keyword === 'edge') && isPunct(peek(state, 1), '[')) {
+      state.pos++;
+      Object.assign(scope[keyword], readAttrs(state));
+      continue;
+    }
+
+    // name = value sets a graph attribute
+    if (token.kind !== 'punct' && isPunct(peek(state, 1), '=')) {
+      const key = readId(state);
+      state.pos++;
+      scope.graph[key] = readId(state);
+      continue;
+    }
+
+    const groups = [readEndpoint(state, scope, mentioned)];
+    while (isPunct(peek(state), '->') || isPunct(peek(state), '--')) {
+      state.pos++;
+      groups.push(readEndpoint(state, scope, mentioned));
+    }
+    const attrs = readAttrs(state);
+    if (groups.length === 1) {
+      if (groups[0].length === 1 && !isKeyword(token, 'subgraph') && !isPunct(token, '{')) {
+        addNode(state, scope, groups[0][0], attrs);
+      }
+      continue;
+    }
+    for (let i = 1; i < groups.length; i++) {
+      for (const from of groups[i - 1]) {
+        for (const to of groups[i]) {
+          state.edges.push({ from, to, attrs: { ...scope.edge, ...attrs } });
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Expand `\N`, `\G`, `\n` style escapes and flatten HTML and record labels
+ */
+function labelText(raw: string, attrs: Attrs, names: Record<string, string>): string {
+  if (raw.startsWith(HTML_MARK)) {
+    return raw.slice(HTML_MARK.length)
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<[^>]*>/g, '')
+      .replace(/&nbsp;/g, ' ')
+      .replace(/&lt;/g, '<')
+      .replace(/&gt;/g, '>')
+      .replace(/&quot;/g, '"')
+      .replace(/&amp;/g, '&')
+      .trim();
+  }
+  let text = raw;
+  if (/^m?record$/i.test(attrs.shape ?? '')) {
+    // Record fields become lines; ports and the braces that flip orientation are dropped
+    text = text
+      .split(/(?<!\\)\|/)
+      .map(field => field.replace(/(?<!\\)<[^>]*>/g, '').replace(/(?<!\\)[{}]/g, '').trim())
+      .filter(Boolean)
+      .join('\n')
+      .replace(/\\([{}|<> ])/g, '$1');
+  }
+  return text
+    .replace(/\\([NGTHE])/g, (_, key: string) => names[key] ?? '')
+    .replace(/\\[nlr]/g, '\n')
+    .replace(/\\\\/g, '\\')
+    .replace(/\n$/, '');
+}
+
+/**
+ * First colour of a colour list as hex, so every renderer can draw it; HSV
+ * triples are converted and names unknown to CSS are dropped
+ */
+function color(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const first = value.split(':')[0].split(';')[0].trim();
+  const hsv = /^([\d.]+)[ ,]+([\d.]+)[ ,]+([\d.]+)$/.exec(first);
+  if (hsv) {
+    const [h, s, v] = hsv.slice(1).map(Number);
+    const f = (n: number) => {
+      const k = (n + h * 6) % 6;
+      return Math.round(255 * (v - v * s * Math.max(0, Math.min(k, 4 - k, 1))));
+    };
+    return '#' + [f(5), f(3), f(1)].map(c => c.toString(16).padStart(2, '0')).join('');
+  }
+  // X11 greys by percentage, and numbered variants such as "skyblue3", have no CSS name
+  const grey = /^gr[ae]y(\d{1,3})$/i.exec(first);
+  if (grey) {
+    const level = Math.round((Math.min(100, Number(grey[1])) / 100) * 255).toString(16).padStart(2, '0');
+    return `#${level}${level}${level}`;
+  }
+  if (first.startsWith('/')) return undefined;
+  const rgba = parseColor(first.replace(/^([a-z]+)[1-4]$/i, '$1'));
+  return rgba ? formatColor(rgba) : undefined;
+}
+
+function number(value: string | undefined): number | undefined {
+  const n = value === undefined ? NaN : parseFloat(value);
+  return isNaN(n) ? undefined : n;
+}
+
+/**
+ * Stroke, fill and text styling shared by nodes and edges
+ */
+function styleOf(attrs: Attrs, styles: string[], fill: boolean): GraphStyle {
+  const style: GraphStyle = {};
+  style.strokeColor = color(attrs.color);
+  if (fill && styles.includes('filled')) {
+    style.backgroundColor = color(attrs.fillcolor) ?? color(attrs.color) ?? '#d3d3d3';
+  }
+  style.strokeWidth = number(attrs.penwidth) ?? (styles.includes('bold') ? 4 : undefined);
+  style.strokeStyle = styles.includes('dashed') ? 'dashed' : styles.includes('dotted') ? 'dotted' : undefined;
+  style.textColor = color(attrs.fontcolor);
+  style.fontSize = number(attrs.fontsize);
+  return Object.fromEntries(Object.entries(style).filter(([, v]) => v !== undefined)) as GraphStyle;
+}
+
+function styles(attrs: Attrs): string[] {
+  return (attrs.style ?? '').split(',').map(s => s.trim().toLowerCase());
+}
+
+function arrowhead(name: string | undefined): Arrowhead {
+  if (name === undefined) return 'arrow';
+  // "l" and "r" draw half an arrowhead; the whole one is close enough
+  const key = name.toLowerCase().replace(/^[lr](?=[a-z])/, '');
+  return key in ARROWHEADS ? ARROWHEADS[key] : 'arrow';
+}
+
+/**
+ * Parse a Graphviz DOT graph into a graph
+ */
+export function parseDot(input: string): ParsedGraph {
+  const state: ParserState = { tokens: tokenize(input), pos: 0, directed: false, name: '', nodes: new Map(), edges: [], clusters: [] };
+  if (state.tokens.length === 0) {
+    throw new ImportError('Empty DOT source');
+  }
+  if (isKeyword(peek(state), 'strict')) state.pos++;
+  if (isKeyword(peek(state), 'digraph')) {
+    state.directed = true;
+  } else if (!isKeyword(peek(state), 'graph')) {
+    throw new ImportError(`Line ${peek(state)!.line}: expected "graph" or "digraph" but found "${peek(state)!.value}"`);
+  }
+  state.pos++;
+  if (!isPunct(peek(state), '{')) state.name = readId(state);
+
+  const root: Scope = { node: {}, edge: {}, graph: {}, cluster: null };
+  expect(state, '{');
+  readStatements(state, root, []);
+  expect(state, '}');
+  if (peek(state)) {
+    throw new ImportError(`Line ${peek(state)!.line}: unexpected "${peek(state)!.value}" after the graph`);
+  }
+
+  const warnings: string[] = [];
+  const rankdir = (root.graph.rankdir ?? 'TB').toUpperCase();
+  const direction: GraphDirection = ['TB', 'BT', 'LR', 'RL'].includes(rankdir) ? rankdir as GraphDirection : 'TB';
+
+  const nodes: GraphNode[] = [];
+  for (const [id, { attrs, cluster }] of state.nodes) {
+    const nodeStyles = styles(attrs);
+    if (nodeStyles.includes('invis')) continue;
+    const shapeName = (attrs.shape ?? 'ellipse').toLowerCase();
+    let shape = SHAPES[shapeName];
+    if (!shape) {
+      warnings.push(`Node "${id}": shape "${attrs.shape}" drawn as a rectangle`);
+      shape = 'rectangle';
+    }
+    if (shape === 'rectangle' && nodeStyles.includes('rounded')) shape = 'rounded';
+    const style = styleOf(attrs, nodeStyles, true);
+    if (TEXT_SHAPES.includes(shapeName)) style.strokeColor ??= 'transparent';
+    nodes.push({
+      id,
+      label: shapeName === 'point' ? '' : labelText(attrs.label ?? '\\N', attrs, { N: id, G: state.name }),
+      shape,
+      style,
+      cluster,
+      link: attrs.URL ?? attrs.href ?? null
+    });
+  }
+
+  const visible = new Set(nodes.map(n => n.id));
+  const clusterIds = new Set(state.clusters.map(c => c.id));
+  const edges: GraphEdge[] = [];
+  for (const { from, to, attrs } of state.edges) {
+    if (!visible.has(from) || !visible.has(to) || styles(attrs).includes('invis')) continue;
+    const dir = (attrs.dir ?? (state.directed ? 'forward' : 'none')).toLowerCase();
+    const label = attrs.label ?? attrs.xlabel;
+    const names = { T: from, H: to, E: `${from}${state.directed ? '->' : '--'}${to}`, G: state.name };
+    edges.push({
+      from: attrs.ltail && clusterIds.has(attrs.ltail) ? attrs.ltail : from,
+      to: attrs.lhead && clusterIds.has(attrs.lhead) ? attrs.lhead : to,
+      label: label ? labelText(label, {}, names) || undefined : undefined,
+      startArrowhead: dir === 'back' || dir === 'both' ? arrowhead(attrs.arrowtail) : null,
+      endArrowhead: dir === 'forward' || dir === 'both' ? arrowhead(attrs.arrowhead) : null,
+      minLength: Math.max(1, Math.round(number(attrs.minlen) ?? 1)),
+      style: styleOf(attrs, styles(attrs), false)
+    });
+  }
+
+  const clusters = state.clusters.map(({ attrs, ...c }) => ({
+    ...c,
+    label: c.label ? labelText(c.label, attrs, { G: c.id }) : c.label
+  }));
+  return { graph: { direction, nodes, edges, clusters }, warnings };
+}
+
+const DOT_SHAPES: Record<NodeShape, string> = {
+  rectangle: 'box',
+  rounded: 'box',
+  ellipse: 'ellipse',
+  circle: 'circle',
+  diamond: 'diamond',
+  cylinder: 'cylinder'
+};
+
+const DOT_ARROWHEADS: Record<NonNullable<Arrowhead>, string> = {
+  arrow: 'normal',
+  triangle: 'normal',
+  triangle_outline: 'onormal',
+  dot: 'dot',
+  circle: 'dot',
+  circle_outline: 'odot',
+  bar: 'tee',
+  diamond: 'diamond',
+  diamond_outline: 'odiamond',
+  crowfoot_one: 'tee',
+  crowfoot_many: 'crow',
+  crowfoot_one_or_many: 'crow'
+};
+
+/**
+ * An identifier, quoted unless it is a plain name
+ */
+function quoteId(id: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(id) ? id : `"${id.replace(/["\\]/g, '\\$&').replace(/\n/g, '\\n')}"`;
+}
+
+function attrList(attrs: Array<[string, string | number | undefined]>): string {
+  const set = attrs.filter((a): a is [string, string | number] => a[1] !== undefined);
+  return set.length > 0 ? ` [${set.map(([k, v]) => `${k}=${typeof v === 'number' ? v : quoteId(v)}`).join(', ')}]` : '';
+}
+
+function strokeAttrs(style: GraphStyle): Array<[string, string | number | undefined]> {
+  return [
+    ['color', style.strokeColor],
+    ['penwidth', style.strokeWidth],
+    ['fontcolor', style.textColor]
+  ];
+}
+
+/**
+ * Write a graph as Graphviz digraph source
+ */
+export function graphToDot(graph: Graph): string {
+  const clusterName = (id: string) => quoteId(`cluster_${id}`);
+  const lines = ['digraph {'];
+  if (graph.direction !== 'TB') lines.push(`  rankdir=${graph.direction};`);
+  const clusterIds = new Set(graph.clusters.map(c => c.id));
+  if (graph.edges.some(e => clusterIds.has(e.from) || clusterIds.has(e.to))) lines.push('  compound=true;');
+  lines.push('  node [shape=box];');
+
+  // Edges to a cluster are drawn to a node inside it, clipped at the cluster's border
+  const anchors = new Map<string, string>();
+  const anchorOf = (cluster: string): string | undefined => {
+    return graph.nodes.find(n => n.cluster === cluster)?.id
+      ?? graph.clusters.filter(c => c.parent === cluster).map(c => anchorOf(c.id)).find(id => id !== undefined);
+  };
+
+  const writeScope = (cluster: string | null, indent: string) => {
+    for (const child of graph.clusters.filter(c => c.parent === cluster)) {
+      lines.push(`${indent}subgraph ${clusterName(child.id)} {`);
+      lines.push(`${indent}  label=${quoteId(child.label)};`);
+      writeScope(child.id, `${indent}  `);
+      let anchor = anchorOf(child.id);
+      if (anchor === undefined) {
+        anchor = `cluster_${child.id}_anchor`;
+        lines.push(`${indent}  ${quoteId(anchor)} [shape=point, style=invis];`);
+      }
+      anchors.set(child.id, anchor);
+      lines.push(`${indent}}`);
+    }
+    for (const node of graph.nodes.filter(n => n.cluster === cluster)) {
+      const { style } = node;
+      const styles = [
+        node.shape === 'rounded' && 'rounded',
+        style.backgroundColor && style.backgroundColor !== 'transparent' && 'filled',
+        style.strokeStyle !== undefined && style.strokeStyle !== 'solid' && style.strokeStyle
+      ].filter(Boolean).join(',');
+      const attrs = attrList([
+        ['label', node.label !== node.id ? node.label : undefined],
+        ['shape', style.strokeColor === 'transparent' ? 'plaintext' : node.shape === 'rectangle' || node.shape === 'rounded' ? undefined : DOT_SHAPES[node.shape]],
+        ['style', styles || undefined],
+        ['fillcolor', styles.includes('filled') ? style.backgroundColor : undefined],
+        ...strokeAttrs(style.strokeColor === 'transparent' ? { ...style, strokeColor: undefined } : style),
+        ['URL', node.link ?? undefined]
+      ]);
+      lines.push(`${indent}${quoteId(node.id)}${attrs};`);
+    }
+  };
+  writeScope(null, '  ');
+
+  for (const edge of graph.edges) {
+    const start = edge.startArrowhead;
+    const end = edge.endArrowhead;
+    const dir = start !== null && end !== null ? 'both' : start !== null ? 'back' : end !== null ? undefined : 'none';
+    const attrs = attrList([
+      ['label', edge.label],
+      ['dir', dir],
+      ['arrowtail', start !== null && DOT_ARROWHEADS[start] !== 'normal' ? DOT_ARROWHEADS[start] : undefined],
+      ['arrowhead', end !== null && DOT_ARROWHEADS[end] !== 'normal' ? DOT_ARROWHEADS[end] : undefined],
+      ['style', edge.style.strokeStyle !== undefined && edge.style.strokeStyle !== 'solid' ? edge.style.strokeStyle : undefined],
+      ...strokeAttrs(edge.style),
+      ['ltail', clusterIds.has(edge.from) ? `cluster_${edge.from}` : undefined],
+      ['lhead', clusterIds.has(edge.to) ? `cluster_${edge.to}` : undefined]
+    ]);
+    const from = anchors.get(edge.from) ?? edge.from;
+    const to = anchors.get(edge.to) ?? edge.to;
+    lines.push(`  ${quoteId(from)} -> ${quoteId(to)}${attrs};`);
+  }
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,196 @@
+import { describe, it, expect } from 'vitest';
+import { excalidrawToGraph, graphToExcalidraw } from './graph.js';
+import { createElement } from '../utils/element.js';
+import type { Graph, GraphEdge, GraphNode } from './graph.js';
+import type { ExcalidrawElement, FrameElement, LinearElement, TextElement } from '../types/excalidraw.js';
+
+function node(id: string, extra: Partial<GraphNode> = {}): GraphNode {
+  return { id, label: id, shape: 'rectangle', style: {}, cluster: null, ...extra };
+}
+
+function edge(from: string, to: string, extra: Partial<GraphEdge> = {}): GraphEdge {
+  return { from, to, startArrowhead: null, endArrowhead: 'arrow', minLength: 1, style: {}, ...extra };
+}
+
+function shapeFor(elements: ExcalidrawElement[], label: string): ExcalidrawElement {
+  const text = elements.find(el => el.type === 'text' && el.text === label) as TextElement;
+  return elements.find(el => el.id === text.containerId)!;
+}
+
+describe('graphToExcalidraw', () => {
+  it('should place each layer below the previous one', () => {
+    const graph: Graph = {
+      direction: 'TB',
+      nodes: [node('a'), node('b'), node('c'), node('d')],
+      edges: [edge('a', 'b'), edge('a', 'c'), edge('b', 'd'), edge('c', 'd')],
+      clusters: []
+    };
+    const { elements } = graphToExcalidraw(graph);
+    const [a, b, c, d] = ['a', 'b', 'c', 'd'].map(label => shapeFor(elements, label));
+
+    expect(b.y).toBeGreaterThan(a.y + a.height);
+    expect(b.y).toBe(c.y);
+    expect(Math.abs(b.x - c.x)).toBeGreaterThanOrEqual(b.width);
+    expect(d.y).toBeGreaterThan(b.y + b.height);
+    expect(Math.min(...elements.map(el => el.x))).toBe(100);
+  });
+
+  it('should lay out left to right and survive cycles', () => {
+    const graph: Graph = {
+      direction: 'LR',
+      nodes: [node('a'), node('b')],
+      edges: [edge('a', 'b'), edge('b', 'a'), edge('b', 'b')],
+      clusters: []
+    };
+    const { elements } = graphToExcalidraw(graph);
+    const [a, b] = ['a', 'b'].map(label => shapeFor(elements, label));
+
+    expect(b.x).toBeGreaterThan(a.x + a.width);
+    expect(elements.filter(el => el.type === 'arrow')).toHaveLength(3);
+  });
+
+  it('should bind arrows, labels and node text', () => {
+    const graph: Graph = {
+      direction: 'TB',
+      nodes: [node('a', { shape: 'diamond', style: { backgroundColor: '#ffec99' } }), node('b', { shape: 'rounded' })],
+      edges: [edge('a', 'b', { label: 'yes', style: { strokeStyle: 'dashed' } })],
+      clusters: []
+    };
+    const { elements } = graphToExcalidraw(graph);
+    const a = shapeFor(elements, 'a');
+    const b = shapeFor(elements, 'b');
+    const arrow = elements.find(el => el.type === 'arrow') as LinearElement;
+    const label = elements.find(el => el.type === 'text' && el.text === 'yes') as TextElement;
+
+    expect(a.type).toBe('diamond');
+    expect(a.backgroundColor).toBe('#ffec99');
+    expect(b.roundness).not.toBeNull();
+    expect(arrow.strokeStyle).toBe('dashed');
+    expect(arrow.startBinding?.elementId).toBe(a.id);
+    expect(arrow.endBinding?.elementId).toBe(b.id);
+    expect(a.boundElements).toContainEqual({ id: arrow.id, type: 'arrow' });
+    expect(b.boundElements).toContainEqual({ id: arrow.id, type: 'arrow' });
+    expect(label.containerId).toBe(arrow.id);
+    expect(arrow.boundElements).toContainEqual({ id: label.id, type: 'text' });
+  });
+
+  it('should wrap clusters in frames after their children', () => {
+    const graph: Graph = {
+      direction: 'TB',
+      nodes: [node('a', { cluster: 'inner' }), node('b', { cluster: 'outer' }), node('c')],
+      edges: [edge('a', 'b'), edge('c', 'outer')],
+      clusters: [{ id: 'outer', label: 'Outer', parent: null }, { id: 'inner', label: 'Inner', parent: 'outer' }]
+    };
+    const { elements } = graphToExcalidraw(graph);
+    const frames = elements.filter(el => el.type === 'frame') as FrameElement[];
+    const outer = frames.find(f => f.name === 'Outer')!;
+    const inner = frames.find(f => f.name === 'Inner')!;
+    const a = shapeFor(elements, 'a');
+
+    expect(elements.slice(-2).every(el => el.type === 'frame')).toBe(true);
+    expect(a.frameId).toBe(inner.id);
+    expect(shapeFor(elements, 'b').frameId).toBe(outer.id);
+    expect(inner.x).toBeGreaterThan(outer.x);
+    expect(inner.x + inner.width).toBeLessThan(outer.x + outer.width);
+    expect(a.x).toBeGreaterThan(inner.x);
+
+    const toCluster = elements.find(el => el.type === 'arrow' && (el as LinearElement).endBinding?.elementId === outer.id);
+    expect(toCluster).toBeDefined();
+    expect(outer.boundElements).toContainEqual({ id: toCluster!.id, type: 'arrow' });
+  });
+
+  it('should route edges that skip layers beside the nodes in between', () => {
+    const graph: Graph = {
+      direction: 'TB',
+      nodes: [node('a'), node('b'), node('c')],
+      edges: [edge('a', 'b'), edge('b', 'c'), edge('a', 'c')],
+      clusters: []
+    };
+    const { elements } = graphToExcalidraw(graph);
+    const a = shapeFor(elements, 'a');
+    const b = shapeFor(elements, 'b');
+    const long = elements.find(el => el.type === 'arrow' && (el as LinearElement).points.length === 3) as LinearElement;
+    const bendX = long.x + long.points[1][0];
+
+    expect(long.startBinding?.elementId).toBe(a.id);
+    expect(bendX < b.x || bendX > b.x + b.width).toBe(true);
+    expect(long.roundness).toEqual({ type: 2 });
+  });
+
+  it('should keep clusters that span several layers apart', () => {
+    const graph: Graph = {
+      direction: 'LR',
+      nodes: [node('a1', { cluster: 'one' }), node('a2', { cluster: 'one' }), node('b1', { cluster: 'two' }), node('b2', { cluster: 'two' })],
+      edges: [edge('a1', 'b1'), edge('b1', 'a2'), edge('a2', 'b2')],
+      clusters: [{ id: 'one', label: 'One', parent: null }, { id: 'two', label: 'Two', parent: null }]
+    };
+    const { elements } = graphToExcalidraw(graph);
+    const [one, two] = elements.filter(el => el.type === 'frame');
+    const overlapX = one.x < two.x + two.width && two.x < one.x + one.width;
+    const overlapY = one.y < two.y + two.height && two.y < one.y + one.height;
+
+    expect(overlapX && overlapY).toBe(false);
+  });
+});
+
+describe('excalidrawToGraph', () => {
+  it('should read back the graph graphToExcalidraw draws', () => {
+    const graph: Graph = {
+      direction: 'LR',
+      nodes: [
+        node('a', { label: 'Start', shape: 'circle' }),
+        node('b', { shape: 'cylinder', cluster: 'c1', style: { backgroundColor: '#ffec99' } }),
+        node('c', { shape: 'rounded', cluster: 'c1', link: 'https://example.com' })
+      ],
+      edges: [edge('a', 'b', { label: 'reads' }), edge('b', 'c', { startArrowhead: 'dot', style: { strokeStyle: 'dashed' } }), edge('a', 'c1')],
+      clusters: [{ id: 'c1', label: 'Store', parent: null }]
+    };
+    const file = graphToExcalidraw(graph);
+    const { graph: back, warnings } = excalidrawToGraph(file.elements);
+
+    expect(warnings).toEqual([]);
+    expect(back.direction).toBe('LR');
+    const frame = file.elements.find(el => el.type === 'frame')!;
+    const a = shapeFor(file.elements, 'Start').id;
+    const b = shapeFor(file.elements, 'b').id;
+    const c = shapeFor(file.elements, 'c').id;
+    expect(back.clusters).toEqual([{ id: frame.id, label: 'Store', parent: null }]);
+    expect(back.nodes).toEqual([
+      { id: a, label: 'Start', shape: 'circle', style: {}, cluster: null, link: null },
+      { id: b, label: 'b', shape: 'cylinder', style: { backgroundColor: '#ffec99' }, cluster: frame.id, link: null },
+      { id: c, label: 'c', shape: 'rounded', style: {}, cluster: frame.id, link: 'https://example.com' }
+    ]);
+    expect(back.edges.map(e => [e.from, e.to, e.label ?? null, e.startArrowhead, e.endArrowhead, e.style])).toEqual([
+      [a, b, 'reads', null, 'arrow', {}],
+      [b, c, null, 'dot', 'arrow', { strokeStyle: 'dashed' }],
+      [a, frame.id, null, null, 'arrow', {}]
+    ]);
+  });
+
+  it('should read groups as clusters named by their free text', () => {
+    const box = (id: string, x: number, groupIds: string[]) => createElement({ type: 'rectangle', id, x, y: 0, width: 100, height: 50, groupIds });
+    const title = { ...createElement({ type: 'text', x: 0, y: -30, text: 'Workers' }), groupIds: ['inner', 'outer'] };
+    const elements: ExcalidrawElement[] = [
+      box('w1', 0, ['inner', 'outer']),
+      box('w2', 200, ['inner', 'outer']),
+      box('q', 400, ['outer']),
+      title,
+      createElement({ type: 'text', id: 'note', x: 0, y: 200, text: 'todo:\nrename' }),
+      createElement({ type: 'arrow', id: 'loose', x: 0, y: 300, points: [[0, 0], [0, 100]], startBinding: { elementId: 'w1', focus: 0, gap: 1 } }),
+      createElement({ type: 'freedraw', id: 'scribble', x: 0, y: 400, points: [[0, 0], [10, 10]] })
+    ];
+    const { graph, warnings } = excalidrawToGraph(elements);
+
+    expect(graph.clusters).toEqual([
+      { id: 'inner', label: 'Workers', parent: 'outer' },
+      { id: 'outer', label: '', parent: null }
+    ]);
+    expect(graph.nodes.map(n => [n.id, n.cluster])).toEqual([['w1', 'inner'], ['w2', 'inner'], ['q', 'outer']]);
+    expect(graph.edges).toEqual([]);
+    expect(warnings).toEqual([
+      'Element "scribble": freedraw elements are not part of the graph',
+      'Text "note": free text "todo: rename" left out',
+      'Arrow "loose": not bound at both ends, left out'
+    ]);
+  });
+});
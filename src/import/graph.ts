@@ -0,0 +1,765 @@
+/**
+ * Graph model shared by the diagram importers
+ *
+ * Each source format (Mermaid, ...) is parsed into a plain graph of nodes,
+ * edges and nested clusters. This module lays the graph out in layers and
+ * turns it into shapes with bound labels, arrows bound to their end shapes,
+ * and frames around clusters. It also reads the graph back out of a drawing
+ * for the Mermaid and DOT writers.
+ */
+
+import { createElement } from '../utils/element.js';
+import { createEmptyFile } from '../utils/file.js';
+import { generateId } from '../utils/id.js';
+import { addBoundElement, getConnectionData, getConnectionPoint } from '../utils/binding.js';
+import type { Arrowhead, ExcalidrawElement, ExcalidrawFile, StrokeStyle, TextElement } from '../types/excalidraw.js';
+
+/** Direction in which successive layers are placed */
+export type GraphDirection = 'TB' | 'BT' | 'LR' | 'RL';
+
+export type NodeShape = 'rectangle' | 'rounded' | 'ellipse' | 'circle' | 'diamond' | 'cylinder';
+
+/** Visual overrides for a node or edge */
+export interface GraphStyle {
+  strokeColor?: string;
+  backgroundColor?: string;
+  strokeWidth?: number;
+  strokeStyle?: StrokeStyle;
+  textColor?: string;
+  fontSize?: number;
+}
+
+export interface GraphNode {
+  id: string;
+  label: string;
+  shape: NodeShape;
+  style: GraphStyle;
+  /** Innermost cluster containing the node */
+  cluster: string | null;
+  link?: string | null;
+}
+
+export interface GraphEdge {
+  /** Node or cluster id */
+  from: string;
+  /** Node or cluster id */
+  to: string;
+  label?: string;
+  startArrowhead: Arrowhead;
+  endArrowhead: Arrowhead;
+  /** Minimum number of layers the edge spans */
+  minLength: number;
+  style: GraphStyle;
+}
+
+export interface GraphCluster {
+  id: string;
+  label: string;
+  parent: string | null;
+}
+
+export interface Graph {
+  direction: GraphDirection;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  clusters: GraphCluster[];
+}
+
+/** A parsed source with anything the parser had to leave out */
+export interface ParsedGraph {
+  graph: Graph;
+  warnings: string[];
+}
+
+type Point = [number, number];
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const NODE_FONT_SIZE = 16;
+const EDGE_FONT_SIZE = 14;
+const LINE_HEIGHT = 1.25;
+const MIN_NODE_WIDTH = 120;
+const MIN_NODE_HEIGHT = 60;
+const NODE_GAP = 40;
+const LAYER_GAP = 80;
+const CLUSTER_PADDING = 24;
+const ORDER_SWEEPS = 8;
+/** Room kept beside the bends of edges that pass through a layer */
+const BEND_SIZE = 20;
+const ORIGIN = 100;
+
+/**
+ * Rough size of a text block, matching createText's estimate
+ */
+function textSize(text: string, fontSize: number): { width: number; height: number } {
+  const lines = text.split('\n');
+  return {
+    width: Math.max(...lines.map(l => l.length)) * fontSize * 0.6,
+    height: lines.length * fontSize * LINE_HEIGHT
+  };
+}
+
+/**
+ * Shape size that fits the node's label
+ */
+function nodeSize(node: GraphNode): { width: number; height: number } {
+  const text = textSize(node.label, node.style.fontSize ?? NODE_FONT_SIZE);
+  const width = Math.max(MIN_NODE_WIDTH, text.width + 40);
+  const height = Math.max(MIN_NODE_HEIGHT, text.height + 30);
+  switch (node.shape) {
+    case 'diamond':
+      return { width: Math.round(width * 1.5), height: Math.round(height * 1.5) };
+    case 'ellipse':
+      return { width: Math.round(width * 1.3), height: Math.round(height * 1.3) };
+    case 'circle': {
+      const size = Math.round(Math.max(text.width * 1.3 + 20, text.height * 1.3 + 20, 80));
+      return { width: size, height: size };
+    }
+    case 'cylinder':
+      return { width, height: height + 20 };
+    default:
+      return { width, height };
+  }
+}
+
+/** A node, or a whole cluster laid out as one block */
+interface Unit {
+  id: string;
+  width: number;
+  height: number;
+}
+
+interface UnitEdge {
+  /** Position of the edge in the graph */
+  index: number;
+  from: string;
+  to: string;
+  minLength: number;
+  label?: string;
+  fontSize?: number;
+}
+
+/**
+ * Assign each unit a layer: break cycles, take the longest path from the
+ * sources, then pull sources down next to the units they feed
+ */
+function assignLayers(ids: string[], edges: UnitEdge[]): Map<string, number> {
+  const outgoing = new Map<string, UnitEdge[]>(ids.map(id => [id, []]));
+  for (const edge of edges) {
+    outgoing.get(edge.from)!.push(edge);
+  }
+
+  // Depth-first search; edges back into the current path are reversed
+  const reversed = new Set<UnitEdge>();
+  const state = new Map<string, 'active' | 'done'>();
+  const visit = (id: string) => {
+    state.set(id, 'active');
+    for (const edge of outgoing.get(id)!) {
+      const next = state.get(edge.to);
+      if (next === 'active') {
+        reversed.add(edge);
+      } else if (next === undefined) {
+        visit(edge.to);
+      }
+    }
+    state.set(id, 'done');
+  };
+  const targets = new Set(edges.map(e => e.to));
+  for (const id of [...ids.filter(id => !targets.has(id)), ...ids]) {
+    if (!state.has(id)) visit(id);
+  }
+
+  const ranked = edges.map(edge => reversed.has(edge) ? { ...edge, from: edge.to, to: edge.from } : edge);
+  const incoming = new Map<string, number>(ids.map(id => [id, 0]));
+  for (const edge of ranked) {
+    incoming.set(edge.to, incoming.get(edge.to)! + 1);
+  }
+
+  // Longest path in topological order
+  const layer = new Map<string, number>(ids.map(id => [id, 0]));
+  const queue = ids.filter(id => incoming.get(id) === 0);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const edge of ranked) {
+      if (edge.from !== id) continue;
+      layer.set(edge.to, Math.max(layer.get(edge.to)!, layer.get(id)! + edge.minLength));
+      incoming.set(edge.to, incoming.get(edge.to)! - 1);
+      if (incoming.get(edge.to) === 0) queue.push(edge.to);
+    }
+  }
+
+  for (const id of ids) {
+    const out = ranked.filter(e => e.from === id);
+    if (out.length > 0 && !ranked.some(e => e.to === id)) {
+      layer.set(id, Math.min(...out.map(e => layer.get(e.to)! - e.minLength)));
+    }
+  }
+  return layer;
+}
+
+/**
+ * Place units in layers along the graph direction; boxes start at 0,0.
+ * Edges that skip layers bend through a placeholder in each layer they
+ * cross, so they are routed between units instead of across them.
+ */
+function layoutLayers(units: Unit[], edges: UnitEdge[], direction: GraphDirection): {
+  boxes: Map<string, Box>;
+  bends: Map<number, Point[]>;
+  width: number;
+  height: number;
+} {
+  const horizontal = direction === 'LR' || direction === 'RL';
+  const sizes = new Map(units.map(u => [u.id, { width: u.width, height: u.height }]));
+  const layerOf = assignLayers(units.map(u => u.id), edges);
+
+  const links: Array<[string, string]> = [];
+  const chains = new Map<number, string[]>();
+  for (const edge of edges) {
+    const from = layerOf.get(edge.from)!;
+    const to = layerOf.get(edge.to)!;
+    const chain: string[] = [];
+    for (let l = Math.min(from, to) + 1; l < Math.max(from, to); l++) {
+      const id = `bend:${edge.index}:${l}`;
+      layerOf.set(id, l);
+      sizes.set(id, horizontal ? { width: 0, height: BEND_SIZE } : { width: BEND_SIZE, height: 0 });
+      chain.push(id);
+    }
+    if (from > to) chain.reverse();
+    const path = [edge.from, ...chain, edge.to];
+    for (let i = 1; i < path.length; i++) links.push([path[i - 1], path[i]]);
+    if (chain.length > 0) chains.set(edge.index, chain);
+  }
+
+  const layerCount = Math.max(0, ...layerOf.values()) + 1;
+  const layers: string[][] = Array.from({ length: layerCount }, () => []);
+  for (const [id, l] of layerOf) {
+    layers[l].push(id);
+  }
+
+  // Barycenter sweeps: move units towards their neighbours in the layers above, then below
+  const position = new Map<string, number>();
+  const updatePositions = () => layers.forEach(ids => ids.forEach((id, i) => position.set(id, (i + 0.5) / ids.length)));
+  updatePositions();
+  for (let sweep = 0; sweep < ORDER_SWEEPS; sweep++) {
+    const down = sweep % 2 === 0;
+    for (let i = 0; i < layerCount; i++) {
+      const l = down ? i : layerCount - 1 - i;
+      const key = new Map<string, number>();
+      for (const id of layers[l]) {
+        const neighbours = links.flatMap(([a, b]) => {
+          const other = a === id ? b : b === id ? a : null;
+          if (other === null) return [];
+          const otherLayer = layerOf.get(other)!;
+          return (down ? otherLayer < l : otherLayer > l) ? [position.get(other)!] : [];
+        });
+        key.set(id, neighbours.length > 0 ? neighbours.reduce((a, b) => a + b, 0) / neighbours.length : position.get(id)!);
+      }
+      layers[l].sort((a, b) => key.get(a)! - key.get(b)!);
+      updatePositions();
+    }
+  }
+
+  // Layers are spaced to fit the labels of the edges leaving them
+  const mainSize = (id: string) => horizontal ? sizes.get(id)!.width : sizes.get(id)!.height;
+  const crossSize = (id: string) => horizontal ? sizes.get(id)!.height : sizes.get(id)!.width;
+  const layerStart: number[] = [];
+  let main = 0;
+  for (let l = 0; l < layerCount; l++) {
+    layerStart.push(main);
+    let gap = LAYER_GAP;
+    for (const edge of edges) {
+      if (!edge.label || Math.min(layerOf.get(edge.from)!, layerOf.get(edge.to)!) !== l) continue;
+      const label = textSize(edge.label, edge.fontSize ?? EDGE_FONT_SIZE);
+      gap = Math.max(gap, (horizontal ? label.width : label.height) + 40);
+    }
+    main += Math.max(0, ...layers[l].map(mainSize)) + (l < layerCount - 1 ? gap : 0);
+  }
+
+  const crossTotal = layers.map(ids => ids.reduce((sum, id) => sum + crossSize(id), 0) + Math.max(0, ids.length - 1) * NODE_GAP);
+  const cross = Math.max(0, ...crossTotal);
+  const boxes = new Map<string, Box>();
+  layers.forEach((ids, l) => {
+    const band = Math.max(0, ...ids.map(mainSize));
+    let across = (cross - crossTotal[l]) / 2;
+    for (const id of ids) {
+      const { width, height } = sizes.get(id)!;
+      let along = layerStart[l] + (band - mainSize(id)) / 2;
+      if (direction === 'BT' || direction === 'RL') {
+        along = main - along - mainSize(id);
+      }
+      boxes.set(id, horizontal ? { x: along, y: across, width, height } : { x: across, y: along, width, height });
+      across += crossSize(id) + NODE_GAP;
+    }
+  });
+
+  const bends = new Map<number, Point[]>();
+  for (const [index, chain] of chains) {
+    bends.set(index, chain.map(id => {
+      const box = boxes.get(id)!;
+      boxes.delete(id);
+      return [box.x + box.width / 2, box.y + box.height / 2];
+    }));
+  }
+  return { boxes, bends, width: horizontal ? main : cross, height: horizontal ? cross : main };
+}
+
+/**
+ * Lay out a graph: each cluster is laid out on its own and then placed as a
+ * single block in its parent, so frames never overlap
+ */
+function layoutGraph(graph: Graph): { nodes: Map<string, Box>; clusters: Map<string, Box>; bends: Map<number, Point[]> } {
+  const nodeBoxes = new Map<string, Box>();
+  const clusterBoxes = new Map<string, Box>();
+  // Bends of long edges, with the block they were laid out in
+  const bends = new Map<number, { block: string | null; points: Point[] }>();
+  const parentOf = new Map<string, string | null>([
+    ...graph.clusters.map(c => [`cluster:${c.id}`, c.parent === null ? null : `cluster:${c.parent}`] as const),
+    ...graph.nodes.map(n => [`node:${n.id}`, n.cluster === null ? null : `cluster:${n.cluster}`] as const)
+  ]);
+  const endpointKey = (id: string) => parentOf.has(`node:${id}`) ? `node:${id}` : `cluster:${id}`;
+
+  // The unit directly inside `block` that contains `key`, if any
+  const unitIn = (key: string, block: string | null): string | null => {
+    for (let current: string | null = key, steps = 0; current !== null && steps <= parentOf.size; steps++) {
+      const parent: string | null = parentOf.get(current) ?? null;
+      if (parent === block) return current;
+      current = parent;
+    }
+    return null;
+  };
+
+  // Boxes are relative to the block's content area until the block is placed
+  const layoutBlock = (block: string | null, visiting: Set<string>): { width: number; height: number; members: string[] } => {
+    const units: Unit[] = [];
+    const members: string[] = [];
+    for (const cluster of graph.clusters) {
+      const key = `cluster:${cluster.id}`;
+      if (parentOf.get(key) !== block || visiting.has(key)) continue;
+      const inner = layoutBlock(key, new Set([...visiting, key]));
+      if (inner.members.length === 0) continue;
+      units.push({ id: key, width: inner.width + 2 * CLUSTER_PADDING, height: inner.height + 2 * CLUSTER_PADDING });
+      clusterBoxes.set(cluster.id, { x: 0, y: 0, width: inner.width + 2 * CLUSTER_PADDING, height: inner.height + 2 * CLUSTER_PADDING });
+      members.push(key, ...inner.members);
+    }
+    for (const node of graph.nodes) {
+      const key = `node:${node.id}`;
+      if (parentOf.get(key) !== block) continue;
+      const size = nodeSize(node);
+      units.push({ id: key, ...size });
+      nodeBoxes.set(node.id, { x: 0, y: 0, ...size });
+      members.push(key);
+    }
+
+    const edges: UnitEdge[] = [];
+    graph.edges.forEach((edge, index) => {
+      const from = unitIn(endpointKey(edge.from), block);
+      const to = unitIn(endpointKey(edge.to), block);
+      if (from === null || to === null || from === to) return;
+      edges.push({ index, from, to, minLength: edge.minLength, label: edge.label, fontSize: edge.style.fontSize });
+    });
+
+    const layout = layoutLayers(units, edges, graph.direction);
+    for (const [index, points] of layout.bends) {
+      bends.set(index, { block, points });
+    }
+    for (const unit of units) {
+      const box = layout.boxes.get(unit.id)!;
+      const offset = unit.id.startsWith('cluster:') ? CLUSTER_PADDING : 0;
+      // Move the unit, and everything inside it, to its place in this block
+      for (const key of [unit.id, ...members.filter(m => m !== unit.id && unitIn(m, block) === unit.id)]) {
+        const target = key.startsWith('node:') ? nodeBoxes.get(key.slice(5))! : clusterBoxes.get(key.slice(8))!;
+        if (key === unit.id) {
+          target.x = box.x;
+          target.y = box.y;
+        } else {
+          target.x += box.x + offset;
+          target.y += box.y + offset;
+        }
+      }
+      for (const bend of bends.values()) {
+        if (bend.block !== null && bend.block !== block && unitIn(bend.block, block) === unit.id) {
+          bend.points = bend.points.map(([x, y]) => [x + box.x + offset, y + box.y + offset]);
+        }
+      }
+    }
+    return { width: layout.width, height: layout.height, members };
+  };
+  layoutBlock(null, new Set());
+
+  // Move the drawing to the same origin the other generators use
+  const all = [...nodeBoxes.values(), ...clusterBoxes.values()];
+  const dx = ORIGIN - Math.min(...all.map(b => b.x));
+  const dy = ORIGIN - Math.min(...all.map(b => b.y));
+  for (const box of all) {
+    box.x = Math.round(box.x + dx);
+    box.y = Math.round(box.y + dy);
+  }
+  const points = new Map([...bends].map(([index, bend]) => [index, bend.points.map(([x, y]): Point => [Math.round(x + dx), Math.round(y + dy)])]));
+  return { nodes: nodeBoxes, clusters: clusterBoxes, bends: points };
+}
+
+/**
+ * Text element bound to a container, centred on the given point
+ */
+function boundText(text: string, container: ExcalidrawElement, cx: number, cy: number, style: GraphStyle, fontSize: number): ExcalidrawElement {
+  const size = textSize(text, style.fontSize ?? fontSize);
+  const el = createElement({
+    type: 'text',
+    x: cx - size.width / 2,
+    y: cy - size.height / 2,
+    text,
+    fontSize: style.fontSize ?? fontSize,
+    textAlign: 'center',
+    verticalAlign: 'middle',
+    strokeColor: style.textColor
+  });
+  return { ...el, containerId: container.id, frameId: container.frameId } as ExcalidrawElement;
+}
+
+/**
+ * Lay out a graph and build an Excalidraw file from it
+ */
+export function graphToExcalidraw(graph: Graph): ExcalidrawFile {
+  const file = createEmptyFile();
+  const layout = layoutGraph(graph);
+  const frameIds = new Map(graph.clusters.filter(c => layout.clusters.has(c.id)).map(c => [c.id, generateId()]));
+  const elements: ExcalidrawElement[] = [];
+  const indexById = new Map<string, number>();
+  const push = (el: ExcalidrawElement, key?: string) => {
+    if (key !== undefined) indexById.set(key, elements.length);
+    elements.push(el);
+  };
+  const update = (key: string, fn: (el: ExcalidrawElement) => ExcalidrawElement) => {
+    const i = indexById.get(key)!;
+    elements[i] = fn(elements[i]);
+  };
+
+  for (const node of graph.nodes) {
+    const box = layout.nodes.get(node.id)!;
+    const frameId = node.cluster !== null ? frameIds.get(node.cluster) ?? null : null;
+    const { style } = node;
+    const base = {
+      width: box.width,
+      height: box.height,
+      strokeColor: style.strokeColor,
+      backgroundColor: style.backgroundColor,
+      strokeWidth: style.strokeWidth,
+      strokeStyle: style.strokeStyle,
+      link: node.link ?? null
+    };
+    let shape: ExcalidrawElement;
+    let lid: ExcalidrawElement | null = null;
+    if (node.shape === 'cylinder') {
+      // A rectangle body under an elliptical lid, grouped so they move together
+      const groupIds = [generateId()];
+      shape = { ...createElement({ type: 'rectangle', x: box.x, y: box.y + 10, ...base, height: box.height - 10, groupIds }), roundness: null };
+      lid = createElement({ type: 'ellipse', x: box.x, y: box.y, ...base, height: 20, groupIds, link: null });
+    } else {
+      const type = node.shape === 'diamond' ? 'diamond' : node.shape === 'ellipse' || node.shape === 'circle' ? 'ellipse' : 'rectangle';
+      shape = createElement({ type, x: box.x, y: box.y, ...base });
+      if (node.shape === 'rectangle') {
+        shape = { ...shape, roundness: null };
+      }
+    }
+    shape = { ...shape, frameId };
+    push(shape, `node:${node.id}`);
+    if (lid) {
+      push({ ...lid, frameId });
+    }
+    if (node.label) {
+      const text = boundText(node.label, shape, shape.x + shape.width / 2, shape.y + shape.height / 2, style, NODE_FONT_SIZE);
+      update(`node:${node.id}`, el => addBoundElement(el, text.id, 'text'));
+      push(text);
+    }
+  }
+
+  // Frames are built before the edges so arrows can bind to them
+  const frames: ExcalidrawElement[] = [];
+  for (const cluster of graph.clusters) {
+    const box = layout.clusters.get(cluster.id);
+    if (!box) continue;
+    frames.push(createElement({ type: 'frame', id: frameIds.get(cluster.id), ...box, name: cluster.label }));
+    indexById.set(`cluster:${cluster.id}`, -frames.length);
+  }
+  const endpoint = (id: string): ExcalidrawElement | undefined => {
+    const i = indexById.get(`node:${id}`) ?? indexById.get(`cluster:${id}`);
+    return i === undefined ? undefined : i >= 0 ? elements[i] : frames[-i - 1];
+  };
+  const bind = (id: string, arrowId: string) => {
+    const key = indexById.has(`node:${id}`) ? `node:${id}` : `cluster:${id}`;
+    const i = indexById.get(key)!;
+    if (i >= 0) elements[i] = addBoundElement(elements[i], arrowId, 'arrow');
+    else frames[-i - 1] = addBoundElement(frames[-i - 1], arrowId, 'arrow');
+  };
+
+  graph.edges.forEach((edge, index) => {
+    const from = endpoint(edge.from);
+    const to = endpoint(edge.to);
+    if (!from || !to) return;
+
+    let x: number;
+    let y: number;
+    let points: Point[];
+    const startBinding = { elementId: from.id, focus: 0, gap: 1 };
+    const endBinding = { elementId: to.id, focus: 0, gap: 1 };
+    const bends = layout.bends.get(index);
+    if (from === to) {
+      // Self loop: out of the right side and back in through the top
+      x = from.x + from.width;
+      y = from.y + from.height / 2;
+      const top = from.y - 30 - y;
+      points = [[0, 0], [30, 0], [30, top], [-from.width / 2, top], [-from.width / 2, -from.height / 2]];
+    } else if (bends) {
+      // Leave and enter the shapes on the sides facing the first and last bend
+      const start = getConnectionPoint(from, ...bends[0]);
+      const end = getConnectionPoint(to, ...bends[bends.length - 1]);
+      x = start.x;
+      y = start.y;
+      points = [[0, 0], ...bends.map(([bx, by]): Point => [bx - x, by - y]), [end.x - x, end.y - y]];
+    } else {
+      const conn = getConnectionData(from, to);
+      x = conn.startX;
+      y = conn.startY;
+      points = [[0, 0], [conn.endX - conn.startX, conn.endY - conn.startY]];
+    }
+
+    const frameId = from.frameId !== null && from.frameId === to.frameId ? from.frameId : null;
+    const arrow: ExcalidrawElement = {
+      ...createElement({
+        type: 'arrow',
+        x,
+        y,
+        points,
+        strokeColor: edge.style.strokeColor,
+        strokeWidth: edge.style.strokeWidth,
+        strokeStyle: edge.style.strokeStyle,
+        startBinding,
+        endBinding,
+        startArrowhead: edge.startArrowhead
+      }),
+      endArrowhead: edge.endArrowhead,
+      roundness: bends ? { type: 2 } : null,
+      frameId
+    } as ExcalidrawElement;
+    bind(edge.from, arrow.id);
+    bind(edge.to, arrow.id);
+
+    if (edge.label) {
+      const mid = points[Math.floor(points.length / 2)];
+      const prev = points[Math.floor(points.length / 2) - 1] ?? mid;
+      const text = boundText(edge.label, arrow, x + (mid[0] + prev[0]) / 2, y + (mid[1] + prev[1]) / 2, edge.style, EDGE_FONT_SIZE);
+      push(addBoundElement(arrow, text.id, 'text'));
+      push(text);
+    } else {
+      push(arrow);
+    }
+  });
+
+  // Frames go after their children, as Excalidraw orders them
+  file.elements = [...elements, ...frames];
+  return file;
+}
+
+const DEFAULT_STROKE = '#1e1e1e';
+
+/**
+ * Style properties that differ from a new element's defaults
+ */
+function styleOf(el: ExcalidrawElement, text?: TextElement): GraphStyle {
+  const style: GraphStyle = {};
+  if (el.strokeColor !== DEFAULT_STROKE) style.strokeColor = el.strokeColor;
+  if (el.backgroundColor !== 'transparent') style.backgroundColor = el.backgroundColor;
+  if (el.strokeWidth !== 2) style.strokeWidth = el.strokeWidth;
+  if (el.strokeStyle !== 'solid') style.strokeStyle = el.strokeStyle;
+  if (text && text.strokeColor !== DEFAULT_STROKE) style.textColor = text.strokeColor;
+  return style;
+}
+
+/**
+ * A grouped rectangle and ellipse lid, as graphToExcalidraw draws cylinders
+ */
+function cylinderParts(members: ExcalidrawElement[]): { body: ExcalidrawElement; lid: ExcalidrawElement } | null {
+  if (members.length !== 2) return null;
+  const body = members.find(el => el.type === 'rectangle');
+  const lid = members.find(el => el.type === 'ellipse');
+  if (!body || !lid || Math.abs(body.x - lid.x) > 1 || Math.abs(body.width - lid.width) > 1 || lid.y > body.y) return null;
+  return { body, lid };
+}
+
+/** Distance within which free text labels the arrow whose midpoint it is near */
+const LABEL_REACH = 20;
+
+/**
+ * Element that free-standing text labels, as `add --label` and
+ * `connect --label` place it: the innermost unlabelled shape its centre lies
+ * in, or else an unlabelled arrow whose midpoint it covers
+ */
+function labelTarget(text: TextElement, candidates: ExcalidrawElement[], labels: Map<string, TextElement>): string | undefined {
+  const cx = text.x + text.width / 2;
+  const cy = text.y + text.height / 2;
+  const shape = candidates
+    .filter(el => el.type !== 'arrow' && !labels.has(el.id))
+    .filter(el => cx >= el.x && cx <= el.x + el.width && cy >= el.y && cy <= el.y + el.height)
+    .sort((a, b) => a.width * a.height - b.width * b.height)[0];
+  if (shape) return shape.id;
+  return candidates.find(el => {
+    if (el.type !== 'arrow' || labels.has(el.id)) return false;
+    const mid = el.points[Math.floor(el.points.length / 2)];
+    const prev = el.points[Math.floor(el.points.length / 2) - 1] ?? mid;
+    const mx = el.x + (mid[0] + prev[0]) / 2;
+    const my = el.y + (mid[1] + prev[1]) / 2;
+    return mx >= text.x - LABEL_REACH && mx <= text.x + text.width + LABEL_REACH
+      && my >= text.y - LABEL_REACH && my <= text.y + text.height + LABEL_REACH;
+  })?.id;
+}
+
+/**
+ * Read the graph drawn in a set of elements: shapes are nodes labelled by
+ * their text, arrows bound at both ends are edges, and frames and groups are
+ * clusters. Arrows that are not bound at both ends, free text and other
+ * elements are left out with a warning.
+ */
+export function excalidrawToGraph(elements: ExcalidrawElement[]): ParsedGraph {
+  const live = elements.filter(el => !el.isDeleted);
+  const warnings: string[] = [];
+  const labels = new Map<string, TextElement>();
+  for (const el of live) {
+    if (el.type === 'text' && el.containerId) labels.set(el.containerId, el);
+  }
+  const labelOf = (id: string) => {
+    const text = labels.get(id);
+    return text ? text.originalText || text.text : '';
+  };
+
+  // Cylinder lids belong to their body; their group is not a cluster
+  const groups = new Map<string, ExcalidrawElement[]>();
+  for (const el of live) {
+    if (el.groupIds.length > 0) groups.set(el.groupIds[0], [...(groups.get(el.groupIds[0]) ?? []), el]);
+  }
+  const lids = new Map<string, string>();
+  const cylinderGroups = new Set<string>();
+  for (const [groupId, members] of groups) {
+    const parts = cylinderParts(members);
+    if (parts) {
+      lids.set(parts.lid.id, parts.body.id);
+      cylinderGroups.add(groupId);
+    }
+  }
+
+  // Groups nest innermost first, inside the frame of their elements
+  const clusters = new Map<string, GraphCluster>();
+  for (const el of live) {
+    if (el.type === 'frame' || el.type === 'magicframe') {
+      clusters.set(el.id, { id: el.id, label: el.name ?? '', parent: null });
+    }
+  }
+  const clusterOf = (el: ExcalidrawElement): string | null => {
+    const groupIds = el.groupIds.filter(id => !cylinderGroups.has(id));
+    groupIds.forEach((id, i) => {
+      if (!clusters.has(id)) clusters.set(id, { id, label: '', parent: groupIds[i + 1] ?? el.frameId });
+    });
+    return groupIds[0] ?? el.frameId;
+  };
+
+  const candidates = live.filter(el => ['rectangle', 'ellipse', 'diamond', 'arrow'].includes(el.type) && !lids.has(el.id));
+  const placed = new Set<string>();
+  for (const el of live) {
+    if (el.type !== 'text' || el.containerId || el.boundElements?.some(b => b.type === 'arrow')) continue;
+    const target = labelTarget(el, candidates, labels);
+    if (target !== undefined) {
+      labels.set(target, el);
+      placed.add(el.id);
+    }
+  }
+
+  const nodes: GraphNode[] = [];
+  const freeText: TextElement[] = [];
+  for (const el of live) {
+    if (lids.has(el.id) || placed.has(el.id)) continue;
+    if (el.type === 'rectangle' || el.type === 'ellipse' || el.type === 'diamond') {
+      const cylinder = cylinderGroups.has(el.groupIds[0]);
+      const shape: NodeShape = cylinder ? 'cylinder'
+        : el.type === 'diamond' ? 'diamond'
+        : el.type === 'ellipse' ? (Math.abs(el.width - el.height) < 1 ? 'circle' : 'ellipse')
+        : el.roundness ? 'rounded' : 'rectangle';
+      nodes.push({ id: el.id, label: labelOf(el.id), shape, style: styleOf(el, labels.get(el.id)), cluster: clusterOf(el), link: el.link });
+    } else if (el.type === 'text' && !el.containerId) {
+      if (el.boundElements?.some(b => b.type === 'arrow')) {
+        // Text that arrows point at stands in for a shape
+        const style = { ...styleOf(el), strokeColor: 'transparent' };
+        nodes.push({ id: el.id, label: el.originalText || el.text, shape: 'rectangle', style, cluster: clusterOf(el), link: el.link });
+      } else {
+        freeText.push(el);
+      }
+    } else if (!['text', 'arrow', 'frame', 'magicframe'].includes(el.type)) {
+      warnings.push(`Element "${el.id}": ${el.type} elements are not part of the graph`);
+    }
+  }
+
+  // Free text in a group names the group; other free text is left out
+  for (const text of freeText) {
+    const cluster = clusters.get(text.groupIds[0]);
+    if (cluster && !cluster.label) {
+      cluster.label = text.originalText || text.text;
+    } else {
+      warnings.push(`Text "${text.id}": free text "${(text.originalText || text.text).replace(/\n/g, ' ')}" left out`);
+    }
+  }
+
+  const ids = new Set([...nodes.map(n => n.id), ...clusters.keys()]);
+  const endpoint = (id: string | undefined) => {
+    const target = id === undefined ? undefined : lids.get(id) ?? id;
+    return target !== undefined && ids.has(target) ? target : null;
+  };
+  const edges: GraphEdge[] = [];
+  for (const el of live) {
+    if (el.type !== 'arrow') continue;
+    const from = endpoint(el.startBinding?.elementId);
+    const to = endpoint(el.endBinding?.elementId);
+    if (from === null || to === null) {
+      warnings.push(`Arrow "${el.id}": not bound at both ends, left out`);
+      continue;
+    }
+    edges.push({
+      from,
+      to,
+      label: labelOf(el.id) || undefined,
+      startArrowhead: el.startArrowhead,
+      endArrowhead: el.endArrowhead,
+      minLength: 1,
+      style: styleOf(el, labels.get(el.id))
+    });
+  }
+
+  return { graph: { direction: graphDirection(live, edges), nodes, edges, clusters: [...clusters.values()] }, warnings };
+}
+
+/**
+ * Layout direction the edges mostly run in, top to bottom when there are none
+ */
+function graphDirection(elements: ExcalidrawElement[], edges: GraphEdge[]): GraphDirection {
+  const byId = new Map(elements.map(el => [el.id, el]));
+  let dx = 0;
+  let dy = 0;
+  for (const edge of edges) {
+    const from = byId.get(edge.from)!;
+    const to = byId.get(edge.to)!;
+    dx += to.x + to.width / 2 - (from.x + from.width / 2);
+    dy += to.y + to.height / 2 - (from.y + from.height / 2);
+  }
+  if (Math.abs(dx) > Math.abs(dy)) return dx > 0 ? 'LR' : 'RL';
+  return dy < 0 ? 'BT' : 'TB';
+}
+
+// Error classes
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
@@ -0,0 +1,5 @@
+export * from './graph.js';
+export * from './mermaid.js';
+export * from './dot.js';
+export * from './plantuml.js';
+export * from './d2.js';
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { graphToMermaid, parseMermaid } from './mermaid.js';
+import { ImportError } from './graph.js';
+import type { Graph } from './graph.js';
+
+describe('parseMermaid', () => {
+  it('should read the direction and node shapes', () => {
+    const { graph } = parseMermaid([
+      'flowchart LR',
+      '  a[Box] --> b(Rounded) --> c{Choice}',
+      '  c --> d((Circle)) & e[(Store)]',
+      '  f([Stadium]); g{{Hexagon}}'
+    ].join('\n'));
+
+    expect(graph.direction).toBe('LR');
+    expect(graph.nodes.map(n => [n.id, n.label, n.shape])).toEqual([
+      ['a', 'Box', 'rectangle'],
+      ['b', 'Rounded', 'rounded'],
+      ['c', 'Choice', 'diamond'],
+      ['d', 'Circle', 'circle'],
+      ['e', 'Store', 'cylinder'],
+      ['f', 'Stadium', 'rounded'],
+      ['g', 'Hexagon', 'diamond']
+    ]);
+    expect(graph.edges.map(e => `${e.from}>${e.to}`)).toEqual(['a>b', 'b>c', 'c>d', 'c>e']);
+  });
+
+  it('should read edge kinds and labels', () => {
+    const { graph } = parseMermaid([
+      'graph TD',
+      '  A -->|yes| B',
+      '  A -- no --> C',
+      '  B -.-> C',
+      '  B -. maybe .-> D',
+      '  C ==> D',
+      '  C == sure ==> A',
+      '  D --- A',
+      '  D <--> B',
+      '  A ---> D'
+    ].join('\n'));
+
+    expect(graph.direction).toBe('TB');
+    expect(graph.edges.map(e => [e.label, e.style.strokeStyle, e.style.strokeWidth, e.startArrowhead, e.endArrowhead, e.minLength])).toEqual([
+      ['yes', undefined, undefined, null, 'arrow', 1],
+      ['no', undefined, undefined, null, 'arrow', 1],
+      [undefined, 'dashed', undefined, null, 'arrow', 1],
+      ['maybe', 'dashed', undefined, null, 'arrow', 1],
+      [undefined, undefined, 4, null, 'arrow', 1],
+      ['sure', undefined, 4, null, 'arrow', 1],
+      [undefined, undefined, undefined, null, null, 1],
+      [undefined, undefined, undefined, 'arrow', 'arrow', 1],
+      [undefined, undefined, undefined, null, 'arrow', 2]
+    ]);
+  });
+
+  it('should read quoted labels and line breaks', () => {
+    const { graph } = parseMermaid('flowchart TB\n  A["Say #quot;hi#quot; (now)"] --> B[Two<br/>lines]');
+
+    expect(graph.nodes[0].label).toBe('Say "hi" (now)');
+    expect(graph.nodes[1].label).toBe('Two\nlines');
+  });
+
+  it('should put nodes in the first subgraph that mentions them', () => {
+    const { graph } = parseMermaid([
+      'flowchart TB',
+      '  X --> A',
+      '  subgraph outer [Outer box]',
+      '    A --> B',
+      '    subgraph inner',
+      '      C',
+      '    end',
+      '  end',
+      '  subgraph "Other one"',
+      '    B',
+      '  end',
+      '  C --> outer'
+    ].join('\n'));
+
+    expect(graph.clusters).toEqual([
+      { id: 'outer', label: 'Outer box', parent: null },
+      { id: 'inner', label: 'inner', parent: 'outer' },
+      { id: 'subgraph-3', label: 'Other one', parent: null }
+    ]);
+    expect(Object.fromEntries(graph.nodes.map(n => [n.id, n.cluster]))).toEqual({ X: null, A: 'outer', B: 'outer', C: 'inner' });
+    expect(graph.edges[graph.edges.length - 1]).toMatchObject({ from: 'C', to: 'outer' });
+  });
+
+  it('should apply classDef, class and style statements', () => {
+    const { graph } = parseMermaid([
+      'flowchart TB',
+      '  classDef default stroke:#333',
+      '  classDef hot fill:#ffc9c9,stroke:#e03131,stroke-width:4px,color:#c92a2a',
+      '  classDef dim stroke-dasharray: 5 5',
+      '  A:::hot --> B --> C',
+      '  class B dim',
+      '  style C fill:rgb(1, 2, 3)',
+      '  click A "https://example.com" "Docs"'
+    ].join('\n'));
+
+    const [a, b, c] = graph.nodes;
+    expect(a.style).toEqual({ strokeColor: '#e03131', backgroundColor: '#ffc9c9', strokeWidth: 4, textColor: '#c92a2a' });
+    expect(a.link).toBe('https://example.com');
+    expect(b.style).toEqual({ strokeColor: '#333', strokeStyle: 'dashed' });
+    expect(c.style).toEqual({ strokeColor: '#333', backgroundColor: 'rgb(1, 2, 3)' });
+  });
+
+  it('should use the first flowchart in a markdown document', () => {
+    const markdown = '# Notes\n\n```mermaid\nsequenceDiagram\n  A->>B: hi\n```\n\n```mermaid\ngraph LR\n  A --> B\n```\n';
+
+    expect(parseMermaid(markdown).graph.nodes).toHaveLength(2);
+  });
+
+  it('should report statements it cannot read', () => {
+    const { graph, warnings } = parseMermaid('flowchart TB\n  A --> B\n  A -> B\n  end');
+
+    expect(graph.edges).toHaveLength(1);
+    expect(warnings).toEqual(['Line 3: skipped "A -> B"', 'Line 4: "end" without a subgraph']);
+  });
+
+  it('should reject other diagram types and broken nodes', () => {
+    expect(() => parseMermaid('sequenceDiagram\n  A->>B: hi')).toThrow(ImportError);
+    expect(() => parseMermaid('')).toThrow('Empty Mermaid source');
+    expect(() => parseMermaid('flowchart TB\n  A[Open --> B')).toThrow('Unclosed "[" in node A');
+  });
+});
+
+describe('graphToMermaid', () => {
+  const graph: Graph = {
+    direction: 'LR',
+    nodes: [
+      { id: 'api-1', label: 'API "v2"\nserver', shape: 'rounded', style: { backgroundColor: '#ffec99', strokeStyle: 'dashed' }, cluster: 'b', link: 'https://example.com' },
+      { id: 'db', label: 'Orders', shape: 'cylinder', style: {}, cluster: 'b' },
+      { id: 'end', label: '', shape: 'circle', style: {}, cluster: null }
+    ],
+    edges: [
+      { from: 'api-1', to: 'db', label: 'SQL', startArrowhead: null, endArrowhead: 'arrow', minLength: 1, style: { strokeStyle: 'dashed' } },
+      { from: 'end', to: 'b', startArrowhead: 'arrow', endArrowhead: null, minLength: 1, style: { strokeWidth: 4, strokeColor: 'red' } },
+      { from: 'db', to: 'end', startArrowhead: 'dot', endArrowhead: 'bar', minLength: 1, style: {} }
+    ],
+    clusters: [{ id: 'b', label: 'Backend', parent: null }]
+  };
+
+  it('should write nodes, subgraphs, links and styles', () => {
+    expect(graphToMermaid(graph)).toBe([
+      'flowchart LR',
+      '  subgraph b["Backend"]',
+      '    api_1("API #quot;v2#quot;<br>server")',
+      '    db[("Orders")]',
+      '  end',
+      '  end_((" "))',
+      '  api_1 -.->|"SQL"| db',
+      '  b ==> end_',
+      '  db o--x end_',
+      '  linkStyle 1 stroke:red',
+      '  style api_1 fill:#ffec99,stroke-dasharray:5 5',
+      '  click api_1 "https://example.com"',
+      ''
+    ].join('\n'));
+  });
+
+  it('should read back what it writes', () => {
+    const { graph: back, warnings } = parseMermaid(graphToMermaid(graph));
+
+    expect(warnings).toEqual([]);
+    expect(back.clusters).toEqual([{ id: 'b', label: 'Backend', parent: null }]);
+    expect(back.nodes.map(n => [n.id, n.label, n.shape, n.cluster])).toEqual([
+      ['api_1', 'API "v2"\nserver', 'rounded', 'b'],
+      ['db', 'Orders', 'cylinder', 'b'],
+      ['end_', ' ', 'circle', null]
+    ]);
+    expect(back.edges.map(e => [e.from, e.to, e.label ?? null])).toEqual([['api_1', 'db', 'SQL'], ['b', 'end_', null], ['db', 'end_', null]]);
+  });
+});
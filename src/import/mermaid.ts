@@ -0,0 +1,553 @@
+/**
+ * Mermaid flowchart parser
+ *
+ * Reads `flowchart` and `graph` definitions: node shapes, the solid, dotted
+ * and thick edge kinds with their labels, subgraphs, classDef/class/style
+ * statements and click links. Other diagram types are rejected. Graphs are
+ * written back as flowchart source by graphToMermaid.
+ */
+
+import { ImportError } from './graph.js';
+import type { Graph, GraphCluster, GraphDirection, GraphEdge, GraphNode, GraphStyle, NodeShape, ParsedGraph } from './graph.js';
+import type { Arrowhead } from '../types/excalidraw.js';
+
+/** Node brackets, longest openers first so `((` wins over `(` */
+const SHAPES: Array<{ open: string; close: string; shape: NodeShape }> = [
+  { open: '(((', close: ')))', shape: 'circle' },
+  { open: '((', close: '))', shape: 'circle' },
+  { open: '([', close: '])', shape: 'rounded' },
+  { open: '[[', close: ']]', shape: 'rectangle' },
+  { open: '[(', close: ')]', shape: 'cylinder' },
+  { open: '{{', close: '}}', shape: 'diamond' },
+  { open: '[/', close: '/]', shape: 'rectangle' },
+  { open: '[/', close: '\\]', shape: 'rectangle' },
+  { open: '[\\', close: '\\]', shape: 'rectangle' },
+  { open: '[\\', close: '/]', shape: 'rectangle' },
+  { open: '(', close: ')', shape: 'rounded' },
+  { open: '[', close: ']', shape: 'rectangle' },
+  { open: '{', close: '}', shape: 'diamond' },
+  { open: '>', close: ']', shape: 'rectangle' }
+];
+
+const NODE_ID = /^[\p{L}\p{N}_]+(?:[-.][\p{L}\p{N}_]+)*/u;
+/** A complete link such as `-->`, `-.->`, `==>`, `---` or `<-->` */
+const LINK = /^(<|o|x)?(-{2,}|={2,}|-\.+-|~{3,})(>|o|x)?/;
+/** The first half of a link with its label inside, such as `-- text -->` */
+const LINK_OPEN = /^(<|o|x)?(--|==|-\.)(?=\s)/;
+const LINK_CLOSE: Record<string, RegExp> = {
+  '--': /^(.*?)\s*(-{2,}[>ox]|-{3,})/,
+  '==': /^(.*?)\s*(={2,}[>ox]|={3,})/,
+  '-.': /^(.*?)\s*(\.-+[>ox]?)/
+};
+const HEADER = /^(flowchart|graph)(?:-elk)?(?:\s+(TB|TD|BT|LR|RL))?\s*$/i;
+
+interface Link {
+  kind: 'solid' | 'dotted' | 'thick' | 'invisible';
+  start: Arrowhead;
+  end: Arrowhead;
+  length: number;
+  label?: string;
+}
+
+interface ParserState {
+  nodes: Map<string, GraphNode & { explicit: boolean; classes: string[]; own: GraphStyle }>;
+  edges: GraphEdge[];
+  clusters: GraphCluster[];
+  classDefs: Map<string, GraphStyle>;
+  /** Open subgraphs, innermost last */
+  stack: string[];
+}
+
+function arrowhead(marker: string | undefined): Arrowhead {
+  switch (marker) {
+    case '>':
+    case '<':
+      return 'arrow';
+    case 'o':
+      return 'circle';
+    case 'x':
+      return 'bar';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Link description from its operator, e.g. `-.->` or `<==>`
+ */
+function parseLink(start: string | undefined, body: string, end: string | undefined): Link {
+  const kind = body.startsWith('~') ? 'invisible' : body.startsWith('=') ? 'thick' : body.includes('.') ? 'dotted' : 'solid';
+  // Extra dashes, dots or equals signs make the link span more layers
+  const base = kind === 'dotted' ? 1 : end ? 2 : 3;
+  const count = kind === 'dotted' ? (body.match(/\./g) ?? []).length : body.length;
+  return { kind, start: arrowhead(start), end: arrowhead(end), length: Math.max(1, count - base + 1) };
+}
+
+/**
+ * Label text: quotes and markdown backticks removed, `<br>` as a line break
+ * and Mermaid's `#quot;` style entities decoded
+ */
+function cleanLabel(text: string): string {
+  let label = text.trim();
+  if (label.length >= 2 && label.startsWith('"') && label.endsWith('"')) {
+    label = label.slice(1, -1);
+  }
+  if (label.length >= 2 && label.startsWith('`') && label.endsWith('`')) {
+    label = label.slice(1, -1);
+  }
+  return label
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/#quot;/g, '"')
+    .replace(/#amp;/g, '&')
+    .replace(/#lt;/g, '<')
+    .replace(/#gt;/g, '>')
+    .replace(/#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)));
+}
+
+/**
+ * Parse `fill:#f9f,stroke:#333,stroke-width:4px` style lists
+ */
+function parseStyle(text: string): GraphStyle {
+  const style: GraphStyle = {};
+  for (const part of text.split(/,(?![^(]*\))/)) {
+    const colon = part.indexOf(':');
+    if (colon === -1) continue;
+    const key = part.slice(0, colon).trim().toLowerCase();
+    const value = part.slice(colon + 1).trim().replace(/\s*!important$/, '');
+    switch (key) {
+      case 'fill':
+        style.backgroundColor = value;
+        break;
+      case 'stroke':
+        style.strokeColor = value;
+        break;
+      case 'stroke-width': {
+        const width = parseFloat(value);
+        if (!isNaN(width)) style.strokeWidth = width;
+        break;
+      }
+      case 'stroke-dasharray':
+        style.strokeStyle = 'dashed';
+        break;
+      case 'color':
+        style.textColor = value;
+        break;
+      case 'font-size': {
+        const size = parseFloat(value);
+        if (!isNaN(size)) style.fontSize = size;
+        break;
+      }
+    }
+  }
+  return style;
+}
+
+/**
+ * Split source lines into statements at semicolons outside quotes
+ */
+function statements(source: string): Array<{ text: string; line: number }> {
+  const result: Array<{ text: string; line: number }> = [];
+  source.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.replace(/%%.*$/, '');
+    let current = '';
+    let quoted = false;
+    for (const ch of line) {
+      if (ch === '"') quoted = !quoted;
+      if (ch === ';' && !quoted) {
+        if (current.trim()) result.push({ text: current.trim(), line: i + 1 });
+        current = '';
+      } else {
+        current += ch;
+      }
+    }
+    if (current.trim()) result.push({ text: current.trim(), line: i + 1 });
+  });
+  return result;
+}
+
+function stripFrontMatter(source: string): string {
+  return source.replace(/^\s*---\r?\n[\s\S]*?\r?\n---[ \t]*(?:\r?\n|$)/, '');
+}
+
+/**
+ * The flowchart source: the whole input, or the first flowchart in a
+ * ```mermaid block of a markdown document
+ */
+function flowchartSource(input: string): string {
+  const fences = [...input.matchAll(/^```mermaid[^\n]*\n([\s\S]*?)^```/gm)].map(m => stripFrontMatter(m[1]));
+  return fences.find(block => /^\s*(flowchart|graph)\b/i.test(block)) ?? fences[0] ?? stripFrontMatter(input);
+}
+
+interface NodeRef {
+  id: string;
+  label?: string;
+  shape?: NodeShape;
+  className?: string;
+}
+
+/**
+ * Read one node reference (`A`, `A[Label]`, `A(["Label"]):::cls`) at the start of text
+ */
+function readNode(text: string): { ref: NodeRef; rest: string } | null {
+  const idMatch = NODE_ID.exec(text);
+  if (!idMatch) return null;
+  const ref: NodeRef = { id: idMatch[0] };
+  let rest = text.slice(ref.id.length);
+
+  // Parallelograms and trapezoids share openers, so try each closer in turn
+  const opener = SHAPES.find(s => rest.startsWith(s.open) && (s.open !== '>' || rest.length > 1))?.open;
+  if (opener !== undefined) {
+    const body = rest.slice(opener.length);
+    // A quoted label may contain the closing bracket
+    const quote = body.trimStart().startsWith('"') ? body.indexOf('"', body.indexOf('"') + 1) : 0;
+    const bracket = quote === -1 ? undefined : SHAPES.find(s => s.open === opener && body.indexOf(s.close, quote) !== -1);
+    if (!bracket) {
+      throw new ImportError(`Unclosed "${opener}" in node ${ref.id}`);
+    }
+    const end = body.indexOf(bracket.close, quote);
+    ref.label = cleanLabel(body.slice(0, end));
+    ref.shape = bracket.shape;
+    rest = body.slice(end + bracket.close.length);
+  }
+
+  const classMatch = /^:::([\w-]+)/.exec(rest);
+  if (classMatch) {
+    ref.className = classMatch[1];
+    rest = rest.slice(classMatch[0].length);
+  }
+  return { ref, rest };
+}
+
+/**
+ * Read `A & B` at the start of text
+ */
+function readNodeGroup(text: string): { refs: NodeRef[]; rest: string } | null {
+  const refs: NodeRef[] = [];
+  let rest = text;
+  for (;;) {
+    const read = readNode(rest.trimStart());
+    if (!read) return null;
+    refs.push(read.ref);
+    rest = read.rest.trimStart();
+    if (!rest.startsWith('&')) return { refs, rest };
+    rest = rest.slice(1);
+  }
+}
+
+/**
+ * Read a link with its optional label at the start of text
+ */
+function readLink(text: string): { link: Link; rest: string } | null {
+  const open = LINK_OPEN.exec(text);
+  if (open) {
+    const close = LINK_CLOSE[open[2]].exec(text.slice(open[0].length));
+    if (close && close[1].trim()) {
+      const closing = close[2];
+      const endMarker = /[>ox]$/.test(closing) ? closing[closing.length - 1] : undefined;
+      const body = closing.replace(/[>ox]$/, '');
+      const link = parseLink(open[1], open[2] === '-.' ? `-${body}` : body, endMarker);
+      link.label = cleanLabel(close[1]);
+      return { link, rest: text.slice(open[0].length + close[0].length) };
+    }
+  }
+
+  const match = LINK.exec(text);
+  if (!match) return null;
+  const link = parseLink(match[1], match[2], match[3]);
+  let rest = text.slice(match[0].length);
+  const label = /^\s*\|([^|]*)\|/.exec(rest);
+  if (label) {
+    link.label = cleanLabel(label[1]);
+    rest = rest.slice(label[0].length);
+  }
+  return { link, rest };
+}
+
+/**
+ * Record a node reference; a node belongs to the first subgraph that mentions it
+ */
+function addNode(state: ParserState, ref: NodeRef): void {
+  let entry = state.nodes.get(ref.id);
+  if (!entry) {
+    entry = { id: ref.id, label: ref.id, shape: 'rectangle', style: {}, cluster: null, explicit: false, classes: [], own: {} };
+    state.nodes.set(ref.id, entry);
+  }
+  if (ref.shape) {
+    entry.label = ref.label ?? entry.label;
+    entry.shape = ref.shape;
+    entry.explicit = true;
+  }
+  if (ref.className) {
+    entry.classes.push(ref.className);
+  }
+  const cluster = state.stack[state.stack.length - 1];
+  if (cluster !== undefined && entry.cluster === null) {
+    entry.cluster = cluster;
+  }
+}
+
+/**
+ * Parse a chain of nodes and links: `A --> B & C -.->|no| D`
+ */
+function parseChain(state: ParserState, text: string): boolean {
+  const first = readNodeGroup(text);
+  if (!first) return false;
+  const groups = [first.refs];
+  const links: Link[] = [];
+  let rest = first.rest.trim();
+  while (rest) {
+    const read = readLink(rest);
+    if (!read) return false;
+    const next = readNodeGroup(read.rest);
+    if (!next) return false;
+    links.push(read.link);
+    groups.push(next.refs);
+    rest = next.rest.trim();
+  }
+
+  for (const refs of groups) {
+    refs.forEach(ref => addNode(state, ref));
+  }
+  links.forEach((link, i) => {
+    if (link.kind === 'invisible') return;
+    for (const a of groups[i]) {
+      for (const b of groups[i + 1]) {
+        state.edges.push({
+          from: a.id,
+          to: b.id,
+          label: link.label || undefined,
+          startArrowhead: link.start,
+          endArrowhead: link.end,
+          minLength: link.length,
+          style: {
+            strokeStyle: link.kind === 'dotted' ? 'dashed' : undefined,
+            strokeWidth: link.kind === 'thick' ? 4 : undefined
+          }
+        });
+      }
+    }
+  });
+  return true;
+}
+
+/**
+ * `subgraph id [Title]`, `subgraph id["Title"]`, `subgraph "Title"` or `subgraph Title words`
+ */
+function parseSubgraph(state: ParserState, text: string): void {
+  let id: string;
+  let label: string;
+  const withTitle = /^([^\s[]+)\s*\[(.*)\]$/.exec(text);
+  if (withTitle) {
+    id = withTitle[1];
+    label = cleanLabel(withTitle[2]);
+  } else if (/^[\p{L}\p{N}_-]+$/u.test(text)) {
+    id = text;
+    label = text;
+  } else {
+    label = cleanLabel(text);
+    id = `subgraph-${state.clusters.length + 1}`;
+  }
+  state.clusters.push({ id, label, parent: state.stack[state.stack.length - 1] ?? null });
+  state.stack.push(id);
+}
+
+/**
+ * Parse a Mermaid flowchart into a graph
+ */
+export function parseMermaid(input: string): ParsedGraph {
+  const lines = statements(flowchartSource(input));
+  const warnings: string[] = [];
+  if (lines.length === 0) {
+    throw new ImportError('Empty Mermaid source');
+  }
+  const header = HEADER.exec(lines[0].text);
+  if (!header) {
+    throw new ImportError(`Unsupported Mermaid diagram "${lines[0].text.split(/\s/)[0]}": only flowchart and graph are supported`);
+  }
+  const dir = (header[2] ?? 'TB').toUpperCase();
+  const direction: GraphDirection = dir === 'TD' ? 'TB' : dir as GraphDirection;
+
+  const state: ParserState = { nodes: new Map(), edges: [], clusters: [], classDefs: new Map(), stack: [] };
+  const styles: Array<{ ids: string[]; style: GraphStyle }> = [];
+  const classes: Array<{ ids: string[]; name: string }> = [];
+
+  for (const { text, line } of lines.slice(1)) {
+    const keyword = text.split(/\s+/)[0];
+    const args = text.slice(keyword.length).trim();
+    switch (keyword) {
+      case 'subgraph':
+        parseSubgraph(state, args);
+        continue;
+      case 'end':
+        if (state.stack.length === 0) {
+          warnings.push(`Line ${line}: "end" without a subgraph`);
+        }
+        state.stack.pop();
+        continue;
+      case 'direction':
+      case 'linkStyle':
+      case 'accTitle:':
+      case 'accDescr:':
+        continue;
+      case 'classDef': {
+        const [names, ...rest] = args.split(/\s+/);
+        for (const name of names.split(',')) {
+          state.classDefs.set(name, parseStyle(rest.join(' ')));
+        }
+        continue;
+      }
+      case 'class': {
+        const [ids, name] = args.split(/\s+/);
+        if (ids && name) classes.push({ ids: ids.split(','), name });
+        continue;
+      }
+      case 'style': {
+        const [ids, ...rest] = args.split(/\s+/);
+        styles.push({ ids: ids.split(','), style: parseStyle(rest.join(' ')) });
+        continue;
+      }
+      case 'click': {
+        const click = /^(\S+)\s+(?:href\s+)?"([^"]+)"/.exec(args);
+        const target = click ? state.nodes.get(click[1]) : undefined;
+        if (target && click) target.link = click[2];
+        continue;
+      }
+    }
+    if (!parseChain(state, text)) {
+      warnings.push(`Line ${line}: skipped "${text}"`);
+    }
+  }
+
+  // An id that names a subgraph, and was never given a shape, refers to the subgraph itself
+  const clusterIds = new Set(state.clusters.map(c => c.id));
+  for (const [id, entry] of state.nodes) {
+    if (clusterIds.has(id) && !entry.explicit) {
+      state.nodes.delete(id);
+    }
+  }
+
+  for (const { ids, name } of classes) {
+    for (const id of ids) state.nodes.get(id)?.classes.push(name);
+  }
+  for (const { ids, style } of styles) {
+    for (const id of ids) {
+      const entry = state.nodes.get(id);
+      if (entry) entry.own = { ...entry.own, ...style };
+    }
+  }
+  const defaults = state.classDefs.get('default') ?? {};
+  const nodes: GraphNode[] = [...state.nodes.values()].map(({ explicit: _explicit, classes: names, own, ...n }) => ({
+    ...n,
+    style: Object.assign({}, defaults, ...names.map(name => state.classDefs.get(name) ?? {}), own)
+  }));
+
+  return { graph: { direction, nodes, edges: state.edges, clusters: state.clusters }, warnings };
+}
+
+/** Words that cannot be used as node ids */
+const RESERVED = new Set(['end', 'graph', 'flowchart', 'subgraph', 'direction', 'style', 'classDef', 'class', 'click', 'linkStyle']);
+
+const BRACKETS: Record<NodeShape, [string, string]> = {
+  rectangle: ['[', ']'],
+  rounded: ['(', ')'],
+  ellipse: ['([', '])'],
+  circle: ['((', '))'],
+  diamond: ['{', '}'],
+  cylinder: ['[(', ')]']
+};
+
+/**
+ * Ids Mermaid accepts, derived from the graph's ids and kept unique
+ */
+function mermaidIds(ids: string[]): Map<string, string> {
+  const names = new Map<string, string>();
+  const used = new Set<string>();
+  for (const id of ids) {
+    let name = id.replace(/[^\p{L}\p{N}_]+/gu, '_');
+    if (!/^\p{L}/u.test(name)) name = `n${name}`;
+    if (RESERVED.has(name)) name = `${name}_`;
+    let unique = name;
+    for (let i = 2; used.has(unique); i++) unique = `${name}_${i}`;
+    used.add(unique);
+    names.set(id, unique);
+  }
+  return names;
+}
+
+function quoteLabel(text: string): string {
+  return `"${text.replace(/"/g, '#quot;').replace(/\n/g, '<br>') || ' '}"`;
+}
+
+function headMarker(head: Arrowhead, side: 'start' | 'end'): string {
+  if (head === null) return '';
+  if (head === 'bar') return 'x';
+  if (head === 'dot' || head === 'circle' || head === 'circle_outline') return 'o';
+  return side === 'start' ? '<' : '>';
+}
+
+/**
+ * Link operator for an edge, e.g. `-->`, `-.-` or `<==>`
+ */
+function linkOperator(edge: GraphEdge): string {
+  const start = headMarker(edge.startArrowhead, 'start');
+  const end = headMarker(edge.endArrowhead, 'end');
+  if (edge.style.strokeStyle === 'dashed' || edge.style.strokeStyle === 'dotted') {
+    return `${start}-.-${end}`;
+  }
+  if ((edge.style.strokeWidth ?? 2) >= 4) {
+    return `${start}==${end || '='}`;
+  }
+  return `${start}--${end || '-'}`;
+}
+
+function styleList(style: GraphStyle): string {
+  return [
+    style.backgroundColor && `fill:${style.backgroundColor}`,
+    style.strokeColor && `stroke:${style.strokeColor}`,
+    style.strokeWidth !== undefined && `stroke-width:${style.strokeWidth}px`,
+    style.strokeStyle && style.strokeStyle !== 'solid' && 'stroke-dasharray:5 5',
+    style.textColor && `color:${style.textColor}`
+  ].filter(Boolean).join(',');
+}
+
+/**
+ * Write a graph as Mermaid flowchart source
+ */
+export function graphToMermaid(graph: Graph): string {
+  const names = mermaidIds([...graph.clusters.map(c => c.id), ...graph.nodes.map(n => n.id)]);
+  const lines = [`flowchart ${graph.direction}`];
+
+  const writeScope = (cluster: string | null, indent: string) => {
+    for (const child of graph.clusters.filter(c => c.parent === cluster)) {
+      lines.push(`${indent}subgraph ${names.get(child.id)}[${quoteLabel(child.label)}]`);
+      writeScope(child.id, `${indent}  `);
+      lines.push(`${indent}end`);
+    }
+    for (const node of graph.nodes.filter(n => n.cluster === cluster)) {
+      const [open, close] = BRACKETS[node.shape];
+      lines.push(`${indent}${names.get(node.id)}${open}${quoteLabel(node.label)}${close}`);
+    }
+  };
+  writeScope(null, '  ');
+
+  const linkStyles: string[] = [];
+  graph.edges.forEach((edge, i) => {
+    // Mermaid links only point forwards, so a link with a single head at its start is turned around
+    const turned = edge.startArrowhead !== null && edge.endArrowhead === null
+      ? { ...edge, from: edge.to, to: edge.from, startArrowhead: null, endArrowhead: edge.startArrowhead }
+      : edge;
+    const label = turned.label ? `|${quoteLabel(turned.label)}|` : '';
+    lines.push(`  ${names.get(turned.from)} ${linkOperator(turned)}${label} ${names.get(turned.to)}`);
+    if (edge.style.strokeColor) {
+      linkStyles.push(`  linkStyle ${i} stroke:${edge.style.strokeColor}`);
+    }
+  });
+  lines.push(...linkStyles);
+
+  for (const node of graph.nodes) {
+    const style = styleList(node.style);
+    if (style) lines.push(`  style ${names.get(node.id)} ${style}`);
+    if (node.link) lines.push(`  click ${names.get(node.id)} ${JSON.stringify(node.link)}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
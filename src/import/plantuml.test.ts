@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { parsePlantUml } from './plantuml.js';
+import { ImportError } from './graph.js';
+
+describe('parsePlantUml', () => {
+  it('should read use case elements, aliases and relations', () => {
+    const { graph, warnings } = parsePlantUml(`
+      @startuml
+      ' shoppers
+      left to right direction
+      actor Customer as C
+      actor :Admin: as A
+      usecase (Browse) as UC1
+      usecase "Check out" as UC2
+      C --> UC1
+      C -> UC2 : buys >
+      UC2 ..> (Pay) : <<include>>
+      A -- (Browse)
+      @enduml
+    `);
+
+    expect(graph.direction).toBe('LR');
+    expect(graph.nodes.map(n => [n.id, n.label, n.shape])).toEqual([
+      ['C', 'Customer', 'circle'],
+      ['A', 'Admin', 'circle'],
+      ['UC1', 'Browse', 'ellipse'],
+      ['UC2', 'Check out', 'ellipse'],
+      ['Pay', 'Pay', 'ellipse']
+    ]);
+    expect(graph.edges.map(e => [e.from, e.to, e.label ?? null, e.endArrowhead, e.minLength])).toEqual([
+      ['C', 'UC1', null, 'arrow', 1],
+      ['C', 'UC2', 'buys', 'arrow', 1],
+      ['UC2', 'Pay', '<<include>>', 'arrow', 1],
+      ['A', 'UC1', null, null, 1]
+    ]);
+    expect(graph.edges[2].style.strokeStyle).toBe('dashed');
+    expect(warnings).toEqual([]);
+  });
+
+  it('should read components, containers and styles', () => {
+    const { graph } = parsePlantUml(`
+      @startuml
+      package "Web Shop" {
+        [Cart Service] as cart
+        node Backend {
+          component "Payment API" as pay <<service>> #lightblue
+          database Orders #back:ffec99;line:red;line.dashed
+        }
+      }
+      cloud CDN [[https://example.com]]
+      cart -[#red,bold]-> pay
+      [Cart Service] --> Orders
+      CDN -> Backend
+      @enduml
+    `);
+
+    expect(graph.clusters).toEqual([
+      { id: 'Web Shop', label: 'Web Shop', parent: null },
+      { id: 'Backend', label: 'Backend', parent: 'Web Shop' }
+    ]);
+    const byId = Object.fromEntries(graph.nodes.map(n => [n.id, n]));
+    expect(byId.cart).toMatchObject({ label: 'Cart Service', shape: 'rectangle', cluster: 'Web Shop' });
+    expect(byId.pay).toMatchObject({ cluster: 'Backend', style: { backgroundColor: 'lightblue' } });
+    expect(byId.Orders).toMatchObject({ shape: 'cylinder', style: { backgroundColor: '#ffec99', strokeColor: 'red', strokeStyle: 'dashed' } });
+    expect(byId.CDN).toMatchObject({ shape: 'rounded', link: 'https://example.com' });
+    expect(graph.edges.map(e => [e.from, e.to])).toEqual([['cart', 'pay'], ['cart', 'Orders'], ['CDN', 'Backend']]);
+    expect(graph.edges[0].style).toMatchObject({ strokeColor: 'red', strokeWidth: 4 });
+  });
+
+  it('should skip notes, settings and unknown lines with warnings', () => {
+    const { graph, warnings } = parsePlantUml([
+      '```plantuml',
+      '@startuml',
+      'title Shop',
+      'skinparam component {',
+      '  BackgroundColor pink',
+      '}',
+      'a -> b',
+      "/' block",
+      "   comment '/",
+      'note right of a : hi',
+      'note as N1',
+      '  floating',
+      'end note',
+      'a -[hidden]- b',
+      'what is this',
+      '}',
+      '@enduml',
+      '```'
+    ].join('\n'));
+
+    expect(graph.nodes.map(n => n.id)).toEqual(['a', 'b']);
+    expect(graph.edges).toHaveLength(1);
+    expect(warnings).toEqual([
+      'Line 9: skipped note',
+      'Line 10: skipped note',
+      'Line 14: skipped "what is this"',
+      'Line 15: "}" without a container'
+    ]);
+  });
+
+  it('should reject other diagram types', () => {
+    expect(() => parsePlantUml('')).toThrow('Empty PlantUML source');
+    expect(() => parsePlantUml('@startmindmap\n* root\n@endmindmap')).toThrow(ImportError);
+    expect(() => parsePlantUml('@startuml\nclass Foo\n@enduml')).toThrow('Unsupported PlantUML statement "class"');
+  });
+});
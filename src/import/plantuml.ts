@@ -0,0 +1,410 @@
+/**
+ * PlantUML component and use case diagram parser
+ *
+ * Reads element declarations (`component`, `actor`, `usecase`, `database`,
+ * ... and the `[Component]`, `(Use case)`, `:Actor:` and `() Interface`
+ * shorthands), relations with their labels and arrow options, and
+ * containers such as `package "Name" { ... }`. Notes, skin parameters and
+ * other decorations are left out.
+ */
+
+import { ImportError } from './graph.js';
+import type { GraphCluster, GraphDirection, GraphEdge, GraphNode, GraphStyle, NodeShape, ParsedGraph } from './graph.js';
+import type { Arrowhead } from '../types/excalidraw.js';
+
+const ELEMENT_SHAPES: Record<string, NodeShape> = {
+  actor: 'circle',
+  person: 'circle',
+  boundary: 'circle',
+  control: 'circle',
+  entity: 'circle',
+  interface: 'circle',
+  usecase: 'ellipse',
+  database: 'cylinder',
+  queue: 'rounded',
+  storage: 'rounded',
+  cloud: 'rounded',
+  agent: 'rectangle',
+  artifact: 'rectangle',
+  card: 'rectangle',
+  collections: 'rectangle',
+  component: 'rectangle',
+  file: 'rectangle',
+  folder: 'rectangle',
+  frame: 'rectangle',
+  hexagon: 'rectangle',
+  label: 'rectangle',
+  node: 'rectangle',
+  package: 'rectangle',
+  rectangle: 'rectangle',
+  stack: 'rectangle'
+};
+
+/** Statements that only affect PlantUML's own rendering */
+const IGNORED = ['skinparam', 'hide', 'show', 'scale', 'title', 'header', 'footer', 'caption', 'allowmixing', 'allow_mixing', '!theme', '!pragma'];
+
+/** Keywords of the diagram types this parser does not read */
+const OTHER_DIAGRAMS = ['participant', 'class', 'abstract', 'enum', 'state', 'object', 'activate', 'deactivate', 'start', 'stop'];
+
+const HEADS: Record<string, Arrowhead> = {
+  '>': 'arrow',
+  '<': 'arrow',
+  '|>': 'triangle_outline',
+  '<|': 'triangle_outline',
+  '^': 'triangle_outline',
+  '*': 'diamond',
+  o: 'diamond_outline',
+  '+': 'circle_outline',
+  '(': 'circle_outline',
+  ')': 'circle_outline',
+  x: 'bar',
+  '#': 'bar',
+  '{': 'crowfoot_many',
+  '}': 'crowfoot_many'
+};
+
+const NAME = /^[\p{L}\p{N}_$]+(?:\.[\p{L}\p{N}_$]+)*/u;
+/** `-->`, `..>`, `<|--`, `-[#red,dashed]->`, `-left->`, `--o` */
+const ARROW = /^([<*o+#x^(){}]|<\|)?([-.=]+)(?:\[([^\]]*)\]|(?:left|right|up|down|le|ri|do|l|r|u|d)(?=[-.=]))?([-.=]*)(\|>|[>*o+#x^(){}])?/;
+
+interface ParserState {
+  nodes: Map<string, GraphNode & { explicit: boolean }>;
+  edges: GraphEdge[];
+  clusters: GraphCluster[];
+  /** Open containers, innermost last; null for `together` blocks */
+  stack: Array<string | null>;
+  /** Ids of elements declared with an alias, by their name */
+  aliases: Map<string, string>;
+}
+
+interface ElementRef {
+  id: string;
+  label: string;
+  shape?: NodeShape;
+}
+
+/**
+ * The diagram source: the whole input, or the first plantuml block of a
+ * markdown document, between `@startuml` and `@enduml`
+ */
+function diagramSource(input: string): string {
+  const fence = /^```(?:plantuml|puml)[^\n]*\n([\s\S]*?)^```/m.exec(input);
+  const source = fence ? fence[1] : input;
+  const start = /^\s*@start(\w+)[^\n]*$/m.exec(source);
+  if (!start) {
+    return source;
+  }
+  if (start[1].toLowerCase() !== 'uml') {
+    throw new ImportError(`Unsupported PlantUML diagram "@start${start[1]}": only component and use case diagrams are supported`);
+  }
+  // Keep the lines before the diagram so warnings report the right line numbers
+  const from = start.index + start[0].length;
+  const end = source.slice(from).search(/^\s*@enduml/m);
+  return source.slice(0, from).replace(/[^\n]/g, '') + (end === -1 ? source.slice(from) : source.slice(from, from + end));
+}
+
+/**
+ * Source lines without comments, block comments kept as blank lines
+ */
+function sourceLines(source: string): string[] {
+  return source
+    .replace(/\/'[\s\S]*?'\//g, comment => comment.replace(/[^\n]/g, ''))
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .map(line => (line.startsWith("'") ? '' : line));
+}
+
+function cleanLabel(text: string): string {
+  let label = text.trim();
+  if (label.length >= 2 && label.startsWith('"') && label.endsWith('"')) {
+    label = label.slice(1, -1);
+  }
+  // Creole formatting tags, but not stereotypes such as <<include>>
+  return label.replace(/\\n/g, '\n').replace(/<\/?(b|i|u|s|color|size|font|back)\b[^>]*>/gi, '');
+}
+
+/**
+ * A `#color` or `#back;line:color;text:color;line.dashed` specification
+ */
+function parseColor(spec: string): GraphStyle {
+  const style: GraphStyle = {};
+  const color = (value: string) => {
+    // Gradients such as `#red/blue` use their first colour
+    const first = value.replace(/^#/, '').split(/[/\\|-]/)[0];
+    return /^[0-9a-f]{3}([0-9a-f]{3})?$/i.test(first) ? `#${first}` : first.toLowerCase();
+  };
+  spec.replace(/^#/, '').split(';').forEach((part, i) => {
+    const [key, value] = part.split(':');
+    if (value !== undefined) {
+      if (key === 'back') style.backgroundColor = color(value);
+      if (key === 'line') style.strokeColor = color(value);
+      if (key === 'text') style.textColor = color(value);
+    } else if (key === 'line.dashed') {
+      style.strokeStyle = 'dashed';
+    } else if (key === 'line.dotted') {
+      style.strokeStyle = 'dotted';
+    } else if (key === 'line.bold') {
+      style.strokeWidth = 4;
+    } else if (i === 0 && key) {
+      style.backgroundColor = color(key);
+    }
+  });
+  return style;
+}
+
+/**
+ * Read an element reference at the start of text: `Name`, `"Label"`,
+ * `[Component]`, `(Use case)`, `:Actor:` or `() Interface`
+ */
+function readRef(text: string): { ref: ElementRef; quoted: boolean; rest: string } | null {
+  const shorthand = /^(\[([^\]]+)\]|\(([^)]+)\)|:([^:]+):|\(\)\s*("[^"]*"|[\p{L}\p{N}_.$]+)|"([^"]*)")/u.exec(text);
+  if (shorthand) {
+    const [whole, , component, usecase, actor, iface, quoted] = shorthand;
+    const label = cleanLabel(component ?? usecase ?? actor ?? iface ?? quoted);
+    const shape: NodeShape | undefined = component !== undefined ? 'rectangle'
+      : usecase !== undefined ? 'ellipse'
+      : actor !== undefined || iface !== undefined ? 'circle'
+      : undefined;
+    return { ref: { id: label, label, shape }, quoted: true, rest: text.slice(whole.length) };
+  }
+  const name = NAME.exec(text);
+  if (!name) return null;
+  return { ref: { id: name[0], label: name[0] }, quoted: false, rest: text.slice(name[0].length) };
+}
+
+/**
+ * Apply `as Alias`: the alias becomes the id and a quoted name the label
+ */
+function readAlias(read: { ref: ElementRef; quoted: boolean; rest: string }): { ref: ElementRef; rest: string } {
+  const alias = /^\s+as\s+("[^"]*"|[\p{L}\p{N}_.$]+)/u.exec(read.rest);
+  if (!alias) return read;
+  const rest = read.rest.slice(alias[0].length);
+  const name = alias[1];
+  if (name.startsWith('"')) {
+    return { ref: { ...read.ref, label: cleanLabel(name) }, rest };
+  }
+  return { ref: { ...read.ref, id: name }, rest };
+}
+
+function currentContainer(state: ParserState): string | null {
+  return [...state.stack].reverse().find(id => id !== null) ?? null;
+}
+
+/**
+ * Record an element; it belongs to the first container that mentions it
+ */
+function addNode(state: ParserState, ref: ElementRef, explicit: boolean, style: GraphStyle = {}, link?: string): void {
+  let entry = state.nodes.get(ref.id);
+  if (!entry) {
+    entry = { id: ref.id, label: ref.label, shape: ref.shape ?? 'rectangle', style: {}, cluster: null, explicit: false };
+    state.nodes.set(ref.id, entry);
+  }
+  if (explicit || (ref.shape && !entry.explicit)) {
+    entry.label = ref.label;
+    entry.shape = ref.shape ?? entry.shape;
+    entry.explicit ||= explicit;
+  }
+  entry.style = { ...entry.style, ...style };
+  if (link) entry.link = link;
+  const cluster = currentContainer(state);
+  if (cluster !== null && entry.cluster === null) {
+    entry.cluster = cluster;
+  }
+}
+
+/**
+ * Stereotypes, colours, links and an opening brace after a declaration
+ */
+function readTrailer(text: string): { style: GraphStyle; link?: string; opens: boolean; rest: string } {
+  let rest = text.trim();
+  let style: GraphStyle = {};
+  let link: string | undefined;
+  for (;;) {
+    const stereotype = /^<<[^>]*>>\s*/.exec(rest);
+    const color = /^(#[\w.:;#]+)\s*/.exec(rest);
+    const url = /^\[\[([^\]\s]+)[^\]]*\]\]\s*/.exec(rest);
+    const match = stereotype ?? color ?? url;
+    if (!match) break;
+    if (color) style = { ...style, ...parseColor(color[1]) };
+    if (url) link = url[1];
+    rest = rest.slice(match[0].length);
+  }
+  const opens = rest.startsWith('{');
+  return { style, link, opens, rest: opens ? rest.slice(1).trim() : rest };
+}
+
+/**
+ * `keyword Name [as Alias] [<<stereotype>>] [#color] [{]`
+ */
+function parseDeclaration(state: ParserState, keyword: string, text: string): boolean {
+  const read = readRef(text);
+  if (!read) return false;
+  const { ref, rest } = readAlias(read);
+  const trailer = readTrailer(rest);
+  if (trailer.rest && !trailer.rest.startsWith('[')) return false;
+
+  const shape = ELEMENT_SHAPES[keyword];
+  if (ref.id !== ref.label) {
+    state.aliases.set(ref.label, ref.id);
+  }
+  if (trailer.opens) {
+    state.clusters.push({ id: ref.id, label: ref.label, parent: currentContainer(state) });
+    state.stack.push(ref.id);
+    return true;
+  }
+  addNode(state, { ...ref, shape }, true, keyword === 'label' ? { strokeColor: 'transparent' } : trailer.style, trailer.link);
+  return true;
+}
+
+/**
+ * Options in brackets inside an arrow: `[#red,dashed,thickness=2]`
+ */
+function arrowStyle(options: string | undefined, body: string): { style: GraphStyle; hidden: boolean } {
+  const style: GraphStyle = {};
+  if (body.includes('.')) style.strokeStyle = 'dashed';
+  if (body.includes('=')) style.strokeWidth = 4;
+  let hidden = false;
+  for (const option of (options ?? '').split(/[,;]/).map(o => o.trim().toLowerCase())) {
+    if (option.startsWith('#')) Object.assign(style, { strokeColor: parseColor(option).backgroundColor });
+    if (option === 'dashed' || option === 'line.dashed') style.strokeStyle = 'dashed';
+    if (option === 'dotted' || option === 'line.dotted') style.strokeStyle = 'dotted';
+    if (option === 'bold' || option === 'line.bold') style.strokeWidth = 4;
+    if (option === 'hidden') hidden = true;
+    const thickness = /^thickness=(\d+(?:\.\d+)?)$/.exec(option);
+    if (thickness) style.strokeWidth = Number(thickness[1]);
+  }
+  return { style, hidden };
+}
+
+/**
+ * `A --> B`, `[A] ..> (B) : label`, `A -[#red]-> B`
+ */
+function parseRelation(state: ParserState, text: string): boolean {
+  const from = readRef(text);
+  if (!from) return false;
+  const arrow = ARROW.exec(from.rest.trimStart());
+  if (!arrow) return false;
+  const [whole, left, body1, options, body2, right] = arrow;
+  const to = readRef(from.rest.trimStart().slice(whole.length).trimStart());
+  if (!to) return false;
+  let rest = to.rest.trim();
+  let label: string | undefined;
+  if (rest.startsWith(':')) {
+    // `: uses >` points the reader along the arrow
+    label = cleanLabel(rest.slice(1).trim().replace(/\s+[<>]$/, '').replace(/^[<>]\s+/, ''));
+    rest = '';
+  }
+  if (rest) return false;
+
+  // `[Web App]` refers to an element declared as `component "Web App" as web`
+  for (const end of [from, to]) {
+    if (end.quoted) end.ref.id = state.aliases.get(end.ref.label) ?? end.ref.id;
+  }
+  addNode(state, from.ref, false);
+  addNode(state, to.ref, false);
+  const { style, hidden } = arrowStyle(options, body1 + body2);
+  if (hidden) return true;
+  state.edges.push({
+    from: from.ref.id,
+    to: to.ref.id,
+    label: label || undefined,
+    startArrowhead: left ? HEADS[left] ?? 'arrow' : null,
+    endArrowhead: right ? HEADS[right] ?? 'arrow' : null,
+    // `->` and `-->` place the target next to or below; longer arrows push it further
+    minLength: Math.max(1, (body1 + body2).length - 1),
+    style
+  });
+  return true;
+}
+
+/**
+ * The line closing a multi-line note, legend, title or skin parameter block
+ * that starts with this line
+ */
+function blockEnd(text: string): RegExp | null {
+  if (/^note\b/i.test(text) && !text.includes(':') && !/^note\s+"/i.test(text)) return /^end\s*note$/i;
+  if (/^legend\b/i.test(text)) return /^end\s*legend$/i;
+  if (/^(title|header|footer)$/i.test(text)) return new RegExp(`^end\\s*${text}$`, 'i');
+  if (/^skinparam\b.*\{$/i.test(text)) return /^\}$/;
+  return null;
+}
+
+/**
+ * Parse a PlantUML component or use case diagram into a graph
+ */
+export function parsePlantUml(input: string): ParsedGraph {
+  const lines = sourceLines(diagramSource(input));
+  if (lines.every(line => !line || line.startsWith('@'))) {
+    throw new ImportError('Empty PlantUML source');
+  }
+  const warnings: string[] = [];
+  const state: ParserState = { nodes: new Map(), edges: [], clusters: [], stack: [], aliases: new Map() };
+  let direction: GraphDirection = 'TB';
+
+  for (let i = 0; i < lines.length; i++) {
+    const text = lines[i];
+    const line = i + 1;
+    if (!text || text.startsWith('@')) continue;
+    const keyword = text.split(/[\s{]/)[0].toLowerCase();
+
+    if (/^left\s+to\s+right\s+direction$/i.test(text)) {
+      direction = 'LR';
+      continue;
+    }
+    if (/^top\s+to\s+bottom\s+direction$/i.test(text)) {
+      direction = 'TB';
+      continue;
+    }
+    if (text === '}') {
+      if (state.stack.length === 0) {
+        warnings.push(`Line ${line}: "}" without a container`);
+      }
+      state.stack.pop();
+      continue;
+    }
+    if (keyword === 'together' && text.endsWith('{')) {
+      state.stack.push(null);
+      continue;
+    }
+    const end = blockEnd(text);
+    if (end) {
+      while (i + 1 < lines.length && !end.test(lines[i + 1])) i++;
+      i++;
+      if (keyword === 'note') warnings.push(`Line ${line}: skipped note`);
+      continue;
+    }
+    if (keyword === 'note') {
+      warnings.push(`Line ${line}: skipped note`);
+      continue;
+    }
+    if (IGNORED.includes(keyword)) continue;
+    if (OTHER_DIAGRAMS.includes(keyword)) {
+      throw new ImportError(`Unsupported PlantUML statement "${keyword}": only component and use case diagrams are supported`);
+    }
+
+    if (keyword in ELEMENT_SHAPES && parseDeclaration(state, keyword, text.slice(keyword.length).trim())) continue;
+    if (parseRelation(state, text)) continue;
+    // A lone shorthand such as `[Component] as C` or `(Use case)`
+    const lone = /^[[(:]/.test(text) ? readRef(text) : null;
+    if (lone) {
+      const { ref, rest } = readAlias(lone);
+      const trailer = readTrailer(rest);
+      if (!trailer.rest && !trailer.opens) {
+        if (ref.id !== ref.label) state.aliases.set(ref.label, ref.id);
+        addNode(state, ref, true, trailer.style, trailer.link);
+        continue;
+      }
+    }
+    warnings.push(`Line ${line}: skipped "${text}"`);
+  }
+
+  // A name that refers to a container, and was never declared, is the container itself
+  const clusterIds = new Set(state.clusters.map(c => c.id));
+  for (const [id, entry] of state.nodes) {
+    if (clusterIds.has(id) && !entry.explicit) {
+      state.nodes.delete(id);
+    }
+  }
+  const nodes: GraphNode[] = [...state.nodes.values()].map(({ explicit: _explicit, ...n }) => n);
+  return { graph: { direction, nodes, edges: state.edges, clusters: state.clusters }, warnings };
+}
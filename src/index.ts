@@ -14,6 +14,9 @@ export {
   writeFile,
   validateExcalidrawFile,
   calculateBounds,
+  getElementBox,
+  getElementCenter,
+  getElementCorners,
   countElementsByType 
 } from './utils/file.js';
 
@@ -26,11 +29,53 @@ export {
   createLine,
   createArrow,
   createFreedraw,
+  createFrame,
   mergeElement
 } from './utils/element.js';
 
 export { generateId, generateSeed } from './utils/id.js';
 
+export { selectElements, parseRegion, matchId } from './utils/selection.js';
+export type { SelectionCriteria, Region } from './utils/selection.js';
+
+export {
+  serializeScene,
+  embedSceneInPng,
+  embedSceneInSvg,
+  extractSceneFromPng,
+  extractSceneFromSvg
+} from './utils/embed.js';
+
+export { drawioToExcalidraw, excalidrawToDrawio } from './utils/drawio.js';
+export type { DrawioPage } from './utils/drawio.js';
+export { obsidianToExcalidraw, excalidrawToObsidian } from './utils/obsidian.js';
+export {
+  createEmptyLibrary,
+  readLibrary,
+  writeLibrary,
+  findLibraryItem,
+  createLibraryItem,
+  instantiateLibraryItem
+} from './utils/library.js';
+
+// Rendering
+export { buildScene } from './render/scene.js';
+export { generateSvg, sceneToSvg } from './render/svg.js';
+export { renderPng, encodePng } from './render/png.js';
+export { CanvasTooLargeError } from './render/raster.js';
+export { renderPdf, renderPdfPages } from './render/pdf.js';
+export { sceneToHtml } from './render/html.js';
+export { renderAscii } from './render/ascii.js';
+export type { Scene, SceneNode, SceneOptions } from './render/scene.js';
+export type { SvgOptions } from './render/svg.js';
+export type { PdfOptions, PageSize } from './render/pdf.js';
+export type { HtmlDocumentOptions } from './render/html.js';
+export type { AsciiOptions, AsciiPreview } from './render/ascii.js';
+
+// Import
+export { graphToExcalidraw, excalidrawToGraph, parseMermaid, graphToMermaid, parseDot, graphToDot, parsePlantUml, parseD2, ImportError } from './import/index.js';
+export type { Graph, GraphNode, GraphEdge, GraphCluster, GraphStyle, ParsedGraph } from './import/index.js';
+
 // Validation
 export {
   validateFile,
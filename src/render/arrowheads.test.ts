@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { arrowheadParts } from './arrowheads.js';
+import { createArrow, createLine } from '../utils/element.js';
+import type { Arrowhead } from '../types/excalidraw.js';
+
+function arrow(startArrowhead: Arrowhead, endArrowhead: Arrowhead, strokeWidth = 2) {
+  return createArrow({
+    type: 'arrow',
+    x: 0,
+    y: 0,
+    points: [[0, 0], [200, 0]],
+    startArrowhead,
+    endArrowhead,
+    strokeWidth
+  });
+}
+
+describe('arrowheads', () => {
+  it('should draw an open arrow at the end by default', () => {
+    const parts = arrowheadParts(arrow(null, 'arrow'), 'end');
+    
+    expect(parts).toHaveLength(1);
+    expect(parts[0].kind).toBe('polyline');
+    if (parts[0].kind === 'polyline') {
+      expect(parts[0].points[1]).toEqual([200, 0]);
+      expect(parts[0].closed).toBe(false);
+    }
+  });
+
+  it('should draw the start arrowhead pointing backwards', () => {
+    const parts = arrowheadParts(arrow('triangle', null), 'start');
+    
+    expect(parts).toHaveLength(1);
+    if (parts[0].kind === 'polyline') {
+      expect(parts[0].points[0]).toEqual([0, 0]);
+      expect(parts[0].points[1][0]).toBeGreaterThan(0);
+      expect(parts[0].fill).toBe('stroke');
+    }
+  });
+
+  it('should honour arrowheads on lines', () => {
+    const line = createLine({ type: 'line', x: 0, y: 0, points: [[0, 0], [100, 0]], endArrowhead: 'bar' });
+    expect(arrowheadParts(line, 'end')).toHaveLength(1);
+  });
+
+  it('should fill outline variants with the background', () => {
+    expect(arrowheadParts(arrow(null, 'circle_outline'), 'end')[0].fill).toBe('background');
+    expect(arrowheadParts(arrow(null, 'diamond_outline'), 'end')[0].fill).toBe('background');
+    expect(arrowheadParts(arrow(null, 'circle'), 'end')[0].fill).toBe('stroke');
+  });
+
+  it('should draw crowfoot prongs opening towards the tip', () => {
+    const parts = arrowheadParts(arrow(null, 'crowfoot_many'), 'end');
+    
+    expect(parts).toHaveLength(1);
+    if (parts[0].kind === 'polyline') {
+      const [a, apex, b] = parts[0].points;
+      expect(apex[0]).toBeLessThan(200);
+      expect(a[0]).toBeCloseTo(b[0]);
+      expect(a[1]).toBeCloseTo(-b[1]);
+    }
+  });
+
+  it('should add a bar for crowfoot_one_or_many', () => {
+    expect(arrowheadParts(arrow(null, 'crowfoot_one_or_many'), 'end')).toHaveLength(2);
+  });
+
+  it('should grow with stroke width', () => {
+    const thin = arrowheadParts(arrow(null, 'bar', 1), 'end')[0];
+    const thick = arrowheadParts(arrow(null, 'bar', 4), 'end')[0];
+    
+    if (thin.kind === 'polyline' && thick.kind === 'polyline') {
+      expect(Math.abs(thick.points[0][1])).toBeGreaterThan(Math.abs(thin.points[0][1]));
+    }
+  });
+
+  it('should draw nothing without an arrowhead', () => {
+    expect(arrowheadParts(arrow(null, null), 'start')).toEqual([]);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Arrowhead geometry for lines and arrows
+ *
+ * Sizes and angles follow Excalidraw: each head is scaled to the stroke
+ * width and never takes up more than half of the segment it sits on.
+ */
+
+import type { Arrowhead, LinearElement } from '../types/excalidraw.js';
+import type { Point } from './rough.js';
+
+/** What a closed arrowhead is filled with */
+export type ArrowheadFill = 'none' | 'stroke' | 'background';
+
+export type ArrowheadPart =
+  | { kind: 'polyline'; points: Point[]; closed: boolean; fill: ArrowheadFill }
+  | { kind: 'circle'; center: Point; diameter: number; fill: ArrowheadFill };
+
+function baseSize(arrowhead: NonNullable<Arrowhead>): number {
+  switch (arrowhead) {
+    case 'arrow':
+      return 25;
+    case 'diamond':
+    case 'diamond_outline':
+      return 12;
+    case 'crowfoot_one':
+    case 'crowfoot_many':
+    case 'crowfoot_one_or_many':
+      return 20;
+    default:
+      return 15;
+  }
+}
+
+function spreadAngle(arrowhead: NonNullable<Arrowhead>): number {
+  switch (arrowhead) {
+    case 'bar':
+      return 90;
+    case 'arrow':
+      return 20;
+    default:
+      return 25;
+  }
+}
+
+function rotateAround(p: Point, center: Point, degrees: number): Point {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = p[0] - center[0];
+  const dy = p[1] - center[1];
+  return [center[0] + dx * cos - dy * sin, center[1] + dx * sin + dy * cos];
+}
+
+/**
+ * Shapes making up the arrowhead at one end of a linear element
+ */
+export function arrowheadParts(el: LinearElement, position: 'start' | 'end'): ArrowheadPart[] {
+  const arrowhead = position === 'start' ? el.startArrowhead : el.endArrowhead;
+  if (!arrowhead || el.points.length < 2) {
+    return [];
+  }
+
+  const points = el.points.map(p => [el.x + p[0], el.y + p[1]] as Point);
+  const tip = position === 'start' ? points[0] : points[points.length - 1];
+  const prev = position === 'start' ? points[1] : points[points.length - 2];
+  const length = Math.hypot(tip[0] - prev[0], tip[1] - prev[1]);
+  if (length === 0) {
+    return [];
+  }
+
+  // Unit vector pointing into the tip
+  const ux = (tip[0] - prev[0]) / length;
+  const uy = (tip[1] - prev[1]) / length;
+  const along = (distance: number): Point => [tip[0] - ux * distance, tip[1] - uy * distance];
+  const bar = (center: Point, halfLength: number): Point[] => [
+    [center[0] - uy * halfLength, center[1] + ux * halfLength],
+    [center[0] + uy * halfLength, center[1] - ux * halfLength]
+  ];
+
+  const isDiamond = arrowhead === 'diamond' || arrowhead === 'diamond_outline';
+  const scale = 0.75 + el.strokeWidth / 8;
+  const size = Math.min(baseSize(arrowhead) * scale, length * (isDiamond ? 0.25 : 0.5));
+  const angle = spreadAngle(arrowhead);
+  const back = along(size);
+  const left = rotateAround(back, tip, -angle);
+  const right = rotateAround(back, tip, angle);
+
+  switch (arrowhead) {
+    case 'arrow':
+      return [{ kind: 'polyline', points: [left, tip, right], closed: false, fill: 'none' }];
+
+    case 'bar':
+      return [{ kind: 'polyline', points: [left, right], closed: false, fill: 'none' }];
+
+    case 'triangle':
+    case 'triangle_outline':
+      return [{
+        kind: 'polyline',
+        points: [tip, left, right],
+        closed: true,
+        fill: arrowhead === 'triangle' ? 'stroke' : 'background'
+      }];
+
+    case 'dot':
+    case 'circle':
+    case 'circle_outline':
+      return [{
+        kind: 'circle',
+        center: tip,
+        diameter: size + el.strokeWidth - 2,
+        fill: arrowhead === 'circle_outline' ? 'background' : 'stroke'
+      }];
+
+    case 'diamond':
+    case 'diamond_outline':
+      return [{
+        kind: 'polyline',
+        points: [tip, left, along(size * 2), right],
+        closed: true,
+        fill: arrowhead === 'diamond' ? 'stroke' : 'background'
+      }];
+
+    case 'crowfoot_one':
+      return [{ kind: 'polyline', points: bar(back, size / 2), closed: false, fill: 'none' }];
+
+    case 'crowfoot_many':
+    case 'crowfoot_one_or_many': {
+      // Prongs fan out from a point on the shaft towards the tip
+      const parts: ArrowheadPart[] = [{
+        kind: 'polyline',
+        points: [rotateAround(tip, back, -angle), back, rotateAround(tip, back, angle)],
+        closed: false,
+        fill: 'none'
+      }];
+      if (arrowhead === 'crowfoot_one_or_many') {
+        parts.push({ kind: 'polyline', points: bar(along(size * 1.3), size / 2), closed: false, fill: 'none' });
+      }
+      return parts;
+    }
+
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { renderAscii } from './ascii.js';
+import { createElement } from '../utils/element.js';
+import { createEmptyFile } from '../utils/file.js';
+import type { ExcalidrawElement, LinearElement, TextElement } from '../types/excalidraw.js';
+
+function preview(elements: ExcalidrawElement[], options: { width?: number; height?: number; color?: boolean; ascii?: boolean } = {}) {
+  return renderAscii({ ...createEmptyFile(), elements }, { width: 80, ...options });
+}
+
+function box(id: string, x: number, label?: string): ExcalidrawElement[] {
+  const rect = createElement({ id, type: 'rectangle', x, y: 0, width: 100, height: 40 });
+  rect.roundness = null;
+  if (!label) {
+    return [rect];
+  }
+  const text = createElement({ type: 'text', x, y: 10, text: label }) as TextElement;
+  text.containerId = id;
+  return [rect, text];
+}
+
+describe('renderAscii', () => {
+  it('should draw rectangles with box-drawing characters and centred labels', () => {
+    const { lines, columns, rows } = preview(box('a', 0, 'API'));
+
+    expect([columns, rows]).toEqual([11, 3]);
+    expect(lines).toEqual([
+      '┌─────────┐',
+      '│   API   │',
+      '└─────────┘'
+    ]);
+  });
+
+  it('should truncate labels to their container', () => {
+    const { lines } = preview(box('a', 0, 'Authentication service'));
+
+    expect(lines[1]).toBe('│Authenti…│');
+  });
+
+  it('should draw arrows between shapes without crossing their borders', () => {
+    const arrow = createElement({ type: 'arrow', x: 100, y: 20, points: [[0, 0], [100, 0]] }) as LinearElement;
+    arrow.startBinding = { elementId: 'a', focus: 0, gap: 0 };
+    arrow.endBinding = { elementId: 'b', focus: 0, gap: 0 };
+    const { lines } = preview([...box('a', 0), ...box('b', 200), arrow]);
+
+    expect(lines[1]).toBe('│         │────────▶│         │');
+  });
+
+  it('should join lines that meet into corners and junctions', () => {
+    const arrow = createElement({ type: 'arrow', x: 50, y: 40, points: [[0, 0], [0, 40], [100, 40]] }) as LinearElement;
+    arrow.endArrowhead = null;
+    const { lines } = preview([...box('a', 0), arrow]);
+
+    expect(lines[2]).toBe('└────┬────┘');
+    expect(lines[4]).toBe('     └──────────');
+  });
+
+  it('should scale wide drawings down to the width and keep the aspect ratio', () => {
+    const { columns, rows, scale } = preview([...box('a', 0), ...box('b', 700)], { width: 41 });
+
+    expect(columns).toBe(41);
+    expect(scale).toBe(20);
+    expect(rows).toBe(2);
+  });
+
+  it('should fit the height when given', () => {
+    const tall = createElement({ type: 'rectangle', x: 0, y: 0, width: 100, height: 1000 });
+    const { rows } = preview([tall], { height: 11 });
+
+    expect(rows).toBe(11);
+  });
+
+  it('should draw diamonds and ellipses', () => {
+    const diamond = createElement({ type: 'diamond', x: 0, y: 0, width: 100, height: 80 });
+    const ellipse = createElement({ type: 'ellipse', x: 150, y: 0, width: 100, height: 80 });
+    const { lines } = preview([diamond, ellipse]);
+
+    expect(lines.join('\n')).toMatch(/[╱╲]/);
+    expect(lines[2]).toMatch(/\(\s+\)$/);
+    expect(lines[0]).toMatch(/╭─+╮$/);
+  });
+
+  it('should use plain ASCII and ANSI colours on request', () => {
+    const [rect] = box('a', 0);
+    rect.strokeColor = '#e03131';
+    const { lines } = preview([rect], { ascii: true, color: true });
+
+    expect(lines[0]).toBe('\x1b[38;2;224;49;49m+---------+\x1b[0m');
+    expect(preview([{ ...rect, strokeColor: '#1e1e1e' }], { color: true }).lines[0]).not.toContain('\x1b');
+  });
+
+  it('should write free text where it sits and name frames in their border', () => {
+    const text = createElement({ type: 'text', x: 0, y: 0, text: 'Note' });
+    const frame = { ...createElement({ type: 'rectangle', x: 0, y: 40, width: 200, height: 80 }), type: 'frame', name: 'Login', roundness: null } as ExcalidrawElement;
+    const { lines } = preview([text, frame]);
+
+    expect(lines[0]).toBe('Note');
+    expect(lines[2]).toBe('┌ Login ┄┄┄┄┄┄┄┄┄┄┄┄┐');
+  });
+
+  it('should return no lines for an empty drawing', () => {
+    expect(preview([]).lines).toEqual([]);
+  });
+});
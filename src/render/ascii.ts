@@ -0,0 +1,459 @@
+/**
+ * Character-grid previews of drawings for terminals
+ *
+ * Elements are drawn onto a grid of cells about twice as tall as they are
+ * wide. Straight runs set connection bits on the cells they cross, so lines
+ * that meet join up into box-drawing corners and junctions; slanted runs use
+ * diagonal characters. Text is written last so labels stay readable.
+ */
+
+import { calculateBounds, getElementCenter } from '../utils/file.js';
+import { parseColor } from './color.js';
+import { frameName } from './scene.js';
+import type { Point } from './rough.js';
+import type { ExcalidrawElement, ExcalidrawFile, TextElement } from '../types/excalidraw.js';
+
+export interface AsciiOptions {
+  /** Most columns; small drawings use fewer */
+  width: number;
+  /** Most rows; the drawing is scaled down further to fit (default: no limit) */
+  height?: number;
+  /** Colour strokes and text with ANSI escapes */
+  color?: boolean;
+  /** Plain ASCII instead of Unicode box-drawing characters */
+  ascii?: boolean;
+}
+
+export interface AsciiPreview {
+  columns: number;
+  rows: number;
+  /** Drawing units per column */
+  scale: number;
+  lines: string[];
+}
+
+/** Cell height relative to its width, as in most terminal fonts */
+const CELL_ASPECT = 2;
+
+/** Finest scale, about one character of 20px text per column */
+const MIN_UNITS_PER_COLUMN = 10;
+
+/** Points used to outline an ellipse */
+const ELLIPSE_SEGMENTS = 48;
+
+const UP = 1;
+const DOWN = 2;
+const LEFT = 4;
+const RIGHT = 8;
+
+interface Charset {
+  /** Character for each combination of connections */
+  lines: Record<number, string>;
+  /** Rounded corners, by connections */
+  rounded: Record<number, string>;
+  dashedHorizontal: string;
+  dashedVertical: string;
+  rising: string;
+  falling: string;
+  heads: { up: string; down: string; left: string; right: string };
+  ellipsis: string;
+}
+
+const UNICODE: Charset = {
+  lines: {
+    [LEFT]: '─', [RIGHT]: '─', [LEFT | RIGHT]: '─',
+    [UP]: '│', [DOWN]: '│', [UP | DOWN]: '│',
+    [DOWN | RIGHT]: '┌', [DOWN | LEFT]: '┐', [UP | RIGHT]: '└', [UP | LEFT]: '┘',
+    [UP | DOWN | RIGHT]: '├', [UP | DOWN | LEFT]: '┤', [LEFT | RIGHT | DOWN]: '┬', [LEFT | RIGHT | UP]: '┴',
+    [UP | DOWN | LEFT | RIGHT]: '┼'
+  },
+  rounded: { [DOWN | RIGHT]: '╭', [DOWN | LEFT]: '╮', [UP | RIGHT]: '╰', [UP | LEFT]: '╯' },
+  dashedHorizontal: '┄',
+  dashedVertical: '┆',
+  rising: '╱',
+  falling: '╲',
+  heads: { up: '▲', down: '▼', left: '◀', right: '▶' },
+  ellipsis: '…'
+};
+
+const ASCII: Charset = {
+  lines: {
+    [LEFT]: '-', [RIGHT]: '-', [LEFT | RIGHT]: '-',
+    [UP]: '|', [DOWN]: '|', [UP | DOWN]: '|'
+  },
+  rounded: {},
+  dashedHorizontal: '-',
+  dashedVertical: ':',
+  rising: '/',
+  falling: '\\',
+  heads: { up: '^', down: 'v', left: '<', right: '>' },
+  ellipsis: '~'
+};
+
+interface Style {
+  color: string | null;
+  dashed: boolean;
+  rounded: boolean;
+}
+
+interface Cell {
+  /** Connections of line-drawing cells */
+  mask: number;
+  /** Character written directly, which takes precedence over the mask */
+  char: string | null;
+  style: Style | null;
+}
+
+const PLAIN: Style = { color: null, dashed: false, rounded: false };
+
+class CharGrid {
+  private cells: Cell[];
+
+  constructor(readonly columns: number, readonly rows: number) {
+    this.cells = Array.from({ length: columns * rows }, () => ({ mask: 0, char: null, style: null }));
+  }
+
+  private cell(col: number, row: number): Cell | null {
+    if (col < 0 || row < 0 || col >= this.columns || row >= this.rows) {
+      return null;
+    }
+    return this.cells[row * this.columns + col];
+  }
+
+  /** Add connections to a cell, replacing any character written there */
+  private link(col: number, row: number, bits: number, style: Style): void {
+    const cell = this.cell(col, row);
+    if (cell) {
+      cell.mask = cell.char === null ? cell.mask | bits : bits;
+      cell.char = null;
+      cell.style = style;
+    }
+  }
+
+  put(col: number, row: number, char: string, style: Style): void {
+    const cell = this.cell(col, row);
+    if (cell) {
+      cell.mask = 0;
+      cell.char = char;
+      cell.style = style;
+    }
+  }
+
+  text(col: number, row: number, text: string, style: Style): void {
+    [...text].forEach((char, i) => this.put(col + i, row, char, style));
+  }
+
+  /** Copy of a cell's content, to put back later */
+  save(col: number, row: number): Cell | null {
+    const cell = this.cell(col, row);
+    return cell && { ...cell };
+  }
+
+  restore(col: number, row: number, saved: Cell): void {
+    const cell = this.cell(col, row);
+    if (cell) {
+      Object.assign(cell, saved);
+    }
+  }
+
+  isEmpty(col: number, row: number): boolean {
+    const cell = this.cell(col, row);
+    return !cell || (cell.style === null && cell.char === null);
+  }
+
+  /**
+   * Draw a straight line between two points in cell coordinates, returning
+   * the cells it passes through
+   */
+  line(from: Point, to: Point, style: Style, charset: Charset): Point[] {
+    const dc = to[0] - from[0];
+    const dr = to[1] - from[1];
+    // Compare slopes in drawing units, where rows are twice as tall
+    const kind = Math.abs(dr) * CELL_ASPECT < Math.abs(dc) * 0.5 ? 'horizontal'
+      : Math.abs(dr) * CELL_ASPECT > Math.abs(dc) * 2 ? 'vertical'
+      : 'diagonal';
+    const diagonal = dc > 0 === dr > 0 ? charset.falling : charset.rising;
+
+    const steps = Math.max(1, Math.ceil(Math.max(Math.abs(dc), Math.abs(dr))));
+    let [col, row] = [Math.round(from[0]), Math.round(from[1])];
+    const cells: Point[] = [[col, row]];
+    if (kind === 'diagonal') {
+      this.put(col, row, diagonal, style);
+    } else {
+      this.link(col, row, 0, style);
+    }
+    for (let i = 1; i <= steps; i++) {
+      const next = Math.round(from[0] + (dc * i) / steps);
+      const nextRow = Math.round(from[1] + (dr * i) / steps);
+      if (next === col && nextRow === row) {
+        continue;
+      }
+      if (kind === 'horizontal') {
+        this.link(col, row, next > col ? RIGHT : LEFT, style);
+        this.link(next, nextRow, next > col ? LEFT : RIGHT, style);
+      } else if (kind === 'vertical') {
+        this.link(col, row, nextRow > row ? DOWN : UP, style);
+        this.link(next, nextRow, nextRow > row ? UP : DOWN, style);
+      } else {
+        // Shallow and steep stretches of a slanted line are drawn straight
+        const char = nextRow === row ? charset.lines[LEFT | RIGHT] : next === col ? charset.lines[UP | DOWN] : diagonal;
+        this.put(next, nextRow, char, style);
+      }
+      [col, row] = [next, nextRow];
+      cells.push([col, row]);
+    }
+    return cells;
+  }
+
+  render(charset: Charset, color: boolean): string[] {
+    const lines: string[] = [];
+    for (let row = 0; row < this.rows; row++) {
+      const chars = Array.from({ length: this.columns }, (_, col) => this.charAt(col, row, charset));
+      let end = chars.length;
+      while (end > 0 && chars[end - 1] === ' ') {
+        end--;
+      }
+      let line = '';
+      let current: string | null = null;
+      for (let col = 0; col < end; col++) {
+        const wanted = color ? ansiColor(this.cells[row * this.columns + col].style?.color ?? null) : null;
+        if (wanted !== current) {
+          line += wanted ?? '\x1b[0m';
+          current = wanted;
+        }
+        line += chars[col];
+      }
+      lines.push(current ? `${line}\x1b[0m` : line);
+    }
+    return lines;
+  }
+
+  private charAt(col: number, row: number, charset: Charset): string {
+    const cell = this.cells[row * this.columns + col];
+    if (cell.char !== null) {
+      return cell.char;
+    }
+    if (cell.mask === 0) {
+      return cell.style ? charset.lines[LEFT | RIGHT] : ' ';
+    }
+    const style = cell.style ?? PLAIN;
+    if (style.dashed && (cell.mask & (UP | DOWN)) === 0) {
+      return charset.dashedHorizontal;
+    }
+    if (style.dashed && (cell.mask & (LEFT | RIGHT)) === 0) {
+      return charset.dashedVertical;
+    }
+    return (style.rounded && charset.rounded[cell.mask]) || charset.lines[cell.mask] || '+';
+  }
+}
+
+/**
+ * ANSI foreground colour escape, or null for colours left to the terminal:
+ * near-black strokes would vanish on dark terminals
+ */
+function ansiColor(color: string | null): string | null {
+  const rgba = color ? parseColor(color) : null;
+  if (!rgba || rgba[3] === 0 || Math.max(rgba[0], rgba[1], rgba[2]) < 0x40) {
+    return null;
+  }
+  return `\x1b[38;2;${rgba[0]};${rgba[1]};${rgba[2]}m`;
+}
+
+function rotate(points: Point[], el: ExcalidrawElement): Point[] {
+  if (!el.angle) {
+    return points;
+  }
+  const { x: cx, y: cy } = getElementCenter(el);
+  const cos = Math.cos(el.angle);
+  const sin = Math.sin(el.angle);
+  return points.map(([x, y]) => [cx + (x - cx) * cos - (y - cy) * sin, cy + (x - cx) * sin + (y - cy) * cos]);
+}
+
+/**
+ * Outline of an element in drawing coordinates, and whether it is closed
+ */
+function outline(el: ExcalidrawElement): { points: Point[]; closed: boolean } | null {
+  const { x, y, width: w, height: h } = el;
+  switch (el.type) {
+    case 'rectangle':
+    case 'frame':
+    case 'magicframe':
+    case 'image':
+    case 'embeddable':
+    case 'iframe':
+      return { points: rotate([[x, y], [x + w, y], [x + w, y + h], [x, y + h]], el), closed: true };
+    case 'diamond':
+      return { points: rotate([[x + w / 2, y], [x + w, y + h / 2], [x + w / 2, y + h], [x, y + h / 2]], el), closed: true };
+    case 'ellipse': {
+      if (!el.angle) {
+        return { points: [[x, y], [x + w, y], [x + w, y + h], [x, y + h]], closed: true };
+      }
+      const points: Point[] = [];
+      for (let i = 0; i < ELLIPSE_SEGMENTS; i++) {
+        const t = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+        points.push([x + w / 2 + (Math.cos(t) * w) / 2, y + h / 2 + (Math.sin(t) * h) / 2]);
+      }
+      return { points: rotate(points, el), closed: true };
+    }
+    case 'line':
+    case 'arrow':
+    case 'freedraw':
+      return { points: rotate(el.points.map(p => [x + p[0], y + p[1]] as Point), el), closed: false };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Arrowhead pointing from one cell towards another
+ */
+function headChar(from: Point, to: Point, charset: Charset): string {
+  const dc = to[0] - from[0];
+  const dr = (to[1] - from[1]) * CELL_ASPECT;
+  if (Math.abs(dc) >= Math.abs(dr)) {
+    return dc >= 0 ? charset.heads.right : charset.heads.left;
+  }
+  return dr >= 0 ? charset.heads.down : charset.heads.up;
+}
+
+function truncate(text: string, width: number, charset: Charset): string {
+  const chars = [...text];
+  return chars.length <= width ? text : chars.slice(0, Math.max(0, width - 1)).join('') + charset.ellipsis;
+}
+
+/**
+ * Render a drawing as lines of text
+ */
+export function renderAscii(file: ExcalidrawFile, options: AsciiOptions): AsciiPreview {
+  const charset = options.ascii ? ASCII : UNICODE;
+  const elements = file.elements.filter(el => !el.isDeleted);
+  if (elements.length === 0) {
+    return { columns: 0, rows: 0, scale: 1, lines: [] };
+  }
+
+  const bounds = calculateBounds(elements);
+  let scale = Math.max(MIN_UNITS_PER_COLUMN, bounds.width / Math.max(1, options.width - 1));
+  if (options.height && bounds.height / (scale * CELL_ASPECT) > options.height - 1) {
+    scale = bounds.height / (Math.max(1, options.height - 1) * CELL_ASPECT);
+  }
+  const toCell = ([x, y]: Point): Point => [(x - bounds.x) / scale, (y - bounds.y) / (scale * CELL_ASPECT)];
+  const grid = new CharGrid(
+    Math.round(bounds.width / scale) + 1,
+    Math.round(bounds.height / (scale * CELL_ASPECT)) + 1
+  );
+
+  const byId = new Map(elements.map(el => [el.id, el]));
+  const styleOf = (el: ExcalidrawElement): Style => ({
+    color: el.strokeColor,
+    dashed: el.strokeStyle !== 'solid' || el.type === 'frame' || el.type === 'magicframe',
+    rounded: el.roundness !== null || el.type === 'ellipse'
+  });
+
+  for (const el of elements) {
+    const shape = outline(el);
+    if (!shape || shape.points.length === 0) {
+      continue;
+    }
+    const style = styleOf(el);
+    const cells = shape.points.map(toCell);
+
+    // Bound ends of connectors stop outside the shape they touch
+    const isConnector = el.type === 'arrow' || el.type === 'line';
+    const ends = isConnector
+      ? [
+          el.startBinding ? cells[0].map(Math.round) : null,
+          el.endBinding ? cells[cells.length - 1].map(Math.round) : null
+        ].map(cell => (cell && !grid.isEmpty(cell[0], cell[1]) ? { cell, saved: grid.save(cell[0], cell[1])! } : null))
+      : [];
+
+    const path: Point[] = [];
+    const segments = shape.closed ? cells.length : Math.max(1, cells.length - 1);
+    for (let i = 0; i < segments; i++) {
+      for (const cell of grid.line(cells[i], cells[(i + 1) % cells.length], style, charset)) {
+        const last = path[path.length - 1];
+        if (!last || last[0] !== cell[0] || last[1] !== cell[1]) {
+          path.push(cell);
+        }
+      }
+    }
+
+    if (isConnector) {
+      const [start, end] = ends;
+      if (start && path.length > 2) {
+        grid.restore(start.cell[0], start.cell[1], start.saved);
+        path.shift();
+      }
+      if (end && path.length > 2) {
+        grid.restore(end.cell[0], end.cell[1], end.saved);
+        path.pop();
+      }
+      if (path.length > 1) {
+        const last = path.length - 1;
+        if (el.endArrowhead) {
+          grid.put(path[last][0], path[last][1], headChar(path[last - 1], path[last], charset), style);
+        }
+        if (el.startArrowhead) {
+          grid.put(path[0][0], path[0][1], headChar(path[1], path[0], charset), style);
+        }
+      }
+    }
+
+    // Frames carry their name in the top border, images and embeds a caption
+    const [left, top] = toCell([el.x, el.y]).map(Math.round);
+    const [right, bottom] = toCell([el.x + el.width, el.y + el.height]).map(Math.round);
+    const inner = right - left - 1;
+    if (el.type === 'ellipse' && !el.angle) {
+      // Upright ellipses are boxes with curved sides
+      for (let row = top + 1; row < bottom; row++) {
+        grid.put(left, row, '(', style);
+        grid.put(right, row, ')', style);
+      }
+    } else if (el.type === 'frame' || el.type === 'magicframe') {
+      if (inner >= 3) {
+        grid.text(left + 1, top, truncate(` ${frameName(el)} `, inner, charset), style);
+      }
+    } else if (el.type === 'image' || el.type === 'embeddable' || el.type === 'iframe') {
+      const caption = truncate(el.type === 'image' ? '[image]' : el.link ?? '[embed]', inner, charset);
+      const [, middle] = toCell([el.x, el.y + el.height / 2]).map(Math.round);
+      grid.text(left + 1 + Math.floor((inner - [...caption].length) / 2), middle, caption, style);
+    }
+  }
+
+  for (const el of elements) {
+    if (el.type !== 'text') {
+      continue;
+    }
+    writeText(grid, el, el.containerId ? byId.get(el.containerId) : undefined, toCell, charset, styleOf(el));
+  }
+
+  return { columns: grid.columns, rows: grid.rows, scale, lines: grid.render(charset, options.color ?? false) };
+}
+
+/**
+ * Write text centred on its container, truncated to fit inside it, or where
+ * it sits in the drawing
+ */
+function writeText(
+  grid: CharGrid,
+  el: TextElement,
+  container: ExcalidrawElement | undefined,
+  toCell: (point: Point) => Point,
+  charset: Charset,
+  style: Style
+): void {
+  const box = container ?? el;
+  const [left, top] = toCell([box.x, box.y]);
+  const [right, bottom] = toCell([box.x + box.width, box.y + box.height]);
+  const inner = Math.round(right) - Math.round(left) - 1;
+  const lines = el.text.split('\n').map(line => (container && inner >= 3 ? truncate(line, inner, charset) : line));
+  const align = container ? 'center' : el.textAlign;
+
+  const firstRow = container ? Math.round((top + bottom) / 2) - Math.floor((lines.length - 1) / 2) : Math.round(top);
+  lines.forEach((line, i) => {
+    const length = [...line].length;
+    const col = align === 'left' ? Math.round(left)
+      : align === 'right' ? Math.round(right) - length + 1
+      : Math.round((left + right) / 2 - (length - 1) / 2);
+    grid.text(col, firstRow + i, line, style);
+  });
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { darkModeColor, formatColor, parseColor } from './color.js';
+
+describe('parseColor', () => {
+  it('should parse hex colours', () => {
+    expect(parseColor('#1e1e1e')).toEqual([30, 30, 30, 1]);
+    expect(parseColor('#f00')).toEqual([255, 0, 0, 1]);
+    expect(parseColor('#ff000080')?.[3]).toBeCloseTo(0.5, 2);
+  });
+
+  it('should parse rgb() and rgba()', () => {
+    expect(parseColor('rgb(10, 20, 30)')).toEqual([10, 20, 30, 1]);
+    expect(parseColor('rgba(10, 20, 30, 0.25)')).toEqual([10, 20, 30, 0.25]);
+  });
+
+  it('should parse names and transparent', () => {
+    expect(parseColor('White')).toEqual([255, 255, 255, 1]);
+    expect(parseColor('darkgreen')).toEqual([0, 100, 0, 1]);
+    expect(parseColor('lightgrey')).toEqual([211, 211, 211, 1]);
+    expect(parseColor('transparent')).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should return null for unknown colours', () => {
+    expect(parseColor('not-a-colour')).toBeNull();
+    expect(parseColor('#12345')).toBeNull();
+    expect(parseColor('constructor')).toBeNull();
+  });
+});
+
+describe('formatColor', () => {
+  it('should format opaque and translucent colours', () => {
+    expect(formatColor([30, 30, 30, 1])).toBe('#1e1e1e');
+    expect(formatColor([255, 0, 0, 0.5])).toBe('rgba(255, 0, 0, 0.5)');
+    expect(formatColor([0, 0, 0, 0])).toBe('transparent');
+  });
+});
+
+describe('darkModeColor', () => {
+  it('should invert lightness', () => {
+    expect(darkModeColor('#ffffff')).toBe('#121212');
+    expect(darkModeColor('#1e1e1e')).toBe('#d3d3d3');
+  });
+
+  it('should keep hues recognisable', () => {
+    const [r, g, b] = parseColor(darkModeColor('#1971c2'))!;
+    expect(b).toBeGreaterThan(r);
+    expect(b).toBeGreaterThan(g);
+    
+    const [pr, pg, pb] = parseColor(darkModeColor('#ffc9c9'))!;
+    expect(pr).toBeGreaterThan(pg);
+    expect(pr).toBeLessThan(128);
+    expect(pb).toBe(pg);
+  });
+
+  it('should preserve transparency and unknown values', () => {
+    expect(darkModeColor('transparent')).toBe('transparent');
+    expect(darkModeColor('#ff000080')).toMatch(/^rgba\(.*, 0\.502\)$/);
+    expect(darkModeColor('currentColor')).toBe('currentColor');
+  });
+});
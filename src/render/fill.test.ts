@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { hachureLines, zigzagLines } from './fill.js';
+import type { Point } from './rough.js';
+
+const square: Point[] = [[0, 0], [100, 0], [100, 100], [0, 100]];
+const diamond: Point[] = [[50, 0], [100, 50], [50, 100], [0, 50]];
+
+function inside(p: Point, polygon: Point[]): boolean {
+  const xs = polygon.map(q => q[0]);
+  const ys = polygon.map(q => q[1]);
+  const eps = 1e-6;
+  return p[0] >= Math.min(...xs) - eps && p[0] <= Math.max(...xs) + eps &&
+         p[1] >= Math.min(...ys) - eps && p[1] <= Math.max(...ys) + eps;
+}
+
+describe('pattern fill geometry', () => {
+  describe('hachureLines', () => {
+    it('should space horizontal lines by the gap', () => {
+      const lines = hachureLines(square, 10, 0);
+      
+      expect(lines).toHaveLength(10);
+      expect(lines[0][0][1]).toBeCloseTo(5);
+      expect(lines[1][0][1]).toBeCloseTo(15);
+    });
+
+    it('should clip lines to the polygon outline', () => {
+      for (const [a, b] of hachureLines(square, 8, 49)) {
+        expect(inside(a, square)).toBe(true);
+        expect(inside(b, square)).toBe(true);
+      }
+    });
+
+    it('should clip lines to a diamond', () => {
+      const lines = hachureLines(diamond, 10, 0);
+      const middle = lines[Math.floor(lines.length / 2)];
+      const top = lines[0];
+      
+      expect(middle[1][0] - middle[0][0]).toBeGreaterThan(top[1][0] - top[0][0]);
+    });
+
+    it('should draw more lines for a smaller gap', () => {
+      expect(hachureLines(square, 4, 49).length).toBeGreaterThan(hachureLines(square, 8, 49).length);
+    });
+
+    it('should return nothing for degenerate polygons', () => {
+      expect(hachureLines([[0, 0], [10, 10]], 4, 0)).toEqual([]);
+    });
+  });
+
+  describe('zigzagLines', () => {
+    it('should join successive hachure lines end to end', () => {
+      const segments = zigzagLines(square, 10, 0);
+      
+      expect(segments).toHaveLength(9);
+      for (let i = 0; i + 1 < segments.length; i++) {
+        expect(segments[i][1]).toEqual(segments[i + 1][0]);
+      }
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Scan-line geometry for pattern fills (hachure, cross-hatch, zigzag)
+ */
+
+import type { Point } from './rough.js';
+
+export type Segment = [Point, Point];
+
+function rotatePoint(p: Point, degrees: number): Point {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return [p[0] * cos - p[1] * sin, p[0] * sin + p[1] * cos];
+}
+
+/**
+ * Parallel fill lines clipped to the inside of a polygon.
+ * The polygon is rotated by `rotation` degrees, cut with horizontal
+ * scan lines `gap` apart, and the segments are rotated back.
+ */
+export function hachureLines(polygon: Point[], gap: number, rotation: number): Segment[] {
+  if (polygon.length < 3) {
+    return [];
+  }
+
+  const rotated = polygon.map(p => rotatePoint(p, rotation));
+  const ys = rotated.map(p => p[1]);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+  const step = Math.max(gap, 0.1);
+  const segments: Segment[] = [];
+
+  for (let y = minY + step / 2; y < maxY; y += step) {
+    const xs: number[] = [];
+    for (let i = 0; i < rotated.length; i++) {
+      const [x1, y1] = rotated[i];
+      const [x2, y2] = rotated[(i + 1) % rotated.length];
+      if (y1 === y2) continue;
+      // Half-open test so a vertex on the scan line is only counted once
+      if (y >= Math.min(y1, y2) && y < Math.max(y1, y2)) {
+        xs.push(x1 + ((y - y1) * (x2 - x1)) / (y2 - y1));
+      }
+    }
+    xs.sort((a, b) => a - b);
+    for (let i = 0; i + 1 < xs.length; i += 2) {
+      if (xs[i + 1] - xs[i] > 0) {
+        segments.push([rotatePoint([xs[i], y], -rotation), rotatePoint([xs[i + 1], y], -rotation)]);
+      }
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Zigzag fill: one continuous stroke bouncing between the ends of
+ * successive hachure lines, so every vertex stays on the outline
+ */
+export function zigzagLines(polygon: Point[], gap: number, rotation: number): Segment[] {
+  const lines = hachureLines(polygon, gap, rotation);
+  const segments: Segment[] = [];
+
+  for (let i = 0; i + 1 < lines.length; i++) {
+    const from = i % 2 === 0 ? lines[i][0] : lines[i][1];
+    const to = i % 2 === 0 ? lines[i + 1][1] : lines[i + 1][0];
+    segments.push([from, to]);
+  }
+  return segments;
+}
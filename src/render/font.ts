@@ -0,0 +1,171 @@
+/**
+ * Built-in single-stroke font for rasterizing text without system fonts
+ *
+ * Glyphs are polylines on a grid where y=0 is the cap height, y=4 the
+ * x-height, y=12 the baseline and y=16 the bottom of descenders. Each entry
+ * is [advance width, strokes], each stroke a flat list of x, y pairs.
+ */
+
+import type { Point } from './rough.js';
+
+type Glyph = [number, number[][]];
+
+const GLYPHS: Record<string, Glyph> = {
+  ' ': [3, []],
+  '!': [2, [[1, 0, 1, 8], [1, 11.4, 1, 12]]],
+  '"': [4, [[1, 0, 1, 3], [3, 0, 3, 3]]],
+  '#': [8, [[2, 12, 4, 0], [4, 12, 6, 0], [0, 4, 8, 4], [0, 8, 8, 8]]],
+  '$': [7, [[7, 2, 5, 0, 2, 0, 0, 2, 0, 4, 2, 6, 5, 6, 7, 8, 7, 10, 5, 12, 2, 12, 0, 10], [3.5, -1, 3.5, 13]]],
+  '%': [8, [[0, 0, 2, 0, 2, 2, 0, 2, 0, 0], [6, 10, 8, 10, 8, 12, 6, 12, 6, 10], [8, 0, 0, 12]]],
+  '&': [8, [[8, 12, 2, 5, 1, 3, 2, 0, 4, 0, 5, 2, 4, 4, 0, 8, 0, 10, 2, 12, 4, 12, 8, 7]]],
+  '\'': [2, [[1, 0, 1, 3]]],
+  '(': [4, [[3, -1, 1, 3, 1, 9, 3, 13]]],
+  ')': [4, [[1, -1, 3, 3, 3, 9, 1, 13]]],
+  '*': [6, [[3, 2, 3, 8], [0, 3, 6, 7], [6, 3, 0, 7]]],
+  '+': [6, [[3, 4, 3, 10], [0, 7, 6, 7]]],
+  ',': [2, [[1, 11, 1, 12, 0, 14]]],
+  '-': [5, [[0, 7, 5, 7]]],
+  '.': [2, [[1, 11.4, 1, 12]]],
+  '/': [6, [[6, 0, 0, 12]]],
+  '0': [7, [[2, 0, 5, 0, 7, 2, 7, 10, 5, 12, 2, 12, 0, 10, 0, 2, 2, 0]]],
+  '1': [7, [[1, 2, 4, 0, 4, 12], [1, 12, 7, 12]]],
+  '2': [7, [[0, 2, 2, 0, 5, 0, 7, 2, 7, 4, 0, 12, 7, 12]]],
+  '3': [7, [[0, 1, 2, 0, 5, 0, 7, 2, 7, 4, 5, 6, 2, 6], [5, 6, 7, 8, 7, 10, 5, 12, 2, 12, 0, 11]]],
+  '4': [7, [[5, 12, 5, 0, 0, 8, 7, 8]]],
+  '5': [7, [[7, 0, 0, 0, 0, 5, 5, 5, 7, 7, 7, 10, 5, 12, 2, 12, 0, 11]]],
+  '6': [7, [[6, 0, 3, 0, 0, 3, 0, 10, 2, 12, 5, 12, 7, 10, 7, 7, 5, 5, 2, 5, 0, 7]]],
+  '7': [7, [[0, 0, 7, 0, 2, 12]]],
+  '8': [7, [[2, 0, 5, 0, 7, 2, 7, 4, 5, 6, 2, 6, 0, 4, 0, 2, 2, 0], [2, 6, 0, 8, 0, 10, 2, 12, 5, 12, 7, 10, 7, 8, 5, 6]]],
+  '9': [7, [[7, 5, 5, 7, 2, 7, 0, 5, 0, 2, 2, 0, 5, 0, 7, 2, 7, 9, 4, 12, 1, 12]]],
+  ':': [2, [[1, 4.4, 1, 5], [1, 11.4, 1, 12]]],
+  ';': [2, [[1, 4.4, 1, 5], [1, 11, 1, 12, 0, 14]]],
+  '<': [6, [[6, 3, 0, 7, 6, 11]]],
+  '=': [6, [[0, 5, 6, 5], [0, 9, 6, 9]]],
+  '>': [6, [[0, 3, 6, 7, 0, 11]]],
+  '?': [6, [[0, 2, 2, 0, 4, 0, 6, 2, 6, 4, 3, 6, 3, 8], [3, 11.4, 3, 12]]],
+  '@': [9, [[6, 8, 6, 4, 4, 4, 3, 6, 3, 8, 4, 9, 6, 8, 8, 7, 9, 5, 8, 2, 6, 0, 3, 0, 1, 2, 0, 5, 0, 8, 2, 11, 5, 12, 8, 11]]],
+  'A': [8, [[0, 12, 4, 0, 8, 12], [1.3, 8, 6.7, 8]]],
+  'B': [7, [[0, 0, 0, 12, 5, 12, 7, 10, 7, 8, 5, 6, 0, 6], [0, 0, 5, 0, 7, 2, 7, 4, 5, 6]]],
+  'C': [7, [[7, 2, 5, 0, 2, 0, 0, 2, 0, 10, 2, 12, 5, 12, 7, 10]]],
+  'D': [7, [[0, 0, 0, 12, 4, 12, 7, 9, 7, 3, 4, 0, 0, 0]]],
+  'E': [6, [[6, 0, 0, 0, 0, 12, 6, 12], [0, 6, 5, 6]]],
+  'F': [6, [[6, 0, 0, 0, 0, 12], [0, 6, 5, 6]]],
+  'G': [7, [[7, 2, 5, 0, 2, 0, 0, 2, 0, 10, 2, 12, 5, 12, 7, 10, 7, 7, 4, 7]]],
+  'H': [7, [[0, 0, 0, 12], [7, 0, 7, 12], [0, 6, 7, 6]]],
+  'I': [4, [[0, 0, 4, 0], [2, 0, 2, 12], [0, 12, 4, 12]]],
+  'J': [6, [[6, 0, 6, 10, 4, 12, 2, 12, 0, 10]]],
+  'K': [7, [[0, 0, 0, 12], [7, 0, 0, 7], [2, 5, 7, 12]]],
+  'L': [6, [[0, 0, 0, 12, 6, 12]]],
+  'M': [9, [[0, 12, 0, 0, 4.5, 8, 9, 0, 9, 12]]],
+  'N': [7, [[0, 12, 0, 0, 7, 12, 7, 0]]],
+  'O': [8, [[2, 0, 6, 0, 8, 2, 8, 10, 6, 12, 2, 12, 0, 10, 0, 2, 2, 0]]],
+  'P': [7, [[0, 12, 0, 0, 5, 0, 7, 2, 7, 4, 5, 6, 0, 6]]],
+  'Q': [8, [[2, 0, 6, 0, 8, 2, 8, 10, 6, 12, 2, 12, 0, 10, 0, 2, 2, 0], [5, 9, 8, 13]]],
+  'R': [7, [[0, 12, 0, 0, 5, 0, 7, 2, 7, 4, 5, 6, 0, 6], [4, 6, 7, 12]]],
+  'S': [7, [[7, 2, 5, 0, 2, 0, 0, 2, 0, 4, 2, 6, 5, 6, 7, 8, 7, 10, 5, 12, 2, 12, 0, 10]]],
+  'T': [8, [[0, 0, 8, 0], [4, 0, 4, 12]]],
+  'U': [7, [[0, 0, 0, 10, 2, 12, 5, 12, 7, 10, 7, 0]]],
+  'V': [8, [[0, 0, 4, 12, 8, 0]]],
+  'W': [10, [[0, 0, 2, 12, 5, 4, 8, 12, 10, 0]]],
+  'X': [7, [[0, 0, 7, 12], [7, 0, 0, 12]]],
+  'Y': [8, [[0, 0, 4, 6, 8, 0], [4, 6, 4, 12]]],
+  'Z': [7, [[0, 0, 7, 0, 0, 12, 7, 12]]],
+  '[': [4, [[4, -1, 1, -1, 1, 13, 4, 13]]],
+  '\\': [6, [[0, 0, 6, 12]]],
+  ']': [4, [[0, -1, 3, -1, 3, 13, 0, 13]]],
+  '^': [6, [[0, 4, 3, 0, 6, 4]]],
+  '_': [7, [[0, 13, 7, 13]]],
+  '`': [3, [[0, 0, 2, 2]]],
+  'a': [6, [[6, 4, 6, 12], [6, 6, 4, 4, 2, 4, 0, 6, 0, 10, 2, 12, 4, 12, 6, 10]]],
+  'b': [6, [[0, 0, 0, 12], [0, 6, 2, 4, 4, 4, 6, 6, 6, 10, 4, 12, 2, 12, 0, 10]]],
+  'c': [6, [[6, 5, 4, 4, 2, 4, 0, 6, 0, 10, 2, 12, 4, 12, 6, 11]]],
+  'd': [6, [[6, 0, 6, 12], [6, 6, 4, 4, 2, 4, 0, 6, 0, 10, 2, 12, 4, 12, 6, 10]]],
+  'e': [6, [[0, 8, 6, 8, 6, 6, 4, 4, 2, 4, 0, 6, 0, 10, 2, 12, 4, 12, 6, 11]]],
+  'f': [5, [[5, 1, 4, 0, 3, 0, 2, 1, 2, 12], [0, 4, 5, 4]]],
+  'g': [6, [[6, 4, 6, 14, 4, 16, 1, 16], [6, 6, 4, 4, 2, 4, 0, 6, 0, 10, 2, 12, 4, 12, 6, 10]]],
+  'h': [6, [[0, 0, 0, 12], [0, 6, 2, 4, 4, 4, 6, 6, 6, 12]]],
+  'i': [2, [[1, 4, 1, 12], [1, 1.2, 1, 1.8]]],
+  'j': [4, [[3, 4, 3, 14, 1, 16, 0, 16], [3, 1.2, 3, 1.8]]],
+  'k': [6, [[0, 0, 0, 12], [6, 4, 0, 9], [2, 7.5, 6, 12]]],
+  'l': [2, [[1, 0, 1, 12]]],
+  'm': [10, [[0, 12, 0, 4], [0, 6, 2, 4, 3, 4, 5, 6, 5, 12], [5, 6, 7, 4, 8, 4, 10, 6, 10, 12]]],
+  'n': [6, [[0, 12, 0, 4], [0, 6, 2, 4, 4, 4, 6, 6, 6, 12]]],
+  'o': [6, [[2, 4, 4, 4, 6, 6, 6, 10, 4, 12, 2, 12, 0, 10, 0, 6, 2, 4]]],
+  'p': [6, [[0, 4, 0, 16], [0, 6, 2, 4, 4, 4, 6, 6, 6, 10, 4, 12, 2, 12, 0, 10]]],
+  'q': [6, [[6, 4, 6, 16], [6, 6, 4, 4, 2, 4, 0, 6, 0, 10, 2, 12, 4, 12, 6, 10]]],
+  'r': [5, [[0, 12, 0, 4], [0, 7, 2, 4, 5, 4]]],
+  's': [6, [[6, 5, 4, 4, 2, 4, 0, 5, 0, 7, 6, 9, 6, 11, 4, 12, 2, 12, 0, 11]]],
+  't': [5, [[2, 1, 2, 11, 3, 12, 5, 12], [0, 4, 5, 4]]],
+  'u': [6, [[0, 4, 0, 10, 2, 12, 4, 12, 6, 10], [6, 4, 6, 12]]],
+  'v': [6, [[0, 4, 3, 12, 6, 4]]],
+  'w': [10, [[0, 4, 2, 12, 5, 6, 8, 12, 10, 4]]],
+  'x': [6, [[0, 4, 6, 12], [6, 4, 0, 12]]],
+  'y': [6, [[0, 4, 3, 12], [6, 4, 3, 12, 2, 15, 1, 16]]],
+  'z': [6, [[0, 4, 6, 4, 0, 12, 6, 12]]],
+  '{': [5, [[5, -1, 3, -1, 2, 1, 2, 5, 0, 6, 2, 7, 2, 11, 3, 13, 5, 13]]],
+  '|': [2, [[1, -1, 1, 14]]],
+  '}': [5, [[0, -1, 2, -1, 3, 1, 3, 5, 5, 6, 3, 7, 3, 11, 2, 13, 0, 13]]],
+  '~': [7, [[0, 7, 1, 6, 3, 6, 4, 7, 6, 7, 7, 6]]]
+};
+
+const MISSING_GLYPH: Glyph = [6, [[0, 0, 6, 0, 6, 12, 0, 12, 0, 0]]];
+
+/** Cap height as a fraction of the font size */
+const CAP_HEIGHT = 0.7;
+/** Space between glyphs, in grid units */
+const TRACKING = 3;
+
+function glyphFor(char: string): Glyph {
+  if (GLYPHS[char]) {
+    return GLYPHS[char];
+  }
+  // Fall back to the base letter of accented characters
+  const base = char.normalize('NFD').replace(/[̀-ͯ]/g, '');
+  return GLYPHS[base] ?? MISSING_GLYPH;
+}
+
+function unitSize(fontSize: number): number {
+  return (fontSize * CAP_HEIGHT) / 12;
+}
+
+/**
+ * Width of a line of text in the built-in font
+ */
+export function measureText(text: string, fontSize: number): number {
+  const unit = unitSize(fontSize);
+  let width = 0;
+  for (const char of text) {
+    width += (glyphFor(char)[0] + TRACKING) * unit;
+  }
+  return Math.max(0, width - TRACKING * unit);
+}
+
+/**
+ * Stroke width that suits the built-in font at a given size
+ */
+export function fontStrokeWidth(fontSize: number): number {
+  return Math.max(1, fontSize * 0.075);
+}
+
+/**
+ * Polylines tracing a line of text whose baseline starts at (x, y)
+ */
+export function textPolylines(text: string, x: number, y: number, fontSize: number): Point[][] {
+  const unit = unitSize(fontSize);
+  const top = y - 12 * unit;
+  const lines: Point[][] = [];
+  let cursor = x;
+
+  for (const char of text) {
+    const [advance, strokes] = glyphFor(char);
+    for (const stroke of strokes) {
+      const points: Point[] = [];
+      for (let i = 0; i + 1 < stroke.length; i += 2) {
+        points.push([cursor + stroke[i] * unit, top + stroke[i + 1] * unit]);
+      }
+      lines.push(points);
+    }
+    cursor += (advance + TRACKING) * unit;
+  }
+  return lines;
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { freehandOutline, outlineOps } from './freehand.js';
+import type { FreehandOptions, FreehandPoint } from './freehand.js';
+import type { Point } from './rough.js';
+
+const OPTIONS: FreehandOptions = {
+  size: 8,
+  thinning: 0.6,
+  smoothing: 0.5,
+  streamline: 0.5,
+  simulatePressure: false,
+  easing: t => t,
+  last: true
+};
+
+function line(count: number, length: number, pressure?: number): FreehandPoint[] {
+  return Array.from({ length: count }, (_, i) => {
+    const x = (i / (count - 1)) * length;
+    return pressure === undefined ? [x, 0] : [x, 0, pressure];
+  });
+}
+
+/** Widest point of an outline around a horizontal line, away from its caps */
+function width(outline: Point[], from: number, to: number): number {
+  const ys = outline.filter(p => p[0] > from && p[0] < to).map(p => p[1]);
+  return Math.max(...ys) - Math.min(...ys);
+}
+
+describe('freehandOutline', () => {
+  it('should return nothing without points', () => {
+    expect(freehandOutline([], OPTIONS)).toEqual([]);
+  });
+
+  it('should widen the stroke with pressure', () => {
+    const light = freehandOutline(line(20, 200, 0.1), OPTIONS);
+    const heavy = freehandOutline(line(20, 200, 1), OPTIONS);
+
+    expect(width(heavy, 50, 150)).toBeCloseTo(OPTIONS.size * (0.5 + 0.6 * 0.5) * 2, 1);
+    expect(width(light, 50, 150)).toBeLessThan(width(heavy, 50, 150) / 2);
+  });
+
+  it('should thin fast strokes when simulating pressure', () => {
+    const options = { ...OPTIONS, simulatePressure: true };
+    const slow = freehandOutline(line(200, 200), options);
+    const fast = freehandOutline(line(10, 200), options);
+
+    expect(width(fast, 50, 150)).toBeLessThan(width(slow, 50, 150));
+  });
+
+  it('should end with round caps on the end points', () => {
+    const outline = freehandOutline(line(20, 200, 0.5), OPTIONS);
+    const xs = outline.map(p => p[0]);
+
+    expect(Math.min(...xs)).toBeLessThan(0);
+    expect(Math.max(...xs)).toBeGreaterThan(200);
+  });
+
+  it('should draw a single point as a dot around it', () => {
+    const outline = freehandOutline([[10, 10, 0.5]], OPTIONS);
+
+    expect(outline.length).toBeGreaterThan(8);
+    for (const [x, y] of outline) {
+      expect(Math.hypot(x - 10, y - 10)).toBeGreaterThan(1);
+      expect(Math.hypot(x - 10, y - 10)).toBeLessThan(OPTIONS.size);
+    }
+  });
+});
+
+describe('outlineOps', () => {
+  it('should close a curve through the outline midpoints', () => {
+    const ops = outlineOps([[0, 0], [10, 0], [10, 10], [0, 10]]);
+
+    expect(ops[0]).toEqual({ op: 'move', data: [0, 0] });
+    expect(ops.slice(1, -1).map(op => op.op)).toEqual(['bcurveTo', 'bcurveTo', 'bcurveTo', 'bcurveTo']);
+    expect(ops[1].data.slice(4)).toEqual([5, 0]);
+    expect(ops[4].data.slice(4)).toEqual([0, 5]);
+    expect(ops[ops.length - 1]).toEqual({ op: 'lineTo', data: [0, 0] });
+  });
+});
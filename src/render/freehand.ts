@@ -0,0 +1,284 @@
+/**
+ * Variable-width freehand strokes
+ *
+ * A port of the parts of perfect-freehand (MIT, Steve Ruiz) that Excalidraw
+ * uses for freedraw elements: input points are smoothed, then offset to both
+ * sides by a radius that follows pen pressure, or a pressure simulated from
+ * drawing speed. The result is an outline polygon that is filled, not stroked.
+ */
+
+import type { Op, Point } from './rough.js';
+
+export interface FreehandOptions {
+  /** Stroke diameter at full pressure */
+  size: number;
+  /** How much pressure affects the width, -1 to 1 */
+  thinning: number;
+  /** How much to soften the outline, 0 to 1 */
+  smoothing: number;
+  /** How much to streamline the input points, 0 to 1 */
+  streamline: number;
+  /** Derive pressure from speed instead of the recorded pressures */
+  simulatePressure: boolean;
+  /** Easing applied to pressure */
+  easing: (t: number) => number;
+  /** Whether the stroke is finished, so it ends exactly on the last point */
+  last: boolean;
+}
+
+/** Input point with optional pressure (0-1) */
+export type FreehandPoint = [number, number] | [number, number, number];
+
+interface StrokePoint {
+  point: Point;
+  pressure: number;
+  /** Unit vector from this point back to the previous one */
+  vector: Point;
+  distance: number;
+  runningLength: number;
+}
+
+const RATE_OF_PRESSURE_CHANGE = 0.275;
+const FIXED_PI = Math.PI + 0.0001;
+
+const add = (a: Point, b: Point): Point => [a[0] + b[0], a[1] + b[1]];
+const sub = (a: Point, b: Point): Point => [a[0] - b[0], a[1] - b[1]];
+const mul = (a: Point, n: number): Point => [a[0] * n, a[1] * n];
+const per = (a: Point): Point => [a[1], -a[0]];
+const neg = (a: Point): Point => [-a[0], -a[1]];
+const dot = (a: Point, b: Point): number => a[0] * b[0] + a[1] * b[1];
+const dist2 = (a: Point, b: Point): number => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2;
+const dist = (a: Point, b: Point): number => Math.hypot(a[0] - b[0], a[1] - b[1]);
+const lrp = (a: Point, b: Point, t: number): Point => add(a, mul(sub(b, a), t));
+const prj = (a: Point, b: Point, c: number): Point => add(a, mul(b, c));
+const med = (a: Point, b: Point): Point => lrp(a, b, 0.5);
+
+function uni(a: Point): Point {
+  const length = Math.hypot(a[0], a[1]);
+  return length === 0 ? [0, 0] : [a[0] / length, a[1] / length];
+}
+
+function rotAround(a: Point, c: Point, r: number): Point {
+  const s = Math.sin(r);
+  const co = Math.cos(r);
+  const px = a[0] - c[0];
+  const py = a[1] - c[1];
+  return [px * co - py * s + c[0], px * s + py * co + c[1]];
+}
+
+function strokeRadius(size: number, thinning: number, pressure: number, easing: (t: number) => number): number {
+  return size * easing(0.5 - thinning * (0.5 - pressure));
+}
+
+/**
+ * Streamline input points and measure the distance between them
+ */
+function strokePoints(input: FreehandPoint[], options: FreehandOptions): StrokePoint[] {
+  const t = 0.15 + (1 - options.streamline) * 0.85;
+  let pts: Array<[number, number, number]> = input.map(p => [p[0], p[1], p[2] ?? 0.5]);
+
+  // Two points give too little to smooth, so add some in between
+  if (pts.length === 2) {
+    const [first, last] = pts;
+    pts = [first];
+    for (let i = 1; i < 5; i++) {
+      const [x, y] = lrp([first[0], first[1]], [last[0], last[1]], i / 4);
+      pts.push([x, y, first[2] + (last[2] - first[2]) * (i / 4)]);
+    }
+  }
+  if (pts.length === 1) {
+    pts.push([pts[0][0] + 1, pts[0][1] + 1, pts[0][2]]);
+  }
+
+  const result: StrokePoint[] = [{
+    point: [pts[0][0], pts[0][1]],
+    pressure: pts[0][2] >= 0 ? pts[0][2] : 0.25,
+    vector: [1, 1],
+    distance: 0,
+    runningLength: 0
+  }];
+  let reachedMinimumLength = false;
+  let runningLength = 0;
+  let prev = result[0];
+  const max = pts.length - 1;
+
+  for (let i = 1; i < pts.length; i++) {
+    const target: Point = [pts[i][0], pts[i][1]];
+    const point = options.last && i === max ? target : lrp(prev.point, target, t);
+    if (point[0] === prev.point[0] && point[1] === prev.point[1]) {
+      continue;
+    }
+    const distance = dist(point, prev.point);
+    runningLength += distance;
+    if (i < max && !reachedMinimumLength) {
+      if (runningLength < options.size) {
+        continue;
+      }
+      reachedMinimumLength = true;
+    }
+    prev = { point, pressure: pts[i][2] >= 0 ? pts[i][2] : 0.5, vector: uni(sub(prev.point, point)), distance, runningLength };
+    result.push(prev);
+  }
+  result[0].vector = result[1]?.vector ?? [0, 0];
+  return result;
+}
+
+/**
+ * Outline polygon around a stroke, with round caps and corners
+ */
+export function freehandOutline(input: FreehandPoint[], options: FreehandOptions): Point[] {
+  if (input.length === 0 || options.size <= 0) {
+    return [];
+  }
+  const { size, thinning, smoothing, simulatePressure, easing } = options;
+  const points = strokePoints(input, options);
+  const totalLength = points[points.length - 1].runningLength;
+  const minDistance = (size * smoothing) ** 2;
+  const leftPts: Point[] = [];
+  const rightPts: Point[] = [];
+
+  const simulated = (previous: number, distance: number) => {
+    const speed = Math.min(1, distance / size);
+    const rest = Math.min(1, 1 - speed);
+    return Math.min(1, previous + (rest - previous) * (speed * RATE_OF_PRESSURE_CHANGE));
+  };
+
+  // Seed the pressure from the first few points so strokes don't start with a blob
+  let prevPressure = points.slice(0, 10).reduce((acc, curr) => {
+    const pressure = simulatePressure ? simulated(acc, curr.distance) : curr.pressure;
+    return (acc + pressure) / 2;
+  }, points[0].pressure);
+
+  let radius = strokeRadius(size, thinning, points[points.length - 1].pressure, easing);
+  let firstRadius: number | undefined;
+  let prevVector = points[0].vector;
+  let pl = points[0].point;
+  let pr = pl;
+  let tl = pl;
+  let tr = pr;
+  let prevSharpCorner = false;
+
+  for (let i = 0; i < points.length; i++) {
+    let { pressure } = points[i];
+    const { point, vector, distance, runningLength } = points[i];
+
+    // Skip the very end of the line, the cap covers it
+    if (i < points.length - 1 && totalLength - runningLength < 3) {
+      continue;
+    }
+
+    if (thinning) {
+      if (simulatePressure) {
+        pressure = simulated(prevPressure, distance);
+      }
+      radius = strokeRadius(size, thinning, pressure, easing);
+    } else {
+      radius = size / 2;
+    }
+    firstRadius ??= radius;
+    radius = Math.max(0.01, radius);
+
+    const nextVector = (i < points.length - 1 ? points[i + 1] : points[i]).vector;
+    const nextDot = i < points.length - 1 ? dot(vector, nextVector) : 1;
+    const sharpCorner = dot(vector, prevVector) < 0 && !prevSharpCorner;
+    const nextSharpCorner = nextDot < 0;
+
+    // Sharp turns get a half circle around the point
+    if (sharpCorner || nextSharpCorner) {
+      const offset = mul(per(prevVector), radius);
+      for (let step = 1 / 13, t = 0; t <= 1; t += step) {
+        tl = rotAround(sub(point, offset), point, FIXED_PI * t);
+        leftPts.push(tl);
+        tr = rotAround(add(point, offset), point, FIXED_PI * -t);
+        rightPts.push(tr);
+      }
+      pl = tl;
+      pr = tr;
+      if (nextSharpCorner) {
+        prevSharpCorner = true;
+      }
+      continue;
+    }
+    prevSharpCorner = false;
+
+    if (i === points.length - 1) {
+      const offset = mul(per(vector), radius);
+      leftPts.push(sub(point, offset));
+      rightPts.push(add(point, offset));
+      continue;
+    }
+
+    const offset = mul(per(lrp(nextVector, vector, nextDot)), radius);
+    tl = sub(point, offset);
+    if (i <= 1 || dist2(pl, tl) > minDistance) {
+      leftPts.push(tl);
+      pl = tl;
+    }
+    tr = add(point, offset);
+    if (i <= 1 || dist2(pr, tr) > minDistance) {
+      rightPts.push(tr);
+      pr = tr;
+    }
+
+    prevPressure = pressure;
+    prevVector = vector;
+  }
+
+  const firstPoint = points[0].point;
+  const lastPoint = points.length > 1 ? points[points.length - 1].point : add(points[0].point, [1, 1]);
+
+  // A single point is drawn as a dot
+  if (points.length === 1) {
+    const start = prj(firstPoint, uni(per(sub(firstPoint, lastPoint))), -(firstRadius ?? radius));
+    const dot: Point[] = [];
+    for (let step = 1 / 13, t = step; t <= 1; t += step) {
+      dot.push(rotAround(start, firstPoint, FIXED_PI * 2 * t));
+    }
+    return dot;
+  }
+
+  const startCap: Point[] = [];
+  if (rightPts.length > 0) {
+    for (let step = 1 / 13, t = step; t <= 1; t += step) {
+      startCap.push(rotAround(rightPts[0], firstPoint, FIXED_PI * t));
+    }
+  }
+
+  const endCap: Point[] = [];
+  const start = prj(lastPoint, per(neg(points[points.length - 1].vector)), radius);
+  for (let step = 1 / 29, t = step; t < 1; t += step) {
+    endCap.push(rotAround(start, lastPoint, FIXED_PI * 3 * t));
+  }
+
+  return leftPts.concat(endCap, rightPts.reverse(), startCap);
+}
+
+/**
+ * Closed path through an outline's midpoints with quadratic curves, as
+ * Excalidraw draws it, expressed as cubic operations
+ */
+export function outlineOps(outline: Point[]): Op[] {
+  if (outline.length === 0) {
+    return [];
+  }
+  const ops: Op[] = [{ op: 'move', data: [outline[0][0], outline[0][1]] }];
+  let current = outline[0];
+  for (let i = 0; i < outline.length; i++) {
+    const control = outline[i];
+    const to = med(control, outline[(i + 1) % outline.length]);
+    ops.push({
+      op: 'bcurveTo',
+      data: [
+        current[0] + ((control[0] - current[0]) * 2) / 3,
+        current[1] + ((control[1] - current[1]) * 2) / 3,
+        to[0] + ((control[0] - to[0]) * 2) / 3,
+        to[1] + ((control[1] - to[1]) * 2) / 3,
+        to[0],
+        to[1]
+      ]
+    });
+    current = to;
+  }
+  ops.push({ op: 'lineTo', data: [outline[0][0], outline[0][1]] });
+  return ops;
+}
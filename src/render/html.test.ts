@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { Script } from 'node:vm';
+import { sceneToHtml } from './html.js';
+import { buildScene } from './scene.js';
+import { sceneToSvg } from './svg.js';
+import { createElement } from '../utils/element.js';
+import { createEmptyFile } from '../utils/file.js';
+
+function scene() {
+  const rect = createElement({ type: 'rectangle', x: 0, y: 0, width: 100, height: 50, link: 'https://example.com' });
+  return buildScene({ ...createEmptyFile(), elements: [rect] }, { padding: 10, backgroundColor: '#ffffff', dark: false });
+}
+
+function scripts(html: string): string[] {
+  return [...html.matchAll(/<script>([\s\S]*?)<\/script>/g)].map(match => match[1]);
+}
+
+describe('sceneToHtml', () => {
+  it('should embed the SVG drawing with its controls and script', () => {
+    const html = sceneToHtml(scene(), { title: 'Flow & notes' });
+
+    expect(html).toContain('<title>Flow &amp; notes</title>');
+    expect(html).toMatch(/<div id="viewport">\s*<svg [^>]*aria-label="Flow &amp; notes"/);
+    expect(html).toContain('<a href="https://example.com">');
+    expect(html).toContain('id="zoom-in"');
+    expect(html).not.toContain('id="download"');
+    expect(html).not.toContain('id="excalidraw-scene"');
+  });
+
+  it('should include a script that parses', () => {
+    const [script] = scripts(sceneToHtml(scene()));
+
+    expect(() => new Script(script)).not.toThrow();
+  });
+
+  it('should embed scene JSON that cannot close its script element', () => {
+    const json = JSON.stringify({ type: 'excalidraw', elements: [{ text: '</script><script>alert(1)' }] });
+    const html = sceneToHtml(scene(), { sceneJson: json, sceneFileName: 'flow.excalidraw' });
+    const embedded = /<script type="application\/vnd\.excalidraw\+json" id="excalidraw-scene">(.*?)<\/script>/.exec(html)![1];
+
+    expect(JSON.parse(embedded)).toEqual(JSON.parse(json));
+    expect(html).toContain('data-file-name="flow.excalidraw"');
+    expect(scripts(html)).toHaveLength(1);
+  });
+
+  it('should not let hostile colours escape their attribute or style sheet', () => {
+    const rect = createElement({ type: 'rectangle', x: 0, y: 0, width: 100, height: 50, strokeColor: '" onmouseover="alert(2)', backgroundColor: 'rgb(1, 2, 3, 4 "><script>alert(3)</script>)' });
+    const file = { ...createEmptyFile({ backgroundColor: '</style><script>alert(1)</script>' }), elements: [rect] };
+    const built = buildScene(file, { padding: 10, backgroundColor: file.appState.viewBackgroundColor, dark: false });
+    const html = sceneToHtml(built);
+
+    expect(html).not.toMatch(/alert|onmouseover/);
+    expect(html).toContain('body { background: #ffffff; }');
+    expect(html).toContain('stroke="#1e1e1e"');
+
+    const hostile = sceneToHtml({ ...built, background: '</style><script>alert(1)</script>' });
+    expect(scripts(hostile)).toHaveLength(1);
+    expect(sceneToSvg({ ...built, background: '"/><script>' })).toContain('fill="&quot;/&gt;&lt;script&gt;"');
+  });
+});
@@ -0,0 +1,229 @@
+/**
+ * Standalone interactive HTML documents
+ *
+ * Wraps the SVG drawing in a single page with inline styles and script:
+ * mouse wheel, drag and pinch pan/zoom, and tooltips showing each element's
+ * text and link. Nothing is loaded from the network.
+ */
+
+import { escapeXml, sceneLabel, sceneToSvg } from './svg.js';
+import type { SvgDocumentOptions } from './svg.js';
+import type { Scene } from './scene.js';
+import { EXCALIDRAW_MIME_TYPE } from '../utils/embed.js';
+
+/** Extra content for the HTML document */
+export interface HtmlDocumentOptions extends SvgDocumentOptions {
+  /** Scene JSON to embed, offered for download from the page */
+  sceneJson?: string;
+  /** File name for the downloaded scene */
+  sceneFileName?: string;
+}
+
+const STYLE = `
+    * { box-sizing: border-box; }
+    html, body { margin: 0; height: 100%; overflow: hidden; }
+    body { font: 13px/1.4 system-ui, -apple-system, "Segoe UI", sans-serif; }
+    #viewport { position: fixed; inset: 0; overflow: hidden; cursor: grab; touch-action: none; }
+    #viewport.dragging { cursor: grabbing; }
+    #viewport > svg { position: absolute; left: 0; top: 0; transform-origin: 0 0; user-select: none; }
+    #toolbar { position: fixed; right: 12px; bottom: 12px; display: flex; gap: 4px; }
+    #toolbar button { min-width: 32px; height: 32px; padding: 0 10px; border: 1px solid #ced4da; border-radius: 6px;
+      background: rgba(255, 255, 255, 0.9); color: #1e1e1e; font: inherit; cursor: pointer; }
+    #toolbar button:hover { background: #f1f3f5; }
+    #tooltip { position: fixed; max-width: 320px; padding: 6px 8px; border-radius: 4px; background: #1e1e1e;
+      color: #ffffff; pointer-events: none; box-shadow: 0 2px 8px rgba(0, 0, 0, 0.25); white-space: pre-wrap; }
+    #tooltip .kind { color: #adb5bd; }
+    #tooltip .link { color: #a5d8ff; word-break: break-all; }
+`;
+
+const SCRIPT = `
+(() => {
+  const MIN_SCALE = 0.05;
+  const MAX_SCALE = 20;
+  const viewport = document.getElementById('viewport');
+  const svg = viewport.querySelector('svg');
+  const tooltip = document.getElementById('tooltip');
+  const pointers = new Map();
+  let scale = 1;
+  let x = 0;
+  let y = 0;
+  let moved = 0;
+
+  const apply = () => {
+    svg.style.transform = 'translate(' + x + 'px, ' + y + 'px) scale(' + scale + ')';
+  };
+  const zoomAt = (factor, cx, cy) => {
+    const next = Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale * factor));
+    x = cx - ((cx - x) * next) / scale;
+    y = cy - ((cy - y) * next) / scale;
+    scale = next;
+    apply();
+  };
+  const zoomCenter = factor => zoomAt(factor, viewport.clientWidth / 2, viewport.clientHeight / 2);
+  const fit = () => {
+    const width = svg.width.baseVal.value;
+    const height = svg.height.baseVal.value;
+    scale = Math.min(1, (viewport.clientWidth - 40) / width, (viewport.clientHeight - 40) / height);
+    x = (viewport.clientWidth - width * scale) / 2;
+    y = (viewport.clientHeight - height * scale) / 2;
+    apply();
+  };
+
+  // Native tooltips would duplicate ours, so keep titles as data instead
+  for (const title of svg.querySelectorAll('g > title')) {
+    const group = title.parentNode;
+    group.dataset.title = title.textContent;
+    const desc = group.querySelector(':scope > desc');
+    if (desc) {
+      group.dataset.kind = desc.textContent;
+      desc.remove();
+    }
+    title.remove();
+  }
+
+  viewport.addEventListener('wheel', event => {
+    event.preventDefault();
+    const rect = viewport.getBoundingClientRect();
+    zoomAt(Math.exp(-event.deltaY * 0.002), event.clientX - rect.left, event.clientY - rect.top);
+  }, { passive: false });
+
+  viewport.addEventListener('pointerdown', event => {
+    pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    moved = 0;
+    tooltip.hidden = true;
+    viewport.classList.add('dragging');
+  });
+  window.addEventListener('pointermove', event => {
+    const prev = pointers.get(event.pointerId);
+    if (!prev) {
+      return;
+    }
+    const dx = event.clientX - prev.x;
+    const dy = event.clientY - prev.y;
+    if (pointers.size === 2) {
+      // Pinch: follow the midpoint and scale by the change in finger distance
+      const other = [...pointers.values()].find(p => p !== prev);
+      const before = Math.hypot(prev.x - other.x, prev.y - other.y);
+      const after = Math.hypot(event.clientX - other.x, event.clientY - other.y);
+      const rect = viewport.getBoundingClientRect();
+      x += dx / 2;
+      y += dy / 2;
+      zoomAt(before > 0 ? after / before : 1, (event.clientX + other.x) / 2 - rect.left, (event.clientY + other.y) / 2 - rect.top);
+    } else if (pointers.size === 1) {
+      x += dx;
+      y += dy;
+      apply();
+    }
+    moved += Math.hypot(dx, dy);
+    pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+  });
+  const release = event => {
+    pointers.delete(event.pointerId);
+    if (pointers.size === 0) {
+      viewport.classList.remove('dragging');
+    }
+  };
+  window.addEventListener('pointerup', release);
+  window.addEventListener('pointercancel', release);
+  // A drag that ends on a link should not follow it
+  viewport.addEventListener('click', event => {
+    if (moved > 4) {
+      event.preventDefault();
+      event.stopPropagation();
+    }
+  }, true);
+  viewport.addEventListener('dblclick', fit);
+
+  viewport.addEventListener('pointermove', event => {
+    const group = event.target.closest('g[data-title]');
+    const link = event.target.closest('a');
+    if ((!group && !link) || pointers.size > 0) {
+      tooltip.hidden = true;
+      return;
+    }
+    tooltip.replaceChildren();
+    const line = (text, className) => {
+      const div = document.createElement('div');
+      div.textContent = text;
+      if (className) div.className = className;
+      tooltip.append(div);
+    };
+    if (group) line(group.dataset.title);
+    if (group && group.dataset.kind) line(group.dataset.kind, 'kind');
+    if (link) line(link.getAttribute('href'), 'link');
+    tooltip.hidden = false;
+    const left = Math.min(event.clientX + 12, window.innerWidth - tooltip.offsetWidth - 4);
+    const top = Math.min(event.clientY + 12, window.innerHeight - tooltip.offsetHeight - 4);
+    tooltip.style.left = Math.max(4, left) + 'px';
+    tooltip.style.top = Math.max(4, top) + 'px';
+  });
+  viewport.addEventListener('pointerleave', () => { tooltip.hidden = true; });
+
+  document.getElementById('zoom-in').addEventListener('click', () => zoomCenter(1.25));
+  document.getElementById('zoom-out').addEventListener('click', () => zoomCenter(0.8));
+  document.getElementById('fit').addEventListener('click', fit);
+  window.addEventListener('keydown', event => {
+    if (event.key === '+' || event.key === '=') zoomCenter(1.25);
+    else if (event.key === '-') zoomCenter(0.8);
+    else if (event.key === '0') fit();
+  });
+
+  const scene = document.getElementById('excalidraw-scene');
+  const download = document.getElementById('download');
+  if (scene && download) {
+    download.addEventListener('click', () => {
+      const url = URL.createObjectURL(new Blob([scene.textContent], { type: 'application/json' }));
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = download.dataset.fileName;
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    });
+  }
+
+  window.addEventListener('resize', fit);
+  fit();
+})();
+`;
+
+/**
+ * A colour safe to place in a style sheet: only characters CSS colour
+ * syntax uses are kept
+ */
+function cssColor(color: string): string {
+  return color.replace(/[^#\w\s(),.%-]/g, '') || 'transparent';
+}
+
+/**
+ * Serialize a scene as a self-contained interactive HTML page
+ */
+export function sceneToHtml(scene: Scene, options: HtmlDocumentOptions = {}): string {
+  const title = escapeXml(options.title ?? sceneLabel(scene));
+  const svg = sceneToSvg(scene, options).replace(/^/gm, '    ').trimStart();
+
+  let html = `<!DOCTYPE html>\n<html lang="en">\n<head>\n`;
+  html += `  <meta charset="utf-8">\n`;
+  html += `  <meta name="viewport" content="width=device-width, initial-scale=1">\n`;
+  html += `  <title>${title}</title>\n`;
+  html += `  <style>${STYLE}    body { background: ${cssColor(scene.background)}; }\n  </style>\n`;
+  html += `</head>\n<body>\n`;
+  html += `  <div id="viewport">\n    ${svg}\n  </div>\n`;
+  html += `  <div id="toolbar">\n`;
+  html += `    <button id="zoom-out" type="button" title="Zoom out (-)">&#8722;</button>\n`;
+  html += `    <button id="zoom-in" type="button" title="Zoom in (+)">+</button>\n`;
+  html += `    <button id="fit" type="button" title="Fit to window (0)">Fit</button>\n`;
+  if (options.sceneJson) {
+    const fileName = escapeXml(options.sceneFileName ?? 'drawing.excalidraw');
+    html += `    <button id="download" type="button" data-file-name="${fileName}" title="Download the scene">Download</button>\n`;
+  }
+  html += `  </div>\n`;
+  html += `  <div id="tooltip" role="tooltip" hidden></div>\n`;
+  if (options.sceneJson) {
+    // "<" only occurs inside JSON strings, where \u003c reads back the same
+    const json = options.sceneJson.replace(/</g, '\\u003c');
+    html += `  <script type="${EXCALIDRAW_MIME_TYPE}" id="excalidraw-scene">${json}</script>\n`;
+  }
+  html += `  <script>${SCRIPT}  </script>\n`;
+  html += `</body>\n</html>\n`;
+  return html;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { deflateSync } from 'node:zlib';
+import { decodePng, jpegInfo, parseDataUrl } from './image.js';
+import { encodePng, pngChunk, PNG_SIGNATURE } from './png.js';
+import { createCanvas } from './raster.js';
+
+function ihdr(width: number, height: number, bitDepth: number, colorType: number): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = bitDepth;
+  header[9] = colorType;
+  return header;
+}
+
+describe('parseDataUrl', () => {
+  it('should decode base64 and percent-encoded data', () => {
+    expect(parseDataUrl('data:image/png;base64,AAEC')).toEqual({ mimeType: 'image/png', data: Buffer.from([0, 1, 2]) });
+    expect(parseDataUrl('data:image/svg+xml,%3Csvg%2F%3E')?.data.toString()).toBe('<svg/>');
+  });
+
+  it('should reject other URLs', () => {
+    expect(parseDataUrl('https://example.com/a.png')).toBeNull();
+  });
+});
+
+describe('decodePng', () => {
+  it('should round-trip RGBA pixels', () => {
+    const canvas = createCanvas(3, 2, 'rgba(255, 0, 0, 0.5)');
+    const decoded = decodePng(encodePng(canvas))!;
+
+    expect(decoded.width).toBe(3);
+    expect(decoded.height).toBe(2);
+    expect(Array.from(decoded.data)).toEqual(Array.from(canvas.data));
+  });
+
+  it('should undo scanline filters', () => {
+    // Sub filter on the first row, Up filter on the second
+    const raw = Buffer.from([1, 10, 5, 5, 2, 1, 1, 1]);
+    const png = Buffer.concat([
+      PNG_SIGNATURE,
+      pngChunk('IHDR', ihdr(3, 2, 8, 0)),
+      pngChunk('IDAT', deflateSync(raw)),
+      pngChunk('IEND', Buffer.alloc(0))
+    ]);
+    const decoded = decodePng(png)!;
+
+    expect(Array.from(decoded.data.filter((_, i) => i % 4 === 0))).toEqual([10, 15, 20, 11, 16, 21]);
+  });
+
+  it('should expand palettes with transparency', () => {
+    // Two 1-bit pixels: index 1 then index 0
+    const png = Buffer.concat([
+      PNG_SIGNATURE,
+      pngChunk('IHDR', ihdr(2, 1, 1, 3)),
+      pngChunk('PLTE', Buffer.from([255, 0, 0, 0, 0, 255])),
+      pngChunk('tRNS', Buffer.from([0])),
+      pngChunk('IDAT', deflateSync(Buffer.from([0, 0b10000000]))),
+      pngChunk('IEND', Buffer.alloc(0))
+    ]);
+
+    expect(Array.from(decodePng(png)!.data)).toEqual([0, 0, 255, 255, 255, 0, 0, 0]);
+  });
+
+  it('should return null for other data', () => {
+    expect(decodePng(Buffer.from('GIF89a'))).toBeNull();
+  });
+});
+
+describe('jpegInfo', () => {
+  it('should read the frame header', () => {
+    const jpeg = Buffer.from([
+      0xff, 0xd8,
+      0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+      0xff, 0xc0, 0x00, 0x11, 0x08, 0x00, 0x20, 0x00, 0x40, 0x03
+    ]);
+
+    expect(jpegInfo(jpeg)).toEqual({ width: 64, height: 32, components: 3 });
+    expect(jpegInfo(Buffer.from([0x89, 0x50]))).toBeNull();
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Decoding of images embedded in drawings
+ *
+ * Image elements reference data URLs in the file's `files` map. SVG output
+ * uses them as-is; the rasterizer needs decoded PNG pixels and the PDF writer
+ * passes JPEG data straight through, so only the formats needed for that are
+ * understood here.
+ */
+
+import { inflateSync } from 'node:zlib';
+import type { Canvas } from './raster.js';
+
+export interface DataUrl {
+  mimeType: string;
+  data: Buffer;
+}
+
+export interface JpegInfo {
+  width: number;
+  height: number;
+  /** 1 (grey), 3 (YCbCr) or 4 (CMYK) */
+  components: number;
+}
+
+/**
+ * Split a data: URL into its MIME type and bytes
+ */
+export function parseDataUrl(url: string): DataUrl | null {
+  const match = /^data:([^;,]*)((?:;[^;,]*)*),/.exec(url);
+  if (!match) {
+    return null;
+  }
+  const payload = url.slice(match[0].length);
+  const data = match[2].split(';').includes('base64')
+    ? Buffer.from(payload, 'base64')
+    : Buffer.from(decodeURIComponent(payload), 'utf-8');
+  return { mimeType: match[1] || 'text/plain', data };
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+/**
+ * Decode a non-interlaced PNG to RGBA pixels
+ * Returns null for files this decoder does not understand
+ */
+export function decodePng(png: Buffer): Canvas | null {
+  if (png.length < 8 || png.readUInt32BE(0) !== 0x89504e47) {
+    return null;
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset + 8 <= png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('latin1', offset + 4, offset + 8);
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8];
+      colorType = data[9];
+      interlace = data[12];
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'tRNS') {
+      transparency = data;
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channels = ({ 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 } as Record<number, number>)[colorType];
+  if (!channels || width === 0 || height === 0 || interlace !== 0 || ![1, 2, 4, 8, 16].includes(bitDepth)) {
+    return null;
+  }
+
+  let raw: Buffer;
+  try {
+    raw = inflateSync(Buffer.concat(idat));
+  } catch {
+    return null;
+  }
+
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  if (raw.length < (stride + 1) * height) {
+    return null;
+  }
+
+  // Undo the per-scanline filters in place
+  const rows = Buffer.alloc(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const row = rows.subarray(y * stride, (y + 1) * stride);
+    const prev = y > 0 ? rows.subarray((y - 1) * stride, y * stride) : null;
+    for (let i = 0; i < stride; i++) {
+      const a = i >= bytesPerPixel ? row[i - bytesPerPixel] : 0;
+      const b = prev ? prev[i] : 0;
+      const c = prev && i >= bytesPerPixel ? prev[i - bytesPerPixel] : 0;
+      const predictor = filter === 1 ? a : filter === 2 ? b : filter === 3 ? (a + b) >> 1 : filter === 4 ? paeth(a, b, c) : 0;
+      row[i] = (src[i] + predictor) & 0xff;
+    }
+  }
+
+  const max = (1 << Math.min(bitDepth, 8)) - 1;
+  const sample = (row: number, index: number): number => {
+    const base = row * stride;
+    if (bitDepth === 16) {
+      return rows[base + index * 2];
+    }
+    if (bitDepth === 8) {
+      return rows[base + index];
+    }
+    const bit = index * bitDepth;
+    return (rows[base + (bit >> 3)] >> (8 - bitDepth - (bit & 7))) & max;
+  };
+  const grey = (value: number) => (colorType === 3 ? value : Math.round((value * 255) / max));
+  const key = transparency && colorType !== 3 ? transparency : null;
+  const keyValue = (i: number) => (key && key.length >= i * 2 + 2 ? key.readUInt16BE(i * 2) : -1);
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      const s = (c: number) => sample(y, x * channels + c);
+      if (colorType === 3) {
+        const index = s(0);
+        if (!palette || index * 3 + 2 >= palette.length) {
+          return null;
+        }
+        data.set([palette[index * 3], palette[index * 3 + 1], palette[index * 3 + 2]], out);
+        data[out + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+      } else if (colorType === 0 || colorType === 4) {
+        const v = grey(s(0));
+        data.set([v, v, v], out);
+        data[out + 3] = colorType === 4 ? s(1) : keyValue(0) === s(0) && bitDepth < 16 ? 0 : 255;
+      } else {
+        data.set([s(0), s(1), s(2)], out);
+        const opaque = bitDepth === 16 || keyValue(0) !== s(0) || keyValue(1) !== s(1) || keyValue(2) !== s(2);
+        data[out + 3] = colorType === 6 ? s(3) : opaque ? 255 : 0;
+      }
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Dimensions and colour components from a JPEG's frame header
+ */
+export function jpegInfo(jpeg: Buffer): JpegInfo | null {
+  if (jpeg.length < 4 || jpeg[0] !== 0xff || jpeg[1] !== 0xd8) {
+    return null;
+  }
+  let offset = 2;
+  while (offset + 4 <= jpeg.length) {
+    if (jpeg[offset] !== 0xff) {
+      return null;
+    }
+    const marker = jpeg[offset + 1];
+    const length = jpeg.readUInt16BE(offset + 2);
+    // Any start-of-frame marker except DHT (c4), JPG (c8) and DAC (cc)
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+      if (offset + 10 > jpeg.length) {
+        return null;
+      }
+      return {
+        height: jpeg.readUInt16BE(offset + 5),
+        width: jpeg.readUInt16BE(offset + 7),
+        components: jpeg[offset + 9]
+      };
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
@@ -0,0 +1,11 @@
+export * from './rough.js';
+export * from './freehand.js';
+export * from './scene.js';
+export * from './svg.js';
+export * from './typeface.js';
+export * from './image.js';
+export * from './raster.js';
+export * from './png.js';
+export * from './pdf.js';
+export * from './html.js';
+export * from './ascii.js';
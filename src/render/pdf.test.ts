@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { inflateSync } from 'node:zlib';
+import { pageLayout, renderPdf, renderPdfPages } from './pdf.js';
+import { encodePng } from './png.js';
+import { createCanvas } from './raster.js';
+import type { Scene } from './scene.js';
+
+const scene: Scene = {
+  width: 200,
+  height: 100,
+  background: '#ffffff',
+  offsetX: 10,
+  offsetY: 10,
+  nodes: [{
+    kind: 'group',
+    opacity: 0.5,
+    rotation: { angle: 90, cx: 50, cy: 25 },
+    children: [
+      {
+        kind: 'path',
+        ops: [{ op: 'move', data: [0, 0] }, { op: 'lineTo', data: [100, 0] }, { op: 'bcurveTo', data: [100, 10, 90, 20, 80, 20] }],
+        fill: null,
+        stroke: '#1e1e1e',
+        strokeWidth: 2,
+        dash: [8, 4]
+      },
+      {
+        kind: 'text',
+        x: 50,
+        y: 20,
+        lines: ['Hi (there)', 'Grüße'],
+        fontSize: 20,
+        lineHeight: 25,
+        textAlign: 'center',
+        fontName: 'Virgil',
+        fontFamily: 'Virgil, cursive',
+        color: '#e03131'
+      }
+    ]
+  }]
+};
+
+function content(pdf: Buffer): string {
+  const text = pdf.toString('latin1');
+  const start = text.indexOf('stream\n') + 'stream\n'.length;
+  const end = text.indexOf('\nendstream');
+  return inflateSync(pdf.subarray(start, end)).toString('latin1');
+}
+
+describe('renderPdf', () => {
+  it('should write a well-formed PDF document', () => {
+    const pdf = renderPdf(scene);
+    const text = pdf.toString('latin1');
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const startxref = Number(text.match(/startxref\n(\d+)/)![1]);
+    expect(text.slice(startxref, startxref + 4)).toBe('xref');
+
+    const offsets = [...text.matchAll(/^(\d{10}) 00000 n $/gm)].map(m => Number(m[1]));
+    offsets.forEach((offset, i) => {
+      expect(text.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it('should draw paths with vector operators', () => {
+    const ops = content(renderPdf(scene));
+
+    expect(ops).toContain('0 0 m\n100 0 l\n100 10 90 20 80 20 c');
+    expect(ops).toContain('2 w 1 J 1 j [8 4] 0 d');
+    expect(ops).toContain('0.12 0.12 0.12 RG');
+  });
+
+  it('should apply rotation and group opacity', () => {
+    const pdf = renderPdf(scene);
+    const ops = content(pdf);
+
+    expect(ops).toContain('0.00000 1.00000 -1.00000 0.00000 75 -25 cm');
+    expect(ops).toContain('/GS0 gs');
+    expect(pdf.toString('latin1')).toContain('/GS0 << /ca 0.5 /CA 0.5 >>');
+  });
+
+  it('should write upright, escaped and aligned text', () => {
+    const ops = content(renderPdf(scene));
+
+    expect(ops).toContain('/F1 20 Tf');
+    expect(ops).toContain('(Hi \\(there\\)) Tj');
+    expect(ops).toContain('(Gr\\374\\337e) Tj');
+
+    const quoted = content(renderPdf({ ...scene, nodes: [{ ...(scene.nodes[0] as any).children[1], lines: ['“It’s” – 5€ … • ✓'] }] }));
+    expect(quoted).toContain('(\\223It\\222s\\224 \\226 5\\200 \\205 \\225 ?) Tj');
+    expect(ops).toMatch(/1 0 0 -1 [\d.]+ 20 Tm/);
+    expect(ops).toMatch(/1 0 0 -1 [\d.]+ 45 Tm/);
+  });
+
+  it('should size pages to the content or a fixed paper size', () => {
+    expect(pageLayout(scene, 'fit')).toEqual({ width: 150, height: 75, scale: 0.75 });
+
+    const a4 = pageLayout(scene, 'a4');
+    expect([a4.width, a4.height]).toEqual([841.89, 595.28]);
+    expect(a4.scale).toBe(0.75);
+
+    const large = pageLayout({ ...scene, width: 800, height: 2000 }, 'letter');
+    expect([large.width, large.height]).toEqual([612, 792]);
+    expect(large.scale).toBeCloseTo(792 / 2000);
+  });
+
+  it('should fill the page background', () => {
+    const ops = content(renderPdf({ ...scene, background: '#121212' }, { pageSize: 'a4' }));
+
+    expect(ops).toContain('0.07 0.07 0.07 rg\n0 0 841.89 595.28 re f');
+  });
+
+  it('should embed images as XObjects with a soft mask for transparency', () => {
+    const image = createCanvas(2, 2, 'rgba(0, 128, 255, 0.5)');
+    const href = `data:image/png;base64,${encodePng(image).toString('base64')}`;
+    const pdf = renderPdf({
+      ...scene,
+      nodes: [
+        { kind: 'image', x: 0, y: 0, width: 40, height: 20, href, mimeType: 'image/png', flipX: false, flipY: false },
+        { kind: 'image', x: 50, y: 0, width: 40, height: 20, href, mimeType: 'image/png', flipX: true, flipY: false }
+      ]
+    });
+    const text = pdf.toString('latin1');
+
+    expect(text).toContain('/XObject << /Im0 7 0 R >>');
+    expect(text).toMatch(/\/Subtype \/Image \/Width 2 \/Height 2 [^>]*\/SMask 8 0 R/);
+    expect(content(pdf)).toContain('40 0 0 -20 0 20 cm\n/Im0 Do');
+    expect(content(pdf)).toContain('-40 0 0 -20 90 20 cm\n/Im0 Do');
+  });
+
+  it('should clip groups', () => {
+    const ops = content(renderPdf({
+      ...scene,
+      nodes: [{ kind: 'group', opacity: 1, rotation: null, clip: [{ op: 'move', data: [0, 0] }, { op: 'lineTo', data: [5, 0] }], children: [] }]
+    }));
+
+    expect(ops).toContain('q\n0 0 m\n5 0 l\nW n\nq\nQ\nQ');
+  });
+
+  it('should write one page per scene in order, sharing fonts and keeping images per page', () => {
+    const image = createCanvas(1, 1, '#ff0000');
+    const href = `data:image/png;base64,${encodePng(image).toString('base64')}`;
+    const second: Scene = {
+      ...scene,
+      width: 400,
+      nodes: [{ kind: 'image', x: 0, y: 0, width: 10, height: 10, href, mimeType: 'image/png', flipX: false, flipY: false }]
+    };
+    const text = renderPdfPages([scene, second]).toString('latin1');
+
+    expect(text).toContain('/Type /Pages /Kids [3 0 R 5 0 R] /Count 2');
+    expect(text).toMatch(/3 0 obj\n<< \/Type \/Page [^\n]*\/MediaBox \[0 0 150 75\][^\n]*\/Contents 4 0 R/);
+    expect(text).toMatch(/5 0 obj\n<< \/Type \/Page [^\n]*\/MediaBox \[0 0 300 75\][^\n]*\/XObject << \/Im0 9 0 R >>[^\n]*\/Contents 6 0 R/);
+    expect(text).toContain('7 0 obj\n<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica');
+    expect(text.match(/\/BaseFont \/Helvetica/g)).toHaveLength(1);
+  });
+});
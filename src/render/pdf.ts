@@ -0,0 +1,405 @@
+/**
+ * Vector PDF output for export scenes
+ *
+ * Paths map directly onto PDF path operators and text uses the standard
+ * Helvetica and Courier fonts, so no fonts need to be embedded. The scene is
+ * drawn in a flipped coordinate system so scene y grows downwards.
+ */
+
+import { deflateSync } from 'node:zlib';
+import { parseColor } from './color.js';
+import { decodePng, jpegInfo, parseDataUrl } from './image.js';
+import type { Rgba } from './color.js';
+import type { Op } from './rough.js';
+import type { ImageNode, Scene, SceneNode, TextNode } from './scene.js';
+
+export type PageSize = 'fit' | 'a4' | 'letter';
+
+export interface PdfOptions {
+  /** Page size; fixed sizes pick the orientation matching the drawing (default: fit) */
+  pageSize?: PageSize;
+}
+
+/** Page dimensions in points, portrait */
+const PAGE_SIZES: Record<Exclude<PageSize, 'fit'>, [number, number]> = {
+  a4: [595.28, 841.89],
+  letter: [612, 792]
+};
+
+/** CSS pixels to PDF points */
+const PX_TO_PT = 0.75;
+
+/** Helvetica advance widths for characters 32-126, in 1/1000 em */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+interface PdfFont {
+  resource: string;
+  baseFont: string;
+  width: (code: number) => number;
+}
+
+const FONTS: PdfFont[] = [
+  { resource: 'F1', baseFont: 'Helvetica', width: code => HELVETICA_WIDTHS[code - 32] ?? 556 },
+  { resource: 'F2', baseFont: 'Courier', width: () => 600 }
+];
+
+function fontFor(node: TextNode): PdfFont {
+  return node.fontFamily.includes('monospace') ? FONTS[1] : FONTS[0];
+}
+
+function num(n: number): string {
+  return String(Math.round(n * 100) / 100);
+}
+
+/** Characters WinAnsi places at 0x80-0x9F, where Latin-1 has control codes */
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87,
+  0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91,
+  0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98,
+  0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b, 0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f
+};
+
+/**
+ * WinAnsi character codes for a string: Latin-1 plus the typographic quotes,
+ * dashes and symbols WinAnsi adds. Other characters become '?', as the
+ * standard fonts have no glyphs for them.
+ */
+function encodeText(text: string): number[] {
+  return Array.from(text, ch => {
+    const code = ch.codePointAt(0) ?? 63;
+    if (code in WIN_ANSI_EXTRAS) return WIN_ANSI_EXTRAS[code];
+    return code >= 32 && code < 256 && !(code >= 127 && code < 160) ? code : 63;
+  });
+}
+
+function pdfString(codes: number[]): string {
+  return '(' + codes.map(code => {
+    const ch = String.fromCharCode(code);
+    if (ch === '(' || ch === ')' || ch === '\\') return '\\' + ch;
+    return code < 127 ? ch : '\\' + code.toString(8).padStart(3, '0');
+  }).join('') + ')';
+}
+
+function pathOps(ops: Op[]): string {
+  return ops.map(({ op, data }) => {
+    const args = data.map(num).join(' ');
+    return op === 'move' ? `${args} m` : op === 'lineTo' ? `${args} l` : `${args} c`;
+  }).join('\n');
+}
+
+/** Image XObject, with a soft mask object when it has transparency */
+interface PdfImage {
+  name: string;
+  /** Image dictionary entries, without /Length or /SMask */
+  dict: string;
+  data: Buffer;
+  mask: Buffer | null;
+}
+
+function streamObject(dict: string, data: Buffer): Buffer {
+  return Buffer.concat([
+    Buffer.from(`<< ${dict} /Length ${data.length} >>\nstream\n`),
+    data,
+    Buffer.from('\nendstream')
+  ]);
+}
+
+/**
+ * Image XObject for a PNG or JPEG data URL; the soft mask reference is
+ * added once object numbers are known
+ */
+function imageObjects(href: string): Omit<PdfImage, 'name'> | null {
+  const file = parseDataUrl(href);
+  if (!file) {
+    return null;
+  }
+
+  if (file.mimeType === 'image/jpeg' || file.mimeType === 'image/jpg') {
+    const info = jpegInfo(file.data);
+    if (!info) {
+      return null;
+    }
+    const colorSpace = info.components === 1 ? '/DeviceGray' : info.components === 4 ? '/DeviceCMYK /Decode [1 0 1 0 1 0 1 0]' : '/DeviceRGB';
+    return {
+      dict: `/Type /XObject /Subtype /Image /Width ${info.width} /Height ${info.height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode`,
+      data: file.data,
+      mask: null
+    };
+  }
+
+  const png = file.mimeType === 'image/png' ? decodePng(file.data) : null;
+  if (!png) {
+    return null;
+  }
+  const pixels = png.width * png.height;
+  const rgb = Buffer.alloc(pixels * 3);
+  const alpha = Buffer.alloc(pixels);
+  let translucent = false;
+  for (let i = 0; i < pixels; i++) {
+    rgb[i * 3] = png.data[i * 4];
+    rgb[i * 3 + 1] = png.data[i * 4 + 1];
+    rgb[i * 3 + 2] = png.data[i * 4 + 2];
+    alpha[i] = png.data[i * 4 + 3];
+    translucent ||= alpha[i] < 255;
+  }
+  const size = `/Width ${png.width} /Height ${png.height} /BitsPerComponent 8 /Filter /FlateDecode`;
+  return {
+    dict: `/Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceRGB`,
+    data: deflateSync(rgb),
+    mask: translucent
+      ? streamObject(`/Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceGray`, deflateSync(alpha))
+      : null
+  };
+}
+
+/**
+ * Writes content stream operators and tracks the transparency states and
+ * images used
+ */
+class ContentWriter {
+  lines: string[] = [];
+  alphas = new Map<number, string>();
+  images: PdfImage[] = [];
+  private imageNames = new Map<string, PdfImage | null>();
+
+  /** XObject for an image, shared between nodes with the same data */
+  private image(href: string): PdfImage | null {
+    if (!this.imageNames.has(href)) {
+      const objects = imageObjects(href);
+      const image = objects && { name: `Im${this.images.length}`, ...objects };
+      if (image) {
+        this.images.push(image);
+      }
+      this.imageNames.set(href, image);
+    }
+    return this.imageNames.get(href) ?? null;
+  }
+
+  private drawImage(node: ImageNode, opacity: number): void {
+    const image = this.image(node.href);
+    const state = opacity < 1 ? `/${this.alphaState(opacity)} gs` : '';
+    if (!image) {
+      // Undecodable images become grey boxes, as in the PNG renderer
+      const fill = this.paint('#868e96', opacity * 0.5, 'rg');
+      if (fill) {
+        this.lines.push('q', fill, `${num(node.x)} ${num(node.y)} ${num(node.width)} ${num(node.height)} re f`, 'Q');
+      }
+      return;
+    }
+    // Image space is the unit square with its first row at the top, so
+    // flip it to match the page's downward y axis
+    const a = node.flipX ? -node.width : node.width;
+    const d = node.flipY ? node.height : -node.height;
+    const e = node.flipX ? node.x + node.width : node.x;
+    const f = node.flipY ? node.y : node.y + node.height;
+    this.lines.push('q', ...(state ? [state] : []), `${num(a)} 0 0 ${num(d)} ${num(e)} ${num(f)} cm`, `/${image.name} Do`, 'Q');
+  }
+
+  private alphaState(alpha: number): string {
+    const key = Math.round(alpha * 1000) / 1000;
+    if (!this.alphas.has(key)) {
+      this.alphas.set(key, `GS${this.alphas.size}`);
+    }
+    return this.alphas.get(key)!;
+  }
+
+  /** Colour operands plus an optional graphics state for transparency */
+  paint(color: string, opacity: number, operator: 'rg' | 'RG'): string | null {
+    const rgba: Rgba | null = parseColor(color);
+    if (!rgba || rgba[3] * opacity <= 0) {
+      return null;
+    }
+    const rgb = rgba.slice(0, 3).map(c => num(c / 255)).join(' ');
+    const alpha = rgba[3] * opacity;
+    return alpha < 1 ? `/${this.alphaState(alpha)} gs ${rgb} ${operator}` : `${rgb} ${operator}`;
+  }
+
+  node(node: SceneNode, opacity: number): void {
+    switch (node.kind) {
+      case 'path': {
+        const fill = node.fill ? this.paint(node.fill, opacity, 'rg') : null;
+        if (fill) {
+          this.lines.push('q', fill, pathOps(node.ops), 'f', 'Q');
+        }
+        const stroke = node.stroke && node.strokeWidth > 0 ? this.paint(node.stroke, opacity, 'RG') : null;
+        if (stroke) {
+          const dash = node.dash ? `[${node.dash.map(num).join(' ')}] 0 d` : '[] 0 d';
+          this.lines.push('q', stroke, `${num(node.strokeWidth)} w 1 J 1 j ${dash}`, pathOps(node.ops), 'S', 'Q');
+        }
+        return;
+      }
+
+      case 'text': {
+        const fill = this.paint(node.color, opacity, 'rg');
+        if (!fill) {
+          return;
+        }
+        const font = fontFor(node);
+        this.lines.push('q', fill, 'BT', `/${font.resource} ${num(node.fontSize)} Tf`);
+        node.lines.forEach((line, i) => {
+          const codes = encodeText(line);
+          const width = (codes.reduce((sum, code) => sum + font.width(code), 0) / 1000) * node.fontSize;
+          const x = node.textAlign === 'center' ? node.x - width / 2 : node.textAlign === 'right' ? node.x - width : node.x;
+          // Flip the text matrix back so glyphs are upright in the flipped page
+          this.lines.push(`1 0 0 -1 ${num(x)} ${num(node.y + i * node.lineHeight)} Tm`, `${pdfString(codes)} Tj`);
+        });
+        this.lines.push('ET', 'Q');
+        return;
+      }
+
+      case 'image':
+        this.drawImage(node, opacity);
+        return;
+
+      case 'group': {
+        if (node.clip) {
+          this.lines.push('q', pathOps(node.clip), 'W n');
+        }
+        this.lines.push('q');
+        if (node.rotation) {
+          const { angle, cx, cy } = node.rotation;
+          const rad = (angle * Math.PI) / 180;
+          const cos = Math.cos(rad);
+          const sin = Math.sin(rad);
+          const e = cx - cos * cx + sin * cy;
+          const f = cy - sin * cx - cos * cy;
+          this.lines.push(`${[cos, sin, -sin, cos].map(v => v.toFixed(5)).join(' ')} ${num(e)} ${num(f)} cm`);
+        }
+        for (const child of node.children) {
+          this.node(child, opacity * node.opacity);
+        }
+        this.lines.push('Q');
+        if (node.clip) {
+          this.lines.push('Q');
+        }
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Page dimensions in points and the scale applied to the drawing
+ */
+export function pageLayout(scene: Scene, pageSize: PageSize = 'fit'): { width: number; height: number; scale: number } {
+  const width = scene.width * PX_TO_PT;
+  const height = scene.height * PX_TO_PT;
+  if (pageSize === 'fit') {
+    return { width, height, scale: PX_TO_PT };
+  }
+
+  const [short, long] = PAGE_SIZES[pageSize];
+  const [pageWidth, pageHeight] = width > height ? [long, short] : [short, long];
+  const scale = PX_TO_PT * Math.min(1, pageWidth / width, pageHeight / height);
+  return { width: pageWidth, height: pageHeight, scale };
+}
+
+/** Layout and compressed content stream of one page */
+interface PdfPage {
+  page: { width: number; height: number; scale: number };
+  content: ContentWriter;
+  stream: Buffer;
+}
+
+/**
+ * Content stream and resources of one page
+ */
+function pageContent(scene: Scene, pageSize?: PageSize): PdfPage {
+  const page = pageLayout(scene, pageSize);
+  const content = new ContentWriter();
+
+  // Background covers the whole page; the drawing is centred on it
+  const background = content.paint(scene.background, 1, 'rg');
+  if (background) {
+    content.lines.push('q', background, `0 0 ${num(page.width)} ${num(page.height)} re f`, 'Q');
+  }
+  const tx = (page.width - scene.width * page.scale) / 2;
+  const ty = (page.height + scene.height * page.scale) / 2;
+  const s = Number(page.scale.toFixed(5));
+  content.lines.push(`${s} 0 0 ${-s} ${num(tx + scene.offsetX * s)} ${num(ty - scene.offsetY * s)} cm`);
+  for (const node of scene.nodes) {
+    content.node(node, 1);
+  }
+
+  return { page, content, stream: deflateSync(Buffer.from(content.lines.join('\n'), 'latin1')) };
+}
+
+/**
+ * Render a scene as a single-page vector PDF
+ */
+export function renderPdf(scene: Scene, options: PdfOptions = {}): Buffer {
+  return renderPdfPages([scene], options);
+}
+
+/**
+ * Render scenes as a vector PDF with one page per scene, in order
+ */
+export function renderPdfPages(scenes: Scene[], options: PdfOptions = {}): Buffer {
+  const pages = scenes.map(scene => pageContent(scene, options.pageSize));
+
+  // Each page and its content stream come first, then the shared fonts
+  const fontStart = 3 + pages.length * 2;
+  const fonts = FONTS.map((font, i) => `/${font.resource} ${fontStart + i} 0 R`).join(' ');
+
+  // Images follow the fonts, each directly followed by its soft mask
+  const imageObjectList: Buffer[] = [];
+  const pageObjects = pages.flatMap(({ page, content, stream }, index) => {
+    const extGStates = Array.from(content.alphas, ([alpha, name]) => `/${name} << /ca ${alpha} /CA ${alpha} >>`).join(' ');
+    const xObjects: string[] = [];
+    for (const image of content.images) {
+      const id = fontStart + FONTS.length + imageObjectList.length;
+      const smask = image.mask ? ` /SMask ${id + 1} 0 R` : '';
+      xObjects.push(`/${image.name} ${id} 0 R`);
+      imageObjectList.push(streamObject(image.dict + smask, image.data));
+      if (image.mask) {
+        imageObjectList.push(image.mask);
+      }
+    }
+    const xObjectResource = xObjects.length > 0 ? ` /XObject << ${xObjects.join(' ')} >>` : '';
+
+    return [
+      Buffer.from(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+        `/Resources << /Font << ${fonts} >> /ExtGState << ${extGStates} >>${xObjectResource} >> /Contents ${4 + index * 2} 0 R >>`
+      ),
+      Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`),
+        stream,
+        Buffer.from('\nendstream')
+      ])
+    ];
+  });
+  const kids = pages.map((_, index) => `${3 + index * 2} 0 R`).join(' ');
+
+  const objects: Buffer[] = [
+    Buffer.from('<< /Type /Catalog /Pages 2 0 R >>'),
+    Buffer.from(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`),
+    ...pageObjects,
+    ...FONTS.map(font => Buffer.from(`<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`)),
+    ...imageObjectList
+  ];
+
+  const parts: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = parts[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    const object = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`), body, Buffer.from('\nendobj\n')]);
+    offsets.push(offset);
+    parts.push(object);
+    offset += object.length;
+  });
+
+  let xref = `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  xref += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  xref += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${offset}\n%%EOF\n`;
+  parts.push(Buffer.from(xref));
+
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { inflateSync } from 'node:zlib';
+import { encodePng, renderPng } from './png.js';
+import { CanvasTooLargeError, createCanvas, fillPolygons, rasterizeScene, strokePolylines } from './raster.js';
+import type { Canvas } from './raster.js';
+import type { Op } from './rough.js';
+import type { Scene } from './scene.js';
+
+function pixel(canvas: Canvas, x: number, y: number): number[] {
+  const i = (y * canvas.width + x) * 4;
+  return Array.from(canvas.data.subarray(i, i + 4));
+}
+
+const scene: Scene = {
+  width: 40,
+  height: 20,
+  background: '#ffffff',
+  offsetX: 10,
+  offsetY: 0,
+  nodes: [{
+    kind: 'group',
+    opacity: 1,
+    rotation: null,
+    children: [{
+      kind: 'path',
+      ops: [
+        { op: 'move', data: [-10, 0] },
+        { op: 'lineTo', data: [10, 0] },
+        { op: 'lineTo', data: [10, 20] },
+        { op: 'lineTo', data: [-10, 20] }
+      ],
+      fill: '#ff0000',
+      stroke: null,
+      strokeWidth: 0,
+      dash: null
+    }]
+  }]
+};
+
+describe('built-in rasterizer', () => {
+  it('should fill the background', () => {
+    const canvas = createCanvas(2, 2, '#a5d8ff');
+
+    expect(pixel(canvas, 1, 1)).toEqual([165, 216, 255, 255]);
+  });
+
+  it('should fill polygons with antialiased edges', () => {
+    const canvas = createCanvas(10, 10, 'transparent');
+    fillPolygons(canvas, [[[0, 0], [5.5, 0], [5.5, 10], [0, 10]]], [0, 0, 0, 1]);
+
+    expect(pixel(canvas, 2, 5)).toEqual([0, 0, 0, 255]);
+    expect(pixel(canvas, 5, 5)[3]).toBeCloseTo(128, -1);
+    expect(pixel(canvas, 7, 5)[3]).toBe(0);
+  });
+
+  it('should not cancel out overlapping stroke segments', () => {
+    const canvas = createCanvas(20, 20, 'transparent');
+    strokePolylines(canvas, [[[2, 10], [18, 10], [10, 10], [10, 2]]], 4, [0, 0, 255, 1]);
+
+    expect(pixel(canvas, 10, 10)).toEqual([0, 0, 255, 255]);
+    expect(pixel(canvas, 15, 10)[3]).toBe(255);
+    expect(pixel(canvas, 10, 18)[3]).toBe(0);
+  });
+
+  it('should leave gaps in dashed strokes', () => {
+    const canvas = createCanvas(40, 4, 'transparent');
+    strokePolylines(canvas, [[[0, 2], [40, 2]]], 2, [0, 0, 0, 1], [8, 8]);
+
+    expect(pixel(canvas, 4, 2)[3]).toBe(255);
+    expect(pixel(canvas, 12, 2)[3]).toBe(0);
+  });
+
+  it('should apply the scene offset and scale', () => {
+    const canvas = rasterizeScene(scene, 2);
+
+    expect(canvas.width).toBe(80);
+    expect(canvas.height).toBe(40);
+    expect(pixel(canvas, 10, 10)).toEqual([255, 0, 0, 255]);
+    expect(pixel(canvas, 60, 10)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('should fill with CSS colour names', () => {
+    const named = JSON.parse(JSON.stringify(scene).replace('#ff0000', 'gold').replace('#ffffff', 'lightgrey'));
+    const canvas = rasterizeScene(named, 1);
+
+    expect(pixel(canvas, 5, 10)).toEqual([255, 215, 0, 255]);
+    expect(pixel(canvas, 30, 10)).toEqual([211, 211, 211, 255]);
+  });
+
+  it('should clip groups to their outline', () => {
+    const full: Op[] = [
+      { op: 'move', data: [0, 0] }, { op: 'lineTo', data: [20, 0] },
+      { op: 'lineTo', data: [20, 10] }, { op: 'lineTo', data: [0, 10] }
+    ];
+    const canvas = rasterizeScene({
+      width: 20,
+      height: 10,
+      background: '#ffffff',
+      offsetX: 0,
+      offsetY: 0,
+      nodes: [{
+        kind: 'group',
+        opacity: 1,
+        rotation: null,
+        clip: [{ op: 'move', data: [0, 0] }, { op: 'lineTo', data: [10, 0] }, { op: 'lineTo', data: [10, 10] }, { op: 'lineTo', data: [0, 10] }],
+        children: [{ kind: 'path', ops: full, fill: '#000000', stroke: null, strokeWidth: 0, dash: null }]
+      }]
+    });
+
+    expect(pixel(canvas, 5, 5)).toEqual([0, 0, 0, 255]);
+    expect(pixel(canvas, 15, 5)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('should draw PNG images scaled and flipped', () => {
+    const image = createCanvas(2, 1, '#ff0000');
+    image.data.set([0, 0, 255, 255], 4);
+    const href = `data:image/png;base64,${encodePng(image).toString('base64')}`;
+    const draw = (flipX: boolean) => rasterizeScene({
+      width: 20,
+      height: 10,
+      background: '#ffffff',
+      offsetX: 0,
+      offsetY: 0,
+      nodes: [{ kind: 'image', x: 0, y: 0, width: 20, height: 10, href, mimeType: 'image/png', flipX, flipY: false }]
+    });
+
+    expect(pixel(draw(false), 2, 5)).toEqual([255, 0, 0, 255]);
+    expect(pixel(draw(false), 17, 5)).toEqual([0, 0, 255, 255]);
+    expect(pixel(draw(true), 2, 5)).toEqual([0, 0, 255, 255]);
+  });
+});
+
+describe('encodePng', () => {
+  it('should write a valid PNG header and pixel data', () => {
+    const canvas = createCanvas(3, 2, '#00ff00');
+    const png = encodePng(canvas);
+
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    expect(png.subarray(12, 16).toString('latin1')).toBe('IHDR');
+    expect(png.readUInt32BE(16)).toBe(3);
+    expect(png.readUInt32BE(20)).toBe(2);
+
+    const dataLength = png.readUInt32BE(33);
+    expect(png.subarray(37, 41).toString('latin1')).toBe('IDAT');
+    const raw = inflateSync(png.subarray(41, 41 + dataLength));
+    expect(raw).toHaveLength((3 * 4 + 1) * 2);
+    expect(Array.from(raw.subarray(1, 5))).toEqual([0, 255, 0, 255]);
+  });
+
+  it('should render a scene to PNG', () => {
+    const png = renderPng(scene);
+
+    expect(png.subarray(-8, -4).toString('latin1')).toBe('IEND');
+  });
+
+  it('should refuse canvases too large to allocate', () => {
+    expect(() => rasterizeScene(scene, 1e9)).toThrow(CanvasTooLargeError);
+    expect(() => rasterizeScene({ ...scene, width: 20000, height: 10 })).toThrow(CanvasTooLargeError);
+    expect(() => rasterizeScene({ ...scene, width: 10000, height: 10000 })).toThrow('Image too large: 10000x10000 pixels');
+  });
+});
@@ -0,0 +1,543 @@
+/**
+ * Built-in rasterizer for export scenes
+ *
+ * Paths are flattened to polygons and filled with a nonzero scanline
+ * algorithm using vertical supersampling and exact horizontal coverage.
+ * Strokes are expanded into segment quads plus round joins and caps, all
+ * wound the same way so overlapping pieces merge instead of cancelling.
+ */
+
+import { parseColor } from './color.js';
+import { fontStrokeWidth, measureText, textPolylines } from './font.js';
+import { decodePng, parseDataUrl } from './image.js';
+import type { Rgba } from './color.js';
+import type { Op, Point } from './rough.js';
+import type { ImageNode, Scene, SceneNode } from './scene.js';
+
+/** Largest canvas side, in pixels */
+export const MAX_CANVAS_SIDE = 16384;
+
+/** Largest canvas area, in pixels: 256 MB of RGBA */
+export const MAX_CANVAS_PIXELS = 64 * 1024 * 1024;
+
+/** RGBA pixels, row by row, non-premultiplied */
+export interface Canvas {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+  /** Coverage of the current clip per pixel, when clipping */
+  clip?: Float32Array;
+}
+
+/** Affine transform [a, b, c, d, e, f] mapping (x, y) to (ax + cy + e, bx + dy + f) */
+type Matrix = [number, number, number, number, number, number];
+
+interface Edge {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  dir: number;
+}
+
+const SUBSAMPLES = 4;
+
+/** Stand-in for images the rasterizer cannot decode */
+const UNDECODED_IMAGE: Rgba = [134, 142, 150, 0.5];
+
+export function createCanvas(width: number, height: number, background: string): Canvas {
+  const canvas = { width, height, data: new Uint8ClampedArray(width * height * 4) };
+  const color = parseColor(background) ?? [255, 255, 255, 1];
+  if (color[3] > 0) {
+    for (let i = 0; i < width * height; i++) {
+      canvas.data[i * 4] = color[0];
+      canvas.data[i * 4 + 1] = color[1];
+      canvas.data[i * 4 + 2] = color[2];
+      canvas.data[i * 4 + 3] = Math.round(color[3] * 255);
+    }
+  }
+  return canvas;
+}
+
+function blendPixel(canvas: Canvas, x: number, y: number, color: Rgba, alpha: number): void {
+  if (canvas.clip) {
+    alpha *= canvas.clip[y * canvas.width + x];
+  }
+  const i = (y * canvas.width + x) * 4;
+  const data = canvas.data;
+  const dstAlpha = data[i + 3] / 255;
+  const outAlpha = alpha + dstAlpha * (1 - alpha);
+  if (outAlpha <= 0) {
+    return;
+  }
+  for (let c = 0; c < 3; c++) {
+    data[i + c] = (color[c] * alpha + data[i + c] * dstAlpha * (1 - alpha)) / outAlpha;
+  }
+  data[i + 3] = outAlpha * 255;
+}
+
+/**
+ * Fill polygons with the nonzero winding rule
+ */
+export function fillPolygons(canvas: Canvas, polygons: Point[][], color: Rgba): void {
+  if (color[3] <= 0) {
+    return;
+  }
+  scanPolygons(canvas.width, canvas.height, polygons, (x, y, coverage) => {
+    blendPixel(canvas, x, y, color, color[3] * coverage);
+  });
+}
+
+/**
+ * Coverage of polygons per pixel, for use as a clip
+ */
+function coverageMask(width: number, height: number, polygons: Point[][]): Float32Array {
+  const mask = new Float32Array(width * height);
+  scanPolygons(width, height, polygons, (x, y, coverage) => {
+    mask[y * width + x] = coverage;
+  });
+  return mask;
+}
+
+/**
+ * Visit every pixel covered by polygons (nonzero winding) with its coverage
+ */
+function scanPolygons(
+  width: number,
+  height: number,
+  polygons: Point[][],
+  visit: (x: number, y: number, coverage: number) => void
+): void {
+  const edges: Edge[] = [];
+  let minY = Infinity;
+  let maxY = -Infinity;
+
+  for (const polygon of polygons) {
+    for (let i = 0; i < polygon.length; i++) {
+      const a = polygon[i];
+      const b = polygon[(i + 1) % polygon.length];
+      if (a[1] === b[1]) {
+        continue;
+      }
+      const dir = a[1] < b[1] ? 1 : -1;
+      const [top, bottom] = dir === 1 ? [a, b] : [b, a];
+      edges.push({ x0: top[0], y0: top[1], x1: bottom[0], y1: bottom[1], dir });
+      minY = Math.min(minY, top[1]);
+      maxY = Math.max(maxY, bottom[1]);
+    }
+  }
+  if (edges.length === 0) {
+    return;
+  }
+  edges.sort((a, b) => a.y0 - b.y0);
+
+  const row = new Float32Array(width + 1);
+  const weight = 1 / SUBSAMPLES;
+  let active: Edge[] = [];
+  let next = 0;
+
+  const addSpan = (from: number, to: number) => {
+    const a = Math.max(0, from);
+    const b = Math.min(width, to);
+    if (b <= a) {
+      return;
+    }
+    const ia = Math.floor(a);
+    const ib = Math.floor(b);
+    if (ia === ib) {
+      row[ia] += (b - a) * weight;
+      return;
+    }
+    row[ia] += (ia + 1 - a) * weight;
+    for (let i = ia + 1; i < ib; i++) {
+      row[i] += weight;
+    }
+    row[ib] += (b - ib) * weight;
+  };
+
+  const firstRow = Math.max(0, Math.floor(minY));
+  const lastRow = Math.min(height - 1, Math.ceil(maxY));
+  for (let y = firstRow; y <= lastRow; y++) {
+    row.fill(0);
+    for (let s = 0; s < SUBSAMPLES; s++) {
+      const sy = y + (s + 0.5) * weight;
+      while (next < edges.length && edges[next].y0 <= sy) {
+        active.push(edges[next++]);
+      }
+      active = active.filter(e => e.y1 > sy);
+
+      const crossings: Array<[number, number]> = [];
+      for (const e of active) {
+        if (e.y0 <= sy) {
+          crossings.push([e.x0 + ((sy - e.y0) * (e.x1 - e.x0)) / (e.y1 - e.y0), e.dir]);
+        }
+      }
+      crossings.sort((a, b) => a[0] - b[0]);
+
+      let winding = 0;
+      let start = 0;
+      for (const [x, dir] of crossings) {
+        const before = winding;
+        winding += dir;
+        if (before === 0 && winding !== 0) {
+          start = x;
+        } else if (before !== 0 && winding === 0) {
+          addSpan(start, x);
+        }
+      }
+    }
+
+    for (let x = 0; x < width; x++) {
+      if (row[x] > 0) {
+        visit(x, y, Math.min(1, row[x]));
+      }
+    }
+  }
+}
+
+/** Circle wound the same way as the stroke quads */
+function circlePolygon(center: Point, radius: number): Point[] {
+  const steps = Math.max(8, Math.min(48, Math.ceil(radius * 4)));
+  const points: Point[] = [];
+  for (let i = 0; i < steps; i++) {
+    const t = (-i / steps) * Math.PI * 2;
+    points.push([center[0] + Math.cos(t) * radius, center[1] + Math.sin(t) * radius]);
+  }
+  return points;
+}
+
+/**
+ * Split a polyline into dashes of alternating on/off lengths
+ */
+function dashPolyline(points: Point[], dash: number[]): Point[][] {
+  const pieces: Point[][] = [];
+  let index = 0;
+  let remaining = dash[0];
+  let on = true;
+  let current: Point[] = [points[0]];
+
+  for (let i = 1; i < points.length; i++) {
+    let [x, y] = points[i - 1];
+    const [tx, ty] = points[i];
+    let length = Math.hypot(tx - x, ty - y);
+
+    while (length > remaining) {
+      const t = remaining / length;
+      x += (tx - x) * t;
+      y += (ty - y) * t;
+      length -= remaining;
+      if (on) {
+        current.push([x, y]);
+        pieces.push(current);
+      }
+      current = [[x, y]];
+      on = !on;
+      index = (index + 1) % dash.length;
+      remaining = dash[index];
+    }
+    remaining -= length;
+    current.push([tx, ty]);
+  }
+  if (on && current.length > 1) {
+    pieces.push(current);
+  }
+  return pieces;
+}
+
+/**
+ * Stroke polylines with round joins and caps
+ */
+export function strokePolylines(
+  canvas: Canvas,
+  polylines: Point[][],
+  width: number,
+  color: Rgba,
+  dash: number[] | null = null
+): void {
+  const halfWidth = Math.max(width, 0.5) / 2;
+  const polygons: Point[][] = [];
+
+  const pieces = dash && dash.every(d => d > 0)
+    ? polylines.filter(p => p.length > 1).flatMap(p => dashPolyline(p, dash))
+    : polylines;
+
+  for (const piece of pieces) {
+    for (let i = 0; i < piece.length; i++) {
+      polygons.push(circlePolygon(piece[i], halfWidth));
+      if (i === 0) {
+        continue;
+      }
+      const [ax, ay] = piece[i - 1];
+      const [bx, by] = piece[i];
+      const length = Math.hypot(bx - ax, by - ay);
+      if (length === 0) {
+        continue;
+      }
+      const nx = (-(by - ay) / length) * halfWidth;
+      const ny = ((bx - ax) / length) * halfWidth;
+      polygons.push([
+        [ax + nx, ay + ny],
+        [bx + nx, by + ny],
+        [bx - nx, by - ny],
+        [ax - nx, ay - ny]
+      ]);
+    }
+  }
+  fillPolygons(canvas, polygons, color);
+}
+
+function transform(m: Matrix, x: number, y: number): Point {
+  return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5]
+  ];
+}
+
+/**
+ * Flatten path operations into transformed polylines, one per subpath
+ */
+export function flattenOps(ops: Op[], m: Matrix = [1, 0, 0, 1, 0, 0]): Point[][] {
+  const subpaths: Point[][] = [];
+  let current: Point[] = [];
+  let last: Point = [0, 0];
+
+  for (const { op, data } of ops) {
+    if (op === 'move') {
+      if (current.length > 0) {
+        subpaths.push(current);
+      }
+      last = [data[0], data[1]];
+      current = [transform(m, last[0], last[1])];
+    } else if (op === 'lineTo') {
+      last = [data[0], data[1]];
+      current.push(transform(m, last[0], last[1]));
+    } else {
+      const p0 = transform(m, last[0], last[1]);
+      const p1 = transform(m, data[0], data[1]);
+      const p2 = transform(m, data[2], data[3]);
+      const p3 = transform(m, data[4], data[5]);
+      const hull = Math.hypot(p1[0] - p0[0], p1[1] - p0[1])
+        + Math.hypot(p2[0] - p1[0], p2[1] - p1[1])
+        + Math.hypot(p3[0] - p2[0], p3[1] - p2[1]);
+      const steps = Math.max(2, Math.min(64, Math.ceil(hull / 3)));
+      for (let i = 1; i <= steps; i++) {
+        const t = i / steps;
+        const mt = 1 - t;
+        const a = mt * mt * mt;
+        const b = 3 * mt * mt * t;
+        const c = 3 * mt * t * t;
+        const d = t * t * t;
+        current.push([
+          a * p0[0] + b * p1[0] + c * p2[0] + d * p3[0],
+          a * p0[1] + b * p1[1] + c * p2[1] + d * p3[1]
+        ]);
+      }
+      last = [data[4], data[5]];
+    }
+  }
+  if (current.length > 0) {
+    subpaths.push(current);
+  }
+  return subpaths;
+}
+
+function withOpacity(color: string, opacity: number): Rgba | null {
+  const rgba = parseColor(color);
+  return rgba ? [rgba[0], rgba[1], rgba[2], rgba[3] * opacity] : null;
+}
+
+/**
+ * Draw an image node with bilinear sampling; formats other than PNG are
+ * drawn as grey boxes
+ */
+function drawImage(canvas: Canvas, node: ImageNode, m: Matrix, opacity: number): void {
+  const data = parseDataUrl(node.href);
+  const image = data && data.mimeType === 'image/png' ? decodePng(data.data) : null;
+  if (!image) {
+    const box: Point[] = [
+      [node.x, node.y], [node.x + node.width, node.y],
+      [node.x + node.width, node.y + node.height], [node.x, node.y + node.height]
+    ];
+    const [r, g, b, a] = UNDECODED_IMAGE;
+    fillPolygons(canvas, [box.map(p => transform(m, p[0], p[1]))], [r, g, b, a * opacity]);
+    return;
+  }
+
+  // Map image pixels into the node's box, mirrored when flipped
+  const sx = ((node.flipX ? -1 : 1) * node.width) / image.width;
+  const sy = ((node.flipY ? -1 : 1) * node.height) / image.height;
+  const im = multiply(m, [sx, 0, 0, sy, node.x + (node.flipX ? node.width : 0), node.y + (node.flipY ? node.height : 0)]);
+  const det = im[0] * im[3] - im[1] * im[2];
+  if (det === 0) {
+    return;
+  }
+
+  const corners = [[0, 0], [image.width, 0], [image.width, image.height], [0, image.height]]
+    .map(([x, y]) => transform(im, x, y));
+  const minX = Math.max(0, Math.floor(Math.min(...corners.map(p => p[0]))));
+  const maxX = Math.min(canvas.width - 1, Math.ceil(Math.max(...corners.map(p => p[0]))));
+  const minY = Math.max(0, Math.floor(Math.min(...corners.map(p => p[1]))));
+  const maxY = Math.min(canvas.height - 1, Math.ceil(Math.max(...corners.map(p => p[1]))));
+
+  const pixel = (x: number, y: number): number => {
+    const cx = Math.min(image.width - 1, Math.max(0, x));
+    const cy = Math.min(image.height - 1, Math.max(0, y));
+    return (cy * image.width + cx) * 4;
+  };
+  const color: Rgba = [0, 0, 0, 1];
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      // Inverse-map the pixel centre into image space
+      const dx = x + 0.5 - im[4];
+      const dy = y + 0.5 - im[5];
+      const u = (im[3] * dx - im[2] * dy) / det;
+      const v = (im[0] * dy - im[1] * dx) / det;
+      if (u < 0 || v < 0 || u >= image.width || v >= image.height) {
+        continue;
+      }
+
+      const fx = u - 0.5;
+      const fy = v - 0.5;
+      const x0 = Math.floor(fx);
+      const y0 = Math.floor(fy);
+      const tx = fx - x0;
+      const ty = fy - y0;
+      const samples: Array<[number, number]> = [
+        [pixel(x0, y0), (1 - tx) * (1 - ty)],
+        [pixel(x0 + 1, y0), tx * (1 - ty)],
+        [pixel(x0, y0 + 1), (1 - tx) * ty],
+        [pixel(x0 + 1, y0 + 1), tx * ty]
+      ];
+
+      // Interpolate premultiplied colour so transparent pixels don't bleed
+      let alpha = 0;
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (const [i, w] of samples) {
+        const a = (image.data[i + 3] / 255) * w;
+        alpha += a;
+        r += image.data[i] * a;
+        g += image.data[i + 1] * a;
+        b += image.data[i + 2] * a;
+      }
+      if (alpha <= 0) {
+        continue;
+      }
+      color[0] = r / alpha;
+      color[1] = g / alpha;
+      color[2] = b / alpha;
+      blendPixel(canvas, x, y, color, alpha * opacity);
+    }
+  }
+}
+
+function drawNode(canvas: Canvas, node: SceneNode, m: Matrix, opacity: number): void {
+  const scale = Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+
+  switch (node.kind) {
+    case 'path': {
+      const subpaths = flattenOps(node.ops, m);
+      const fill = node.fill ? withOpacity(node.fill, opacity) : null;
+      if (fill) {
+        fillPolygons(canvas, subpaths, fill);
+      }
+      const stroke = node.stroke ? withOpacity(node.stroke, opacity) : null;
+      if (stroke && node.strokeWidth > 0) {
+        const dash = node.dash ? node.dash.map(d => d * scale) : null;
+        strokePolylines(canvas, subpaths, node.strokeWidth * scale, stroke, dash);
+      }
+      return;
+    }
+
+    case 'text': {
+      const color = withOpacity(node.color, opacity);
+      if (!color) {
+        return;
+      }
+      const lines = node.lines.flatMap((line, i) => {
+        const width = measureText(line, node.fontSize);
+        const x = node.textAlign === 'center' ? node.x - width / 2 : node.textAlign === 'right' ? node.x - width : node.x;
+        return textPolylines(line, x, node.y + i * node.lineHeight, node.fontSize);
+      });
+      const polylines = lines.map(points => points.map(p => transform(m, p[0], p[1])));
+      strokePolylines(canvas, polylines, fontStrokeWidth(node.fontSize) * scale, color);
+      return;
+    }
+
+    case 'image':
+      drawImage(canvas, node, m, opacity);
+      return;
+
+    case 'group': {
+      const outerClip = canvas.clip;
+      if (node.clip) {
+        const mask = coverageMask(canvas.width, canvas.height, flattenOps(node.clip, m));
+        if (outerClip) {
+          for (let i = 0; i < mask.length; i++) {
+            mask[i] *= outerClip[i];
+          }
+        }
+        canvas.clip = mask;
+      }
+
+      let matrix = m;
+      if (node.rotation) {
+        const { angle, cx, cy } = node.rotation;
+        const rad = (angle * Math.PI) / 180;
+        const cos = Math.cos(rad);
+        const sin = Math.sin(rad);
+        matrix = multiply(m, [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy]);
+      }
+      for (const child of node.children) {
+        drawNode(canvas, child, matrix, opacity * node.opacity);
+      }
+      canvas.clip = outerClip;
+      return;
+    }
+  }
+}
+
+/**
+ * Pixel size of a scene drawn at a scale, refusing canvases too large to
+ * allocate
+ */
+export function canvasSize(scene: Scene, scale = 1): { width: number; height: number } {
+  const width = Math.max(1, Math.ceil(scene.width * scale));
+  const height = Math.max(1, Math.ceil(scene.height * scale));
+  if (width > MAX_CANVAS_SIDE || height > MAX_CANVAS_SIDE || width * height > MAX_CANVAS_PIXELS) {
+    throw new CanvasTooLargeError(width, height);
+  }
+  return { width, height };
+}
+
+/**
+ * Rasterize a scene at the given scale factor
+ */
+export function rasterizeScene(scene: Scene, scale = 1): Canvas {
+  const { width, height } = canvasSize(scene, scale);
+  const canvas = createCanvas(width, height, scene.background);
+  const m: Matrix = [scale, 0, 0, scale, scene.offsetX * scale, scene.offsetY * scale];
+
+  for (const node of scene.nodes) {
+    drawNode(canvas, node, m, 1);
+  }
+  return canvas;
+}
+
+// Error classes
+export class CanvasTooLargeError extends Error {
+  constructor(width: number, height: number) {
+    super(`Image too large: ${width}x${height} pixels (at most ${MAX_CANVAS_SIDE} a side and ${MAX_CANVAS_PIXELS / 1024 / 1024} megapixels); lower the scale or export part of the drawing`);
+    this.name = 'CanvasTooLargeError';
+  }
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createRandom,
+  line,
+  rectangle,
+  ellipse,
+  polygon,
+  opsToPath
+} from './rough.js';
+
+describe('rough generator', () => {
+  describe('createRandom', () => {
+    it('should produce the same sequence for the same seed', () => {
+      const a = createRandom(42);
+      const b = createRandom(42);
+      const seqA = [a(), a(), a()];
+      const seqB = [b(), b(), b()];
+      
+      expect(seqA).toEqual(seqB);
+    });
+
+    it('should produce values in [0, 1)', () => {
+      const random = createRandom(12345);
+      for (let i = 0; i < 100; i++) {
+        const n = random();
+        expect(n).toBeGreaterThanOrEqual(0);
+        expect(n).toBeLessThan(1);
+      }
+    });
+  });
+
+  describe('determinism', () => {
+    it('should render identical paths for the same seed', () => {
+      const a = rectangle(0, 0, 100, 50, { seed: 7, roughness: 1 });
+      const b = rectangle(0, 0, 100, 50, { seed: 7, roughness: 1 });
+      
+      expect(opsToPath(a.stroke.ops)).toBe(opsToPath(b.stroke.ops));
+    });
+
+    it('should render different paths for different seeds', () => {
+      const a = ellipse(50, 50, 100, 60, { seed: 1, roughness: 1 });
+      const b = ellipse(50, 50, 100, 60, { seed: 2, roughness: 1 });
+      
+      expect(opsToPath(a.stroke.ops)).not.toBe(opsToPath(b.stroke.ops));
+    });
+  });
+
+  describe('roughness', () => {
+    it('should draw exact straight lines at roughness 0', () => {
+      const shape = line(0, 0, 100, 0, { seed: 5, roughness: 0 });
+      
+      for (const op of shape.stroke.ops) {
+        for (let i = 1; i < op.data.length; i += 2) {
+          expect(op.data[i]).toBeCloseTo(0);
+        }
+      }
+    });
+
+    it('should wobble more at higher roughness', () => {
+      const spread = (roughness: number) => {
+        const shape = line(0, 0, 300, 0, { seed: 9, roughness });
+        return Math.max(...shape.stroke.ops.flatMap(op => op.data.filter((_, i) => i % 2 === 1).map(Math.abs)));
+      };
+      
+      expect(spread(2)).toBeGreaterThan(spread(1));
+    });
+
+    it('should draw two strokes per edge unless multi-stroke is disabled', () => {
+      const multi = rectangle(0, 0, 100, 100, { seed: 3, roughness: 1 });
+      const single = rectangle(0, 0, 100, 100, { seed: 3, roughness: 1, disableMultiStroke: true });
+      
+      const moves = (ops: { op: string }[]) => ops.filter(op => op.op === 'move').length;
+      expect(moves(multi.stroke.ops)).toBe(8);
+      expect(moves(single.stroke.ops)).toBe(4);
+    });
+  });
+
+  describe('fills', () => {
+    it('should only generate a fill when requested', () => {
+      expect(rectangle(0, 0, 10, 10, { seed: 1, roughness: 1 }).fill).toBeNull();
+      expect(rectangle(0, 0, 10, 10, { seed: 1, roughness: 1, fill: true }).fill?.type).toBe('fillPath');
+    });
+
+    it('should sketch pattern fills as strokes', () => {
+      const solid = rectangle(0, 0, 100, 100, { seed: 1, roughness: 1, fill: true, fillStyle: 'solid' });
+      const hachure = rectangle(0, 0, 100, 100, { seed: 1, roughness: 1, fill: true, fillStyle: 'hachure', hachureGap: 8 });
+      const crossHatch = rectangle(0, 0, 100, 100, { seed: 1, roughness: 1, fill: true, fillStyle: 'cross-hatch', hachureGap: 8 });
+      
+      expect(solid.fill?.type).toBe('fillPath');
+      expect(hachure.fill?.type).toBe('fillSketch');
+      expect(crossHatch.fill!.ops.length).toBeGreaterThan(hachure.fill!.ops.length);
+    });
+
+    it('should not fill open polylines', () => {
+      const shape = polygon([[0, 0], [10, 10], [20, 0]], { seed: 1, roughness: 1, fill: true, close: false });
+      expect(shape.fill).toBeNull();
+    });
+  });
+
+  describe('opsToPath', () => {
+    it('should convert ops to SVG path commands', () => {
+      const d = opsToPath([
+        { op: 'move', data: [0, 0] },
+        { op: 'lineTo', data: [10, 0.125] },
+        { op: 'bcurveTo', data: [1, 2, 3, 4, 5, 6] }
+      ]);
+      
+      expect(d).toBe('M0 0 L10 0.13 C1 2 3 4 5 6');
+    });
+  });
+});
@@ -0,0 +1,544 @@
+/**
+ * Seeded sketchy-stroke generator
+ *
+ * A compact port of the parts of rough.js that Excalidraw uses to draw its
+ * hand-drawn shapes. All randomness comes from a PRNG seeded with the
+ * element's `seed`, so the same element always produces the same strokes.
+ */
+
+import { hachureLines, zigzagLines } from './fill.js';
+import type { Segment } from './fill.js';
+import type { FillStyle } from '../types/excalidraw.js';
+
+export type Point = [number, number];
+
+export interface Op {
+  op: 'move' | 'lineTo' | 'bcurveTo';
+  data: number[];
+}
+
+export interface OpSet {
+  type: 'path' | 'fillPath' | 'fillSketch';
+  ops: Op[];
+}
+
+export interface RoughOptions {
+  seed: number;
+  roughness: number;
+  bowing?: number;
+  maxRandomnessOffset?: number;
+  curveFitting?: number;
+  curveTightness?: number;
+  curveStepCount?: number;
+  disableMultiStroke?: boolean;
+  preserveVertices?: boolean;
+  fillStyle?: FillStyle;
+  /** Distance between pattern fill lines */
+  hachureGap?: number;
+  /** Pattern fill angle in degrees */
+  hachureAngle?: number;
+}
+
+interface ResolvedOptions extends Required<RoughOptions> {
+  random: () => number;
+}
+
+/**
+ * Park-Miller PRNG, identical to the one rough.js uses
+ */
+export function createRandom(seed: number): () => number {
+  let state = Math.floor(seed) || 1;
+  return () => {
+    state = Math.imul(48271, state);
+    return ((2 ** 31 - 1) & state) / 2 ** 31;
+  };
+}
+
+function resolveOptions(options: RoughOptions): ResolvedOptions {
+  return {
+    seed: options.seed,
+    roughness: options.roughness,
+    bowing: options.bowing ?? 1,
+    maxRandomnessOffset: options.maxRandomnessOffset ?? 2,
+    curveFitting: options.curveFitting ?? 0.95,
+    curveTightness: options.curveTightness ?? 0,
+    curveStepCount: options.curveStepCount ?? 9,
+    disableMultiStroke: options.disableMultiStroke ?? false,
+    preserveVertices: options.preserveVertices ?? false,
+    fillStyle: options.fillStyle ?? 'solid',
+    hachureGap: options.hachureGap ?? 4,
+    hachureAngle: options.hachureAngle ?? -41,
+    random: createRandom(options.seed)
+  };
+}
+
+function offset(min: number, max: number, o: ResolvedOptions, gain = 1): number {
+  return o.roughness * gain * (o.random() * (max - min) + min);
+}
+
+function offsetOpt(x: number, o: ResolvedOptions, gain = 1): number {
+  return offset(-x, x, o, gain);
+}
+
+/**
+ * Single wobbly stroke from (x1, y1) to (x2, y2)
+ */
+function lineOps(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  o: ResolvedOptions,
+  move: boolean,
+  overlay: boolean
+): Op[] {
+  const lengthSq = (x1 - x2) ** 2 + (y1 - y2) ** 2;
+  const length = Math.sqrt(lengthSq);
+
+  // Long lines get proportionally less wobble
+  let roughnessGain = 1;
+  if (length > 500) {
+    roughnessGain = 0.4;
+  } else if (length >= 200) {
+    roughnessGain = -0.0016668 * length + 1.233334;
+  }
+
+  let maxOffset = o.maxRandomnessOffset;
+  if (maxOffset * maxOffset * 100 > lengthSq) {
+    maxOffset = length / 10;
+  }
+  const halfOffset = maxOffset / 2;
+  const divergePoint = 0.2 + o.random() * 0.2;
+
+  let midDispX = (o.bowing * o.maxRandomnessOffset * (y2 - y1)) / 200;
+  let midDispY = (o.bowing * o.maxRandomnessOffset * (x1 - x2)) / 200;
+  midDispX = offsetOpt(midDispX, o, roughnessGain);
+  midDispY = offsetOpt(midDispY, o, roughnessGain);
+
+  const jitter = (amount: number) => offsetOpt(amount, o, roughnessGain);
+  const amount = overlay ? halfOffset : maxOffset;
+  const keep = o.preserveVertices;
+
+  const ops: Op[] = [];
+  if (move) {
+    ops.push({
+      op: 'move',
+      data: [x1 + (keep ? 0 : jitter(amount)), y1 + (keep ? 0 : jitter(amount))]
+    });
+  }
+  ops.push({
+    op: 'bcurveTo',
+    data: [
+      midDispX + x1 + (x2 - x1) * divergePoint + jitter(amount),
+      midDispY + y1 + (y2 - y1) * divergePoint + jitter(amount),
+      midDispX + x1 + 2 * (x2 - x1) * divergePoint + jitter(amount),
+      midDispY + y1 + 2 * (y2 - y1) * divergePoint + jitter(amount),
+      x2 + (keep ? 0 : jitter(amount)),
+      y2 + (keep ? 0 : jitter(amount))
+    ]
+  });
+  return ops;
+}
+
+/**
+ * Two overlaid strokes, which is what gives Excalidraw lines their sketched look
+ */
+function doubleLineOps(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  o: ResolvedOptions,
+  filling = false
+): Op[] {
+  const first = lineOps(x1, y1, x2, y2, o, true, false);
+  if (o.disableMultiStroke && !filling) {
+    return first;
+  }
+  return first.concat(lineOps(x1, y1, x2, y2, o, true, true));
+}
+
+/**
+ * Catmull-Rom spline through points, emitted as cubic beziers
+ */
+function curveOps(points: Point[], o: ResolvedOptions): Op[] {
+  const ops: Op[] = [];
+  const len = points.length;
+
+  if (len > 3) {
+    const s = 1 - o.curveTightness;
+    ops.push({ op: 'move', data: [points[1][0], points[1][1]] });
+    for (let i = 1; i + 2 < len; i++) {
+      const p0 = points[i - 1];
+      const p1 = points[i];
+      const p2 = points[i + 1];
+      const p3 = points[i + 2];
+      ops.push({
+        op: 'bcurveTo',
+        data: [
+          p1[0] + (s * p2[0] - s * p0[0]) / 6,
+          p1[1] + (s * p2[1] - s * p0[1]) / 6,
+          p2[0] + (s * p1[0] - s * p3[0]) / 6,
+          p2[1] + (s * p1[1] - s * p3[1]) / 6,
+          p2[0],
+          p2[1]
+        ]
+      });
+    }
+  } else if (len === 3) {
+    ops.push({ op: 'move', data: [points[1][0], points[1][1]] });
+    ops.push({
+      op: 'bcurveTo',
+      data: [points[1][0], points[1][1], points[2][0], points[2][1], points[2][0], points[2][1]]
+    });
+  } else if (len === 2) {
+    ops.push(...lineOps(points[0][0], points[0][1], points[1][0], points[1][1], o, true, true));
+  }
+
+  return ops;
+}
+
+function curveWithOffsetOps(points: Point[], amount: number, o: ResolvedOptions): Op[] {
+  const jittered: Point[] = [];
+  const jitter = (p: Point): Point => [p[0] + offsetOpt(amount, o), p[1] + offsetOpt(amount, o)];
+
+  jittered.push(jitter(points[0]), jitter(points[0]));
+  for (let i = 1; i < points.length; i++) {
+    jittered.push(jitter(points[i]));
+    if (i === points.length - 1) {
+      jittered.push(jitter(points[i]));
+    }
+  }
+  return curveOps(jittered, o);
+}
+
+function linearPathOps(points: Point[], close: boolean, o: ResolvedOptions): Op[] {
+  const ops: Op[] = [];
+  if (points.length < 2) {
+    return ops;
+  }
+  for (let i = 0; i < points.length - 1; i++) {
+    ops.push(...doubleLineOps(points[i][0], points[i][1], points[i + 1][0], points[i + 1][1], o));
+  }
+  if (close && points.length > 2) {
+    const last = points[points.length - 1];
+    ops.push(...doubleLineOps(last[0], last[1], points[0][0], points[0][1], o));
+  }
+  return ops;
+}
+
+function solidFillOps(points: Point[], o: ResolvedOptions): Op[] {
+  const ops: Op[] = [];
+  if (points.length <= 2) {
+    return ops;
+  }
+  const amount = o.maxRandomnessOffset;
+  ops.push({
+    op: 'move',
+    data: [points[0][0] + offsetOpt(amount, o), points[0][1] + offsetOpt(amount, o)]
+  });
+  for (let i = 1; i < points.length; i++) {
+    ops.push({
+      op: 'lineTo',
+      data: [points[i][0] + offsetOpt(amount, o), points[i][1] + offsetOpt(amount, o)]
+    });
+  }
+  return ops;
+}
+
+function patternFillOps(points: Point[], o: ResolvedOptions): Op[] {
+  const rotation = o.hachureAngle + 90;
+  let segments: Segment[];
+
+  switch (o.fillStyle) {
+    case 'cross-hatch':
+      segments = [
+        ...hachureLines(points, o.hachureGap, rotation),
+        ...hachureLines(points, o.hachureGap, rotation + 90)
+      ];
+      break;
+    case 'zigzag':
+      segments = zigzagLines(points, o.hachureGap, rotation);
+      break;
+    default:
+      segments = hachureLines(points, o.hachureGap, rotation);
+      break;
+  }
+
+  return segments.flatMap(([a, b]) => doubleLineOps(a[0], a[1], b[0], b[1], o, true));
+}
+
+/**
+ * Fill for a closed outline in the configured fill style
+ */
+function fillOpSet(points: Point[], o: ResolvedOptions): OpSet {
+  if (o.fillStyle === 'solid') {
+    return { type: 'fillPath', ops: solidFillOps(points, o) };
+  }
+  return { type: 'fillSketch', ops: patternFillOps(points, o) };
+}
+
+/**
+ * Generated drawing for one shape: fill (if requested) then outline
+ */
+export interface RoughShape {
+  fill: OpSet | null;
+  stroke: OpSet;
+  /** Outline points used for fills and hit areas */
+  outline: Point[];
+}
+
+/**
+ * Sketchy straight line
+ */
+export function line(x1: number, y1: number, x2: number, y2: number, options: RoughOptions): RoughShape {
+  const o = resolveOptions(options);
+  return {
+    fill: null,
+    stroke: { type: 'path', ops: doubleLineOps(x1, y1, x2, y2, o) },
+    outline: [[x1, y1], [x2, y2]]
+  };
+}
+
+/**
+ * Sketchy polyline, optionally closed and filled
+ */
+export function polygon(points: Point[], options: RoughOptions & { fill?: boolean; close?: boolean }): RoughShape {
+  const o = resolveOptions(options);
+  const close = options.close ?? true;
+  const fill = options.fill && close ? fillOpSet(points, o) : null;
+  return {
+    fill,
+    stroke: { type: 'path', ops: linearPathOps(points, close, o) },
+    outline: points
+  };
+}
+
+/**
+ * Sketchy rectangle
+ */
+export function rectangle(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  options: RoughOptions & { fill?: boolean }
+): RoughShape {
+  return polygon(
+    [[x, y], [x + width, y], [x + width, y + height], [x, y + height]],
+    { ...options, close: true }
+  );
+}
+
+/**
+ * Sketchy cubic bezier from the current point, as rough.js draws path curves
+ */
+function bezierOps(from: Point, c1: Point, c2: Point, to: Point, o: ResolvedOptions): Op[] {
+  const ops: Op[] = [];
+  const offsets = [o.maxRandomnessOffset || 1, (o.maxRandomnessOffset || 1) + 0.3];
+  const iterations = o.disableMultiStroke ? 1 : 2;
+  const keep = o.preserveVertices;
+
+  for (let i = 0; i < iterations; i++) {
+    if (i === 0) {
+      ops.push({ op: 'move', data: [from[0], from[1]] });
+    } else {
+      ops.push({
+        op: 'move',
+        data: [
+          from[0] + (keep ? 0 : offsetOpt(offsets[0], o)),
+          from[1] + (keep ? 0 : offsetOpt(offsets[0], o))
+        ]
+      });
+    }
+    const end: Point = keep
+      ? to
+      : [to[0] + offsetOpt(offsets[i], o), to[1] + offsetOpt(offsets[i], o)];
+    ops.push({
+      op: 'bcurveTo',
+      data: [
+        c1[0] + offsetOpt(offsets[i], o),
+        c1[1] + offsetOpt(offsets[i], o),
+        c2[0] + offsetOpt(offsets[i], o),
+        c2[1] + offsetOpt(offsets[i], o),
+        end[0],
+        end[1]
+      ]
+    });
+  }
+  return ops;
+}
+
+/** Straight edge, or a cubic bezier when control points are given */
+export interface PathSegment {
+  from: Point;
+  to: Point;
+  controls?: [Point, Point];
+}
+
+/**
+ * Sketchy closed outline made of straight and curved segments, e.g. a shape
+ * with rounded corners
+ */
+export function outlineShape(segments: PathSegment[], options: RoughOptions & { fill?: boolean }): RoughShape {
+  const o = resolveOptions(options);
+  const ops: Op[] = [];
+  const outline: Point[] = [];
+
+  for (const { from, to, controls } of segments) {
+    if (controls) {
+      ops.push(...bezierOps(from, controls[0], controls[1], to, o));
+      outline.push(...sampleCubic(from, controls[0], controls[1], to, 4));
+    } else {
+      ops.push(...doubleLineOps(from[0], from[1], to[0], to[1], o));
+      outline.push(from, to);
+    }
+  }
+
+  const fill = options.fill ? fillOpSet(outline, o) : null;
+  return { fill, stroke: { type: 'path', ops }, outline };
+}
+
+function sampleCubic(p0: Point, p1: Point, p2: Point, p3: Point, steps: number): Point[] {
+  const points: Point[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const mt = 1 - t;
+    points.push([
+      mt ** 3 * p0[0] + 3 * mt ** 2 * t * p1[0] + 3 * mt * t ** 2 * p2[0] + t ** 3 * p3[0],
+      mt ** 3 * p0[1] + 3 * mt ** 2 * t * p1[1] + 3 * mt * t ** 2 * p2[1] + t ** 3 * p3[1]
+    ]);
+  }
+  return points;
+}
+
+function ellipsePoints(
+  increment: number,
+  cx: number,
+  cy: number,
+  rx: number,
+  ry: number,
+  amount: number,
+  overlap: number,
+  o: ResolvedOptions
+): { all: Point[]; core: Point[] } {
+  const all: Point[] = [];
+  const core: Point[] = [];
+
+  if (o.roughness === 0) {
+    const step = increment / 4;
+    all.push([cx + rx * Math.cos(-step), cy + ry * Math.sin(-step)]);
+    for (let angle = 0; angle <= Math.PI * 2; angle += step) {
+      const p: Point = [cx + rx * Math.cos(angle), cy + ry * Math.sin(angle)];
+      core.push(p);
+      all.push(p);
+    }
+    all.push([cx + rx, cy]);
+    all.push([cx + rx * Math.cos(step), cy + ry * Math.sin(step)]);
+    return { all, core };
+  }
+
+  const jitter = () => offsetOpt(amount, o);
+  const radOffset = offsetOpt(0.5, o) - Math.PI / 2;
+  all.push([
+    jitter() + cx + 0.9 * rx * Math.cos(radOffset - increment),
+    jitter() + cy + 0.9 * ry * Math.sin(radOffset - increment)
+  ]);
+  const endAngle = Math.PI * 2 + radOffset - 0.01;
+  for (let angle = radOffset; angle < endAngle; angle += increment) {
+    const p: Point = [jitter() + cx + rx * Math.cos(angle), jitter() + cy + ry * Math.sin(angle)];
+    core.push(p);
+    all.push(p);
+  }
+  all.push([
+    jitter() + cx + rx * Math.cos(radOffset + Math.PI * 2 + overlap * 0.5),
+    jitter() + cy + ry * Math.sin(radOffset + Math.PI * 2 + overlap * 0.5)
+  ]);
+  all.push([
+    jitter() + cx + 0.98 * rx * Math.cos(radOffset + overlap),
+    jitter() + cy + 0.98 * ry * Math.sin(radOffset + overlap)
+  ]);
+  all.push([
+    jitter() + cx + 0.9 * rx * Math.cos(radOffset + overlap * 0.5),
+    jitter() + cy + 0.9 * ry * Math.sin(radOffset + overlap * 0.5)
+  ]);
+  return { all, core };
+}
+
+/**
+ * Sketchy ellipse centred on (cx, cy)
+ */
+export function ellipse(
+  cx: number,
+  cy: number,
+  width: number,
+  height: number,
+  options: RoughOptions & { fill?: boolean }
+): RoughShape {
+  const o = resolveOptions(options);
+
+  const psq = Math.sqrt(Math.PI * 2 * Math.sqrt(((width / 2) ** 2 + (height / 2) ** 2) / 2));
+  const stepCount = Math.ceil(Math.max(o.curveStepCount, (o.curveStepCount / Math.sqrt(200)) * psq));
+  const increment = (Math.PI * 2) / stepCount;
+  const fitRandomness = 1 - o.curveFitting;
+  const rx = Math.abs(width / 2) + offsetOpt(Math.abs(width / 2) * fitRandomness, o);
+  const ry = Math.abs(height / 2) + offsetOpt(Math.abs(height / 2) * fitRandomness, o);
+
+  const trace = () => {
+    const overlap = increment * offset(0.1, offset(0.4, 1, o), o);
+    const first = ellipsePoints(increment, cx, cy, rx, ry, 1, overlap, o);
+    let ops = curveOps(first.all, o);
+    if (!o.disableMultiStroke && o.roughness !== 0) {
+      const second = ellipsePoints(increment, cx, cy, rx, ry, 1.5, 0, o);
+      ops = ops.concat(curveOps(second.all, o));
+    }
+    return { ops, core: first.core };
+  };
+
+  const stroke = trace();
+  let fill: OpSet | null = null;
+  if (options.fill) {
+    fill = o.fillStyle === 'solid'
+      ? { type: 'fillPath', ops: trace().ops }
+      : fillOpSet(stroke.core, o);
+  }
+  return { fill, stroke: { type: 'path', ops: stroke.ops }, outline: stroke.core };
+}
+
+/**
+ * Sketchy smooth curve through points
+ */
+export function curve(points: Point[], options: RoughOptions): RoughShape {
+  const o = resolveOptions(options);
+  let ops = curveWithOffsetOps(points, 1 * (1 + o.roughness * 0.2), o);
+  if (!o.disableMultiStroke) {
+    ops = ops.concat(curveWithOffsetOps(points, 1.5 * (1 + o.roughness * 0.22), o));
+  }
+  return { fill: null, stroke: { type: 'path', ops }, outline: points };
+}
+
+function formatNumber(n: number): string {
+  return String(Math.round(n * 100) / 100);
+}
+
+/**
+ * Convert ops to an SVG path `d` attribute
+ */
+export function opsToPath(ops: Op[]): string {
+  const parts: string[] = [];
+  for (const { op, data } of ops) {
+    const coords = data.map(formatNumber).join(' ');
+    switch (op) {
+      case 'move':
+        parts.push(`M${coords}`);
+        break;
+      case 'lineTo':
+        parts.push(`L${coords}`);
+        break;
+      case 'bcurveTo':
+        parts.push(`C${coords}`);
+        break;
+    }
+  }
+  return parts.join(' ');
+}
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { buildScene, cornerRadius } from './scene.js';
+import { createElement } from '../utils/element.js';
+import { createEmptyFile } from '../utils/file.js';
+import type { ExcalidrawElement, LinearElement } from '../types/excalidraw.js';
+import type { GroupNode, PathNode } from './scene.js';
+
+function paths(elements: ExcalidrawElement[]): PathNode[] {
+  const scene = buildScene({ ...createEmptyFile(), elements }, { padding: 0, backgroundColor: '#ffffff', dark: false, rough: false });
+  return scene.nodes.flatMap(node => (node as GroupNode).children) as PathNode[];
+}
+
+describe('cornerRadius', () => {
+  it('should use a quarter of the size for proportional roundness', () => {
+    const el = createElement({ type: 'diamond', x: 0, y: 0 });
+    el.roundness = { type: 2 };
+    expect(cornerRadius(200, el)).toBe(50);
+  });
+
+  it('should cap adaptive roundness at a fixed radius', () => {
+    const el = createElement({ type: 'rectangle', x: 0, y: 0 });
+    expect(cornerRadius(40, el)).toBe(10);
+    expect(cornerRadius(400, el)).toBe(32);
+    el.roundness = { type: 3, value: 8 };
+    expect(cornerRadius(400, el)).toBe(8);
+  });
+
+  it('should be zero for sharp corners', () => {
+    const el = createElement({ type: 'rectangle', x: 0, y: 0 });
+    el.roundness = null;
+    expect(cornerRadius(100, el)).toBe(0);
+  });
+});
+
+describe('buildScene outlines', () => {
+  it('should round rectangle corners by their size', () => {
+    const [outline] = paths([createElement({ type: 'rectangle', x: 0, y: 0, width: 300, height: 200 })]);
+
+    expect(outline.ops[0]).toEqual({ op: 'move', data: [32, 0] });
+    expect(outline.ops[1]).toEqual({ op: 'lineTo', data: [268, 0] });
+    expect(outline.ops[2].op).toBe('bcurveTo');
+    expect(outline.ops[2].data.slice(4)).toEqual([300, 32]);
+  });
+
+  it('should round diamond vertices when it has roundness', () => {
+    const diamond = createElement({ type: 'diamond', x: 0, y: 0, width: 100, height: 80 });
+    expect(paths([diamond])[0].ops.every(op => op.op !== 'bcurveTo')).toBe(true);
+
+    diamond.roundness = { type: 2 };
+    const ops = paths([diamond])[0].ops;
+    expect(ops[0]).toEqual({ op: 'move', data: [62.5, 10] });
+    expect(ops.filter(op => op.op === 'bcurveTo')).toHaveLength(4);
+  });
+
+  it('should draw curved lines through their points', () => {
+    const arrow = createElement({ type: 'arrow', x: 0, y: 0, points: [[0, 0], [50, 50], [100, 0]] }) as LinearElement;
+    arrow.endArrowhead = null;
+    expect(paths([arrow])[0].ops.map(op => op.op)).toEqual(['move', 'lineTo', 'lineTo']);
+
+    arrow.roundness = { type: 2 };
+    const ops = paths([arrow])[0].ops;
+    expect(ops.map(op => op.op)).toEqual(['move', 'bcurveTo', 'bcurveTo']);
+    expect(ops[1].data.slice(4)).toEqual([50, 50]);
+    expect(ops[2].data.slice(4)).toEqual([100, 0]);
+    // Smooth through the middle point: tangents on both sides line up
+    expect(ops[1].data[3]).toBeCloseTo(ops[2].data[1]);
+  });
+
+  it('should fill freedraw strokes with the stroke colour', () => {
+    const stroke = createElement({ type: 'freedraw', x: 0, y: 0, points: [[0, 0], [40, 10], [80, 0]], strokeColor: '#e03131' });
+    const [outline] = paths([stroke]);
+
+    expect(outline.fill).toBe('#e03131');
+    expect(outline.stroke).toBeNull();
+    expect(outline.ops[0].op).toBe('move');
+    expect(outline.ops.length).toBeGreaterThan(10);
+  });
+});
@@ -0,0 +1,822 @@
+/**
+ * Backend-neutral scene model for export
+ *
+ * `buildScene` turns an Excalidraw file into absolutely positioned paths,
+ * text runs, images and (optionally clipped) groups. The SVG writer, the
+ * built-in PNG rasterizer and the PDF writer all draw from this model, so
+ * every exporter produces the same picture.
+ */
+
+import { calculateBounds, getElementCenter } from '../utils/file.js';
+import * as rough from './rough.js';
+import { arrowheadParts } from './arrowheads.js';
+import { baselineOffset, getTypeface } from './typeface.js';
+import { darkModeColor, formatColor, parseColor } from './color.js';
+import { freehandOutline, outlineOps } from './freehand.js';
+import type { Op, OpSet, PathSegment, Point, RoughOptions, RoughShape } from './rough.js';
+import type { FreehandPoint } from './freehand.js';
+import type { BinaryFileData, ExcalidrawElement, ExcalidrawFile, FreeDrawElement, TextAlign } from '../types/excalidraw.js';
+
+export interface SceneOptions {
+  padding: number;
+  backgroundColor: string;
+  /** Convert every colour to the dark theme, as Excalidraw does */
+  dark: boolean;
+  /** Draw hand-drawn strokes from each element's roughness and seed (default: true) */
+  rough?: boolean;
+}
+
+export interface PathNode {
+  kind: 'path';
+  ops: Op[];
+  fill: string | null;
+  stroke: string | null;
+  strokeWidth: number;
+  dash: number[] | null;
+}
+
+export interface TextNode {
+  kind: 'text';
+  /** Anchor of each line: its left edge, centre or right edge per textAlign */
+  x: number;
+  /** Baseline of the first line */
+  y: number;
+  lines: string[];
+  fontSize: number;
+  /** Distance between baselines */
+  lineHeight: number;
+  textAlign: TextAlign;
+  /** Family name, as used for @font-face */
+  fontName: string;
+  /** CSS font-family stack */
+  fontFamily: string;
+  color: string;
+}
+
+export interface ImageNode {
+  kind: 'image';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** data: URL of the image */
+  href: string;
+  mimeType: string;
+  flipX: boolean;
+  flipY: boolean;
+}
+
+export interface GroupNode {
+  kind: 'group';
+  opacity: number;
+  /** Rotation in degrees around (cx, cy) */
+  rotation: { angle: number; cx: number; cy: number } | null;
+  /** Clip outline in the parent's coordinates, applied outside the rotation */
+  clip?: Op[];
+  /** URL opened when the element is clicked */
+  link?: string;
+  /** Accessible name and description of the element */
+  title?: string;
+  description?: string;
+  children: SceneNode[];
+}
+
+export type SceneNode = PathNode | TextNode | ImageNode | GroupNode;
+
+export interface Scene {
+  width: number;
+  height: number;
+  background: string;
+  /** Translation from drawing coordinates to output coordinates */
+  offsetX: number;
+  offsetY: number;
+  nodes: SceneNode[];
+}
+
+/** Frame outline and name label, as drawn by Excalidraw */
+const FRAME_STYLE = {
+  strokeColor: '#bbbbbb',
+  strokeWidth: 2,
+  radius: 8,
+  nameOffsetY: 3,
+  nameColor: '#999999',
+  nameFontSize: 14,
+  nameLineHeight: 1.25
+};
+
+/** Freehand settings Excalidraw uses for freedraw, size per unit of stroke width */
+const FREEDRAW_STROKE = {
+  size: 4.25,
+  thinning: 0.6,
+  smoothing: 0.5,
+  streamline: 0.5,
+  easing: (t: number) => Math.sin((t * Math.PI) / 2),
+  last: true
+};
+
+/** Fill for image and embed placeholders */
+const PLACEHOLDER_COLOR = '#e9ecef';
+
+/**
+ * Colour as drawn in the export theme. Colours the renderers cannot parse
+ * become the fallback, so file values never reach SVG, HTML or CSS as is.
+ */
+function themeColor(color: string, options: SceneOptions, fallback = '#1e1e1e'): string {
+  const rgba = typeof color === 'string' ? parseColor(color) : null;
+  const safe = rgba ? formatColor(rgba) : fallback;
+  return options.dark ? darkModeColor(safe) : safe;
+}
+
+/**
+ * Scale roughness down for small shapes, as Excalidraw does, so tiny
+ * boxes don't dissolve into scribbles
+ */
+function adjustRoughness(el: ExcalidrawElement): number {
+  const maxSize = Math.max(el.width, el.height);
+  const minSize = Math.min(el.width, el.height);
+  const isLinear = el.type === 'line' || el.type === 'arrow';
+
+  if ((minSize >= 20 && maxSize >= 50) || minSize >= 15 || (isLinear && maxSize >= 50)) {
+    return el.roughness;
+  }
+  return Math.min(el.roughness / (maxSize < 10 ? 3 : 2), 2.5);
+}
+
+/**
+ * Rough options derived from an element's style
+ */
+export function roughOptionsFor(el: ExcalidrawElement): RoughOptions {
+  return {
+    seed: el.seed,
+    roughness: adjustRoughness(el),
+    disableMultiStroke: el.strokeStyle !== 'solid',
+    preserveVertices: el.roughness < 2,
+    curveFitting: el.type === 'ellipse' ? 1 : undefined,
+    fillStyle: el.fillStyle,
+    hachureGap: el.strokeWidth * 4
+  };
+}
+
+/** Excalidraw's corner radius defaults */
+const PROPORTIONAL_RADIUS = 0.25;
+const ADAPTIVE_RADIUS = 32;
+
+/**
+ * Corner radius for a side of the given length: proportional for legacy and
+ * proportional roundness, capped at a fixed size for adaptive roundness
+ */
+export function cornerRadius(size: number, el: ExcalidrawElement): number {
+  if (!el.roundness) {
+    return 0;
+  }
+  if (el.roundness.type === 3) {
+    const fixed = el.roundness.value ?? ADAPTIVE_RADIUS;
+    return size <= fixed / PROPORTIONAL_RADIUS ? size * PROPORTIONAL_RADIUS : fixed;
+  }
+  return size * PROPORTIONAL_RADIUS;
+}
+
+/** Quadratic corner through a control point, as a cubic segment */
+function quadraticSegment(from: Point, control: Point, to: Point): PathSegment {
+  return {
+    from,
+    to,
+    controls: [
+      [from[0] + ((control[0] - from[0]) * 2) / 3, from[1] + ((control[1] - from[1]) * 2) / 3],
+      [to[0] + ((control[0] - to[0]) * 2) / 3, to[1] + ((control[1] - to[1]) * 2) / 3]
+    ]
+  };
+}
+
+/**
+ * Outline of a rectangle or diamond with rounded corners, following the
+ * paths Excalidraw draws; null when the element has sharp corners
+ */
+function roundedOutline(el: ExcalidrawElement): PathSegment[] | null {
+  if (!el.roundness) {
+    return null;
+  }
+  const { x, y, width: w, height: h } = el;
+
+  if (el.type === 'rectangle') {
+    const r = Math.min(cornerRadius(Math.min(w, h), el), w / 2, h / 2);
+    return [
+      { from: [x + r, y], to: [x + w - r, y] },
+      quadraticSegment([x + w - r, y], [x + w, y], [x + w, y + r]),
+      { from: [x + w, y + r], to: [x + w, y + h - r] },
+      quadraticSegment([x + w, y + h - r], [x + w, y + h], [x + w - r, y + h]),
+      { from: [x + w - r, y + h], to: [x + r, y + h] },
+      quadraticSegment([x + r, y + h], [x, y + h], [x, y + h - r]),
+      { from: [x, y + h - r], to: [x, y + r] },
+      quadraticSegment([x, y + r], [x, y], [x + r, y])
+    ];
+  }
+
+  if (el.type === 'diamond') {
+    // Radii along each axis, cut back along the edges from every vertex
+    const vr = cornerRadius(w / 2, el);
+    const hr = cornerRadius(h / 2, el);
+    const top: Point = [x + w / 2, y];
+    const right: Point = [x + w, y + h / 2];
+    const bottom: Point = [x + w / 2, y + h];
+    const left: Point = [x, y + h / 2];
+    const corner = (from: Point, vertex: Point, to: Point): PathSegment => ({ from, to, controls: [vertex, vertex] });
+    return [
+      { from: [top[0] + vr, top[1] + hr], to: [right[0] - vr, right[1] - hr] },
+      corner([right[0] - vr, right[1] - hr], right, [right[0] - vr, right[1] + hr]),
+      { from: [right[0] - vr, right[1] + hr], to: [bottom[0] + vr, bottom[1] - hr] },
+      corner([bottom[0] + vr, bottom[1] - hr], bottom, [bottom[0] - vr, bottom[1] - hr]),
+      { from: [bottom[0] - vr, bottom[1] - hr], to: [left[0] + vr, left[1] + hr] },
+      corner([left[0] + vr, left[1] + hr], left, [left[0] + vr, left[1] - hr]),
+      { from: [left[0] + vr, left[1] - hr], to: [top[0] - vr, top[1] + hr] },
+      corner([top[0] - vr, top[1] + hr], top, [top[0] + vr, top[1] + hr])
+    ];
+  }
+  return null;
+}
+
+function segmentOps(segments: PathSegment[]): Op[] {
+  const ops: Op[] = [{ op: 'move', data: [segments[0].from[0], segments[0].from[1]] }];
+  for (const { to, controls } of segments) {
+    ops.push(controls
+      ? { op: 'bcurveTo', data: [controls[0][0], controls[0][1], controls[1][0], controls[1][1], to[0], to[1]] }
+      : { op: 'lineTo', data: [to[0], to[1]] });
+  }
+  return ops;
+}
+
+/** Whether a line or arrow is drawn as a smooth curve through its points */
+function isCurved(el: ExcalidrawElement): boolean {
+  return (el.type === 'line' || el.type === 'arrow') && el.roundness !== null && el.points.length > 2;
+}
+
+/**
+ * Catmull-Rom spline through points as cubic beziers, with the end points
+ * repeated so the curve starts and ends on them
+ */
+function smoothCurveOps(points: Point[]): Op[] {
+  const ops: Op[] = [{ op: 'move', data: [points[0][0], points[0][1]] }];
+  for (let i = 0; i + 1 < points.length; i++) {
+    const p0 = points[Math.max(0, i - 1)];
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    const p3 = points[Math.min(points.length - 1, i + 2)];
+    ops.push({
+      op: 'bcurveTo',
+      data: [
+        p1[0] + (p2[0] - p0[0]) / 6,
+        p1[1] + (p2[1] - p0[1]) / 6,
+        p2[0] - (p3[0] - p1[0]) / 6,
+        p2[1] - (p3[1] - p1[1]) / 6,
+        p2[0],
+        p2[1]
+      ]
+    });
+  }
+  return ops;
+}
+
+/**
+ * Generate the sketchy drawing for a shape or linear element
+ */
+function roughShapeFor(el: ExcalidrawElement, fill: boolean, crisp = false): RoughShape | null {
+  const options = { ...roughOptionsFor(el), fill };
+  if (crisp) {
+    options.roughness = 0;
+  }
+
+  const rounded = roundedOutline(el);
+  if (rounded) {
+    return rough.outlineShape(rounded, options);
+  }
+
+  switch (el.type) {
+    case 'rectangle':
+      return rough.rectangle(el.x, el.y, el.width, el.height, options);
+
+    case 'ellipse':
+      return rough.ellipse(el.x + el.width / 2, el.y + el.height / 2, el.width, el.height, options);
+
+    case 'diamond': {
+      const cx = el.x + el.width / 2;
+      const cy = el.y + el.height / 2;
+      return rough.polygon(
+        [[cx, el.y], [el.x + el.width, cy], [cx, el.y + el.height], [el.x, cy]],
+        options
+      );
+    }
+
+    case 'line':
+    case 'arrow':
+      if (el.points.length < 2) {
+        return null;
+      }
+      if (isCurved(el)) {
+        return rough.curve(el.points.map(p => [el.x + p[0], el.y + p[1]] as Point), options);
+      }
+      return rough.polygon(
+        el.points.map(p => [el.x + p[0], el.y + p[1]] as Point),
+        { ...options, fill: false, close: false }
+      );
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Filled outline of a freedraw stroke, widened by pen pressure or, when the
+ * pen reported none, by a pressure simulated from drawing speed
+ */
+function freedrawOps(el: FreeDrawElement): Op[] {
+  const simulatePressure = el.simulatePressure || el.pressures.length < el.points.length;
+  const points: FreehandPoint[] = el.points.map((p, i) =>
+    simulatePressure ? [el.x + p[0], el.y + p[1]] : [el.x + p[0], el.y + p[1], el.pressures[i]]
+  );
+  return outlineOps(freehandOutline(points, { ...FREEDRAW_STROKE, size: el.strokeWidth * FREEDRAW_STROKE.size, simulatePressure }));
+}
+
+function polylineOps(points: Point[], close = false): Op[] {
+  const ops: Op[] = points.map((p, i) => ({ op: i === 0 ? 'move' : 'lineTo', data: [p[0], p[1]] }));
+  if (close && points.length > 2) {
+    ops.push({ op: 'lineTo', data: [points[0][0], points[0][1]] });
+  }
+  return ops;
+}
+
+/** Cubic approximation of a quarter circle */
+const KAPPA = 0.5523;
+
+function roundedRectOps(x: number, y: number, w: number, h: number, radius: number): Op[] {
+  const r = Math.max(0, Math.min(radius, w / 2, h / 2));
+  if (r === 0) {
+    return polylineOps([[x, y], [x + w, y], [x + w, y + h], [x, y + h]], true);
+  }
+  const c = r * (1 - KAPPA);
+  return [
+    { op: 'move', data: [x + r, y] },
+    { op: 'lineTo', data: [x + w - r, y] },
+    { op: 'bcurveTo', data: [x + w - c, y, x + w, y + c, x + w, y + r] },
+    { op: 'lineTo', data: [x + w, y + h - r] },
+    { op: 'bcurveTo', data: [x + w, y + h - c, x + w - c, y + h, x + w - r, y + h] },
+    { op: 'lineTo', data: [x + r, y + h] },
+    { op: 'bcurveTo', data: [x + c, y + h, x, y + h - c, x, y + h - r] },
+    { op: 'lineTo', data: [x, y + r] },
+    { op: 'bcurveTo', data: [x, y + c, x + c, y, x + r, y] }
+  ];
+}
+
+/**
+ * Exact geometric outline, used when rough rendering is turned off
+ */
+function crispOps(el: ExcalidrawElement): Op[] | null {
+  const k = KAPPA;
+  const rounded = roundedOutline(el);
+  if (rounded) {
+    return segmentOps(rounded);
+  }
+
+  switch (el.type) {
+    case 'rectangle':
+      return roundedRectOps(el.x, el.y, el.width, el.height, 0);
+
+    case 'ellipse': {
+      const rx = el.width / 2;
+      const ry = el.height / 2;
+      const cx = el.x + rx;
+      const cy = el.y + ry;
+      return [
+        { op: 'move', data: [cx + rx, cy] },
+        { op: 'bcurveTo', data: [cx + rx, cy + ry * k, cx + rx * k, cy + ry, cx, cy + ry] },
+        { op: 'bcurveTo', data: [cx - rx * k, cy + ry, cx - rx, cy + ry * k, cx - rx, cy] },
+        { op: 'bcurveTo', data: [cx - rx, cy - ry * k, cx - rx * k, cy - ry, cx, cy - ry] },
+        { op: 'bcurveTo', data: [cx + rx * k, cy - ry, cx + rx, cy - ry * k, cx + rx, cy] }
+      ];
+    }
+
+    case 'diamond': {
+      const cx = el.x + el.width / 2;
+      const cy = el.y + el.height / 2;
+      return polylineOps([[cx, el.y], [el.x + el.width, cy], [cx, el.y + el.height], [el.x, cy]], true);
+    }
+
+    case 'line':
+    case 'arrow': {
+      if (el.points.length < 2) {
+        return null;
+      }
+      const points = el.points.map(p => [el.x + p[0], el.y + p[1]] as Point);
+      return isCurved(el) ? smoothCurveOps(points) : polylineOps(points);
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Path node for a fill: solid fills are painted, pattern fills are stroked
+ * in the fill colour at half the outline width
+ */
+function fillNode(opSet: OpSet, color: string, strokeWidth: number): PathNode {
+  if (opSet.type === 'fillSketch') {
+    return { kind: 'path', ops: opSet.ops, fill: null, stroke: color, strokeWidth: strokeWidth / 2, dash: null };
+  }
+  return { kind: 'path', ops: opSet.ops, fill: color, stroke: null, strokeWidth: 0, dash: null };
+}
+
+/**
+ * Arrowheads at both ends of a line or arrow, drawn with the element's
+ * seed but always with a solid stroke
+ */
+function arrowheadNodes(el: ExcalidrawElement, stroke: string, options: SceneOptions): PathNode[] {
+  if (el.type !== 'line' && el.type !== 'arrow') {
+    return [];
+  }
+
+  const background = themeColor(options.backgroundColor, options, '#ffffff');
+  const roughOptions = { ...roughOptionsFor(el), disableMultiStroke: false, fillStyle: 'solid' as const };
+  if (options.rough === false) {
+    roughOptions.roughness = 0;
+  }
+
+  const nodes: PathNode[] = [];
+  for (const position of ['start', 'end'] as const) {
+    for (const part of arrowheadParts(el, position)) {
+      const fill = part.fill === 'stroke' ? stroke : part.fill === 'background' ? background : null;
+      const shape = part.kind === 'circle'
+        ? rough.ellipse(part.center[0], part.center[1], part.diameter, part.diameter, { ...roughOptions, fill: fill !== null })
+        : rough.polygon(part.points, { ...roughOptions, fill: fill !== null, close: part.closed });
+
+      if (shape.fill && fill) {
+        nodes.push(fillNode(shape.fill, fill, el.strokeWidth));
+      }
+      nodes.push({ kind: 'path', ops: shape.stroke.ops, fill: null, stroke, strokeWidth: el.strokeWidth, dash: null });
+    }
+  }
+  return nodes;
+}
+
+/** Name shown above a frame */
+export function frameName(el: ExcalidrawElement): string {
+  if (el.type !== 'frame' && el.type !== 'magicframe') {
+    return '';
+  }
+  return el.name ?? (el.type === 'magicframe' ? 'AI Frame' : 'Frame');
+}
+
+/** Height of a frame's name label above its top edge */
+function frameLabelHeight(): number {
+  return FRAME_STYLE.nameOffsetY + FRAME_STYLE.nameFontSize * FRAME_STYLE.nameLineHeight;
+}
+
+/** Single-line label in the UI font, with its top edge at y */
+function labelNode(text: string, x: number, y: number, fontSize: number, textAlign: TextAlign, color: string): TextNode {
+  const typeface = getTypeface(2);
+  const lineHeight = fontSize * 1.25;
+  return {
+    kind: 'text',
+    x,
+    y: Math.round((y + baselineOffset(typeface, fontSize, lineHeight)) * 100) / 100,
+    lines: [text],
+    fontSize,
+    lineHeight,
+    textAlign,
+    fontName: typeface.name,
+    fontFamily: typeface.css,
+    color
+  };
+}
+
+/** Shorten text to roughly fit a width, using average glyph widths */
+function truncate(text: string, width: number, fontSize: number): string {
+  const max = Math.max(1, Math.floor(width / (fontSize * 0.5)));
+  return text.length > max ? text.slice(0, Math.max(0, max - 3)) + '...' : text;
+}
+
+/**
+ * Placeholder card for embedded web content, showing the embedded link
+ */
+function embedCardNodes(el: ExcalidrawElement, stroke: string, options: SceneOptions): SceneNode[] {
+  const fill = el.backgroundColor === 'transparent' ? themeColor(PLACEHOLDER_COLOR, options) : themeColor(el.backgroundColor, options, 'transparent');
+  const dash = el.strokeStyle === 'dashed' ? [8, 4] : el.strokeStyle === 'dotted' ? [2, 4] : null;
+  const nodes: SceneNode[] = [{
+    kind: 'path',
+    ops: roundedRectOps(el.x, el.y, el.width, el.height, Math.min(el.width, el.height) / 10),
+    fill,
+    stroke,
+    strokeWidth: el.strokeWidth,
+    dash
+  }];
+
+  const fontSize = Math.max(6, Math.min(16, el.height / 6));
+  const cx = el.x + el.width / 2;
+  const cy = el.y + el.height / 2;
+  const room = el.width - fontSize * 2;
+  if (!el.link) {
+    nodes.push(labelNode('Empty Web-Embed', cx, cy - fontSize * 0.625, fontSize, 'center', stroke));
+    return nodes;
+  }
+
+  let host = el.link;
+  try {
+    host = new URL(el.link).hostname || el.link;
+  } catch {
+    // Not an absolute URL; show it as written
+  }
+  const lineHeight = fontSize * 1.25;
+  nodes.push(labelNode(truncate(host, room, fontSize * 1.2), cx, cy - lineHeight * 1.2, fontSize * 1.2, 'center', stroke));
+  nodes.push(labelNode(truncate(el.link, room, fontSize), cx, cy + lineHeight * 0.2, fontSize, 'center', stroke));
+  return nodes;
+}
+
+/**
+ * Image from the file's binary files, or a placeholder while it is missing
+ */
+function imageNodes(el: ExcalidrawElement, files: Record<string, BinaryFileData>, options: SceneOptions): SceneNode[] {
+  if (el.type !== 'image') {
+    return [];
+  }
+  const file = el.fileId ? files[el.fileId] : undefined;
+  if (!file?.dataURL?.startsWith('data:') || el.status === 'error') {
+    return [{
+      kind: 'path',
+      ops: polylineOps([[el.x, el.y], [el.x + el.width, el.y], [el.x + el.width, el.y + el.height], [el.x, el.y + el.height]], true),
+      fill: themeColor(PLACEHOLDER_COLOR, options),
+      stroke: null,
+      strokeWidth: 0,
+      dash: null
+    }];
+  }
+  // Images keep their own colours in the dark theme, as in Excalidraw
+  return [{
+    kind: 'image',
+    x: el.x,
+    y: el.y,
+    width: el.width,
+    height: el.height,
+    href: file.dataURL,
+    mimeType: file.mimeType ?? file.dataURL.slice(5, file.dataURL.search(/[;,]/)),
+    flipX: el.scale?.[0] === -1,
+    flipY: el.scale?.[1] === -1
+  }];
+}
+
+/**
+ * Scene nodes for a single element, before rotation
+ */
+function elementNodes(el: ExcalidrawElement, options: SceneOptions, files: Record<string, BinaryFileData>): SceneNode[] {
+  const useRough = options.rough ?? true;
+  const stroke = themeColor(el.strokeColor, options);
+  const fill = el.backgroundColor === 'transparent' ? null : themeColor(el.backgroundColor, options, 'transparent');
+  const dash = el.strokeStyle === 'dashed' ? [8, 4] : el.strokeStyle === 'dotted' ? [2, 4] : null;
+  const nodes: SceneNode[] = [];
+
+  if (el.type === 'text') {
+    const typeface = getTypeface(el.fontFamily);
+    const fontSize = el.fontSize ?? 20;
+    const lineHeight = fontSize * (el.lineHeight ?? 1.25);
+    const lines = el.text.split('\n');
+    const textAlign = el.textAlign ?? 'left';
+
+    // Spare height in the element box is distributed by verticalAlign
+    const slack = Math.max(0, el.height - lines.length * lineHeight);
+    const top = el.y + (el.verticalAlign === 'middle' ? slack / 2 : el.verticalAlign === 'bottom' ? slack : 0);
+    const x = textAlign === 'center' ? el.x + el.width / 2 : textAlign === 'right' ? el.x + el.width : el.x;
+
+    nodes.push({
+      kind: 'text',
+      x,
+      y: Math.round((top + baselineOffset(typeface, fontSize, lineHeight)) * 100) / 100,
+      lines,
+      fontSize,
+      lineHeight,
+      textAlign,
+      fontName: typeface.name,
+      fontFamily: typeface.css,
+      color: stroke
+    });
+    return nodes;
+  }
+
+  if (el.type === 'frame' || el.type === 'magicframe') {
+    nodes.push({
+      kind: 'path',
+      ops: roundedRectOps(el.x, el.y, el.width, el.height, FRAME_STYLE.radius),
+      fill,
+      stroke: themeColor(FRAME_STYLE.strokeColor, options),
+      strokeWidth: FRAME_STYLE.strokeWidth,
+      dash: null
+    });
+    nodes.push(labelNode(
+      frameName(el),
+      el.x,
+      el.y - frameLabelHeight(),
+      FRAME_STYLE.nameFontSize,
+      'left',
+      themeColor(FRAME_STYLE.nameColor, options)
+    ));
+    return nodes;
+  }
+
+  if (el.type === 'image') {
+    return imageNodes(el, files, options);
+  }
+
+  if (el.type === 'embeddable' || el.type === 'iframe') {
+    return embedCardNodes(el, stroke, options);
+  }
+
+  if (el.type === 'freedraw') {
+    const ops = freedrawOps(el);
+    if (ops.length > 0 && stroke) {
+      nodes.push({ kind: 'path', ops, fill: stroke, stroke: null, strokeWidth: 0, dash: null });
+    }
+    return nodes;
+  }
+
+  const sketch = useRough ? roughShapeFor(el, fill !== null) : null;
+  if (sketch) {
+    if (sketch.fill && fill) {
+      nodes.push(fillNode(sketch.fill, fill, el.strokeWidth));
+    }
+    nodes.push({ kind: 'path', ops: sketch.stroke.ops, fill: null, stroke, strokeWidth: el.strokeWidth, dash });
+  } else {
+    const ops = crispOps(el);
+    if (!ops) {
+      return nodes;
+    }
+    const isClosed = el.type !== 'line' && el.type !== 'arrow';
+    let solidFill = isClosed ? fill : null;
+
+    // Pattern fills are drawn as lines even in crisp mode
+    if (solidFill && el.fillStyle !== 'solid') {
+      const pattern = roughShapeFor(el, true, true)?.fill;
+      if (pattern) {
+        nodes.push(fillNode(pattern, solidFill, el.strokeWidth));
+        solidFill = null;
+      }
+    }
+    nodes.push({ kind: 'path', ops, fill: solidFill, stroke, strokeWidth: el.strokeWidth, dash });
+  }
+
+  nodes.push(...arrowheadNodes(el, stroke, options));
+  return nodes;
+}
+
+/** Spoken names of element types */
+const TYPE_NAMES: Record<string, string> = {
+  rectangle: 'Rectangle',
+  ellipse: 'Ellipse',
+  diamond: 'Diamond',
+  line: 'Line',
+  arrow: 'Arrow',
+  freedraw: 'Drawing',
+  frame: 'Frame',
+  magicframe: 'Frame',
+  image: 'Image',
+  embeddable: 'Embedded content',
+  iframe: 'Embedded content'
+};
+
+/** Shapes that free-standing text can be placed inside as a label */
+const LABELLED_TYPES = new Set(['rectangle', 'ellipse', 'diamond', 'image', 'embeddable', 'iframe']);
+
+/**
+ * Text labelling each element: text bound to it through containerId, or
+ * free-standing text whose centre lies inside it (the innermost shape wins)
+ */
+function elementLabels(elements: ExcalidrawElement[]): Map<string, string> {
+  const labels = new Map<string, string>();
+  const shapes = elements.filter(el => LABELLED_TYPES.has(el.type));
+
+  for (const el of elements) {
+    if (el.type !== 'text' || !el.text.trim()) {
+      continue;
+    }
+    const text = el.text.replace(/\s+/g, ' ').trim();
+    if (el.containerId) {
+      labels.set(el.containerId, text);
+      continue;
+    }
+    const cx = el.x + el.width / 2;
+    const cy = el.y + el.height / 2;
+    const container = shapes
+      .filter(shape => cx >= shape.x && cx <= shape.x + shape.width && cy >= shape.y && cy <= shape.y + shape.height)
+      .sort((a, b) => a.width * a.height - b.width * b.height)[0];
+    if (container && !labels.has(container.id)) {
+      labels.set(container.id, text);
+    }
+  }
+  return labels;
+}
+
+/**
+ * Accessible name and description for an element; arrows are described by
+ * what they connect
+ */
+function accessibleText(
+  el: ExcalidrawElement,
+  labels: Map<string, string>,
+  byId: Map<string, ExcalidrawElement>
+): { title?: string; description?: string } {
+  const title = labels.get(el.id) ?? (frameName(el) || undefined);
+  const typeName = TYPE_NAMES[el.type];
+  if (!typeName) {
+    return {};
+  }
+
+  if (el.type === 'arrow' || el.type === 'line') {
+    const endName = (id?: string) => {
+      const target = id ? byId.get(id) : undefined;
+      return target ? labels.get(target.id) ?? TYPE_NAMES[target.type]?.toLowerCase() ?? target.type : undefined;
+    };
+    const from = endName(el.startBinding?.elementId);
+    const to = endName(el.endBinding?.elementId);
+    if (from || to) {
+      const description = [typeName, from && `from ${from}`, to && `to ${to}`].filter(Boolean).join(' ');
+      return { title, description };
+    }
+  }
+  return title ? { title, description: typeName } : {};
+}
+
+/** Links that are safe to follow from an exported document */
+function safeLink(link: string | null): string | undefined {
+  const trimmed = link?.trim();
+  if (!trimmed || /^(javascript|vbscript|data):/i.test(trimmed.replace(/[\s\u0000-\u001f]/g, ''))) {
+    return undefined;
+  }
+  return trimmed;
+}
+
+/**
+ * Build the export scene for a file's visible elements
+ *
+ * Elements inside a frame are clipped to it, and frame name labels above the
+ * drawing are kept inside the exported area.
+ */
+export function buildScene(file: ExcalidrawFile, options: SceneOptions): Scene {
+  const elements = file.elements.filter(el => !el.isDeleted);
+  const bounds = calculateBounds(elements);
+  const frames = new Map(
+    elements.filter(el => el.type === 'frame' || el.type === 'magicframe').map(el => [el.id, el])
+  );
+  const byId = new Map(elements.map(el => [el.id, el]));
+  const labels = elementLabels(elements);
+
+  for (const frame of frames.values()) {
+    const labelTop = frame.y - frameLabelHeight();
+    if (labelTop < bounds.y) {
+      bounds.height += bounds.y - labelTop;
+      bounds.y = labelTop;
+    }
+  }
+
+  const nodes: SceneNode[] = [];
+  for (const el of elements) {
+    const children = elementNodes(el, options, file.files ?? {});
+    if (children.length === 0) {
+      continue;
+    }
+    const center = getElementCenter(el);
+    const group: GroupNode = {
+      kind: 'group',
+      opacity: el.opacity / 100,
+      rotation: el.angle ? { angle: (el.angle * 180) / Math.PI, cx: center.x, cy: center.y } : null,
+      children
+    };
+
+    const link = safeLink(el.link);
+    if (link) {
+      group.link = link;
+    }
+    const { title, description } = accessibleText(el, labels, byId);
+    if (title) {
+      group.title = title;
+    }
+    if (description) {
+      group.description = description;
+    }
+
+    const frame = el.frameId ? frames.get(el.frameId) : undefined;
+    if (frame) {
+      group.clip = polylineOps([
+        [frame.x, frame.y],
+        [frame.x + frame.width, frame.y],
+        [frame.x + frame.width, frame.y + frame.height],
+        [frame.x, frame.y + frame.height]
+      ], true);
+    }
+    nodes.push(group);
+  }
+
+  return {
+    width: bounds.width + options.padding * 2,
+    height: bounds.height + options.padding * 2,
+    background: themeColor(options.backgroundColor, options, '#ffffff'),
+    offsetX: -bounds.x + options.padding,
+    offsetY: -bounds.y + options.padding,
+    nodes
+  };
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { subsetFont } from './subset.js';
+
+function buildFont(tables: Record<string, Buffer>): Buffer {
+  const tags = Object.keys(tables).sort();
+  const header = Buffer.alloc(12 + tags.length * 16);
+  header.writeUInt32BE(0x00010000, 0);
+  header.writeUInt16BE(tags.length, 4);
+  const bodies: Buffer[] = [];
+  let offset = header.length;
+  tags.forEach((tag, i) => {
+    const data = tables[tag];
+    header.write(tag, 12 + i * 16, 'latin1');
+    header.writeUInt32BE(offset, 12 + i * 16 + 8);
+    header.writeUInt32BE(data.length, 12 + i * 16 + 12);
+    const padded = Buffer.concat([data, Buffer.alloc((4 - (data.length % 4)) % 4)]);
+    bodies.push(padded);
+    offset += padded.length;
+  });
+  return Buffer.concat([header, ...bodies]);
+}
+
+function readTable(font: Buffer, tag: string): Buffer {
+  const numTables = font.readUInt16BE(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    if (font.toString('latin1', record, record + 4) === tag) {
+      const offset = font.readUInt32BE(record + 8);
+      return font.subarray(offset, offset + font.readUInt32BE(record + 12));
+    }
+  }
+  throw new Error(`Missing ${tag}`);
+}
+
+/** Font with .notdef, A and B as simple glyphs and C as a composite of B */
+function testFont(): Buffer {
+  const simple = (byte: number) => Buffer.from([0, 1, ...new Array(10).fill(byte)]);
+  const composite = Buffer.alloc(16);
+  composite.writeInt16BE(-1, 0);
+  composite.writeUInt16BE(0, 10); // flags: byte args, last component
+  composite.writeUInt16BE(2, 12); // glyph B
+  const glyphs = [simple(0), simple(1), simple(2), composite];
+
+  const loca = Buffer.alloc(glyphs.length * 2 + 2);
+  let offset = 0;
+  glyphs.forEach((glyph, i) => {
+    loca.writeUInt16BE(offset / 2, i * 2);
+    offset += glyph.length;
+  });
+  loca.writeUInt16BE(offset / 2, glyphs.length * 2);
+
+  const head = Buffer.alloc(54);
+  head.writeInt16BE(0, 50);
+  const maxp = Buffer.alloc(6);
+  maxp.writeUInt32BE(0x00005000, 0);
+  maxp.writeUInt16BE(glyphs.length, 4);
+
+  // cmap format 4: A-C map to glyphs 1-3, then the 0xFFFF terminator
+  const cmap = Buffer.alloc(12 + 32);
+  cmap.writeUInt16BE(1, 2);
+  cmap.writeUInt16BE(3, 4);
+  cmap.writeUInt16BE(1, 6);
+  cmap.writeUInt32BE(12, 8);
+  const sub = cmap.subarray(12);
+  sub.writeUInt16BE(4, 0);
+  sub.writeUInt16BE(32, 2);
+  sub.writeUInt16BE(4, 6);
+  sub.writeUInt16BE(67, 14);
+  sub.writeUInt16BE(0xffff, 16);
+  sub.writeUInt16BE(65, 20);
+  sub.writeUInt16BE(0xffff, 22);
+  sub.writeInt16BE(-64, 24);
+  sub.writeInt16BE(1, 26);
+
+  return buildFont({ head, maxp, cmap, loca, glyf: Buffer.concat(glyphs), DSIG: Buffer.alloc(8) });
+}
+
+function glyphLengths(font: Buffer): number[] {
+  const loca = readTable(font, 'loca');
+  const lengths: number[] = [];
+  for (let i = 0; i + 8 <= loca.length; i += 4) {
+    lengths.push(loca.readUInt32BE(i + 4) - loca.readUInt32BE(i));
+  }
+  return lengths;
+}
+
+describe('subsetFont', () => {
+  it('should keep only the glyphs used, including composite parts', () => {
+    const { data, subsetted } = subsetFont(testFont(), 'CC');
+
+    expect(subsetted).toBe(true);
+    expect(glyphLengths(data)).toEqual([12, 0, 12, 16]);
+    expect(readTable(data, 'head').readInt16BE(50)).toBe(1);
+  });
+
+  it('should drop tables invalidated by subsetting', () => {
+    const { data } = subsetFont(testFont(), 'A');
+
+    expect(() => readTable(data, 'DSIG')).toThrow();
+    expect(glyphLengths(data)).toEqual([12, 12, 0, 0]);
+  });
+
+  it('should write a valid whole-font checksum', () => {
+    const { data } = subsetFont(testFont(), 'A');
+    let sum = 0;
+    for (let i = 0; i < data.length; i += 4) {
+      sum = (sum + data.readUInt32BE(i)) >>> 0;
+    }
+
+    expect(sum).toBe(0xb1b0afba);
+  });
+
+  it('should return fonts it cannot subset unchanged', () => {
+    const woff2 = Buffer.from('wOF2 not really a font');
+
+    expect(subsetFont(woff2, 'A')).toEqual({ data: woff2, subsetted: false });
+  });
+});
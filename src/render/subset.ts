@@ -0,0 +1,237 @@
+/**
+ * Minimal TrueType subsetting for embedded fonts
+ *
+ * Glyph outlines not needed for the given text are dropped from `glyf`
+ * while glyph ids stay the same, so `cmap`, `hmtx` and layout tables remain
+ * valid untouched. WOFF files are unpacked first; CFF-based OpenType and
+ * WOFF2 fonts are returned as-is.
+ */
+
+import { inflateSync } from 'node:zlib';
+
+interface Table {
+  tag: string;
+  data: Buffer;
+}
+
+/** Tables whose contents would be invalidated by subsetting */
+const DROPPED_TABLES = new Set(['DSIG', 'hdmx', 'LTSH', 'VDMX']);
+
+function readSfnt(font: Buffer): { version: number; tables: Map<string, Buffer> } {
+  const tables = new Map<string, Buffer>();
+  const numTables = font.readUInt16BE(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    const tag = font.toString('latin1', record, record + 4);
+    const offset = font.readUInt32BE(record + 8);
+    const length = font.readUInt32BE(record + 12);
+    tables.set(tag, font.subarray(offset, offset + length));
+  }
+  return { version: font.readUInt32BE(0), tables };
+}
+
+/**
+ * Unpack a WOFF (version 1) file into a plain sfnt font
+ */
+function unpackWoff(woff: Buffer): Buffer {
+  const numTables = woff.readUInt16BE(12);
+  const tables: Table[] = [];
+  for (let i = 0; i < numTables; i++) {
+    const entry = 44 + i * 20;
+    const tag = woff.toString('latin1', entry, entry + 4);
+    const offset = woff.readUInt32BE(entry + 4);
+    const compLength = woff.readUInt32BE(entry + 8);
+    const origLength = woff.readUInt32BE(entry + 12);
+    const data = woff.subarray(offset, offset + compLength);
+    tables.push({ tag, data: compLength < origLength ? inflateSync(data) : data });
+  }
+  return writeSfnt(woff.readUInt32BE(4), tables);
+}
+
+function checksum(data: Buffer): number {
+  let sum = 0;
+  const padded = Buffer.concat([data, Buffer.alloc((4 - (data.length % 4)) % 4)]);
+  for (let i = 0; i < padded.length; i += 4) {
+    sum = (sum + padded.readUInt32BE(i)) >>> 0;
+  }
+  return sum;
+}
+
+function writeSfnt(version: number, tables: Table[]): Buffer {
+  // checkSumAdjustment is computed over the whole font with itself zeroed
+  const sorted = tables.map(t => {
+    if (t.tag !== 'head') return t;
+    const data = Buffer.from(t.data);
+    data.writeUInt32BE(0, 8);
+    return { tag: t.tag, data };
+  }).sort((a, b) => (a.tag < b.tag ? -1 : a.tag > b.tag ? 1 : 0));
+  const numTables = sorted.length;
+  const entrySelector = Math.floor(Math.log2(numTables));
+  const searchRange = 2 ** entrySelector * 16;
+
+  const header = Buffer.alloc(12 + numTables * 16);
+  header.writeUInt32BE(version, 0);
+  header.writeUInt16BE(numTables, 4);
+  header.writeUInt16BE(searchRange, 6);
+  header.writeUInt16BE(entrySelector, 8);
+  header.writeUInt16BE(numTables * 16 - searchRange, 10);
+
+  const bodies: Buffer[] = [];
+  let offset = header.length;
+  sorted.forEach((table, i) => {
+    const record = 12 + i * 16;
+    header.write(table.tag, record, 'latin1');
+    header.writeUInt32BE(checksum(table.data), record + 4);
+    header.writeUInt32BE(offset, record + 8);
+    header.writeUInt32BE(table.data.length, record + 12);
+    const padding = (4 - (table.data.length % 4)) % 4;
+    bodies.push(table.data, Buffer.alloc(padding));
+    offset += table.data.length + padding;
+  });
+
+  const font = Buffer.concat([header, ...bodies]);
+  const head = sorted.findIndex(t => t.tag === 'head');
+  if (head >= 0) {
+    const headOffset = header.readUInt32BE(12 + head * 16 + 8);
+    font.writeUInt32BE((0xb1b0afba - checksum(font)) >>> 0, headOffset + 8);
+  }
+  return font;
+}
+
+/**
+ * Map code points to glyph ids using the best Unicode cmap subtable
+ */
+function glyphIdsFor(cmap: Buffer, codePoints: number[]): number[] {
+  const numSubtables = cmap.readUInt16BE(2);
+  let format4 = -1;
+  let format12 = -1;
+  for (let i = 0; i < numSubtables; i++) {
+    const record = 4 + i * 8;
+    const platform = cmap.readUInt16BE(record);
+    const encoding = cmap.readUInt16BE(record + 2);
+    const offset = cmap.readUInt32BE(record + 4);
+    const format = cmap.readUInt16BE(offset);
+    const unicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+    if (unicode && format === 12) format12 = offset;
+    if (unicode && format === 4) format4 = offset;
+  }
+
+  if (format12 >= 0) {
+    const groups = cmap.readUInt32BE(format12 + 12);
+    return codePoints.map(cp => {
+      for (let g = 0; g < groups; g++) {
+        const group = format12 + 16 + g * 12;
+        const start = cmap.readUInt32BE(group);
+        if (cp >= start && cp <= cmap.readUInt32BE(group + 4)) {
+          return cmap.readUInt32BE(group + 8) + cp - start;
+        }
+      }
+      return 0;
+    });
+  }
+
+  if (format4 >= 0) {
+    const segCount = cmap.readUInt16BE(format4 + 6) / 2;
+    const endCodes = format4 + 14;
+    const startCodes = endCodes + segCount * 2 + 2;
+    const idDeltas = startCodes + segCount * 2;
+    const idRangeOffsets = idDeltas + segCount * 2;
+    return codePoints.map(cp => {
+      for (let s = 0; s < segCount; s++) {
+        if (cp > cmap.readUInt16BE(endCodes + s * 2)) continue;
+        const start = cmap.readUInt16BE(startCodes + s * 2);
+        if (cp < start) return 0;
+        const delta = cmap.readInt16BE(idDeltas + s * 2);
+        const rangeOffset = cmap.readUInt16BE(idRangeOffsets + s * 2);
+        if (rangeOffset === 0) return (cp + delta) & 0xffff;
+        const glyph = cmap.readUInt16BE(idRangeOffsets + s * 2 + rangeOffset + (cp - start) * 2);
+        return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+      }
+      return 0;
+    });
+  }
+  return [];
+}
+
+/** Glyph ids referenced by a composite glyph */
+function componentGlyphs(glyph: Buffer): number[] {
+  if (glyph.length < 10 || glyph.readInt16BE(0) >= 0) {
+    return [];
+  }
+  const components: number[] = [];
+  let offset = 10;
+  let flags: number;
+  do {
+    flags = glyph.readUInt16BE(offset);
+    components.push(glyph.readUInt16BE(offset + 2));
+    offset += 4 + (flags & 0x1 ? 4 : 2);
+    if (flags & 0x8) offset += 2;
+    else if (flags & 0x40) offset += 4;
+    else if (flags & 0x80) offset += 8;
+  } while (flags & 0x20 && offset < glyph.length);
+  return components;
+}
+
+/**
+ * Subset a font to the characters in `text`. Returns the original data
+ * when the font can't be subsetted.
+ */
+export function subsetFont(font: Buffer, text: string): { data: Buffer; subsetted: boolean } {
+  const signature = font.toString('latin1', 0, 4);
+  if (signature === 'wOF2' || signature === 'OTTO') {
+    return { data: font, subsetted: false };
+  }
+
+  const sfnt = signature === 'wOFF' ? unpackWoff(font) : font;
+  const { version, tables } = readSfnt(sfnt);
+  const [head, maxp, cmap, loca, glyf] = ['head', 'maxp', 'cmap', 'loca', 'glyf'].map(tag => tables.get(tag));
+  if (!head || !maxp || !cmap || !loca || !glyf) {
+    return { data: font, subsetted: false };
+  }
+
+  const numGlyphs = maxp.readUInt16BE(4);
+  const longOffsets = head.readInt16BE(50) === 1;
+  const glyphAt = (id: number): Buffer => {
+    const start = longOffsets ? loca.readUInt32BE(id * 4) : loca.readUInt16BE(id * 2) * 2;
+    const end = longOffsets ? loca.readUInt32BE(id * 4 + 4) : loca.readUInt16BE(id * 2 + 2) * 2;
+    return glyf.subarray(start, end);
+  };
+
+  // .notdef plus every glyph the text needs, following composite references
+  const keep = new Set<number>([0]);
+  const pending = glyphIdsFor(cmap, Array.from(new Set(text), ch => ch.codePointAt(0) ?? 0));
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (id < numGlyphs && !keep.has(id)) {
+      keep.add(id);
+      pending.push(...componentGlyphs(glyphAt(id)));
+    }
+  }
+
+  const newLoca = Buffer.alloc((numGlyphs + 1) * 4);
+  const outlines: Buffer[] = [];
+  let offset = 0;
+  for (let id = 0; id < numGlyphs; id++) {
+    newLoca.writeUInt32BE(offset, id * 4);
+    if (keep.has(id)) {
+      const glyph = glyphAt(id);
+      const padded = Buffer.concat([glyph, Buffer.alloc((4 - (glyph.length % 4)) % 4)]);
+      outlines.push(padded);
+      offset += padded.length;
+    }
+  }
+  newLoca.writeUInt32BE(offset, numGlyphs * 4);
+
+  const newHead = Buffer.from(head);
+  newHead.writeInt16BE(1, 50);
+
+  const out: Table[] = [];
+  for (const [tag, data] of tables) {
+    if (DROPPED_TABLES.has(tag)) continue;
+    if (tag === 'glyf') out.push({ tag, data: Buffer.concat(outlines) });
+    else if (tag === 'loca') out.push({ tag, data: newLoca });
+    else if (tag === 'head') out.push({ tag, data: newHead });
+    else out.push({ tag, data });
+  }
+  return { data: writeSfnt(version, out), subsetted: true };
+}
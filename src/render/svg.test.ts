@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { buildScene } from './scene.js';
+import { sceneToSvg } from './svg.js';
+import { createElement } from '../utils/element.js';
+import { createEmptyFile } from '../utils/file.js';
+
+describe('sceneToSvg', () => {
+  it('should keep whitespace out of preformatted text except its own', () => {
+    const text = createElement({ type: 'text', x: 0, y: 0, text: 'First line\n  indented', textAlign: 'center' });
+    const file = { ...createEmptyFile(), elements: [text] };
+    const svg = sceneToSvg(buildScene(file, { padding: 10, backgroundColor: '#ffffff', dark: false }));
+
+    const [, content] = /<text [^>]*style="white-space: pre">(.*?)<\/text>/.exec(svg) ?? [];
+    expect(content).toMatch(/^<tspan [^>]*>First line<\/tspan><tspan [^>]*>  indented<\/tspan>$/);
+  });
+});
@@ -0,0 +1,163 @@
+import { buildScene } from './scene.js';
+import { opsToPath } from './rough.js';
+import type { Scene, SceneNode, SceneOptions } from './scene.js';
+import type { ExcalidrawFile } from '../types/excalidraw.js';
+
+export type SvgOptions = SceneOptions;
+
+/** Extra content for the SVG document */
+export interface SvgDocumentOptions {
+  /** Stylesheet placed in <defs>, e.g. embedded @font-face rules */
+  css?: string;
+  /** Accessible name of the drawing (default: derived from its text) */
+  title?: string;
+}
+
+/** Most text snippets listed in a derived accessible name */
+const MAX_LABEL_PARTS = 10;
+
+/** Running state while writing one document */
+interface SvgContext {
+  clipCount: number;
+}
+
+function renderNode(node: SceneNode, indent: string, context: SvgContext): string {
+  switch (node.kind) {
+    case 'path': {
+      let svg = `${indent}<path d="${opsToPath(node.ops)}" `;
+      svg += `fill="${escapeXml(node.fill ?? 'none')}" stroke="${escapeXml(node.stroke ?? 'none')}"`;
+      if (node.stroke) {
+        svg += ` stroke-width="${node.strokeWidth}" stroke-linecap="round" stroke-linejoin="round"`;
+        if (node.dash) svg += ` stroke-dasharray="${node.dash.join(' ')}"`;
+      }
+      return svg + `/>\n`;
+    }
+
+    case 'text': {
+      const anchor = node.textAlign === 'center' ? 'middle' : node.textAlign === 'right' ? 'end' : 'start';
+      let svg = `${indent}<text x="${node.x}" y="${node.y}" fill="${escapeXml(node.color)}" `;
+      svg += `font-size="${node.fontSize}" font-family="${escapeXml(node.fontFamily)}" `;
+      svg += `text-anchor="${anchor}" style="white-space: pre">`;
+      // No whitespace between lines: under pre it would be measured as part of them
+      for (let i = 0; i < node.lines.length; i++) {
+        svg += `<tspan x="${node.x}" dy="${i === 0 ? 0 : node.lineHeight}">${escapeXml(node.lines[i])}</tspan>`;
+      }
+      return svg + `</text>\n`;
+    }
+
+    case 'image': {
+      // Flips mirror the image within its own box
+      const sx = node.flipX ? -1 : 1;
+      const sy = node.flipY ? -1 : 1;
+      const flip = node.flipX || node.flipY
+        ? ` transform="translate(${node.flipX ? node.x * 2 + node.width : 0} ${node.flipY ? node.y * 2 + node.height : 0}) scale(${sx} ${sy})"`
+        : '';
+      let svg = `${indent}<image x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" `;
+      svg += `preserveAspectRatio="none" href="${escapeXml(node.href)}"${flip}/>\n`;
+      return svg;
+    }
+
+    case 'group': {
+      let attrs = '';
+      if (node.rotation) {
+        attrs += ` transform="rotate(${node.rotation.angle} ${node.rotation.cx} ${node.rotation.cy})"`;
+      }
+      if (node.opacity !== 1) {
+        attrs += ` opacity="${node.opacity}"`;
+      }
+
+      // Clip paths are in the parent's coordinates, so they wrap the rotated group
+      let clipStart = '';
+      let clipEnd = '';
+      let inner = indent;
+      if (node.clip) {
+        const id = `clip-${context.clipCount++}`;
+        clipStart = `${indent}<clipPath id="${id}">\n${indent}  <path d="${opsToPath(node.clip)}"/>\n${indent}</clipPath>\n`;
+        clipStart += `${indent}<g clip-path="url(#${id})">\n`;
+        clipEnd = `${indent}</g>\n`;
+        inner = indent + '  ';
+      }
+
+      let svg = `${clipStart}${inner}<g${attrs}>\n`;
+      if (node.title) {
+        svg += `${inner}  <title>${escapeXml(node.title)}</title>\n`;
+      }
+      if (node.description) {
+        svg += `${inner}  <desc>${escapeXml(node.description)}</desc>\n`;
+      }
+      for (const child of node.children) {
+        svg += renderNode(child, inner + '  ', context);
+      }
+      svg += `${inner}</g>\n${clipEnd}`;
+
+      if (!node.link) {
+        return svg;
+      }
+      // Re-indent the element inside its link
+      const body = svg.replace(/^/gm, '  ').replace(/ +$/, '');
+      return `${indent}<a href="${escapeXml(node.link)}">\n${body}${indent}</a>\n`;
+    }
+  }
+}
+
+/**
+ * Accessible name for a drawing, listing the text it contains
+ */
+export function sceneLabel(scene: Scene): string {
+  const parts: string[] = [];
+  const visit = (node: SceneNode) => {
+    if (node.kind === 'text') {
+      parts.push(node.lines.join(' ').replace(/\s+/g, ' ').trim());
+    } else if (node.kind === 'group') {
+      node.children.forEach(visit);
+    }
+  };
+  scene.nodes.forEach(visit);
+
+  const unique = [...new Set(parts.filter(Boolean))];
+  if (unique.length === 0) {
+    return 'Diagram';
+  }
+  const more = unique.length > MAX_LABEL_PARTS ? ', ...' : '';
+  return `Diagram: ${unique.slice(0, MAX_LABEL_PARTS).join(', ')}${more}`;
+}
+
+/**
+ * Serialize a scene as an SVG document
+ */
+export function sceneToSvg(scene: Scene, options: SvgDocumentOptions = {}): string {
+  const { width, height } = scene;
+  const label = escapeXml(options.title ?? sceneLabel(scene));
+
+  let svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="${label}">\n`;
+  if (options.css) {
+    svg += `  <defs>\n    <style>\n${options.css}\n    </style>\n  </defs>\n`;
+  }
+  svg += `  <rect width="100%" height="100%" fill="${escapeXml(scene.background)}"/>\n`;
+  svg += `  <g transform="translate(${scene.offsetX}, ${scene.offsetY})">\n`;
+  const context: SvgContext = { clipCount: 0 };
+  for (const node of scene.nodes) {
+    svg += renderNode(node, '    ', context);
+  }
+  svg += `  </g>\n`;
+  svg += `</svg>`;
+
+  return svg;
+}
+
+/**
+ * Generate SVG from Excalidraw elements
+ * For full fidelity, use Playwright with the actual Excalidraw renderer
+ */
+export function generateSvg(file: ExcalidrawFile, options: SvgOptions): string {
+  return sceneToSvg(buildScene(file, options));
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { baselineOffset, embedFonts, findFontFile, getTypeface } from './typeface.js';
+
+describe('typefaces', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'excalidraw-fonts-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should map font family ids to typefaces', () => {
+    expect(getTypeface(1).name).toBe('Virgil');
+    expect(getTypeface(2).css).toContain('sans-serif');
+    expect(getTypeface(3).css).toContain('monospace');
+    expect(getTypeface(5).name).toBe('Excalifont');
+    expect(getTypeface(42).name).toBe('Virgil');
+  });
+
+  it('should centre the font ascent and descent in the line box', () => {
+    const virgil = getTypeface(1);
+
+    // 20px Virgil: ascent 17.72, descent 7.48, line gap split evenly
+    expect(baselineOffset(virgil, 20, 25.2)).toBeCloseTo(17.72);
+    expect(baselineOffset(virgil, 20, 35.2)).toBeCloseTo(22.72);
+  });
+
+  it('should find font files by family name', () => {
+    fs.writeFileSync(path.join(tempDir, 'Cascadia-Regular.woff2'), 'font');
+    fs.writeFileSync(path.join(tempDir, 'notes.txt'), 'Virgil');
+
+    expect(findFontFile('Cascadia', tempDir)).toBe(path.join(tempDir, 'Cascadia-Regular.woff2'));
+    expect(findFontFile('Virgil', tempDir)).toBeNull();
+  });
+
+  it('should embed fonts as data URIs and report missing ones', () => {
+    fs.writeFileSync(path.join(tempDir, 'Virgil.woff2'), 'wOF2 font data');
+
+    const fonts = embedFonts(new Map([['Virgil', 'Hi'], ['Helvetica', 'there']]), tempDir);
+
+    expect(fonts.embedded).toEqual(['Virgil']);
+    expect(fonts.missing).toEqual(['Helvetica']);
+    expect(fonts.css).toContain("font-family: 'Virgil'");
+    expect(fonts.css).toContain("url(data:font/woff2;base64,d09GMiBmb250IGRhdGE=) format('woff2')");
+  });
+});
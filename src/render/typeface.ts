@@ -0,0 +1,128 @@
+/**
+ * Excalidraw font families: CSS stacks, vertical metrics and @font-face
+ * embedding from local font files
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { subsetFont } from './subset.js';
+import type { Scene, SceneNode } from './scene.js';
+
+export interface Typeface {
+  /** Family name used in @font-face and to find font files */
+  name: string;
+  /** CSS font-family stack with portable fallbacks */
+  css: string;
+  unitsPerEm: number;
+  ascender: number;
+  descender: number;
+}
+
+const TYPEFACES: Record<number, Typeface> = {
+  1: { name: 'Virgil', css: "Virgil, 'Segoe Print', 'Comic Sans MS', cursive", unitsPerEm: 1000, ascender: 886, descender: -374 },
+  2: { name: 'Helvetica', css: 'Helvetica, Arial, sans-serif', unitsPerEm: 2048, ascender: 1577, descender: -471 },
+  3: { name: 'Cascadia', css: "Cascadia, 'Cascadia Code', Consolas, monospace", unitsPerEm: 2048, ascender: 1900, descender: -480 },
+  4: { name: 'Assistant', css: 'Assistant, sans-serif', unitsPerEm: 1000, ascender: 1021, descender: -287 },
+  5: { name: 'Excalifont', css: "Excalifont, Virgil, 'Segoe Print', 'Comic Sans MS', cursive", unitsPerEm: 1000, ascender: 886, descender: -374 }
+};
+
+const FONT_FORMATS: Record<string, string> = {
+  '.ttf': 'truetype',
+  '.otf': 'opentype',
+  '.woff': 'woff',
+  '.woff2': 'woff2'
+};
+
+/**
+ * Typeface for an Excalidraw fontFamily id, falling back to Virgil
+ */
+export function getTypeface(fontFamily: number | undefined): Typeface {
+  return TYPEFACES[fontFamily ?? 1] ?? TYPEFACES[1];
+}
+
+/**
+ * Distance from the top of a line box to its baseline, matching how
+ * Excalidraw centres the font's ascent and descent within the line height
+ */
+export function baselineOffset(typeface: Typeface, fontSize: number, lineHeightPx: number): number {
+  const em = fontSize / typeface.unitsPerEm;
+  const lineGap = lineHeightPx - em * typeface.ascender + em * typeface.descender;
+  return em * typeface.ascender + lineGap / 2;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '').replace(/regular$/, '');
+}
+
+/**
+ * Find a font file for a family in a directory, e.g. `Virgil.woff2` or
+ * `Cascadia-Regular.ttf`
+ */
+export function findFontFile(name: string, dir: string): string | null {
+  if (!fs.existsSync(dir)) {
+    return null;
+  }
+  const wanted = normalizeName(name);
+  for (const entry of fs.readdirSync(dir).sort()) {
+    const ext = path.extname(entry).toLowerCase();
+    if (FONT_FORMATS[ext] && normalizeName(path.basename(entry, path.extname(entry))) === wanted) {
+      return path.join(dir, entry);
+    }
+  }
+  return null;
+}
+
+/**
+ * @font-face rule with the font inlined as a data URI, subsetted to the
+ * characters used where the font format allows it
+ */
+export function fontFaceRule(name: string, fontPath: string, text: string): string {
+  const ext = path.extname(fontPath).toLowerCase();
+  const { data, subsetted } = subsetFont(fs.readFileSync(fontPath), text);
+  const format = subsetted ? 'truetype' : FONT_FORMATS[ext];
+  const mime = subsetted ? 'font/ttf' : `font/${ext.slice(1)}`;
+  return `@font-face { font-family: '${name}'; src: url(data:${mime};base64,${data.toString('base64')}) format('${format}'); }`;
+}
+
+export interface EmbeddedFonts {
+  /** CSS with one @font-face rule per embedded family */
+  css: string;
+  embedded: string[];
+  missing: string[];
+}
+
+/**
+ * Build @font-face rules for the given families from a font directory
+ */
+export function embedFonts(textByFamily: Map<string, string>, dir: string): EmbeddedFonts {
+  const rules: string[] = [];
+  const embedded: string[] = [];
+  const missing: string[] = [];
+
+  for (const [name, text] of textByFamily) {
+    const fontPath = findFontFile(name, dir);
+    if (!fontPath) {
+      missing.push(name);
+      continue;
+    }
+    rules.push(fontFaceRule(name, fontPath, text));
+    embedded.push(name);
+  }
+  return { css: rules.join('\n'), embedded, missing };
+}
+
+/**
+ * Characters drawn in each font family of a scene
+ */
+export function textByTypeface(scene: Scene): Map<string, string> {
+  const text = new Map<string, string>();
+  const visit = (node: SceneNode) => {
+    if (node.kind === 'group') {
+      node.children.forEach(visit);
+    } else if (node.kind === 'text') {
+      text.set(node.fontName, (text.get(node.fontName) ?? '') + node.lines.join(''));
+    }
+  };
+  scene.nodes.forEach(visit);
+  return text;
+}
@@ -2,12 +2,25 @@
  * Excalidraw element types and file format definitions
  */
 
-export type FillStyle = 'solid' | 'hachure' | 'cross-hatch';
+export type FillStyle = 'solid' | 'hachure' | 'cross-hatch' | 'zigzag';
 export type StrokeStyle = 'solid' | 'dashed' | 'dotted';
-export type Arrowhead = null | 'arrow' | 'bar' | 'dot' | 'triangle';
+export type Arrowhead =
+  | null
+  | 'arrow'
+  | 'bar'
+  | 'dot'
+  | 'circle'
+  | 'circle_outline'
+  | 'triangle'
+  | 'triangle_outline'
+  | 'diamond'
+  | 'diamond_outline'
+  | 'crowfoot_one'
+  | 'crowfoot_many'
+  | 'crowfoot_one_or_many';
 export type TextAlign = 'left' | 'center' | 'right';
 export type VerticalAlign = 'top' | 'middle' | 'bottom';
-export type FontFamily = 1 | 2 | 3; // 1=Virgil, 2=Helvetica, 3=Cascadia
+export type FontFamily = 1 | 2 | 3 | 4 | 5; // 1=Virgil, 2=Helvetica, 3=Cascadia, 4=Assistant, 5=Excalifont
 
 export interface Roundness {
   type: 1 | 2 | 3;
@@ -90,13 +103,34 @@ export interface FreeDrawElement extends BaseElement {
   simulatePressure: boolean;
 }
 
+export interface FrameElement extends BaseElement {
+  type: 'frame' | 'magicframe';
+  name: string | null;
+}
+
+export interface ImageElement extends BaseElement {
+  type: 'image';
+  /** Key into the file's `files` map */
+  fileId: string | null;
+  status: 'pending' | 'saved' | 'error';
+  /** Horizontal and vertical flip (1 or -1) */
+  scale: [number, number];
+}
+
+export interface EmbeddableElement extends BaseElement {
+  type: 'embeddable' | 'iframe';
+}
+
 export type ExcalidrawElement =
   | RectangleElement
   | EllipseElement
   | DiamondElement
   | TextElement
   | LinearElement
-  | FreeDrawElement;
+  | FreeDrawElement
+  | FrameElement
+  | ImageElement
+  | EmbeddableElement;
 
 export type ElementType = ExcalidrawElement['type'];
 
@@ -105,13 +139,38 @@ export interface AppState {
   viewBackgroundColor: string;
 }
 
+/** Binary file referenced by image elements */
+export interface BinaryFileData {
+  id: string;
+  mimeType: string;
+  dataURL: string;
+  created: number;
+  lastRetrieved?: number;
+}
+
 export interface ExcalidrawFile {
   type: 'excalidraw';
   version: number;
   source: string;
   elements: ExcalidrawElement[];
   appState: AppState;
-  files: Record<string, unknown>;
+  files: Record<string, BinaryFileData>;
+}
+
+/** Reusable drawing in an Excalidraw library */
+export interface LibraryItem {
+  id: string;
+  status: 'published' | 'unpublished';
+  elements: ExcalidrawElement[];
+  created: number;
+  name?: string;
+}
+
+export interface ExcalidrawLibrary {
+  type: 'excalidrawlib';
+  version: 2;
+  source: string;
+  libraryItems: LibraryItem[];
 }
 
 // Input types (partial, for creating elements)
@@ -133,6 +192,7 @@ export interface ElementInput {
   opacity?: number;
   groupIds?: string[];
   locked?: boolean;
+  link?: string | null;
   // Text-specific
   text?: string;
   fontSize?: number;
@@ -147,4 +207,6 @@ export interface ElementInput {
   endArrowhead?: Arrowhead;
   // Freedraw-specific
   pressures?: number[];
+  // Frame-specific
+  name?: string | null;
 }
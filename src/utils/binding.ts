@@ -0,0 +1,129 @@
+/**
+ * Arrow binding helpers shared by connect and the diagram importers
+ */
+
+import { generateVersionNonce } from './id.js';
+import type { ExcalidrawElement, Binding } from '../types/excalidraw.js';
+
+/**
+ * Determine which edge of an element faces another element
+ */
+function getClosestEdge(
+  element: ExcalidrawElement,
+  targetX: number,
+  targetY: number
+): 'left' | 'right' | 'top' | 'bottom' {
+  const centerX = element.x + element.width / 2;
+  const centerY = element.y + element.height / 2;
+  
+  const dx = targetX - centerX;
+  const dy = targetY - centerY;
+  
+  if (Math.abs(dx) > Math.abs(dy)) {
+    return dx > 0 ? 'right' : 'left';
+  } else {
+    return dy > 0 ? 'bottom' : 'top';
+  }
+}
+
+/**
+ * Get the connection point on an element's edge
+ */
+function getEdgePoint(
+  element: ExcalidrawElement,
+  edge: 'left' | 'right' | 'top' | 'bottom'
+): { x: number; y: number } {
+  const centerX = element.x + element.width / 2;
+  const centerY = element.y + element.height / 2;
+  
+  switch (edge) {
+    case 'left':
+      return { x: element.x, y: centerY };
+    case 'right':
+      return { x: element.x + element.width, y: centerY };
+    case 'top':
+      return { x: centerX, y: element.y };
+    case 'bottom':
+      return { x: centerX, y: element.y + element.height };
+  }
+}
+
+/**
+ * Point on the edge of an element that faces a target point
+ */
+export function getConnectionPoint(
+  element: ExcalidrawElement,
+  targetX: number,
+  targetY: number
+): { x: number; y: number } {
+  return getEdgePoint(element, getClosestEdge(element, targetX, targetY));
+}
+
+/**
+ * Calculate connection points and bindings between two elements
+ */
+export function getConnectionData(
+  from: ExcalidrawElement,
+  to: ExcalidrawElement
+): {
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+  startBinding: Binding;
+  endBinding: Binding;
+} {
+  const fromCenterX = from.x + from.width / 2;
+  const fromCenterY = from.y + from.height / 2;
+  const toCenterX = to.x + to.width / 2;
+  const toCenterY = to.y + to.height / 2;
+
+  // Determine which edges to connect
+  const fromEdge = getClosestEdge(from, toCenterX, toCenterY);
+  const toEdge = getClosestEdge(to, fromCenterX, fromCenterY);
+
+  // Get edge points
+  const startPoint = getEdgePoint(from, fromEdge);
+  const endPoint = getEdgePoint(to, toEdge);
+
+  return {
+    startX: startPoint.x,
+    startY: startPoint.y,
+    endX: endPoint.x,
+    endY: endPoint.y,
+    startBinding: {
+      elementId: from.id,
+      focus: 0,
+      gap: 1
+    },
+    endBinding: {
+      elementId: to.id,
+      focus: 0,
+      gap: 1
+    }
+  };
+}
+
+/**
+ * Add a bound element reference to an element
+ */
+export function addBoundElement(
+  element: ExcalidrawElement,
+  boundId: string,
+  boundType: string
+): ExcalidrawElement {
+  const currentBoundElements = element.boundElements ?? [];
+  
+  // Check if already bound
+  if (currentBoundElements.some(b => b.id === boundId)) {
+    return element;
+  }
+  
+  return {
+    ...element,
+    boundElements: [...currentBoundElements, { id: boundId, type: boundType }],
+    version: element.version + 1,
+    versionNonce: generateVersionNonce(),
+    updated: Date.now()
+  };
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import { drawioToExcalidraw, excalidrawToDrawio, isDrawio } from './drawio.js';
+import { InvalidFileError } from './file.js';
+import type { ExcalidrawElement } from '../types/excalidraw.js';
+
+const model = `<mxGraphModel background="#f5f5f5"><root>
+  <mxCell id="0" />
+  <mxCell id="1" parent="0" />
+  <mxCell id="lane" value="Backend" style="swimlane;startSize=20;" vertex="1" parent="1">
+    <mxGeometry x="300" y="40" width="200" height="200" as="geometry" />
+  </mxCell>
+  <mxCell id="api" value="&lt;b&gt;API&lt;/b&gt;&lt;br&gt;server &amp;amp; jobs" style="rounded=1;html=1;fillColor=#dae8fc;strokeColor=#6c8ebf;fontColor=#333333;" vertex="1" parent="lane">
+    <mxGeometry x="40" y="50" width="120" height="60" as="geometry" />
+  </mxCell>
+  <UserObject label="User" link="https://example.com" id="user">
+    <mxCell style="ellipse;whiteSpace=wrap;" vertex="1" parent="1">
+      <mxGeometry x="40" y="90" width="120" height="80" as="geometry" />
+    </mxCell>
+  </UserObject>
+  <mxCell id="g" style="group" vertex="1" parent="1">
+    <mxGeometry x="40" y="250" width="200" height="80" as="geometry" />
+  </mxCell>
+  <mxCell id="ok" value="OK?" style="rhombus;dashed=1;dashPattern=1 2;" vertex="1" parent="g">
+    <mxGeometry width="120" height="80" as="geometry" />
+  </mxCell>
+  <mxCell id="star" value="" style="shape=mxgraph.basic.star;fillColor=none;" vertex="1" parent="g">
+    <mxGeometry x="150" y="20" width="40" height="40" as="geometry" />
+  </mxCell>
+  <mxCell id="e1" value="calls" style="endArrow=block;endFill=0;startArrow=oval;" edge="1" parent="1" source="user" target="api">
+    <mxGeometry relative="1" as="geometry" />
+  </mxCell>
+  <mxCell id="e1l" value="HTTP" style="edgeLabel;" vertex="1" connectable="0" parent="e1">
+    <mxGeometry x="-0.5" relative="1" as="geometry" />
+  </mxCell>
+  <mxCell id="e2" style="endArrow=none;curved=1;" edge="1" parent="1" source="ok">
+    <mxGeometry relative="1" as="geometry">
+      <mxPoint x="400" y="400" as="targetPoint" />
+      <Array as="points"><mxPoint x="250" y="380" /></Array>
+    </mxGeometry>
+  </mxCell>
+  <mxCell id="e3" edge="1" parent="1">
+    <mxGeometry relative="1" as="geometry" />
+  </mxCell>
+</root></mxGraphModel>`;
+
+const byId = (elements: ExcalidrawElement[], id: string) => elements.find(el => el.id === id) as any;
+
+describe('draw.io files', () => {
+  it('should detect draw.io documents', () => {
+    expect(isDrawio('<?xml version="1.0"?>\n<mxfile host="x"><diagram /></mxfile>')).toBe(true);
+    expect(isDrawio('<mxGraphModel><root /></mxGraphModel>')).toBe(true);
+    expect(isDrawio('<svg xmlns="http://www.w3.org/2000/svg"></svg>')).toBe(false);
+    expect(isDrawio('{"type":"excalidraw"}')).toBe(false);
+  });
+
+  it('should map vertices to shapes with bound labels, frames and groups', () => {
+    const { file, warnings } = drawioToExcalidraw(`<mxfile><diagram name="One">${model}</diagram></mxfile>`);
+
+    expect(file.appState.viewBackgroundColor).toBe('#f5f5f5');
+    expect(warnings).toEqual([
+      'Cell "star": shape "mxgraph.basic.star" drawn as a rectangle',
+      'Edge "e3": skipped, it has no end points'
+    ]);
+
+    // Children of the swimlane are positioned relative to it
+    expect(byId(file.elements, 'lane')).toMatchObject({ type: 'frame', name: 'Backend', x: 300, y: 60, height: 180 });
+    const api = byId(file.elements, 'api');
+    expect(api).toMatchObject({ type: 'rectangle', x: 340, y: 90, frameId: 'lane', roundness: { type: 3 }, strokeColor: '#6c8ebf', backgroundColor: '#dae8fc' });
+    const label = file.elements.find(el => el.type === 'text' && el.containerId === 'api') as any;
+    expect(label).toMatchObject({ text: 'API\nserver & jobs', strokeColor: '#333333', fontSize: 12 });
+    expect(api.boundElements).toContainEqual({ id: label.id, type: 'text' });
+
+    expect(byId(file.elements, 'user')).toMatchObject({ type: 'ellipse', link: 'https://example.com', roundness: null });
+    expect(byId(file.elements, 'ok')).toMatchObject({ type: 'diamond', x: 40, y: 250, groupIds: ['g'], strokeStyle: 'dotted' });
+    expect(byId(file.elements, 'star')).toMatchObject({ type: 'rectangle', x: 190, y: 270, backgroundColor: 'transparent' });
+    expect(byId(file.elements, 'g')).toBeUndefined();
+    // Frames come after their children
+    expect(file.elements[file.elements.length - 1].id).toBe('lane');
+  });
+
+  it('should map edges to bound arrows with labels', () => {
+    const { file } = drawioToExcalidraw(model);
+
+    const e1 = byId(file.elements, 'e1');
+    expect(e1).toMatchObject({
+      type: 'arrow',
+      startBinding: { elementId: 'user' },
+      endBinding: { elementId: 'api' },
+      startArrowhead: 'dot',
+      endArrowhead: 'triangle_outline'
+    });
+    const label = byId(file.elements, e1.boundElements[0].id);
+    expect(label).toMatchObject({ type: 'text', text: 'calls\nHTTP', containerId: 'e1' });
+    expect(byId(file.elements, 'user').boundElements).toContainEqual({ id: 'e1', type: 'arrow' });
+
+    // Free end at the target point, bent through the waypoint
+    const e2 = byId(file.elements, 'e2');
+    expect(e2).toMatchObject({ startBinding: { elementId: 'ok' }, endBinding: null, endArrowhead: null, roundness: { type: 2 } });
+    expect(e2.points.map(([x, y]: number[]) => [e2.x + x, e2.y + y])).toEqual([[160, 290], [250, 380], [400, 400]]);
+  });
+
+  it('should read compressed pages', () => {
+    const payload = deflateRawSync(Buffer.from(encodeURIComponent(model), 'latin1')).toString('base64');
+    const { file, warnings } = drawioToExcalidraw(
+      `<mxfile><diagram name="One">${payload}</diagram><diagram name="Two">${payload}</diagram></mxfile>`
+    );
+
+    expect(byId(file.elements, 'api')).toMatchObject({ type: 'rectangle', frameId: 'lane' });
+    expect(warnings[0]).toBe('Only the first of 2 pages was read ("One")');
+  });
+
+  it('should reject malformed documents', () => {
+    expect(() => drawioToExcalidraw('<mxfile><diagram></mxfile>')).toThrow(InvalidFileError);
+    expect(() => drawioToExcalidraw('<mxfile></mxfile>')).toThrow('draw.io document has no diagram');
+  });
+
+  it('should write cells that read back as the same drawing', () => {
+    const { file } = drawioToExcalidraw(model);
+    file.elements.push({ ...byId(file.elements, 'user'), id: 'scribble', type: 'freedraw', points: [[0, 0]], pressures: [], simulatePressure: true, boundElements: null });
+
+    const { xml, warnings } = excalidrawToDrawio(file);
+    expect(warnings).toEqual(['Element "scribble": freedraw elements have no draw.io equivalent and were left out']);
+    expect(xml).toContain('<mxCell id="lane" value="Backend" style="swimlane;');
+    expect(xml).toContain('<mxCell id="api" value="API&#10;server &amp; jobs" style="rounded=1;');
+    expect(xml).toMatch(/<mxCell id="e1" value="calls&#10;HTTP" style="[^"]*startArrow=oval;startFill=1;endArrow=block;endFill=0;[^"]*" edge="1" parent="1" source="user" target="api">/);
+
+    const back = drawioToExcalidraw(xml).file;
+    for (const id of ['lane', 'api', 'user', 'ok', 'star', 'e1', 'e2']) {
+      const before = byId(file.elements, id);
+      expect(byId(back.elements, id)).toMatchObject({
+        type: before.type,
+        x: before.x,
+        y: before.y,
+        width: before.width,
+        height: before.height,
+        frameId: before.frameId,
+        strokeStyle: before.strokeStyle
+      });
+    }
+    expect(back.appState.viewBackgroundColor).toBe('#f5f5f5');
+  });
+});
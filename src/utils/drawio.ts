@@ -0,0 +1,706 @@
+/**
+ * draw.io / diagrams.net files
+ *
+ * A .drawio file is an `<mxfile>` with one `<diagram>` per page. Each page
+ * holds an `<mxGraphModel>` of cells, stored as XML or as a compressed
+ * payload (raw deflate of the URI-encoded XML, in base64). Vertices become
+ * shapes with bound labels, edges become arrows bound to their end shapes,
+ * containers become frames and groups become element groups.
+ */
+
+import { inflateRawSync } from 'node:zlib';
+import { createElement } from './element.js';
+import { createEmptyFile, InvalidFileError } from './file.js';
+import { generateId } from './id.js';
+import { addBoundElement, getConnectionData, getConnectionPoint } from './binding.js';
+import type { Arrowhead, ExcalidrawElement, ExcalidrawFile, StrokeStyle, TextAlign, VerticalAlign } from '../types/excalidraw.js';
+
+type Point = [number, number];
+
+interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+interface Geometry {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  points: Point[];
+  sourcePoint?: Point;
+  targetPoint?: Point;
+}
+
+interface Cell {
+  id: string;
+  value: string;
+  style: Record<string, string>;
+  /** Shape named by `shape=` or by the first bare word of the style */
+  shape: string | undefined;
+  vertex: boolean;
+  edge: boolean;
+  parent: string | null;
+  source?: string;
+  target?: string;
+  geometry: Geometry;
+  link?: string;
+}
+
+type CellKind = 'rectangle' | 'ellipse' | 'diamond' | 'text' | 'frame' | 'group';
+
+/** A page of an exported draw.io file */
+export interface DrawioPage {
+  name: string;
+  elements: ExcalidrawElement[];
+}
+
+// draw.io's defaults when a style leaves them out
+const DEFAULT_STROKE = '#000000';
+const DEFAULT_FILL = '#ffffff';
+const DEFAULT_FONT_SIZE = 12;
+const SWIMLANE_HEADER = 23;
+
+const RECTANGLE_SHAPES = ['rect', 'rectangle', 'label', 'process'];
+const ELLIPSE_SHAPES = ['ellipse', 'doubleEllipse'];
+
+const ARROWHEADS: Record<string, [filled: Arrowhead, outline: Arrowhead]> = {
+  classic: ['arrow', 'arrow'],
+  classicThin: ['arrow', 'arrow'],
+  open: ['arrow', 'arrow'],
+  openThin: ['arrow', 'arrow'],
+  openAsync: ['arrow', 'arrow'],
+  async: ['arrow', 'arrow'],
+  block: ['triangle', 'triangle_outline'],
+  blockThin: ['triangle', 'triangle_outline'],
+  oval: ['dot', 'circle_outline'],
+  circle: ['circle', 'circle_outline'],
+  diamond: ['diamond', 'diamond_outline'],
+  diamondThin: ['diamond', 'diamond_outline'],
+  dash: ['bar', 'bar'],
+  ERone: ['crowfoot_one', 'crowfoot_one'],
+  ERmandOne: ['crowfoot_one', 'crowfoot_one'],
+  ERmany: ['crowfoot_many', 'crowfoot_many'],
+  ERzeroToMany: ['crowfoot_many', 'crowfoot_many'],
+  ERoneToMany: ['crowfoot_one_or_many', 'crowfoot_one_or_many']
+};
+
+/** draw.io marker for each Excalidraw arrowhead, and whether it is filled */
+const MARKERS: Record<NonNullable<Arrowhead>, [string, boolean]> = {
+  arrow: ['classic', true],
+  bar: ['dash', true],
+  dot: ['oval', true],
+  circle: ['circle', true],
+  circle_outline: ['circle', false],
+  triangle: ['block', true],
+  triangle_outline: ['block', false],
+  diamond: ['diamond', true],
+  diamond_outline: ['diamond', false],
+  crowfoot_one: ['ERone', false],
+  crowfoot_many: ['ERmany', false],
+  crowfoot_one_or_many: ['ERoneToMany', false]
+};
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'", nbsp: ' ' };
+
+/**
+ * Whether text is a draw.io document rather than scene JSON
+ */
+export function isDrawio(content: string): boolean {
+  return /^\s*(<\?xml[^>]*\?>\s*)?(<!--[\s\S]*?-->\s*)*<(mxfile|mxGraphModel)[\s>/]/.test(content);
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[name] ?? match;
+  });
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\n/g, '&#10;');
+}
+
+/**
+ * Parse an XML document into a tree of elements
+ */
+function parseXml(source: string): XmlElement {
+  const document: XmlElement = { name: '#document', attrs: {}, children: [], text: '' };
+  const stack = [document];
+  const token = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<!\[CDATA\[([\s\S]*?)\]\]>|<\/([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|([^<]+)|</g;
+  for (const match of source.matchAll(token)) {
+    const [raw, cdata, close, open, attrText, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (close !== undefined) {
+      if (current.name !== close) {
+        throw new InvalidFileError(`Malformed draw.io XML: unexpected </${close}>`);
+      }
+      stack.pop();
+    } else if (open !== undefined) {
+      const attrs: Record<string, string> = {};
+      for (const [, name, double, single] of attrText.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attrs[name] = decodeEntities(double ?? single);
+      }
+      const element: XmlElement = { name: open, attrs, children: [], text: '' };
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text);
+    } else if (raw === '<') {
+      throw new InvalidFileError('Malformed draw.io XML: stray "<"');
+    }
+  }
+  if (stack.length > 1) {
+    throw new InvalidFileError(`Malformed draw.io XML: <${stack[stack.length - 1].name}> is not closed`);
+  }
+  return document;
+}
+
+/**
+ * The graph model of a page, inflating a compressed payload
+ */
+function pageModel(diagram: XmlElement): XmlElement | undefined {
+  const model = diagram.children.find(child => child.name === 'mxGraphModel');
+  const payload = diagram.text.trim();
+  if (model || !payload) {
+    return model;
+  }
+  let xml: string;
+  if (payload.startsWith('<')) {
+    xml = payload;
+  } else {
+    const inflated = inflateRawSync(Buffer.from(payload, 'base64')).toString('latin1');
+    try {
+      xml = decodeURIComponent(inflated);
+    } catch {
+      // Old files compressed the XML without URI-encoding it first
+      xml = Buffer.from(inflated, 'latin1').toString('utf-8');
+    }
+  }
+  return parseXml(xml).children.find(child => child.name === 'mxGraphModel');
+}
+
+function parseStyle(style: string): { style: Record<string, string>; shape: string | undefined } {
+  const entries: Record<string, string> = {};
+  let shape: string | undefined;
+  for (const part of style.split(';')) {
+    const eq = part.indexOf('=');
+    if (eq === -1) {
+      if (part.trim() && shape === undefined) shape = part.trim();
+    } else {
+      entries[part.slice(0, eq).trim()] = part.slice(eq + 1).trim();
+    }
+  }
+  return { style: entries, shape: entries.shape ?? shape };
+}
+
+function num(value: string | undefined, fallback = 0): number {
+  const n = value === undefined ? NaN : parseFloat(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+function point(el: XmlElement): Point {
+  return [num(el.attrs.x), num(el.attrs.y)];
+}
+
+function readGeometry(el: XmlElement | undefined): Geometry {
+  const geometry: Geometry = {
+    x: num(el?.attrs.x),
+    y: num(el?.attrs.y),
+    width: num(el?.attrs.width),
+    height: num(el?.attrs.height),
+    points: []
+  };
+  for (const child of el?.children ?? []) {
+    if (child.name === 'mxPoint' && child.attrs.as === 'sourcePoint') geometry.sourcePoint = point(child);
+    if (child.name === 'mxPoint' && child.attrs.as === 'targetPoint') geometry.targetPoint = point(child);
+    if (child.name === 'Array' && child.attrs.as === 'points') {
+      geometry.points = child.children.filter(p => p.name === 'mxPoint').map(point);
+    }
+  }
+  return geometry;
+}
+
+/**
+ * Cells of a model, unwrapping the <UserObject>/<object> elements that carry
+ * a cell's label and link as attributes
+ */
+function readCells(model: XmlElement): Cell[] {
+  const root = model.children.find(child => child.name === 'root');
+  const cells: Cell[] = [];
+  for (const child of root?.children ?? []) {
+    const wrapped = child.name === 'mxCell' ? null : child.children.find(c => c.name === 'mxCell');
+    const cell = wrapped ?? child;
+    if (cell.name !== 'mxCell') continue;
+    const id = (wrapped ? child.attrs.id : cell.attrs.id) ?? generateId();
+    const { style, shape } = parseStyle(cell.attrs.style ?? '');
+    const value = (wrapped ? child.attrs.label : cell.attrs.value) ?? '';
+    cells.push({
+      id,
+      value: style.html === '1' ? htmlText(value) : value,
+      style,
+      shape,
+      vertex: cell.attrs.vertex === '1',
+      edge: cell.attrs.edge === '1',
+      parent: cell.attrs.parent ?? null,
+      source: cell.attrs.source,
+      target: cell.attrs.target,
+      geometry: readGeometry(cell.children.find(c => c.name === 'mxGeometry')),
+      link: wrapped ? child.attrs.link : undefined
+    });
+  }
+  return cells;
+}
+
+/**
+ * Plain text of an HTML label
+ */
+function htmlText(html: string): string {
+  const text = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li|h\d)>/gi, '\n')
+    .replace(/<[^>]*>/g, '');
+  return decodeEntities(text).replace(/\n+$/, '');
+}
+
+function color(value: string | undefined, fallback: string): string {
+  if (value === undefined || value === 'default') return fallback;
+  if (value === 'none') return 'transparent';
+  return value;
+}
+
+function cellKind(cell: Cell): CellKind {
+  if (cell.shape === 'group') return 'group';
+  if (cell.shape === 'swimlane' || cell.style.container === '1') return 'frame';
+  if (cell.shape === 'text' || cell.shape === 'edgeLabel') return 'text';
+  if (cell.shape === 'rhombus') return 'diamond';
+  if (cell.shape !== undefined && ELLIPSE_SHAPES.includes(cell.shape)) return 'ellipse';
+  return 'rectangle';
+}
+
+function strokeStyle(cell: Cell): StrokeStyle {
+  if (cell.style.dashed !== '1') return 'solid';
+  return /^1(\s|$)/.test(cell.style.dashPattern ?? '') ? 'dotted' : 'dashed';
+}
+
+function arrowhead(marker: string | undefined, fill: string | undefined): Arrowhead {
+  if (marker === undefined || marker === 'none' || marker === '') return null;
+  const [filled, outline] = ARROWHEADS[marker] ?? ARROWHEADS.classic;
+  return fill === '0' ? outline : filled;
+}
+
+/**
+ * Font and colour of a cell's label
+ */
+function textStyle(cell: Cell) {
+  return {
+    fontSize: num(cell.style.fontSize, DEFAULT_FONT_SIZE),
+    strokeColor: color(cell.style.fontColor, DEFAULT_STROKE),
+    textAlign: (['left', 'center', 'right'].includes(cell.style.align) ? cell.style.align : 'center') as TextAlign,
+    verticalAlign: (cell.style.verticalAlign === 'top' || cell.style.verticalAlign === 'bottom'
+      ? cell.style.verticalAlign
+      : 'middle') as VerticalAlign
+  };
+}
+
+/**
+ * Text element placed in a box the way draw.io aligns labels
+ */
+function placedText(text: string, cell: Cell, box: { x: number; y: number; width: number; height: number }): ExcalidrawElement {
+  const style = textStyle(cell);
+  const el = createElement({ type: 'text', x: 0, y: 0, text, ...style });
+  const x = style.textAlign === 'left' ? box.x : style.textAlign === 'right' ? box.x + box.width - el.width : box.x + (box.width - el.width) / 2;
+  const y = style.verticalAlign === 'top' ? box.y : style.verticalAlign === 'bottom' ? box.y + box.height - el.height : box.y + (box.height - el.height) / 2;
+  return { ...el, x, y };
+}
+
+/**
+ * Convert a draw.io document to a drawing. Only the first page is read; the
+ * warnings list what was left out or approximated.
+ */
+export function drawioToExcalidraw(xml: string): { file: ExcalidrawFile; warnings: string[] } {
+  const document = parseXml(xml);
+  const top = document.children.find(child => child.name === 'mxfile' || child.name === 'mxGraphModel');
+  if (!top) {
+    throw new InvalidFileError('Not a draw.io document: expected <mxfile> or <mxGraphModel>');
+  }
+  const warnings: string[] = [];
+  const diagrams = top.name === 'mxfile' ? top.children.filter(child => child.name === 'diagram') : [];
+  if (diagrams.length > 1) {
+    warnings.push(`Only the first of ${diagrams.length} pages was read ("${diagrams[0].attrs.name ?? 'Page-1'}")`);
+  }
+  let model: XmlElement | undefined;
+  try {
+    model = top.name === 'mxfile' ? (diagrams[0] && pageModel(diagrams[0])) : top;
+  } catch (error) {
+    if (error instanceof InvalidFileError) throw error;
+    throw new InvalidFileError(`Unreadable compressed draw.io page: ${(error as Error).message}`);
+  }
+  if (!model) {
+    throw new InvalidFileError('draw.io document has no diagram');
+  }
+
+  const file = createEmptyFile({ backgroundColor: color(model.attrs.background, DEFAULT_FILL).replace('transparent', DEFAULT_FILL) });
+  const cells = readCells(model);
+  const byId = new Map(cells.map(cell => [cell.id, cell]));
+
+  // Vertex coordinates are relative to the vertex they sit in
+  const origin = (id: string | null): Point => {
+    const cell = id === null ? undefined : byId.get(id);
+    if (!cell || !cell.vertex) return [0, 0];
+    const [px, py] = origin(cell.parent);
+    return [px + cell.geometry.x, py + cell.geometry.y];
+  };
+  const ancestry = (cell: Cell): { frameId: string | null; groupIds: string[] } => {
+    let frameId: string | null = null;
+    const groupIds: string[] = [];
+    for (let parent = byId.get(cell.parent ?? ''); parent?.vertex; parent = byId.get(parent.parent ?? '')) {
+      const kind = cellKind(parent);
+      if (kind === 'group') groupIds.push(parent.id);
+      if (kind === 'frame') frameId ??= parent.id;
+    }
+    return { frameId, groupIds };
+  };
+
+  const elements: ExcalidrawElement[] = [];
+  const frames: ExcalidrawElement[] = [];
+  const indexById = new Map<string, number>();
+  const labels = new Map<string, string[]>();
+  const find = (id: string | undefined): ExcalidrawElement | undefined => {
+    const i = id === undefined ? undefined : indexById.get(id);
+    return i === undefined ? undefined : i >= 0 ? elements[i] : frames[-i - 1];
+  };
+  const update = (id: string, fn: (el: ExcalidrawElement) => ExcalidrawElement) => {
+    const i = indexById.get(id)!;
+    if (i >= 0) elements[i] = fn(elements[i]);
+    else frames[-i - 1] = fn(frames[-i - 1]);
+  };
+
+  for (const cell of cells) {
+    if (!cell.vertex) continue;
+    const parent = byId.get(cell.parent ?? '');
+    if (parent?.edge) {
+      // Labels placed along an edge
+      if (cell.value) labels.set(parent.id, [...(labels.get(parent.id) ?? []), cell.value]);
+      continue;
+    }
+    const kind = cellKind(cell);
+    if (kind === 'group') continue;
+
+    const [x, y] = origin(cell.id);
+    const box = { x, y, width: cell.geometry.width, height: cell.geometry.height };
+    const { frameId, groupIds } = ancestry(cell);
+    if (kind === 'frame') {
+      // The swimlane's title bar sits above the frame, where Excalidraw shows its name
+      const header = cell.shape === 'swimlane' ? num(cell.style.startSize, SWIMLANE_HEADER) : 0;
+      frames.push(createElement({ type: 'frame', id: cell.id, ...box, y: y + header, height: box.height - header, name: cell.value || null }));
+      indexById.set(cell.id, -frames.length);
+      continue;
+    }
+    if (kind === 'text') {
+      if (cell.value) {
+        indexById.set(cell.id, elements.length);
+        elements.push({ ...placedText(cell.value, cell, box), id: cell.id, groupIds, frameId, link: cell.link ?? null });
+      }
+      continue;
+    }
+
+    const known = cell.shape === undefined || kind !== 'rectangle' || RECTANGLE_SHAPES.includes(cell.shape);
+    if (!known) {
+      warnings.push(`Cell "${cell.id}": shape "${cell.shape}" drawn as a rectangle`);
+    }
+    let shape = createElement({
+      type: kind,
+      id: cell.id,
+      ...box,
+      angle: num(cell.style.rotation) * Math.PI / 180,
+      strokeColor: color(cell.style.strokeColor, DEFAULT_STROKE),
+      backgroundColor: color(cell.style.fillColor, DEFAULT_FILL),
+      strokeWidth: num(cell.style.strokeWidth, 1),
+      strokeStyle: strokeStyle(cell),
+      opacity: num(cell.style.opacity, 100),
+      groupIds,
+      link: cell.link ?? null
+    });
+    shape = { ...shape, frameId, roundness: kind === 'rectangle' ? (cell.style.rounded === '1' ? { type: 3 } : null) : shape.roundness };
+    indexById.set(cell.id, elements.length);
+    elements.push(shape);
+    if (cell.value) {
+      const text = { ...placedText(cell.value, cell, box), containerId: shape.id, groupIds, frameId } as ExcalidrawElement;
+      update(cell.id, el => addBoundElement(el, text.id, 'text'));
+      elements.push(text);
+    }
+  }
+
+  for (const cell of cells) {
+    if (!cell.edge) continue;
+    const from = find(cell.source);
+    const to = find(cell.target);
+    const [ox, oy] = origin(cell.parent);
+    const shift = ([px, py]: Point): Point => [px + ox, py + oy];
+    const waypoints = cell.geometry.points.map(shift);
+    const centre = (el: ExcalidrawElement): Point => [el.x + el.width / 2, el.y + el.height / 2];
+
+    let start: Point | undefined;
+    let end: Point | undefined;
+    let middle = waypoints;
+    if (from && to && from === to && waypoints.length === 0) {
+      // Self loop: out of the right side and back in through the top
+      start = [from.x + from.width, from.y + from.height / 2];
+      middle = [[start[0] + 30, start[1]], [start[0] + 30, from.y - 30], [from.x + from.width / 2, from.y - 30]];
+      end = [from.x + from.width / 2, from.y];
+    } else if (from && to && waypoints.length === 0) {
+      const conn = getConnectionData(from, to);
+      start = [conn.startX, conn.startY];
+      end = [conn.endX, conn.endY];
+    } else {
+      const sourcePoint = cell.geometry.sourcePoint && shift(cell.geometry.sourcePoint);
+      const targetPoint = cell.geometry.targetPoint && shift(cell.geometry.targetPoint);
+      const towardStart = waypoints[0] ?? (to ? centre(to) : targetPoint);
+      const towardEnd = waypoints[waypoints.length - 1] ?? (from ? centre(from) : sourcePoint);
+      if (from && towardStart) {
+        const p = getConnectionPoint(from, ...towardStart);
+        start = [p.x, p.y];
+      } else {
+        start = sourcePoint;
+      }
+      if (to && towardEnd) {
+        const p = getConnectionPoint(to, ...towardEnd);
+        end = [p.x, p.y];
+      } else {
+        end = targetPoint;
+      }
+    }
+    if (!start || !end) {
+      warnings.push(`Edge "${cell.id}": skipped, it has no end points`);
+      continue;
+    }
+
+    const [x, y] = start;
+    const points = [start, ...middle, end].map(([px, py]): Point => [px - x, py - y]);
+    const { frameId, groupIds } = ancestry(cell);
+    const arrow = {
+      ...createElement({
+        type: 'arrow',
+        id: cell.id,
+        x,
+        y,
+        points,
+        strokeColor: color(cell.style.strokeColor, DEFAULT_STROKE),
+        strokeWidth: num(cell.style.strokeWidth, 1),
+        strokeStyle: strokeStyle(cell),
+        opacity: num(cell.style.opacity, 100),
+        startBinding: from ? { elementId: from.id, focus: 0, gap: 1 } : null,
+        endBinding: to ? { elementId: to.id, focus: 0, gap: 1 } : null,
+        startArrowhead: arrowhead(cell.style.startArrow, cell.style.startFill),
+        groupIds,
+        link: cell.link ?? null
+      }),
+      endArrowhead: arrowhead(cell.style.endArrow ?? 'classic', cell.style.endFill),
+      roundness: points.length > 2 && (cell.style.curved === '1' || cell.style.rounded === '1') ? { type: 2 } : null,
+      frameId: frameId ?? (from && to && from.frameId === to.frameId ? from.frameId : null)
+    } as ExcalidrawElement;
+    if (from) update(from.id, el => addBoundElement(el, arrow.id, 'arrow'));
+    if (to) update(to.id, el => addBoundElement(el, arrow.id, 'arrow'));
+
+    const label = [cell.value, ...(labels.get(cell.id) ?? [])].filter(Boolean).join('\n');
+    if (label) {
+      const i = Math.floor(points.length / 2);
+      const [mx, my] = [(points[i][0] + points[i - 1][0]) / 2 + x, (points[i][1] + points[i - 1][1]) / 2 + y];
+      const text = {
+        ...placedText(label, { ...cell, style: { ...cell.style, align: 'center', verticalAlign: 'middle' } }, { x: mx, y: my, width: 0, height: 0 }),
+        containerId: arrow.id,
+        groupIds,
+        frameId: arrow.frameId
+      } as ExcalidrawElement;
+      elements.push(addBoundElement(arrow, text.id, 'text'), text);
+    } else {
+      elements.push(arrow);
+    }
+  }
+
+  // Frames go after their children, as Excalidraw orders them
+  file.elements = [...elements, ...frames];
+  return { file, warnings };
+}
+
+function round(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function styleString(entries: Record<string, string | number | undefined>, shape?: string): string {
+  const parts = Object.entries(entries).filter(([, v]) => v !== undefined).map(([k, v]) => `${k}=${v}`);
+  return [...(shape ? [shape] : []), ...parts].join(';') + ';';
+}
+
+function exportColor(value: string): string {
+  return value === 'transparent' ? 'none' : value;
+}
+
+/**
+ * Style entries shared by vertices and edges
+ */
+function lineStyle(el: ExcalidrawElement): Record<string, string | number | undefined> {
+  return {
+    strokeColor: exportColor(el.strokeColor),
+    strokeWidth: el.strokeWidth,
+    dashed: el.strokeStyle === 'solid' ? undefined : 1,
+    dashPattern: el.strokeStyle === 'dotted' ? '1 4' : undefined,
+    opacity: el.opacity === 100 ? undefined : el.opacity
+  };
+}
+
+function labelStyle(text: ExcalidrawElement | undefined): Record<string, string | number | undefined> {
+  if (!text || text.type !== 'text') return {};
+  return {
+    fontColor: exportColor(text.strokeColor),
+    fontSize: text.fontSize,
+    align: text.textAlign === 'center' ? undefined : text.textAlign,
+    verticalAlign: text.verticalAlign === 'middle' ? undefined : text.verticalAlign
+  };
+}
+
+function markerStyle(side: 'start' | 'end', head: Arrowhead): Record<string, string | number | undefined> {
+  if (!head) return { [`${side}Arrow`]: 'none' };
+  const [marker, filled] = MARKERS[head];
+  return { [`${side}Arrow`]: marker, [`${side}Fill`]: filled ? 1 : 0 };
+}
+
+function mxCell(attrs: Record<string, string | undefined>, geometry: string): string {
+  const attrText = Object.entries(attrs)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => ` ${k}="${escapeXml(v!)}"`)
+    .join('');
+  return `        <mxCell${attrText}>\n          ${geometry}\n        </mxCell>`;
+}
+
+/**
+ * Cells of one page. Frames become swimlanes holding their elements, which
+ * draw.io positions relative to the swimlane.
+ */
+function pageCells(elements: ExcalidrawElement[], warnings: string[]): string[] {
+  const live = elements.filter(el => !el.isDeleted);
+  const byId = new Map(live.map(el => [el.id, el]));
+  const isFrame = (el: ExcalidrawElement) => el.type === 'frame' || el.type === 'magicframe';
+  const labelOf = new Map<string, ExcalidrawElement>();
+  for (const el of live) {
+    if (el.type === 'text' && el.containerId && byId.has(el.containerId)) labelOf.set(el.containerId, el);
+  }
+  const parentOf = (el: ExcalidrawElement): ExcalidrawElement | undefined => {
+    const frame = el.frameId ? byId.get(el.frameId) : undefined;
+    return frame && isFrame(frame) ? frame : undefined;
+  };
+  const offset = (el: ExcalidrawElement): Point => {
+    const frame = parentOf(el);
+    return frame ? [frame.x, frame.y - SWIMLANE_HEADER] : [0, 0];
+  };
+  const isLabel = (el: ExcalidrawElement) => el.type === 'text' && el.containerId !== null && byId.has(el.containerId);
+  const isVertex = (el: ExcalidrawElement) => isFrame(el) || (['rectangle', 'ellipse', 'diamond', 'text'].includes(el.type) && !isLabel(el));
+  const exported = (id: string | undefined) => id !== undefined && byId.has(id) && isVertex(byId.get(id)!);
+
+  const cells: string[] = [];
+  // Swimlanes must come before the cells inside them
+  const ordered = [...live.filter(isFrame), ...live.filter(el => !isFrame(el))];
+  for (const el of ordered) {
+    if (isLabel(el)) continue;
+    const parent = parentOf(el)?.id ?? '1';
+    const [ox, oy] = offset(el);
+    const label = labelOf.get(el.id);
+    const value = label && label.type === 'text' ? label.text : undefined;
+    const link = el.link ?? undefined;
+
+    if (isFrame(el)) {
+      const name = 'name' in el && typeof el.name === 'string' ? el.name : undefined;
+      cells.push(mxCell(
+        { id: el.id, value: name ?? '', style: styleString({ startSize: SWIMLANE_HEADER, fillColor: 'none', strokeColor: '#bbbbbb', whiteSpace: 'wrap' }, 'swimlane'), vertex: '1', parent, link },
+        `<mxGeometry x="${round(el.x)}" y="${round(el.y - SWIMLANE_HEADER)}" width="${round(el.width)}" height="${round(el.height + SWIMLANE_HEADER)}" as="geometry" />`
+      ));
+      continue;
+    }
+
+    const geometry = `<mxGeometry x="${round(el.x - ox)}" y="${round(el.y - oy)}" width="${round(el.width)}" height="${round(el.height)}" as="geometry" />`;
+    const common = { ...lineStyle(el), rotation: el.angle ? round(el.angle * 180 / Math.PI) : undefined };
+    const fill = { fillColor: exportColor(el.backgroundColor), ...labelStyle(label), whiteSpace: 'wrap' };
+    switch (el.type) {
+      case 'rectangle':
+        cells.push(mxCell({ id: el.id, value: value ?? '', style: styleString({ rounded: el.roundness ? 1 : 0, ...common, ...fill }), vertex: '1', parent, link }, geometry));
+        break;
+      case 'ellipse':
+        cells.push(mxCell({ id: el.id, value: value ?? '', style: styleString({ ...common, ...fill }, 'ellipse'), vertex: '1', parent, link }, geometry));
+        break;
+      case 'diamond':
+        cells.push(mxCell({ id: el.id, value: value ?? '', style: styleString({ ...common, ...fill }, 'rhombus'), vertex: '1', parent, link }, geometry));
+        break;
+      case 'text':
+        cells.push(mxCell(
+          { id: el.id, value: el.text, style: styleString({ strokeColor: 'none', fillColor: 'none', ...labelStyle(el), align: el.textAlign, verticalAlign: el.verticalAlign, rotation: common.rotation }, 'text'), vertex: '1', parent, link },
+          geometry
+        ));
+        break;
+      case 'arrow':
+      case 'line': {
+        const points = el.points.map(([px, py]): Point => [round(el.x + px - ox), round(el.y + py - oy)]);
+        const start = el.startBinding?.elementId;
+        const end = el.endBinding?.elementId;
+        const style = styleString({
+          ...common,
+          ...markerStyle('start', el.startArrowhead),
+          ...markerStyle('end', el.type === 'arrow' ? el.endArrowhead : null),
+          curved: el.roundness && points.length > 2 ? 1 : undefined,
+          ...labelStyle(label)
+        });
+        const inner = points.slice(1, -1).map(([px, py]) => `<mxPoint x="${px}" y="${py}" />`).join('');
+        const [sx, sy] = points[0];
+        const [tx, ty] = points[points.length - 1];
+        cells.push(mxCell(
+          { id: el.id, value: value ?? '', style, edge: '1', parent, source: exported(start) ? start : undefined, target: exported(end) ? end : undefined, link },
+          `<mxGeometry relative="1" as="geometry"><mxPoint x="${sx}" y="${sy}" as="sourcePoint" /><mxPoint x="${tx}" y="${ty}" as="targetPoint" />${inner ? `<Array as="points">${inner}</Array>` : ''}</mxGeometry>`
+        ));
+        break;
+      }
+      default:
+        warnings.push(`Element "${el.id}": ${el.type} elements have no draw.io equivalent and were left out`);
+    }
+  }
+  return cells;
+}
+
+/**
+ * Convert drawings to an uncompressed draw.io document with one diagram per
+ * page. Element ids become cell ids, so drawings survive a round trip.
+ */
+export function excalidrawToDrawio(
+  file: ExcalidrawFile,
+  pages: DrawioPage[] = [{ name: 'Page-1', elements: file.elements }]
+): { xml: string; warnings: string[] } {
+  const warnings: string[] = [];
+  const background = exportColor(file.appState.viewBackgroundColor ?? DEFAULT_FILL);
+  const diagrams = pages.map(page => [
+    `  <diagram id="${escapeXml(generateId())}" name="${escapeXml(page.name)}">`,
+    `    <mxGraphModel grid="1" gridSize="${file.appState.gridSize ?? 10}" background="${escapeXml(background)}">`,
+    '      <root>',
+    '        <mxCell id="0" />',
+    '        <mxCell id="1" parent="0" />',
+    ...pageCells(page.elements, warnings),
+    '      </root>',
+    '    </mxGraphModel>',
+    '  </diagram>'
+  ].join('\n'));
+  const xml = `<mxfile host="excalidraw-agent" type="device">\n${diagrams.join('\n')}\n</mxfile>\n`;
+  return { xml, warnings };
+}
+
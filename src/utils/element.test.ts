@@ -8,6 +8,7 @@ import {
   createLine,
   createArrow,
   createFreedraw,
+  createFrame,
   validateElementInput,
   mergeElement,
   InvalidElementError
@@ -198,6 +199,16 @@ describe('element utilities', () => {
     });
   });
 
+  describe('createFrame', () => {
+    it('should create a named frame', () => {
+      const frame = createFrame({ type: 'frame', x: 0, y: 0, width: 300, height: 200, name: 'Backend' });
+
+      expect(frame.type).toBe('frame');
+      expect(frame.name).toBe('Backend');
+      expect(frame.roundness).toBeNull();
+    });
+  });
+
   describe('createElement', () => {
     it('should create element by type', () => {
       const rect = createElement({ type: 'rectangle', x: 0, y: 0 });
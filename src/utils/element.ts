@@ -8,6 +8,7 @@ import type {
   TextElement,
   LinearElement,
   FreeDrawElement,
+  FrameElement,
   BaseElement,
   FillStyle,
   StrokeStyle,
@@ -66,7 +67,7 @@ function createBaseElement(input: ElementInput): Omit<BaseElement, 'type'> {
     isDeleted: baseDefaults.isDeleted,
     boundElements: baseDefaults.boundElements,
     updated: now,
-    link: baseDefaults.link,
+    link: input.link ?? baseDefaults.link,
     locked: input.locked ?? baseDefaults.locked
   };
 }
@@ -210,6 +211,18 @@ export function createFreedraw(input: ElementInput): FreeDrawElement {
   };
 }
 
+/**
+ * Create a frame element
+ */
+export function createFrame(input: ElementInput): FrameElement {
+  const base = createBaseElement(input);
+  return {
+    ...base,
+    type: 'frame',
+    name: input.name ?? null
+  };
+}
+
 /**
  * Create element by type
  */
@@ -229,6 +242,8 @@ export function createElement(input: ElementInput): ExcalidrawElement {
       return createArrow(input);
     case 'freedraw':
       return createFreedraw(input);
+    case 'frame':
+      return createFrame(input);
     default:
       throw new InvalidElementError(`Unknown element type: ${(input as ElementInput).type}`);
   }
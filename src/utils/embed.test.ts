@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { deflateSync } from 'node:zlib';
+import {
+  EXCALIDRAW_MIME_TYPE,
+  embedSceneInPng,
+  embedSceneInSvg,
+  extractSceneFromPng,
+  extractSceneFromSvg
+} from './embed.js';
+import { encodePng, pngChunk } from '../render/png.js';
+import { createCanvas } from '../render/raster.js';
+
+const json = JSON.stringify({ type: 'excalidraw', version: 2, elements: [], appState: {}, label: 'Grüße' });
+const png = encodePng(createCanvas(2, 2, '#ffffff'));
+
+function withChunkBeforeEnd(image: Buffer, chunk: Buffer): Buffer {
+  return Buffer.concat([image.subarray(0, image.length - 12), chunk, image.subarray(image.length - 12)]);
+}
+
+describe('embedded scenes', () => {
+  describe('PNG', () => {
+    it('should round-trip the scene through a tEXt chunk', () => {
+      const embedded = embedSceneInPng(png, json);
+
+      expect(embedded.toString('latin1')).toContain(`tEXt${EXCALIDRAW_MIME_TYPE}`);
+      expect(embedded.subarray(-8, -4).toString('latin1')).toBe('IEND');
+      expect(extractSceneFromPng(embedded)).toBe(json);
+    });
+
+    it('should replace an existing scene', () => {
+      const embedded = embedSceneInPng(embedSceneInPng(png, '{"type":"excalidraw","old":true}'), json);
+
+      expect(embedded.toString('latin1').split(EXCALIDRAW_MIME_TYPE)).toHaveLength(2);
+      expect(extractSceneFromPng(embedded)).toBe(json);
+    });
+
+    it('should read compressed iTXt chunks', () => {
+      const data = Buffer.concat([
+        Buffer.from(`${EXCALIDRAW_MIME_TYPE}\0\x01\x00\0\0`, 'latin1'),
+        deflateSync(Buffer.from(json, 'utf-8'))
+      ]);
+
+      expect(extractSceneFromPng(withChunkBeforeEnd(png, pngChunk('iTXt', data)))).toBe(json);
+    });
+
+    it('should return null without a scene', () => {
+      expect(extractSceneFromPng(png)).toBeNull();
+    });
+  });
+
+  describe('SVG', () => {
+    const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10">\n</svg>';
+
+    it('should round-trip the scene through metadata', () => {
+      const embedded = embedSceneInSvg(svg, json);
+
+      expect(embedded).toContain('<metadata><!-- payload-type:application/vnd.excalidraw+json -->');
+      expect(embedded.endsWith('</svg>')).toBe(true);
+      expect(extractSceneFromSvg(embedded)).toBe(json);
+    });
+
+    it('should read version 1 payloads', () => {
+      const legacy = `<svg><metadata><!-- payload-start -->${Buffer.from(json).toString('base64')}<!-- payload-end --></metadata></svg>`;
+
+      expect(extractSceneFromSvg(legacy)).toBe(json);
+    });
+
+    it('should return null without a scene', () => {
+      expect(extractSceneFromSvg(svg)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Scene data embedded in exported images
+ *
+ * Uses the same payloads as Excalidraw, so images exported here open in
+ * excalidraw.com and vice versa: a `tEXt` chunk in PNG files and a base64
+ * block inside `<metadata>` in SVG files.
+ */
+
+import { deflateSync, inflateSync } from 'node:zlib';
+import { PNG_SIGNATURE, pngChunk, renderPng } from '../render/png.js';
+import { buildScene } from '../render/scene.js';
+import { sceneToSvg } from '../render/svg.js';
+import type { ExcalidrawFile } from '../types/excalidraw.js';
+
+export const EXCALIDRAW_MIME_TYPE = 'application/vnd.excalidraw+json';
+
+/**
+ * Scene JSON as stored in an image, without deleted elements
+ */
+export function serializeScene(file: ExcalidrawFile): string {
+  return JSON.stringify({ ...file, elements: file.elements.filter(el => !el.isDeleted) });
+}
+
+/**
+ * Wrap scene JSON in Excalidraw's compressed byte-string envelope
+ */
+function encodePayload(json: string): string {
+  return JSON.stringify({
+    version: '1',
+    encoding: 'bstring',
+    compressed: true,
+    encoded: deflateSync(Buffer.from(json, 'utf-8')).toString('latin1')
+  });
+}
+
+/**
+ * Unwrap a payload, accepting both the envelope and plain scene JSON
+ */
+function decodePayload(payload: string): string {
+  const data = JSON.parse(payload);
+  if (data?.type === 'excalidraw') {
+    return payload;
+  }
+  if (typeof data?.encoded !== 'string') {
+    throw new Error('Unrecognised embedded scene payload');
+  }
+  const bytes = Buffer.from(data.encoded, 'latin1');
+  return (data.compressed ? inflateSync(bytes) : bytes).toString('utf-8');
+}
+
+interface PngChunkInfo {
+  type: string;
+  data: Buffer;
+  start: number;
+  end: number;
+}
+
+function readPngChunks(png: Buffer): PngChunkInfo[] {
+  if (!isPng(png)) {
+    throw new Error('Not a PNG file');
+  }
+  const chunks: PngChunkInfo[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= png.length) {
+    const length = png.readUInt32BE(offset);
+    const type = png.toString('latin1', offset + 4, offset + 8);
+    const end = offset + 12 + length;
+    chunks.push({ type, data: png.subarray(offset + 8, offset + 8 + length), start: offset, end });
+    offset = end;
+    if (type === 'IEND') {
+      break;
+    }
+  }
+  return chunks;
+}
+
+/**
+ * Keyword and text of a tEXt, zTXt or iTXt chunk
+ */
+function readTextChunk(chunk: PngChunkInfo): { keyword: string; text: string } | null {
+  const separator = chunk.data.indexOf(0);
+  if (separator < 0) {
+    return null;
+  }
+  const keyword = chunk.data.toString('latin1', 0, separator);
+  const rest = chunk.data.subarray(separator + 1);
+
+  switch (chunk.type) {
+    case 'tEXt':
+      return { keyword, text: rest.toString('latin1') };
+
+    case 'zTXt':
+      return { keyword, text: inflateSync(rest.subarray(1)).toString('latin1') };
+
+    case 'iTXt': {
+      // compression flag, method, language tag, translated keyword, text
+      const compressed = rest[0] === 1;
+      const languageEnd = rest.indexOf(0, 2);
+      const translatedEnd = rest.indexOf(0, languageEnd + 1);
+      const body = rest.subarray(translatedEnd + 1);
+      return { keyword, text: (compressed ? inflateSync(body) : body).toString('utf-8') };
+    }
+
+    default:
+      return null;
+  }
+}
+
+export function isPng(data: Buffer): boolean {
+  return data.length >= PNG_SIGNATURE.length && data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE);
+}
+
+/**
+ * Add the scene to a PNG, replacing any scene already embedded
+ */
+export function embedSceneInPng(png: Buffer, json: string): Buffer {
+  const parts: Buffer[] = [PNG_SIGNATURE];
+  for (const chunk of readPngChunks(png)) {
+    if (readTextChunk(chunk)?.keyword === EXCALIDRAW_MIME_TYPE) {
+      continue;
+    }
+    if (chunk.type === 'IEND') {
+      const text = Buffer.from(`${EXCALIDRAW_MIME_TYPE}\0${encodePayload(json)}`, 'latin1');
+      parts.push(pngChunk('tEXt', text));
+    }
+    parts.push(png.subarray(chunk.start, chunk.end));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Scene JSON embedded in a PNG, or null if there is none
+ */
+export function extractSceneFromPng(png: Buffer): string | null {
+  for (const chunk of readPngChunks(png)) {
+    const text = readTextChunk(chunk);
+    if (text?.keyword === EXCALIDRAW_MIME_TYPE) {
+      return decodePayload(text.text);
+    }
+  }
+  return null;
+}
+
+/**
+ * Add the scene to an SVG document as a metadata payload
+ */
+export function embedSceneInSvg(svg: string, json: string): string {
+  const base64 = Buffer.from(encodePayload(json), 'latin1').toString('base64');
+  let metadata = `\n  <!-- svg-source:excalidraw -->\n  <metadata>`;
+  metadata += `<!-- payload-type:${EXCALIDRAW_MIME_TYPE} -->`;
+  metadata += `<!-- payload-version:2 -->`;
+  metadata += `<!-- payload-start -->${base64}<!-- payload-end -->`;
+  metadata += `</metadata>`;
+  return svg.replace(/<svg[^>]*>/, match => match + metadata);
+}
+
+/**
+ * Scene JSON embedded in an SVG document, or null if there is none
+ */
+export function extractSceneFromSvg(svg: string): string | null {
+  const payload = svg.match(/<!-- payload-start -->\s*([A-Za-z0-9+/=\s]+?)\s*<!-- payload-end -->/);
+  if (!payload) {
+    return null;
+  }
+  const version = svg.match(/<!-- payload-version:(\d+) -->/)?.[1] ?? '1';
+  const bytes = Buffer.from(payload[1], 'base64');
+
+  // Version 1 payloads are the scene JSON itself
+  return version === '1' ? bytes.toString('utf-8') : decodePayload(bytes.toString('latin1'));
+}
+
+/**
+ * Render a drawing as an image that carries its own scene, used when
+ * saving back to a `.excalidraw.png` or `.excalidraw.svg`
+ */
+export function renderEmbeddedImage(file: ExcalidrawFile, format: 'png' | 'svg'): Buffer | string {
+  const scene = buildScene(file, {
+    padding: 10,
+    backgroundColor: file.appState.viewBackgroundColor,
+    dark: false
+  });
+  const json = serializeScene(file);
+  return format === 'png'
+    ? embedSceneInPng(renderPng(scene), json)
+    : embedSceneInSvg(sceneToSvg(scene), json);
+}
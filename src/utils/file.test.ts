@@ -12,8 +12,10 @@ import {
   FileNotFoundError,
   FileExistsError,
   InvalidJsonError,
-  InvalidFileError
+  InvalidFileError,
+  LossyWriteError
 } from './file.js';
+import { createElement } from './element.js';
 import type { ExcalidrawFile, ExcalidrawElement } from '../types/excalidraw.js';
 
 describe('file utilities', () => {
@@ -109,6 +111,78 @@ describe('file utilities', () => {
       
       expect(fs.existsSync(filePath)).toBe(true);
     });
+
+    it('should round-trip drawings saved as .excalidraw.png and .excalidraw.svg', () => {
+      const file = createEmptyFile();
+      file.elements.push({
+        id: 'rect-1', type: 'rectangle', x: 0, y: 0, width: 100, height: 50, angle: 0,
+        strokeColor: '#1e1e1e', backgroundColor: 'transparent', fillStyle: 'solid',
+        strokeWidth: 2, strokeStyle: 'solid', roughness: 1, opacity: 100,
+        groupIds: [], frameId: null, roundness: null, seed: 1, version: 1,
+        versionNonce: 1, isDeleted: false, boundElements: null, updated: 1,
+        link: null, locked: false
+      } as ExcalidrawElement);
+      
+      for (const name of ['test.excalidraw.png', 'test.excalidraw.svg']) {
+        const filePath = path.join(tempDir, name);
+        writeFile(filePath, file);
+        
+        expect(readFile(filePath).elements.map(el => el.id)).toEqual(['rect-1']);
+      }
+      expect(fs.readFileSync(path.join(tempDir, 'test.excalidraw.png')).subarray(1, 4).toString()).toBe('PNG');
+      expect(fs.readFileSync(path.join(tempDir, 'test.excalidraw.svg'), 'utf-8')).toContain('<svg');
+    });
+
+    it('should read and write draw.io documents', () => {
+      const filePath = path.join(tempDir, 'test.drawio');
+      fs.writeFileSync(filePath, '<mxfile><diagram name="Page-1"><mxGraphModel><root><mxCell id="0"/><mxCell id="1" parent="0"/>'
+        + '<mxCell id="box" value="Box" style="rounded=0;" vertex="1" parent="1"><mxGeometry x="10" y="20" width="100" height="50" as="geometry"/></mxCell>'
+        + '</root></mxGraphModel></diagram></mxfile>');
+      
+      const file = readFile(filePath);
+      expect(file.elements.map(el => [el.id, el.type])).toEqual([['box', 'rectangle'], [expect.any(String), 'text']]);
+      
+      file.elements[0].x = 40;
+      writeFile(filePath, file, { force: true });
+      expect(fs.readFileSync(filePath, 'utf-8')).toMatch(/^<mxfile/);
+      expect(readFile(filePath).elements[0]).toMatchObject({ id: 'box', x: 40, y: 20 });
+    });
+
+    it('should refuse to overwrite draw.io documents that were not read in full', () => {
+      const filePath = path.join(tempDir, 'two.drawio');
+      const page = (name: string, style: string) => `<diagram name="${name}"><mxGraphModel><root><mxCell id="0"/><mxCell id="1" parent="0"/>`
+        + `<mxCell id="box" value="" style="${style}" vertex="1" parent="1"><mxGeometry x="0" y="0" width="100" height="50" as="geometry"/></mxCell>`
+        + '</root></mxGraphModel></diagram>';
+      const source = `<mxfile>${page('One', 'rounded=0;')}${page('Two', 'rounded=0;')}</mxfile>`;
+      fs.writeFileSync(filePath, source);
+
+      expect(() => writeFile(filePath, readFile(filePath), { force: true })).toThrow(LossyWriteError);
+      expect(fs.readFileSync(filePath, 'utf-8')).toBe(source);
+
+      fs.writeFileSync(filePath, `<mxfile>${page('One', 'shape=cloud;')}</mxfile>`);
+      expect(() => writeFile(filePath, readFile(filePath), { force: true })).toThrow('shape "cloud" drawn as a rectangle');
+    });
+
+    it('should read and write Obsidian Excalidraw notes', () => {
+      const filePath = path.join(tempDir, 'test.excalidraw.md');
+      writeFile(filePath, createEmptyFile());
+      expect(fs.readFileSync(filePath, 'utf-8')).toMatch(/^---\n\nexcalidraw-plugin: parsed\n/);
+
+      fs.writeFileSync(filePath, fs.readFileSync(filePath, 'utf-8').replace('excalidraw]\n', 'excalidraw]\nstatus: draft\n'));
+      const file = readFile(filePath);
+      file.elements.push(createElement({ type: 'text', id: 'title', x: 0, y: 0, text: 'Title' }));
+      writeFile(filePath, file, { force: true });
+      expect(fs.readFileSync(filePath, 'utf-8')).toContain('status: draft\n');
+      expect(fs.readFileSync(filePath, 'utf-8')).toContain('## Text Elements\nTitle ^title\n');
+      expect(readFile(filePath).elements[0]).toMatchObject({ id: 'title', text: 'Title' });
+    });
+
+    it('should throw InvalidFileError for images without a scene', () => {
+      const filePath = path.join(tempDir, 'plain.svg');
+      fs.writeFileSync(filePath, '<svg xmlns="http://www.w3.org/2000/svg"></svg>');
+      
+      expect(() => readFile(filePath)).toThrow(InvalidFileError);
+    });
   });
 
   describe('validateExcalidrawFile', () => {
@@ -162,6 +236,27 @@ describe('file utilities', () => {
       const bounds = calculateBounds(elements);
       expect(bounds).toEqual({ x: 0, y: 0, width: 250, height: 150 });
     });
+
+    it('should include rotated corners', () => {
+      const elements = [
+        { x: 0, y: 0, width: 100, height: 100, angle: Math.PI / 4 } as ExcalidrawElement
+      ];
+      
+      const bounds = calculateBounds(elements);
+      const diagonal = 100 * Math.SQRT2;
+      expect(bounds.width).toBeCloseTo(diagonal);
+      expect(bounds.height).toBeCloseTo(diagonal);
+      expect(bounds.x).toBeCloseTo(50 - diagonal / 2);
+    });
+
+    it('should measure linear elements from their points', () => {
+      const elements = [
+        { type: 'arrow', x: 100, y: 100, width: 50, height: 50, angle: 0, points: [[0, 0], [-50, -50]] } as unknown as ExcalidrawElement
+      ];
+      
+      const bounds = calculateBounds(elements);
+      expect(bounds).toEqual({ x: 50, y: 50, width: 50, height: 50 });
+    });
   });
 
   describe('countElementsByType', () => {
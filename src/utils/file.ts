@@ -1,5 +1,9 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import { extractSceneFromPng, extractSceneFromSvg, isPng, renderEmbeddedImage } from './embed.js';
+import { drawioToExcalidraw, excalidrawToDrawio, isDrawio } from './drawio.js';
+import { excalidrawToObsidian, isObsidianDrawing, obsidianToExcalidraw } from './obsidian.js';
+import { info } from './output.js';
 import type { ExcalidrawFile, ExcalidrawElement } from '../types/excalidraw.js';
 
 /**
@@ -23,7 +27,10 @@ export function createEmptyFile(options: {
 }
 
 /**
- * Read an Excalidraw file from disk
+ * Read an Excalidraw file from disk. draw.io documents are converted on the
+ * way in, using their first page, with what was left out or approximated
+ * reported as warnings; Obsidian notes (.excalidraw.md) are read from their
+ * Drawing block.
  */
 export function readFile(filePath: string): ExcalidrawFile {
   const resolved = path.resolve(filePath);
@@ -32,9 +39,30 @@ export function readFile(filePath: string): ExcalidrawFile {
     throw new FileNotFoundError(filePath);
   }
   
-  const content = fs.readFileSync(resolved, 'utf-8');
+  const buffer = fs.readFileSync(resolved);
   
   try {
+    let content: string | null = buffer.toString('utf-8');
+    if (isDrawio(content)) {
+      const { file, warnings } = drawioToExcalidraw(content);
+      for (const warning of warnings) {
+        info(`Warning: ${filePath}: ${warning}`);
+      }
+      return file;
+    }
+    if (isObsidianDrawing(content)) {
+      return obsidianToExcalidraw(content);
+    }
+    // Images exported with an embedded scene (.excalidraw.png / .excalidraw.svg)
+    if (isPng(buffer)) {
+      content = extractSceneFromPng(buffer);
+    } else if (/^\s*<(\?xml|svg|!--)/.test(content)) {
+      content = extractSceneFromSvg(content);
+    }
+    if (content === null) {
+      throw new InvalidFileError(`No embedded scene found in ${filePath}`);
+    }
+    
     const data = JSON.parse(content);
     validateExcalidrawFile(data);
     return data as ExcalidrawFile;
@@ -47,7 +75,10 @@ export function readFile(filePath: string): ExcalidrawFile {
 }
 
 /**
- * Write an Excalidraw file to disk
+ * Write an Excalidraw file to disk. `.png` and `.svg` paths are written as
+ * images with the scene embedded, `.md` paths as Obsidian notes and `.drawio`
+ * paths as draw.io documents. A draw.io document is only replaced if it was
+ * read without loss: other pages and unsupported cells would be dropped.
  */
 export function writeFile(filePath: string, file: ExcalidrawFile, options: { force?: boolean } = {}): void {
   const resolved = path.resolve(filePath);
@@ -65,6 +96,36 @@ export function writeFile(filePath: string, file: ExcalidrawFile, options: { for
   // Update version on write
   file.source = 'excalidraw-agent';
   
+  const ext = path.extname(resolved).toLowerCase();
+  if (ext === '.drawio') {
+    if (fs.existsSync(resolved)) {
+      const previous = fs.readFileSync(resolved, 'utf-8');
+      const lost = isDrawio(previous) ? drawioToExcalidraw(previous).warnings : [];
+      if (lost.length > 0) {
+        throw new LossyWriteError(filePath, lost);
+      }
+    }
+    const { xml, warnings } = excalidrawToDrawio(file);
+    for (const warning of warnings) {
+      info(`Warning: ${filePath}: ${warning}`);
+    }
+    fs.writeFileSync(resolved, xml, 'utf-8');
+    return;
+  }
+  
+  // Obsidian notes keep their own text and sections around the drawing
+  if (ext === '.md') {
+    const previous = fs.existsSync(resolved) ? fs.readFileSync(resolved, 'utf-8') : undefined;
+    fs.writeFileSync(resolved, excalidrawToObsidian(file, previous && isObsidianDrawing(previous) ? previous : undefined), 'utf-8');
+    return;
+  }
+  
+  // Images keep their embedded scene in sync with the drawing
+  if (ext === '.png' || ext === '.svg') {
+    fs.writeFileSync(resolved, renderEmbeddedImage(file, ext === '.png' ? 'png' : 'svg'));
+    return;
+  }
+  
   fs.writeFileSync(resolved, JSON.stringify(file, null, 2), 'utf-8');
 }
 
@@ -92,7 +153,67 @@ export function validateExcalidrawFile(data: unknown): asserts data is Excalidra
 }
 
 /**
- * Calculate bounds of all elements
+ * Unrotated bounding box of an element. Linear and freedraw elements are
+ * measured from their points, which may extend left of or above x/y.
+ */
+export function getElementBox(el: ExcalidrawElement): {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+} {
+  if ('points' in el && Array.isArray(el.points) && el.points.length > 0) {
+    const xs = el.points.map(p => p[0]);
+    const ys = el.points.map(p => p[1]);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    return {
+      x: el.x + minX,
+      y: el.y + minY,
+      width: Math.max(...xs) - minX,
+      height: Math.max(...ys) - minY
+    };
+  }
+  return { x: el.x, y: el.y, width: el.width, height: el.height };
+}
+
+/**
+ * Centre of an element, the point it rotates around
+ */
+export function getElementCenter(el: ExcalidrawElement): { x: number; y: number } {
+  const box = getElementBox(el);
+  return { x: box.x + box.width / 2, y: box.y + box.height / 2 };
+}
+
+/**
+ * Corners of an element's box after rotating it by its angle
+ */
+export function getElementCorners(el: ExcalidrawElement): [number, number][] {
+  const box = getElementBox(el);
+  const corners: [number, number][] = [
+    [box.x, box.y],
+    [box.x + box.width, box.y],
+    [box.x + box.width, box.y + box.height],
+    [box.x, box.y + box.height]
+  ];
+
+  const angle = el.angle || 0;
+  if (angle === 0) {
+    return corners;
+  }
+
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return corners.map(([x, y]) => [
+    cx + (x - cx) * cos - (y - cy) * sin,
+    cy + (x - cx) * sin + (y - cy) * cos
+  ]);
+}
+
+/**
+ * Calculate bounds of all elements, taking rotation into account
  */
 export function calculateBounds(elements: ExcalidrawElement[]): {
   x: number;
@@ -110,10 +231,12 @@ export function calculateBounds(elements: ExcalidrawElement[]): {
   let maxY = -Infinity;
   
   for (const el of elements) {
-    minX = Math.min(minX, el.x);
-    minY = Math.min(minY, el.y);
-    maxX = Math.max(maxX, el.x + el.width);
-    maxY = Math.max(maxY, el.y + el.height);
+    for (const [x, y] of getElementCorners(el)) {
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
   }
   
   return {
@@ -163,3 +286,10 @@ export class InvalidFileError extends Error {
     this.name = 'InvalidFileError';
   }
 }
+
+export class LossyWriteError extends Error {
+  constructor(filePath: string, lost: string[]) {
+    super(`Cannot save ${filePath} in place, it would lose content that was not read: ${lost.join('; ')}. Import it into a .excalidraw drawing instead`);
+    this.name = 'LossyWriteError';
+  }
+}
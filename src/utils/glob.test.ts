@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { expandGlob, globBase, isGlob } from './glob.js';
+
+describe('glob', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'excalidraw-glob-test-'));
+    for (const file of ['a.excalidraw', 'b.json', 'sub/c.excalidraw', 'sub/deep/d.excalidraw', 'node_modules/e.excalidraw']) {
+      fs.mkdirSync(path.dirname(path.join(tempDir, file)), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, file), '{}');
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const relative = (files: string[]) => files.map(file => path.relative(tempDir, file).split(path.sep).join('/'));
+
+  it('should detect glob patterns', () => {
+    expect(isGlob('docs/*.excalidraw')).toBe(true);
+    expect(isGlob('docs/diagram.excalidraw')).toBe(false);
+  });
+
+  it('should split off the literal base directory', () => {
+    expect(globBase('docs/diagrams/**/*.excalidraw')).toEqual({ base: 'docs/diagrams', rest: '**/*.excalidraw' });
+    expect(globBase('*.excalidraw')).toEqual({ base: '.', rest: '*.excalidraw' });
+  });
+
+  it('should match a single directory level with *', () => {
+    expect(relative(expandGlob(`${tempDir}/*.excalidraw`))).toEqual(['a.excalidraw']);
+  });
+
+  it('should match any depth with ** and skip node_modules', () => {
+    expect(relative(expandGlob(`${tempDir}/**/*.excalidraw`)))
+      .toEqual(['a.excalidraw', 'sub/c.excalidraw', 'sub/deep/d.excalidraw']);
+    expect(relative(expandGlob(`${tempDir}/sub/?.excalidraw`))).toEqual(['sub/c.excalidraw']);
+  });
+
+  it('should return nothing for a missing base directory', () => {
+    expect(expandGlob(`${tempDir}/missing/*.excalidraw`)).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Minimal glob expansion for input file patterns
+ * Supports *, ** and ? in any path segment
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+/** Directories never searched when expanding patterns */
+const SKIPPED_DIRS = new Set(['node_modules', '.git']);
+
+export function isGlob(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    if (ch === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function walk(dir: string, files: string[] = []): string[] {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRS.has(entry.name)) walk(full, files);
+    } else if (entry.isFile()) {
+      files.push(full);
+    }
+  }
+  return files;
+}
+
+/**
+ * Split a pattern into the directory to search and the pattern relative to it
+ */
+export function globBase(pattern: string): { base: string; rest: string } {
+  const segments = pattern.split(/[\\/]/);
+  const index = segments.findIndex(isGlob);
+  if (index < 0) {
+    return { base: path.dirname(pattern), rest: path.basename(pattern) };
+  }
+  const base = segments.slice(0, index).join('/') || (pattern.startsWith('/') ? '/' : '.');
+  return { base, rest: segments.slice(index).join('/') };
+}
+
+/**
+ * Files matching a glob pattern, sorted
+ */
+export function expandGlob(pattern: string): string[] {
+  const { base, rest } = globBase(pattern);
+  if (!fs.existsSync(base)) {
+    return [];
+  }
+  const regex = globToRegExp(rest);
+  return walk(base)
+    .filter(file => regex.test(path.relative(base, file).split(path.sep).join('/')))
+    .sort();
+}
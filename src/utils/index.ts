@@ -1,4 +1,11 @@
 export * from './id.js';
 export * from './file.js';
+export * from './embed.js';
+export * from './selection.js';
+export * from './glob.js';
 export * from './element.js';
 export * from './output.js';
+export * from './binding.js';
+export * from './drawio.js';
+export * from './obsidian.js';
+export * from './library.js';
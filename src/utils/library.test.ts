@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  createEmptyLibrary,
+  createLibraryItem,
+  findLibraryItem,
+  instantiateLibraryItem,
+  readLibrary,
+  writeLibrary,
+  LibraryItemNotFoundError
+} from './library.js';
+import { createElement } from './element.js';
+import { addBoundElement } from './binding.js';
+import { InvalidFileError } from './file.js';
+import type { ExcalidrawElement, LinearElement, TextElement } from '../types/excalidraw.js';
+
+/** A labelled box with an arrow to a second box, all in one group */
+function component(): ExcalidrawElement[] {
+  let box = createElement({ type: 'rectangle', id: 'box', x: 100, y: 50, width: 100, height: 40, groupIds: ['g1'] });
+  const label = { ...createElement({ type: 'text', id: 'label', x: 110, y: 60, text: 'DB', groupIds: ['g1'] }), containerId: 'box' } as TextElement;
+  let other = createElement({ type: 'rectangle', id: 'other', x: 300, y: 50, width: 100, height: 40, groupIds: ['g1'] });
+  const arrow = createElement({
+    type: 'arrow', id: 'arrow', x: 200, y: 70, points: [[0, 0], [100, 0]], groupIds: ['g1', 'outer'],
+    startBinding: { elementId: 'box', focus: 0, gap: 0 },
+    endBinding: { elementId: 'other', focus: 0, gap: 0 }
+  });
+  box = addBoundElement(addBoundElement(box, label.id, 'text'), arrow.id, 'arrow');
+  other = addBoundElement(other, arrow.id, 'arrow');
+  return [box, label, other, arrow];
+}
+
+describe('libraries', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'excalidraw-lib-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should write and read library items', () => {
+    const filePath = path.join(tempDir, 'parts.excalidrawlib');
+    const library = createEmptyLibrary();
+    library.libraryItems.push(createLibraryItem(component(), 'Database'));
+
+    writeLibrary(filePath, library);
+    const read = readLibrary(filePath);
+
+    expect(read).toMatchObject({ type: 'excalidrawlib', version: 2, source: 'excalidraw-agent' });
+    expect(findLibraryItem(read, 'Database').elements.map(el => el.id)).toEqual(['box', 'label', 'other', 'arrow']);
+    expect(findLibraryItem(read, read.libraryItems[0].id).name).toBe('Database');
+    expect(() => findLibraryItem(read, 'Cache')).toThrow(LibraryItemNotFoundError);
+  });
+
+  it('should upgrade version 1 libraries', () => {
+    const filePath = path.join(tempDir, 'old.excalidrawlib');
+    fs.writeFileSync(filePath, JSON.stringify({ type: 'excalidrawlib', version: 1, library: [component(), component().slice(0, 1)] }));
+
+    const library = readLibrary(filePath);
+    expect(library.version).toBe(2);
+    expect(library.libraryItems.map(item => item.elements.length)).toEqual([4, 1]);
+    expect(library.libraryItems.every(item => item.id && item.status === 'unpublished')).toBe(true);
+  });
+
+  it('should reject files that are not libraries', () => {
+    const filePath = path.join(tempDir, 'drawing.excalidrawlib');
+    fs.writeFileSync(filePath, JSON.stringify({ type: 'excalidraw', elements: [] }));
+
+    expect(() => readLibrary(filePath)).toThrow(InvalidFileError);
+  });
+
+  it('should drop references to elements left out of an item', () => {
+    const [box, label, , arrow] = component();
+    const item = createLibraryItem([box, label, arrow]);
+
+    const [savedBox, , savedArrow] = item.elements;
+    expect(savedBox.boundElements).toEqual([{ id: 'label', type: 'text' }, { id: 'arrow', type: 'arrow' }]);
+    expect(savedArrow).toMatchObject({ startBinding: { elementId: 'box' }, endBinding: null });
+    expect(item.name).toBeUndefined();
+  });
+
+  it('should insert items with fresh ids and groups at a position', () => {
+    const item = createLibraryItem(component());
+    const first = instantiateLibraryItem(item, 0, 500);
+    const second = instantiateLibraryItem(item, 0, 500);
+
+    const [box, label, other, arrow] = first as [ExcalidrawElement, TextElement, ExcalidrawElement, LinearElement];
+    expect(first.some(el => ['box', 'label', 'other', 'arrow'].includes(el.id))).toBe(false);
+    expect(second.map(el => el.id)).not.toContain(box.id);
+    expect(box).toMatchObject({ x: 0, y: 500, width: 100, height: 40 });
+    expect(other).toMatchObject({ x: 200, y: 500 });
+    expect(label.containerId).toBe(box.id);
+    expect(box.boundElements).toEqual([{ id: label.id, type: 'text' }, { id: arrow.id, type: 'arrow' }]);
+    expect(arrow).toMatchObject({ startBinding: { elementId: box.id }, endBinding: { elementId: other.id } });
+
+    const [group, outer] = arrow.groupIds;
+    expect(box.groupIds).toEqual([group]);
+    expect([group, outer]).not.toContain('g1');
+    expect(second[0].groupIds[0]).not.toBe(group);
+  });
+});
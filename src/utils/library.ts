@@ -0,0 +1,187 @@
+/**
+ * Excalidraw libraries (.excalidrawlib)
+ *
+ * A library is a JSON file of reusable items, each a small drawing. Version 2
+ * files list `libraryItems` with an id and optional name; version 1 files hold
+ * a bare `library` array of element lists and are upgraded when read.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { calculateBounds, FileNotFoundError, InvalidFileError, InvalidJsonError } from './file.js';
+import { generateId } from './id.js';
+import type { ExcalidrawElement, ExcalidrawLibrary, LibraryItem } from '../types/excalidraw.js';
+
+/**
+ * Create an empty library
+ */
+export function createEmptyLibrary(): ExcalidrawLibrary {
+  return {
+    type: 'excalidrawlib',
+    version: 2,
+    source: 'excalidraw-agent',
+    libraryItems: []
+  };
+}
+
+/**
+ * Check a parsed library file, upgrading version 1 files to version 2
+ */
+function parseLibrary(data: unknown): ExcalidrawLibrary {
+  if (typeof data !== 'object' || data === null) {
+    throw new InvalidFileError('Library is not a valid JSON object');
+  }
+
+  const file = data as Record<string, unknown>;
+
+  if (file.type !== 'excalidrawlib') {
+    throw new InvalidFileError('Library type must be "excalidrawlib"');
+  }
+
+  if (Array.isArray(file.libraryItems)) {
+    return { ...createEmptyLibrary(), source: String(file.source ?? ''), libraryItems: file.libraryItems as LibraryItem[] };
+  }
+
+  if (Array.isArray(file.library)) {
+    return {
+      ...createEmptyLibrary(),
+      source: String(file.source ?? ''),
+      libraryItems: (file.library as ExcalidrawElement[][]).map(elements => ({
+        id: generateId(),
+        status: 'unpublished',
+        elements,
+        created: Date.now()
+      }))
+    };
+  }
+
+  throw new InvalidFileError('Library must have a "libraryItems" array');
+}
+
+/**
+ * Read an Excalidraw library from disk
+ */
+export function readLibrary(filePath: string): ExcalidrawLibrary {
+  const resolved = path.resolve(filePath);
+
+  if (!fs.existsSync(resolved)) {
+    throw new FileNotFoundError(filePath);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(fs.readFileSync(resolved, 'utf-8'));
+  } catch (error) {
+    throw new InvalidJsonError(filePath, error instanceof Error ? error.message : 'Unknown error');
+  }
+  return parseLibrary(data);
+}
+
+/**
+ * Write an Excalidraw library to disk, as a version 2 file
+ */
+export function writeLibrary(filePath: string, library: ExcalidrawLibrary): void {
+  const resolved = path.resolve(filePath);
+
+  const dir = path.dirname(resolved);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  library.source = 'excalidraw-agent';
+  fs.writeFileSync(resolved, JSON.stringify(library, null, 2), 'utf-8');
+}
+
+/**
+ * Find a library item by id or name
+ */
+export function findLibraryItem(library: ExcalidrawLibrary, ref: string): LibraryItem {
+  const item = library.libraryItems.find(it => it.id === ref) ?? library.libraryItems.find(it => it.name === ref);
+  if (!item) {
+    throw new LibraryItemNotFoundError(ref);
+  }
+  return item;
+}
+
+/**
+ * Copy elements with their ids and group ids renamed, moved by dx/dy.
+ * References to elements outside the copy (bindings, containers, frames) are
+ * dropped.
+ */
+function relink(
+  elements: ExcalidrawElement[],
+  ids: Map<string, string>,
+  groupId: (id: string) => string,
+  dx: number,
+  dy: number
+): ExcalidrawElement[] {
+  const rebind = <T extends { elementId: string }>(binding: T | null) =>
+    binding && ids.has(binding.elementId) ? { ...binding, elementId: ids.get(binding.elementId)! } : null;
+
+  return elements.map(el => {
+    const copy = {
+      ...el,
+      id: ids.get(el.id)!,
+      x: el.x + dx,
+      y: el.y + dy,
+      groupIds: el.groupIds.map(groupId),
+      frameId: (el.frameId && ids.get(el.frameId)) ?? null,
+      boundElements: el.boundElements?.filter(b => ids.has(b.id)).map(b => ({ ...b, id: ids.get(b.id)! })) ?? null
+    } as ExcalidrawElement;
+
+    if (copy.type === 'text' && copy.containerId) {
+      copy.containerId = ids.get(copy.containerId) ?? null;
+    }
+    if (copy.type === 'arrow' || copy.type === 'line') {
+      copy.startBinding = rebind(copy.startBinding);
+      copy.endBinding = rebind(copy.endBinding);
+    }
+    return copy;
+  });
+}
+
+/**
+ * Make a library item from elements of a drawing. Arrow bindings and bound
+ * elements pointing outside the selection are dropped.
+ */
+export function createLibraryItem(elements: ExcalidrawElement[], name?: string): LibraryItem {
+  const ids = new Map(elements.map(el => [el.id, el.id]));
+  const item: LibraryItem = {
+    id: generateId(),
+    status: 'unpublished',
+    elements: relink(elements, ids, id => id, 0, 0),
+    created: Date.now()
+  };
+  if (name) {
+    item.name = name;
+  }
+  return item;
+}
+
+/**
+ * Elements of a library item ready to add to a drawing, with fresh ids and
+ * group ids and the item's top-left corner moved to x/y
+ */
+export function instantiateLibraryItem(item: LibraryItem, x: number, y: number): ExcalidrawElement[] {
+  const elements = item.elements.filter(el => !el.isDeleted);
+  const ids = new Map(elements.map(el => [el.id, generateId()]));
+  const groups = new Map<string, string>();
+  const groupId = (id: string) => {
+    if (!groups.has(id)) {
+      groups.set(id, generateId());
+    }
+    return groups.get(id)!;
+  };
+
+  const bounds = calculateBounds(elements);
+  const now = Date.now();
+  return relink(elements, ids, groupId, x - bounds.x, y - bounds.y).map(el => ({ ...el, updated: now }));
+}
+
+// Error classes
+export class LibraryItemNotFoundError extends Error {
+  constructor(ref: string) {
+    super(`Library item not found: ${ref}`);
+    this.name = 'LibraryItemNotFoundError';
+  }
+}
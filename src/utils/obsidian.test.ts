@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { excalidrawToObsidian, isObsidianDrawing, obsidianToExcalidraw } from './obsidian.js';
+import { createEmptyFile, InvalidFileError } from './file.js';
+import { createElement } from './element.js';
+
+/** A note as the plugin writes it, compressed with LZString.compressToBase64 */
+const compressedNote = `---
+
+excalidraw-plugin: parsed
+tags: [excalidraw]
+
+---
+==⚠  Switch to EXCALIDRAW VIEW in the MORE OPTIONS menu of this document. ⚠==
+
+
+# Excalidraw Data
+
+## Text Elements
+Hello ^note1
+
+%%
+## Drawing
+\`\`\`compressed-json
+N4IgLgngDgpiBcIYA8DGBDANgSwCYCd0B3EAGhADcZ8BnbAewDsEAmcm+gV31TkXoBGdXNnTNyMTDAC2MRmBoIA2qDwIQjemBgBG
+
+MuGh9wKMPuQIADOQiXyRPGAAWCABxWQjmNgDmj0/BYAVnIxbylbEBowfHoAaxgAYXpMenx1AGIdXWz9AXRUWO8YzkZcJJS0xGixG
+
+ih0fDlTcgAzbExMAGVIcMQOHFx9KJj4gHUHZwD2aLiYLogeyOS1cmLfRhgaRXgdcno61GxIBB0LdyKuKABJXC2lAF0WwllrhEZOd
+
+pWuUvXN1/fMdgwGADbbkKi0BjMUGUah0JgAOSYvGO5GwNAAIpIYNoQc0sDQYOQBF9cABRKSyeRbN4fECcKC4dA4lEgHCMWJ/WkpA
+
+rAhB4zAE8jaZD+EAACUkKX0hCIABUTOoJe16PpUj5sIwsPKRYrJSqWkwwB1sAAvPgsdzNQ0AMXQ0jaNmhwrAAEEcN4oayYM0mjD8
+
+GBsBhMG6fJ6wHtcugCWy+DoXORUIb0BrqC94DSAayUxKfH5jgA6IIAXweIHQUCgXSZfFARTwxrNnMzFGwMCIACF8oViqVyqkMs1B
+
+0OQEWWm0NghgEWi0A===
+\`\`\`
+%%`;
+
+function drawing() {
+  const file = createEmptyFile();
+  const box = createElement({ type: 'rectangle', id: 'box', x: 0, y: 0, width: 100, height: 50 });
+  const label = { ...createElement({ type: 'text', id: 'label', x: 10, y: 10, text: 'Two\nlines' }), containerId: 'box' };
+  file.elements = [box, label, { ...createElement({ type: 'text', id: 'gone', x: 0, y: 100, text: 'Deleted' }), isDeleted: true }];
+  return file;
+}
+
+describe('Obsidian notes', () => {
+  it('should detect Obsidian Excalidraw notes', () => {
+    expect(isObsidianDrawing(compressedNote)).toBe(true);
+    expect(isObsidianDrawing('%%\n# Drawing\n```json\n{}\n```\n%%')).toBe(true);
+    expect(isObsidianDrawing('---\ntitle: Notes\n---\n# Notes\n```json\n{}\n```\n')).toBe(false);
+    expect(isObsidianDrawing('{"type":"excalidraw"}')).toBe(false);
+  });
+
+  it('should read compressed drawing data', () => {
+    const file = obsidianToExcalidraw(compressedNote);
+
+    expect(file.source).toBe('obsidian');
+    expect(file.elements).toHaveLength(1);
+    expect(file.elements[0]).toMatchObject({ id: 'note1', type: 'text', text: 'Hello' });
+  });
+
+  it('should take text edited in the Text Elements section', () => {
+    const file = obsidianToExcalidraw(compressedNote.replace('Hello ^note1', 'Hello\nthere ^note1'));
+
+    expect(file.elements[0]).toMatchObject({ text: 'Hello\nthere', originalText: 'Hello\nthere', rawText: 'Hello\nthere' });
+  });
+
+  it('should write notes that read back as the same drawing', () => {
+    const file = drawing();
+    const markdown = excalidrawToObsidian(file);
+
+    expect(markdown).toMatch(/^---\n\nexcalidraw-plugin: parsed\n/);
+    expect(markdown).toContain('## Text Elements\nTwo\nlines ^label\n\n%%\n## Drawing\n```compressed-json\n');
+    expect(markdown).not.toContain('Deleted ^gone');
+    expect(obsidianToExcalidraw(markdown)).toEqual(file);
+  });
+
+  it('should keep the text, sections and compression of the note it replaces', () => {
+    const previous = [
+      '---',
+      'excalidraw-plugin: parsed',
+      'tags: [excalidraw, project]',
+      '---',
+      'My notes about this drawing.',
+      '',
+      '# Text Elements',
+      'Old ^old',
+      '',
+      '# Element Links',
+      'box: [[Plan]]',
+      '',
+      '# Embedded Files',
+      'abc123: [[photo.png]]',
+      '',
+      '%%',
+      '# Drawing',
+      '```json',
+      '{"type":"excalidraw","version":2,"elements":[],"appState":{}}',
+      '```',
+      '%%'
+    ].join('\n');
+    const markdown = excalidrawToObsidian(drawing(), previous);
+
+    expect(markdown).toMatch(/^---\nexcalidraw-plugin: parsed\ntags: \[excalidraw, project\]\n---\nMy notes about this drawing\.\n\n# Excalidraw Data\n/);
+    expect(markdown).toContain('Two\nlines ^label\n\n# Element Links\nbox: [[Plan]]\n\n# Embedded Files\nabc123: [[photo.png]]\n\n%%\n## Drawing\n```json\n{\n\t"type": "excalidraw"');
+    expect(markdown).not.toContain('Old ^old');
+    expect(obsidianToExcalidraw(markdown).elements.map(el => el.id)).toEqual(['box', 'label', 'gone']);
+  });
+
+  it('should reject notes without readable drawing data', () => {
+    expect(() => obsidianToExcalidraw('---\nexcalidraw-plugin: parsed\n---\n')).toThrow('Obsidian note has no Drawing block');
+    expect(() => obsidianToExcalidraw('%%\n## Drawing\n```compressed-json\n!!!!\n```\n%%')).toThrow(InvalidFileError);
+    expect(() => obsidianToExcalidraw('%%\n## Drawing\n```json\n{"type":"other"}\n```\n%%')).toThrow(InvalidFileError);
+  });
+});
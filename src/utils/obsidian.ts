@@ -0,0 +1,257 @@
+/**
+ * Obsidian Excalidraw plugin notes (.excalidraw.md)
+ *
+ * The plugin keeps a drawing in a markdown note: front matter marking it as
+ * a drawing, a `## Text Elements` section listing each text element as
+ * `text ^id`, and the scene in a `## Drawing` block, either as plain JSON or
+ * LZ-string compressed to base64 (`compressed-json`). When a note is saved
+ * again, the text above the drawing data, the embedded file and element link
+ * sections, and the choice of compression are kept.
+ */
+
+import { InvalidFileError, validateExcalidrawFile } from './file.js';
+import type { ExcalidrawFile, TextElement } from '../types/excalidraw.js';
+
+const DRAWING_BLOCK = /^%%\s*\n#{1,2} Drawing\s*\n```(compressed-json|json)\n([\s\S]*?)\n```\s*\n%%/m;
+const DATA_HEADING = /^#{1,2} (?:Excalidraw Data|Text Elements)\s*$/m;
+const TEXT_SECTION = /^#{1,2} Text Elements\s*\n([\s\S]*?)(?=^#{1,2} |^%%)/m;
+const KEPT_SECTIONS = /^#{1,2} (?:Element Links|Embedded Files)\s*\n[\s\S]*?(?=^#{1,2} |^%%)/gm;
+
+const HEADER = `---
+
+excalidraw-plugin: parsed
+tags: [excalidraw]
+
+---
+==⚠  Switch to EXCALIDRAW VIEW in the MORE OPTIONS menu of this document. ⚠== You can decompress Drawing data with the command palette: 'Decompress current Excalidraw file'. For more info check in plugin settings under 'Saving'
+
+
+`;
+
+/** The plugin breaks compressed data into lines of this length */
+const LINE_LENGTH = 256;
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/=';
+
+/** Text elements may carry the unparsed markdown of their text */
+type PluginText = TextElement & { rawText?: string };
+
+/**
+ * LZ-string compression to base64, as `LZString.compressToBase64`
+ */
+function lzCompress(input: string): string {
+  const dictionary = new Map<string, number>();
+  const pending = new Set<string>();
+  const output: string[] = [];
+  let value = 0;
+  let position = 0;
+  let enlargeIn = 2;
+  let dictSize = 3;
+  let numBits = 2;
+
+  const writeBits = (bits: number, count: number) => {
+    for (let i = 0; i < count; i++) {
+      value = (value << 1) | (bits & 1);
+      bits >>= 1;
+      if (position === 5) {
+        position = 0;
+        output.push(BASE64[value]);
+        value = 0;
+      } else {
+        position++;
+      }
+    }
+  };
+  const grow = () => {
+    if (--enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+  };
+  // A phrase is written as its dictionary code, or as a literal character the first time
+  const writePhrase = (phrase: string) => {
+    if (pending.has(phrase)) {
+      const code = phrase.charCodeAt(0);
+      if (code < 256) {
+        writeBits(0, numBits);
+        writeBits(code, 8);
+      } else {
+        writeBits(1, numBits);
+        writeBits(code, 16);
+      }
+      grow();
+      pending.delete(phrase);
+    } else {
+      writeBits(dictionary.get(phrase)!, numBits);
+    }
+    grow();
+  };
+
+  let w = '';
+  for (const c of input.split('')) {
+    if (!dictionary.has(c)) {
+      dictionary.set(c, dictSize++);
+      pending.add(c);
+    }
+    if (dictionary.has(w + c)) {
+      w += c;
+    } else {
+      writePhrase(w);
+      dictionary.set(w + c, dictSize++);
+      w = c;
+    }
+  }
+  if (w !== '') {
+    writePhrase(w);
+  }
+  writeBits(2, numBits);
+  // Pad the last character
+  for (;;) {
+    value <<= 1;
+    if (position === 5) {
+      output.push(BASE64[value]);
+      break;
+    }
+    position++;
+  }
+  const result = output.join('');
+  return result + '='.repeat((4 - (result.length % 4)) % 4);
+}
+
+/**
+ * LZ-string decompression from base64, as `LZString.decompressFromBase64`;
+ * null when the data is corrupt
+ */
+function lzDecompress(input: string): string | null {
+  const codes = input.split('').map(ch => BASE64.indexOf(ch));
+  let index = 0;
+  let value = codes[index++];
+  let position = 32;
+  const readBits = (count: number) => {
+    let bits = 0;
+    for (let power = 1; power < 2 ** count; power <<= 1) {
+      if (value & position) bits |= power;
+      position >>= 1;
+      if (position === 0) {
+        position = 32;
+        value = codes[index++];
+      }
+    }
+    return bits;
+  };
+
+  const dictionary: string[] = ['', '', ''];
+  let enlargeIn = 4;
+  let numBits = 3;
+  const first = readBits(2);
+  if (first === 2) return '';
+  if (first > 2) return null;
+  let w = String.fromCharCode(readBits(first === 0 ? 8 : 16));
+  dictionary.push(w);
+  const result = [w];
+
+  for (;;) {
+    if (index > codes.length) return null;
+    let code = readBits(numBits);
+    if (code === 2) return result.join('');
+    if (code < 2) {
+      dictionary.push(String.fromCharCode(readBits(code === 0 ? 8 : 16)));
+      code = dictionary.length - 1;
+      enlargeIn--;
+    }
+    if (enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+    let entry: string;
+    if (code < dictionary.length) {
+      entry = dictionary[code];
+    } else if (code === dictionary.length) {
+      entry = w + w[0];
+    } else {
+      return null;
+    }
+    result.push(entry);
+    dictionary.push(w + entry[0]);
+    enlargeIn--;
+    w = entry;
+    if (enlargeIn === 0) {
+      enlargeIn = 2 ** numBits;
+      numBits++;
+    }
+  }
+}
+
+/**
+ * Check whether content is an Obsidian Excalidraw note
+ */
+export function isObsidianDrawing(content: string): boolean {
+  return /^---\s*\n[\s\S]*?^excalidraw-plugin:/m.test(content) || DRAWING_BLOCK.test(content);
+}
+
+/**
+ * `text ^id` entries of the Text Elements section
+ */
+function textEntries(markdown: string): Map<string, string> {
+  const entries = new Map<string, string>();
+  const section = TEXT_SECTION.exec(markdown);
+  for (const match of (section?.[1] ?? '').matchAll(/([\s\S]+?) \^([\w-]+)\n(?:\n|$)/g)) {
+    entries.set(match[2], match[1].replace(/^\n+/, ''));
+  }
+  return entries;
+}
+
+/**
+ * Read the drawing of an Obsidian Excalidraw note. Text edited in the note's
+ * Text Elements section wins over the text stored in the drawing, as in the
+ * plugin.
+ */
+export function obsidianToExcalidraw(markdown: string): ExcalidrawFile {
+  const block = DRAWING_BLOCK.exec(markdown.replace(/\r\n/g, '\n'));
+  if (!block) {
+    throw new InvalidFileError('Obsidian note has no Drawing block');
+  }
+  let json: string | null = block[2];
+  if (block[1] === 'compressed-json') {
+    json = lzDecompress(block[2].replace(/\s+/g, ''));
+    if (!json) {
+      throw new InvalidFileError('Obsidian drawing data could not be decompressed');
+    }
+  }
+  const data = JSON.parse(json);
+  validateExcalidrawFile(data);
+
+  const entries = textEntries(markdown);
+  data.elements = data.elements.map(el => {
+    const text = entries.get(el.id);
+    if (el.type !== 'text' || text === undefined || text === ((el as PluginText).rawText ?? el.originalText)) {
+      return el;
+    }
+    return { ...el, text, originalText: text, ...('rawText' in el && { rawText: text }) };
+  });
+  return data;
+}
+
+/**
+ * Write a drawing as an Obsidian Excalidraw note. Given the note it replaces,
+ * its text above the drawing data, its embedded file and element link
+ * sections, and its compression are kept.
+ */
+export function excalidrawToObsidian(file: ExcalidrawFile, previous?: string): string {
+  const prior = previous?.replace(/\r\n/g, '\n');
+  const heading = prior ? DATA_HEADING.exec(prior) ?? DRAWING_BLOCK.exec(prior) : null;
+  const preamble = prior && heading ? prior.slice(0, heading.index) : HEADER;
+  const compressed = prior ? DRAWING_BLOCK.exec(prior)?.[1] !== 'json' : true;
+  const kept = prior ? [...prior.matchAll(KEPT_SECTIONS)].map(m => m[0].trimEnd() + '\n\n').join('') : '';
+
+  const texts = file.elements
+    .filter((el): el is PluginText => el.type === 'text' && !el.isDeleted)
+    .map(el => `${el.rawText ?? el.originalText ?? el.text} ^${el.id}\n\n`)
+    .join('');
+
+  const json = JSON.stringify(file, null, compressed ? undefined : '\t');
+  const data = compressed
+    ? (lzCompress(json).match(new RegExp(`.{1,${LINE_LENGTH}}`, 'g')) ?? []).join('\n\n')
+    : json;
+  return `${preamble}# Excalidraw Data\n\n## Text Elements\n${texts}${kept}%%\n## Drawing\n\`\`\`${compressed ? 'compressed-json' : 'json'}\n${data}\n\`\`\`\n%%`;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { createElement } from './element.js';
+import { matchId, parseRegion, selectElements, InvalidSelectionError } from './selection.js';
+import type { ExcalidrawElement, LinearElement, TextElement } from '../types/excalidraw.js';
+
+function scene(): ExcalidrawElement[] {
+  const a = createElement({ type: 'rectangle', id: 'box-a', x: 0, y: 0, width: 100, height: 50 });
+  const b = createElement({ type: 'rectangle', id: 'box-b', x: 300, y: 0, width: 100, height: 50 });
+  const c = createElement({ type: 'ellipse', id: 'circle-c', x: 0, y: 200, width: 50, height: 50 });
+  const arrow = createElement({ type: 'arrow', id: 'arrow-ab', x: 100, y: 25, points: [[0, 0], [200, 0]] }) as LinearElement;
+  const label = createElement({ type: 'text', id: 'label-a', x: 20, y: 15, text: 'A' }) as TextElement;
+  const deleted = createElement({ type: 'rectangle', id: 'box-deleted', x: 0, y: 0 });
+
+  a.groupIds = ['g1'];
+  c.groupIds = ['g1'];
+  b.frameId = 'frame-1';
+  arrow.startBinding = { elementId: 'box-a', focus: 0, gap: 1 };
+  arrow.endBinding = { elementId: 'box-b', focus: 0, gap: 1 };
+  label.containerId = 'box-a';
+  deleted.isDeleted = true;
+  return [a, b, c, arrow, label, deleted];
+}
+
+const ids = (elements: ExcalidrawElement[]) => elements.map(el => el.id);
+
+describe('selectElements', () => {
+  it('should select by ID pattern', () => {
+    expect(ids(selectElements(scene(), { id: 'box-*' }))).toEqual(['box-a', 'box-b', 'label-a']);
+  });
+
+  it('should select by group and frame', () => {
+    expect(ids(selectElements(scene(), { groupId: 'g1' }))).toEqual(['box-a', 'circle-c', 'label-a']);
+    expect(ids(selectElements(scene(), { frameId: 'frame-1' }))).toEqual(['box-b']);
+  });
+
+  it('should select elements entirely inside a region', () => {
+    expect(ids(selectElements(scene(), { region: { x: -10, y: -10, width: 120, height: 300 } })))
+      .toEqual(['box-a', 'circle-c', 'label-a']);
+  });
+
+  it('should combine criteria', () => {
+    expect(ids(selectElements(scene(), { groupId: 'g1', id: 'circle-*' }))).toEqual(['circle-c']);
+  });
+
+  it('should optionally include bound arrows', () => {
+    expect(ids(selectElements(scene(), { id: 'box-b' }))).toEqual(['box-b']);
+    expect(ids(selectElements(scene(), { id: 'box-b', includeBoundArrows: true }))).toEqual(['box-b', 'arrow-ab']);
+  });
+});
+
+describe('matchId', () => {
+  it('should match exact IDs and * at either end', () => {
+    expect(matchId('box-a', 'box-a')).toBe(true);
+    expect(matchId('box-a', 'box-*')).toBe(true);
+    expect(matchId('box-a', '*-a')).toBe(true);
+    expect(matchId('box-a', '*ox*')).toBe(true);
+    expect(matchId('box-a', '*')).toBe(true);
+    expect(matchId('box-a', 'box')).toBe(false);
+    expect(matchId('box-a', 'circle-*')).toBe(false);
+  });
+});
+
+describe('parseRegion', () => {
+  it('should parse x,y,width,height', () => {
+    expect(parseRegion('10, 20,300,150.5')).toEqual({ x: 10, y: 20, width: 300, height: 150.5 });
+  });
+
+  it('should reject malformed regions', () => {
+    expect(() => parseRegion('10,20,300')).toThrow(InvalidSelectionError);
+    expect(() => parseRegion('a,b,c,d')).toThrow(InvalidSelectionError);
+  });
+});
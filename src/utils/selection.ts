@@ -0,0 +1,112 @@
+/**
+ * Pick a subset of a drawing's elements for export
+ */
+
+import { getElementCorners } from './file.js';
+import type { ExcalidrawElement } from '../types/excalidraw.js';
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SelectionCriteria {
+  /** Element ID pattern (supports * glob) */
+  id?: string;
+  /** Elements belonging to this group */
+  groupId?: string;
+  /** Elements inside this frame, and the frame itself */
+  frameId?: string;
+  /** Elements lying entirely within this region */
+  region?: Region;
+  /** Also include arrows bound to a selected element */
+  includeBoundArrows?: boolean;
+}
+
+/**
+ * Match element ID with glob-like pattern
+ * Supports * wildcard at start or end
+ */
+export function matchId(id: string, pattern: string): boolean {
+  if (pattern === '*') return true;
+  if (pattern.startsWith('*') && pattern.endsWith('*')) {
+    return id.includes(pattern.slice(1, -1));
+  }
+  if (pattern.startsWith('*')) {
+    return id.endsWith(pattern.slice(1));
+  }
+  if (pattern.endsWith('*')) {
+    return id.startsWith(pattern.slice(0, -1));
+  }
+  return id === pattern;
+}
+
+function withinRegion(el: ExcalidrawElement, region: Region): boolean {
+  return getElementCorners(el).every(([x, y]) =>
+    x >= region.x && x <= region.x + region.width &&
+    y >= region.y && y <= region.y + region.height
+  );
+}
+
+/**
+ * Parse a region given as "x,y,width,height"
+ */
+export function parseRegion(value: string): Region {
+  const parts = value.split(',').map(part => parseFloat(part.trim()));
+  if (parts.length !== 4 || parts.some(n => Number.isNaN(n)) || parts[2] < 0 || parts[3] < 0) {
+    throw new InvalidSelectionError(`Invalid region "${value}" (expected x,y,width,height)`);
+  }
+  const [x, y, width, height] = parts;
+  return { x, y, width, height };
+}
+
+export function hasSelectionCriteria(criteria: SelectionCriteria): boolean {
+  return Boolean(criteria.id || criteria.groupId || criteria.frameId || criteria.region);
+}
+
+/**
+ * Select the non-deleted elements matching every given criterion, plus text
+ * bound to selected containers and, optionally, arrows bound to them
+ */
+export function selectElements(elements: ExcalidrawElement[], criteria: SelectionCriteria): ExcalidrawElement[] {
+  const visible = elements.filter(el => !el.isDeleted);
+
+  const selected = new Set(
+    visible
+      .filter(el => !criteria.id || matchId(el.id, criteria.id))
+      .filter(el => !criteria.groupId || el.groupIds.includes(criteria.groupId))
+      .filter(el => !criteria.frameId || el.frameId === criteria.frameId || el.id === criteria.frameId)
+      .filter(el => !criteria.region || withinRegion(el, criteria.region))
+      .map(el => el.id)
+  );
+
+  if (criteria.includeBoundArrows) {
+    for (const el of visible) {
+      if (el.type === 'arrow' && (
+        (el.startBinding && selected.has(el.startBinding.elementId)) ||
+        (el.endBinding && selected.has(el.endBinding.elementId))
+      )) {
+        selected.add(el.id);
+      }
+    }
+  }
+
+  // Labels travel with their containers
+  for (const el of visible) {
+    if (el.type === 'text' && el.containerId && selected.has(el.containerId)) {
+      selected.add(el.id);
+    }
+  }
+
+  return visible.filter(el => selected.has(el.id));
+}
+
+// Error classes
+export class InvalidSelectionError extends Error {
+  constructor(reason: string) {
+    super(reason);
+    this.name = 'InvalidSelectionError';
+  }
+}